@@ -9,12 +9,32 @@ import {
   UsageInfo,
   UploadedFile,
   SavedConversation,
+  ConversationSearchHit,
+  ConversationSearchQuery,
+  UpdateConversationRequest,
+  TextRange,
   MODEL_CONFIGS,
   DEFAULT_MODEL,
+  DEFAULT_TITLE_MODEL,
   getModelInfo,
   UserRole,
   AdminUser,
+  Organization,
+  OrganizationPlan,
+  Company,
+  Department,
+  PlanSettings,
+  QuotaWarning,
+  QuotaScope,
   FileVisibility,
+  FileCategory,
+  Citation,
+  DatabaseConnection,
+  CreateDatabaseConnectionRequest,
+  UsageQuery,
+  UsageReport,
+  UsageRow,
+  UserImportJob,
 } from './types';
 import { COLORS, ICONS } from './constants';
 import { apiService } from './services/apiService';
@@ -24,6 +44,7 @@ interface AuthState {
   isAuthenticated: boolean;
   user: User | null;
   accessToken: string | null;
+  refreshToken: string | null;
 }
 
 // --- Storage Keys ---
@@ -41,7 +62,7 @@ const loadAuthState = (): AuthState => {
   } catch (e) {
     console.error('Failed to load auth state:', e);
   }
-  return { isAuthenticated: false, user: null, accessToken: null };
+  return { isAuthenticated: false, user: null, accessToken: null, refreshToken: null };
 };
 
 // Save auth state to localStorage
@@ -57,6 +78,32 @@ const GROUPED_MODELS = {
   'Google Gemini': Object.values(MODEL_CONFIGS).filter(m => m.id.startsWith('gemini')),
 };
 
+// Conversations loaded per sidebar page
+const CONVERSATIONS_PAGE_SIZE = 20;
+
+// Sidebar entry for a saved conversation; messages are loaded when opened
+const toChatHistory = (conv: SavedConversation): ChatHistory => ({
+  id: conv.conversationId,
+  title: conv.title,
+  messages: [],
+  updatedAt: new Date(conv.updatedAt).getTime(),
+  pinned: conv.pinned,
+  archived: conv.archived,
+  folder: conv.folder,
+  tags: conv.tags,
+  summarizedMessages: conv.summarizedMessages,
+});
+
+// Conversation changes as applied to the sidebar entry
+const applyChatChanges = (chat: ChatHistory, changes: UpdateConversationRequest): ChatHistory => ({
+  ...chat,
+  ...(changes.title !== undefined ? { title: changes.title } : {}),
+  ...(changes.pinned !== undefined ? { pinned: changes.pinned } : {}),
+  ...(changes.archived !== undefined ? { archived: changes.archived } : {}),
+  ...(changes.folder !== undefined ? { folder: changes.folder || undefined } : {}),
+  ...(changes.tags !== undefined ? { tags: changes.tags } : {}),
+});
+
 // --- Login Modal Component ---
 const LoginModal: React.FC<{
   onLogin: (email: string, password: string) => Promise<void>;
@@ -234,9 +281,16 @@ const SidebarItem: React.FC<{
   active: boolean;
   onClick: () => void;
   onDelete?: () => void;
+  onContextMenu?: (e: React.MouseEvent) => void;
+  dragId?: string;      // makes the item draggable, carrying this id
   children: React.ReactNode;
-}> = ({ active, onClick, onDelete, children }) => (
-  <div className="relative group">
+}> = ({ active, onClick, onDelete, onContextMenu, dragId, children }) => (
+  <div
+    className="relative group"
+    draggable={!!dragId}
+    onDragStart={dragId ? (e) => e.dataTransfer.setData('text/plain', dragId) : undefined}
+    onContextMenu={onContextMenu}
+  >
     <button
       onClick={onClick}
       className={`w-full text-left px-4 py-3 rounded-lg mb-1 transition-all duration-200 flex items-center gap-3 ${
@@ -259,6 +313,364 @@ const SidebarItem: React.FC<{
   </div>
 );
 
+// Message text with [n] citation markers rendered as clickable footnotes
+const MessageContent: React.FC<{
+  content: string;
+  citations?: Citation[];
+  onOpenCitation: (citation: Citation) => void;
+}> = ({ content, citations, onOpenCitation }) => {
+  if (!citations || citations.length === 0) {
+    return <>{content}</>;
+  }
+
+  const parts = content.split(/(\[\d+\])/g);
+  return (
+    <>
+      {parts.map((part, i) => {
+        const marker = part.match(/^\[(\d+)\]$/);
+        const citation = marker && citations.find(c => c.marker === Number(marker[1]));
+        if (!citation) {
+          return <React.Fragment key={i}>{part}</React.Fragment>;
+        }
+        return (
+          <button
+            key={i}
+            onClick={() => onOpenCitation(citation)}
+            className="align-super text-[10px] font-bold text-[#A18E66] hover:underline px-0.5"
+            title={`${citation.fileName}${citation.page ? ` (p.${citation.page})` : ''}`}
+          >
+            [{citation.marker}]
+          </button>
+        );
+      })}
+    </>
+  );
+};
+
+// Text with the given ranges marked (search result highlights)
+const HighlightedText: React.FC<{
+  text: string;
+  highlights: TextRange[];
+}> = ({ text, highlights }) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  highlights.forEach((range, i) => {
+    if (range.start > position) parts.push(text.substring(position, range.start));
+    parts.push(
+      <mark key={i} className="bg-[#A18E66]/30 text-inherit rounded-sm">
+        {text.substring(range.start, range.end)}
+      </mark>
+    );
+    position = range.end;
+  });
+  parts.push(text.substring(position));
+  return <>{parts}</>;
+};
+
+// Loads the next page when scrolled into view (infinite scroll)
+const LoadMoreSentinel: React.FC<{
+  onLoadMore: () => void;
+  loading: boolean;
+}> = ({ onLoadMore, loading }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || loading) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) onLoadMore();
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [onLoadMore, loading]);
+
+  return (
+    <div ref={ref} className="py-3 text-center text-xs opacity-50">
+      {loading ? '読み込み中...' : ''}
+    </div>
+  );
+};
+
+// Download rows as a CSV file
+const downloadCsv = (fileName: string, rows: (string | number)[][]) => {
+  const escape = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = rows.map(fields => fields.map(escape).join(','));
+
+  // BOM so Excel reads non-ASCII text as UTF-8
+  const blob = new Blob(['\uFEFF' + lines.join('\n')], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- Usage Dashboard ---
+
+const USAGE_TOP_USERS = 10;
+
+const formatCost = (cost: number) => `$${cost.toFixed(2)}`;
+
+// Dates from..to (YYYY-MM-DD, inclusive) so days without usage still show up
+const listDates = (from: string, to: string): string[] => {
+  const dates: string[] = [];
+  for (let day = new Date(`${from}T00:00:00Z`); day.toISOString().substring(0, 10) <= to; day.setUTCDate(day.getUTCDate() + 1)) {
+    dates.push(day.toISOString().substring(0, 10));
+  }
+  return dates;
+};
+
+// Month-end cost extrapolated from this month's daily average so far
+const forecastMonthCost = (monthReport: UsageReport): number => {
+  const [year, month, day] = monthReport.to.split('-').map(Number);
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return (monthReport.totals.cost / day) * daysInMonth;
+};
+
+const downloadUsageCsv = (report: UsageReport, labelOf: (row: UsageRow) => string) => {
+  downloadCsv(`usage-${report.groupBy}-${report.from}-${report.to}.csv`, [
+    [report.groupBy, 'name', 'requests', 'input_tokens', 'output_tokens', 'cost_usd', 'file_uploads', 'file_storage_bytes'],
+    ...report.rows.map(row => [
+      row.key, labelOf(row), row.requestCount, row.inputTokens, row.outputTokens,
+      row.cost.toFixed(6), row.fileUploads, row.fileStorageBytes,
+    ]),
+  ]);
+};
+
+// Spend, top users and model split for the admin's scope; the API limits the
+// data to what the admin's role may see
+const UsageDashboard: React.FC<{
+  role: UserRole;
+  organizations: Organization[];
+  companies: Company[];
+}> = ({ role, organizations, companies }) => {
+  const [range, setRange] = useState({ from: '', to: '' });
+  const [organizationId, setOrganizationId] = useState('');
+  const [companyId, setCompanyId] = useState('');
+  const [reports, setReports] = useState<{
+    day: UsageReport;
+    user: UsageReport;
+    model: UsageReport;
+    month: UsageReport;
+  } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsage = async () => {
+    const query: UsageQuery = { ...range, organizationId, companyId };
+    setLoading(true);
+    setError(null);
+    try {
+      const [day, user, model, month] = await Promise.all([
+        apiService.getUsage({ ...query, groupBy: 'day' }),
+        apiService.getUsage({ ...query, groupBy: 'user' }),
+        apiService.getUsage({ ...query, groupBy: 'model' }),
+        // The forecast always looks at the current month
+        apiService.getUsage({ organizationId, companyId, groupBy: 'day' }),
+      ]);
+      setReports({ day, user, model, month });
+      setRange({ from: day.from, to: day.to });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '使用状況の取得に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadUsage();
+  }, [organizationId, companyId]);
+
+  const scopedCompanies = organizationId
+    ? companies.filter(company => company.organizationId === organizationId)
+    : companies;
+
+  const getModelLabel = (row: UsageRow) => getModelInfo(row.key as AIModel)?.name || row.key;
+  const getRowLabel = (row: UsageRow) => row.label || row.key;
+
+  const dailyCosts = reports
+    ? listDates(reports.day.from, reports.day.to).map(date => ({
+      date,
+      cost: reports.day.rows.find(row => row.key === date)?.cost || 0,
+    }))
+    : [];
+  const maxDailyCost = Math.max(...dailyCosts.map(d => d.cost), 0);
+  const topUsers = reports?.user.rows.slice(0, USAGE_TOP_USERS) || [];
+  const modelTokens = (row: UsageRow) => row.inputTokens + row.outputTokens;
+  const totalModelTokens = reports ? reports.model.rows.reduce((sum, row) => sum + modelTokens(row), 0) : 0;
+
+  return (
+    <section>
+      <h3 className="text-sm font-bold text-[#A18E66] uppercase tracking-wider mb-4">
+        使用状況
+      </h3>
+
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <div>
+          <label className="block text-xs font-bold text-[#1E3D6B]/70 mb-1">開始日</label>
+          <input
+            type="date"
+            value={range.from}
+            onChange={(e) => setRange(prev => ({ ...prev, from: e.target.value }))}
+            className="px-3 py-1 border border-[#1E3D6B]/20 rounded-lg text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-[#1E3D6B]/70 mb-1">終了日</label>
+          <input
+            type="date"
+            value={range.to}
+            onChange={(e) => setRange(prev => ({ ...prev, to: e.target.value }))}
+            className="px-3 py-1 border border-[#1E3D6B]/20 rounded-lg text-sm"
+          />
+        </div>
+        {role === 'system_admin' && (
+          <select
+            value={organizationId}
+            onChange={(e) => { setOrganizationId(e.target.value); setCompanyId(''); }}
+            className="px-3 py-1.5 border border-[#1E3D6B]/20 rounded-lg text-sm"
+          >
+            <option value="">すべての組織</option>
+            {organizations.map(org => (
+              <option key={org.organizationId} value={org.organizationId}>{org.name}</option>
+            ))}
+          </select>
+        )}
+        {(role === 'system_admin' || role === 'org_admin') && (
+          <select
+            value={companyId}
+            onChange={(e) => setCompanyId(e.target.value)}
+            className="px-3 py-1.5 border border-[#1E3D6B]/20 rounded-lg text-sm"
+          >
+            <option value="">すべての会社</option>
+            {scopedCompanies.map(company => (
+              <option key={company.companyId} value={company.companyId}>{company.name}</option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={loadUsage}
+          disabled={loading}
+          className="px-4 py-1.5 bg-[#1E3D6B] text-white text-sm font-bold rounded-lg disabled:opacity-50"
+        >
+          {loading ? '読み込み中...' : '表示'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-500 mb-4">{error}</p>}
+
+      {reports && (
+        <div className="space-y-4">
+          {/* Summary */}
+          <div className="grid grid-cols-3 gap-3">
+            <div className="p-4 bg-[#F5F7FA] rounded-xl">
+              <p className="text-xs opacity-60">期間のコスト</p>
+              <p className="text-xl font-bold text-[#1E3D6B]">{formatCost(reports.day.totals.cost)}</p>
+              <p className="text-xs opacity-60">{reports.day.totals.requestCount.toLocaleString()} リクエスト</p>
+            </div>
+            <div className="p-4 bg-[#F5F7FA] rounded-xl">
+              <p className="text-xs opacity-60">今月のコスト</p>
+              <p className="text-xl font-bold text-[#1E3D6B]">{formatCost(reports.month.totals.cost)}</p>
+              <p className="text-xs opacity-60">{reports.month.to} 時点</p>
+            </div>
+            <div className="p-4 bg-[#F5F7FA] rounded-xl">
+              <p className="text-xs opacity-60">今月の予測コスト</p>
+              <p className="text-xl font-bold text-[#A18E66]">{formatCost(forecastMonthCost(reports.month))}</p>
+              <p className="text-xs opacity-60">日平均から算出</p>
+            </div>
+          </div>
+
+          {/* Spend over time */}
+          <div className="p-4 bg-[#F5F7FA] rounded-xl">
+            <div className="flex justify-between items-center mb-3">
+              <p className="text-xs font-bold text-[#1E3D6B]/70">日別コスト</p>
+              <button onClick={() => downloadUsageCsv(reports.day, getRowLabel)} className="text-xs text-[#A18E66] hover:underline">
+                CSVエクスポート
+              </button>
+            </div>
+            <div className="flex items-end gap-px h-32">
+              {dailyCosts.map(({ date, cost }) => (
+                <div
+                  key={date}
+                  className="flex-1 min-w-0 bg-[#1E3D6B]/70 hover:bg-[#A18E66] rounded-t"
+                  style={{ height: maxDailyCost > 0 ? `${(cost / maxDailyCost) * 100}%` : 0 }}
+                  title={`${date}: ${formatCost(cost)}`}
+                />
+              ))}
+            </div>
+            <div className="flex justify-between text-[10px] opacity-60 mt-1">
+              <span>{reports.day.from}</span>
+              <span>{reports.day.to}</span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {/* Top users */}
+            <div className="p-4 bg-[#F5F7FA] rounded-xl">
+              <div className="flex justify-between items-center mb-3">
+                <p className="text-xs font-bold text-[#1E3D6B]/70">利用上位ユーザー</p>
+                <button onClick={() => downloadUsageCsv(reports.user, getRowLabel)} className="text-xs text-[#A18E66] hover:underline">
+                  CSVエクスポート
+                </button>
+              </div>
+              {topUsers.length === 0 ? (
+                <p className="text-xs opacity-60">データがありません</p>
+              ) : (
+                <table className="w-full text-xs">
+                  <tbody>
+                    {topUsers.map(row => (
+                      <tr key={row.key} className="border-b border-[#1E3D6B]/5 last:border-0">
+                        <td className="py-1 truncate max-w-[10rem]">{getRowLabel(row)}</td>
+                        <td className="py-1 text-right opacity-60">{row.requestCount.toLocaleString()}回</td>
+                        <td className="py-1 text-right font-bold">{formatCost(row.cost)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            {/* Per-model token split */}
+            <div className="p-4 bg-[#F5F7FA] rounded-xl">
+              <div className="flex justify-between items-center mb-3">
+                <p className="text-xs font-bold text-[#1E3D6B]/70">モデル別トークン</p>
+                <button onClick={() => downloadUsageCsv(reports.model, getModelLabel)} className="text-xs text-[#A18E66] hover:underline">
+                  CSVエクスポート
+                </button>
+              </div>
+              {reports.model.rows.length === 0 ? (
+                <p className="text-xs opacity-60">データがありません</p>
+              ) : (
+                <div className="space-y-2">
+                  {reports.model.rows.map(row => (
+                    <div key={row.key}>
+                      <div className="flex justify-between text-xs">
+                        <span className="truncate">{getModelLabel(row)}</span>
+                        <span className="opacity-60">{modelTokens(row).toLocaleString()} tokens</span>
+                      </div>
+                      <div className="h-1.5 bg-[#1E3D6B]/10 rounded-full">
+                        <div
+                          className="h-full bg-[#A18E66] rounded-full"
+                          style={{ width: `${totalModelTokens > 0 ? (modelTokens(row) / totalModelTokens) * 100 : 0}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
 const App: React.FC = () => {
   // Auth state
   const [authState, setAuthState] = useState<AuthState>(loadAuthState);
@@ -271,15 +683,51 @@ const App: React.FC = () => {
   const [histories, setHistories] = useState<ChatHistory[]>([]);
   const [activeChatId, setActiveChatId] = useState<string | null>(null);
   const [backendConversationId, setBackendConversationId] = useState<string | null>(null);
+  // Continuation tokens of the paged lists; null once the last page is loaded
+  const [conversationsNextToken, setConversationsNextToken] = useState<string | null>(null);
+  const [conversationsLoading, setConversationsLoading] = useState(false);
+
+  // Sidebar organization: folders (from the backend plus ones created here
+  // and not used yet), expanded folders, the archive and the context menu
+  const [conversationFolders, setConversationFolders] = useState<string[]>([]);
+  const [newFolders, setNewFolders] = useState<string[]>([]);
+  const [expandedFolders, setExpandedFolders] = useState<string[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [archivedLoading, setArchivedLoading] = useState(false);
+  const [chatMenu, setChatMenu] = useState<{ chatId: string; x: number; y: number } | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  // Conversation search in the sidebar; results replace the history list
+  // while a query is entered
+  const [searchQuery, setSearchQuery] = useState<ConversationSearchQuery>({ q: '' });
+  const [showSearchFilters, setShowSearchFilters] = useState(false);
+  const [searchResults, setSearchResults] = useState<ConversationSearchHit[] | null>(null);
+  const [searchLoading, setSearchLoading] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
 
   // File management - both local preview and backend uploaded
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
+  const [filesNextToken, setFilesNextToken] = useState<string | null>(null);
+  const [filesLoading, setFilesLoading] = useState(false);
   const [selectedFileIds, setSelectedFileIds] = useState<string[]>([]);
   const [isUploading, setIsUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
   const [uploadVisibility, setUploadVisibility] = useState<FileVisibility>('private');
+  const [uploadCategory, setUploadCategory] = useState<FileCategory>('chat_attachment');
+
+  // External database connections queried alongside the selected files
+  const [databaseConnections, setDatabaseConnections] = useState<DatabaseConnection[]>([]);
+  const [selectedConnectionIds, setSelectedConnectionIds] = useState<string[]>([]);
+  const [connectionForm, setConnectionForm] = useState<CreateDatabaseConnectionRequest>({
+    name: '', type: 'postgresql', host: '', database: '', username: '', password: '', ssl: true,
+  });
+  const [connectionSaving, setConnectionSaving] = useState(false);
+  const [connectionError, setConnectionError] = useState<string | null>(null);
 
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [openCitation, setOpenCitation] = useState<Citation | null>(null);
   const [showSettings, setShowSettings] = useState(false);
   const [showFilesPanel, setShowFilesPanel] = useState(false);
   const [showAdminPanel, setShowAdminPanel] = useState(false);
@@ -287,6 +735,7 @@ const App: React.FC = () => {
 
   // Admin state
   const [adminUsers, setAdminUsers] = useState<AdminUser[]>([]);
+  const [usersNextToken, setUsersNextToken] = useState<string | null>(null);
   const [adminLoading, setAdminLoading] = useState(false);
   const [showCreateUserForm, setShowCreateUserForm] = useState(false);
   const [newUserData, setNewUserData] = useState({
@@ -298,6 +747,33 @@ const App: React.FC = () => {
     departmentId: '',
   });
   const [createUserResult, setCreateUserResult] = useState<{ userId: string; temporaryPassword: string } | null>(null);
+  const [editingUser, setEditingUser] = useState<{
+    userId: string;
+    name: string;
+    role: UserRole;
+    organizationId: string;
+    companyId: string;
+    departmentId: string;
+  } | null>(null);
+  const [inviteResult, setInviteResult] = useState<{ userId: string; temporaryPassword: string } | null>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importCompanyId, setImportCompanyId] = useState('');
+  const [importJob, setImportJob] = useState<UserImportJob | null>(null);
+  const [importRunning, setImportRunning] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  // Tenant hierarchy (organizations > companies > departments)
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [departmentsByCompany, setDepartmentsByCompany] = useState<Record<string, Department[]>>({});
+  const [expandedCompanyId, setExpandedCompanyId] = useState<string | null>(null);
+  const [newOrganization, setNewOrganization] = useState({ name: '', plan: 'free' as OrganizationPlan });
+  const [newCompany, setNewCompany] = useState({ name: '', organizationId: '' });
+  const [newDepartmentName, setNewDepartmentName] = useState('');
+
+  // Plan settings (system admins) and quota warnings from the last answer
+  const [plans, setPlans] = useState<PlanSettings[]>([]);
+  const [quotaWarnings, setQuotaWarnings] = useState<QuotaWarning[]>([]);
 
   const scrollRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -305,12 +781,32 @@ const App: React.FC = () => {
   // Current user from auth state
   const currentUser: User | null = authState.user;
 
-  // Set user ID in apiService
+  // Authenticate API requests with the current session tokens
   useEffect(() => {
-    if (currentUser?.id) {
-      apiService.setUserId(currentUser.id);
-    }
-  }, [currentUser?.id]);
+    apiService.setSessionTokens(
+      authState.accessToken
+        ? { accessToken: authState.accessToken, refreshToken: authState.refreshToken ?? null }
+        : null
+    );
+  }, [authState.accessToken, authState.refreshToken]);
+
+  // Persist tokens rotated by ApiService; sign out locally when refresh fails
+  useEffect(() => {
+    apiService.onSessionChange((tokens) => {
+      setAuthState(prev => {
+        const next: AuthState = tokens
+          ? { ...prev, accessToken: tokens.accessToken, refreshToken: tokens.refreshToken }
+          : { isAuthenticated: false, user: null, accessToken: null, refreshToken: null };
+        saveAuthState(next);
+        return next;
+      });
+      if (!tokens) {
+        setAuthError('セッションの有効期限が切れました。再度ログインしてください。');
+        setShowLoginModal(true);
+      }
+    });
+    return () => apiService.onSessionChange(null);
+  }, []);
 
   // Auth handlers
   const handleLogin = async (email: string, password: string) => {
@@ -333,6 +829,7 @@ const App: React.FC = () => {
         isAuthenticated: true,
         user,
         accessToken: result.accessToken,
+        refreshToken: result.refreshToken,
       };
       setAuthState(newAuthState);
       saveAuthState(newAuthState);
@@ -372,16 +869,24 @@ const App: React.FC = () => {
     }
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    try {
+      await apiService.signOut();
+    } catch (error) {
+      console.error('Sign out failed:', error);
+    }
     const newAuthState: AuthState = {
       isAuthenticated: false,
       user: null,
       accessToken: null,
+      refreshToken: null,
     };
     setAuthState(newAuthState);
     saveAuthState(newAuthState);
     setHistories([]);
     setUploadedFiles([]);
+    setConversationsNextToken(null);
+    setFilesNextToken(null);
     setActiveChatId(null);
   };
 
@@ -395,32 +900,35 @@ const App: React.FC = () => {
       if (isOnline && authState.isAuthenticated && currentUser) {
         // Load uploaded files from backend
         try {
-          const files = await apiService.listFiles({
-            userRole: currentUser.role,
-            organizationId: currentUser.organizationId,
-            companyId: currentUser.companyId,
-            departmentId: currentUser.departmentId,
-          });
+          const { files, nextToken } = await apiService.listFiles();
           setUploadedFiles(files);
+          setFilesNextToken(nextToken || null);
         } catch (error) {
           console.error('Failed to load files:', error);
         }
 
+        try {
+          setDatabaseConnections(await apiService.listDatabaseConnections());
+        } catch (error) {
+          console.error('Failed to load database connections:', error);
+        }
+
         // Load conversation history from backend
         try {
-          const conversations = await apiService.listConversations(20);
+          const { conversations, nextToken } = await apiService.listConversations({ limit: CONVERSATIONS_PAGE_SIZE });
           if (conversations.length > 0) {
-            const chatHistories: ChatHistory[] = conversations.map(conv => ({
-              id: conv.conversationId,
-              title: conv.title,
-              messages: [],
-              updatedAt: new Date(conv.updatedAt).getTime(),
-            }));
-            setHistories(chatHistories);
+            setHistories(conversations.map(toChatHistory));
           }
+          setConversationsNextToken(nextToken || null);
         } catch (error) {
           console.error('Failed to load conversations:', error);
         }
+
+        try {
+          setConversationFolders(await apiService.listConversationFolders());
+        } catch (error) {
+          console.error('Failed to load folders:', error);
+        }
       }
 
       // Create initial chat if authenticated and none exist
@@ -439,6 +947,35 @@ const App: React.FC = () => {
   }, [histories, activeChatId]);
 
   const activeChat = histories.find(h => h.id === activeChatId);
+
+  // Folders shown in the sidebar: saved ones, ones created here and any found
+  // on loaded conversations
+  const sidebarFolders = Array.from(new Set([
+    ...conversationFolders,
+    ...newFolders,
+    ...histories.filter(h => h.folder && !h.archived).map(h => h.folder!),
+  ])).sort((a, b) => a.localeCompare(b, 'ja'));
+  const menuChat = chatMenu ? histories.find(h => h.id === chatMenu.chatId) : undefined;
+
+  const renderChatItem = (h: ChatHistory) => (
+    <SidebarItem
+      key={h.id}
+      active={activeChatId === h.id}
+      onClick={() => handleSelectChat(h.id)}
+      onDelete={() => deleteChat(h.id)}
+      dragId={h.id}
+      onContextMenu={(e) => {
+        e.preventDefault();
+        setChatMenu({ chatId: h.id, x: e.clientX, y: e.clientY });
+      }}
+    >
+      <ICONS.History />
+      <span className="truncate flex-1">{h.title}</span>
+      {h.tags && h.tags.length > 0 && (
+        <span className="text-[10px] opacity-60 truncate max-w-[5rem]">#{h.tags.join(' #')}</span>
+      )}
+    </SidebarItem>
+  );
   const currentModelInfo = getModelInfo(activeModel);
 
   // Load conversation messages when selecting a saved conversation
@@ -457,11 +994,12 @@ const App: React.FC = () => {
             outputTokens: msg.outputTokens || 0,
             cost: msg.cost,
           } : undefined,
+          citations: msg.citations,
         }));
 
         setHistories(prev => prev.map(h =>
           h.id === conversationId
-            ? { ...h, messages: loadedMessages }
+            ? { ...h, messages: loadedMessages, summarizedMessages: conversation.summarizedMessages }
             : h
         ));
         setBackendConversationId(conversationId);
@@ -471,6 +1009,198 @@ const App: React.FC = () => {
     }
   };
 
+  // Append the next page of saved conversations (infinite scroll in the sidebar)
+  const loadMoreConversations = async () => {
+    if (!conversationsNextToken || conversationsLoading) return;
+
+    setConversationsLoading(true);
+    try {
+      const { conversations, nextToken } = await apiService.listConversations({
+        limit: CONVERSATIONS_PAGE_SIZE,
+        nextToken: conversationsNextToken,
+      });
+      mergeConversations(conversations);
+      setConversationsNextToken(nextToken || null);
+    } catch (error) {
+      console.error('Failed to load more conversations:', error);
+    } finally {
+      setConversationsLoading(false);
+    }
+  };
+
+  // Load conversations into the sidebar without duplicating ones already there
+  const mergeConversations = (conversations: SavedConversation[]) => {
+    setHistories(prev => [
+      ...prev,
+      ...conversations.filter(conv => !prev.some(h => h.id === conv.conversationId)).map(toChatHistory),
+    ]);
+  };
+
+  // Rename, pin, archive, file or tag a conversation. The sidebar is updated
+  // right away; chats not saved to the backend yet are only changed locally.
+  const updateChat = async (chatId: string, changes: UpdateConversationRequest) => {
+    setHistories(prev => prev.map(h => (h.id === chatId ? applyChatChanges(h, changes) : h)));
+    if (changes.folder) {
+      setNewFolders(prev => prev.filter(folder => folder !== changes.folder));
+    }
+
+    if (apiStatus === 'online') {
+      try {
+        await apiService.updateConversation(chatId, changes);
+        if (changes.folder !== undefined || changes.archived !== undefined) {
+          setConversationFolders(await apiService.listConversationFolders());
+        }
+      } catch (error) {
+        console.error('Failed to update conversation:', error);
+      }
+    }
+  };
+
+  const toggleFolder = async (folder: string) => {
+    if (expandedFolders.includes(folder)) {
+      setExpandedFolders(prev => prev.filter(f => f !== folder));
+      return;
+    }
+
+    setExpandedFolders(prev => [...prev, folder]);
+    if (apiStatus !== 'online' || newFolders.includes(folder)) return;
+    try {
+      const { conversations } = await apiService.listConversations({ folder, limit: 100 });
+      mergeConversations(conversations);
+    } catch (error) {
+      console.error('Failed to load folder:', error);
+    }
+  };
+
+  const toggleArchived = async () => {
+    if (showArchived) {
+      setShowArchived(false);
+      return;
+    }
+
+    setShowArchived(true);
+    if (apiStatus !== 'online') return;
+    setArchivedLoading(true);
+    try {
+      const { conversations } = await apiService.listConversations({ archived: true, limit: 100 });
+      mergeConversations(conversations);
+    } catch (error) {
+      console.error('Failed to load archived conversations:', error);
+    } finally {
+      setArchivedLoading(false);
+    }
+  };
+
+  const handleCreateFolder = () => {
+    const name = prompt('新しいフォルダ名')?.trim();
+    if (!name) return;
+    if (!conversationFolders.includes(name) && !newFolders.includes(name)) {
+      setNewFolders(prev => [...prev, name]);
+    }
+    setExpandedFolders(prev => (prev.includes(name) ? prev : [...prev, name]));
+  };
+
+  // Drop a dragged chat on a folder ('' takes it out of its folder)
+  const handleDropChat = (e: React.DragEvent, folder: string) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const chatId = e.dataTransfer.getData('text/plain');
+    const chat = histories.find(h => h.id === chatId);
+    if (chat && (chat.folder || '') !== folder) {
+      updateChat(chatId, { folder: folder || null });
+    }
+  };
+
+  const dropHandlers = (folder: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(folder);
+    },
+    onDragLeave: () => setDropTarget(prev => (prev === folder ? null : prev)),
+    onDrop: (e: React.DragEvent) => handleDropChat(e, folder),
+  });
+
+  const handleRenameChat = (chat: ChatHistory) => {
+    const title = prompt('会話の名前', chat.title)?.trim();
+    if (title && title !== chat.title) {
+      updateChat(chat.id, { title });
+    }
+  };
+
+  const handleMoveChatToFolder = (chat: ChatHistory) => {
+    const folder = prompt('移動先のフォルダ名 (空欄でフォルダから出す)', chat.folder || '');
+    if (folder === null || folder.trim() === (chat.folder || '')) return;
+    updateChat(chat.id, { folder: folder.trim() || null });
+  };
+
+  const handleEditChatTags = (chat: ChatHistory) => {
+    const input = prompt('タグ (カンマ区切り)', (chat.tags || []).join(', '));
+    if (input === null) return;
+    const tags = Array.from(new Set(input.split(/[,、]/).map(tag => tag.trim()).filter(Boolean)));
+    updateChat(chat.id, { tags });
+  };
+
+  // Close the context menu on any click elsewhere
+  useEffect(() => {
+    if (!chatMenu) return;
+    const close = () => setChatMenu(null);
+    window.addEventListener('click', close);
+    return () => window.removeEventListener('click', close);
+  }, [chatMenu]);
+
+  // Search as the user types (debounced); an empty query shows the history again
+  useEffect(() => {
+    if (!searchQuery.q.trim() || !authState.isAuthenticated) {
+      setSearchResults(null);
+      setSearchError(null);
+      setSearchLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearchLoading(true);
+      try {
+        const results = await apiService.searchConversations({ ...searchQuery, q: searchQuery.q.trim() });
+        if (!cancelled) {
+          setSearchResults(results);
+          setSearchError(null);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setSearchError(error instanceof Error ? error.message : '検索に失敗しました');
+        }
+      } finally {
+        if (!cancelled) setSearchLoading(false);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, authState.isAuthenticated]);
+
+  // Open a search result; conversations not yet loaded in the sidebar are
+  // added to it
+  const handleOpenSearchResult = async (hit: ConversationSearchHit) => {
+    const chat = histories.find(h => h.id === hit.conversationId);
+    if (!chat) {
+      setHistories(prev => [...prev, {
+        id: hit.conversationId,
+        title: hit.title,
+        messages: [],
+        updatedAt: new Date(hit.updatedAt).getTime(),
+      }]);
+    }
+    setActiveChatId(hit.conversationId);
+
+    if (!chat || chat.messages.length === 0) {
+      await loadConversationMessages(hit.conversationId);
+    } else {
+      setBackendConversationId(hit.conversationId);
+    }
+  };
+
   const handleSelectChat = async (chatId: string) => {
     setActiveChatId(chatId);
     const chat = histories.find(h => h.id === chatId);
@@ -496,24 +1226,60 @@ const App: React.FC = () => {
 
     const updatedMessages = [...(activeChat?.messages || []), userMsg];
 
+    // The first message names the chat until the generated title arrives
     setHistories(prev => prev.map(h =>
       h.id === activeChatId
-        ? { ...h, messages: updatedMessages, updatedAt: Date.now(), title: input.substring(0, 15) }
+        ? {
+          ...h,
+          messages: updatedMessages,
+          updatedAt: Date.now(),
+          ...(h.messages.length === 0 ? { title: input.substring(0, 15) } : {}),
+        }
         : h
     ));
     setInput('');
     setIsLoading(true);
 
+    // Render partial output as it streams in
+    const chatKey = activeChatId;
+    const aiMsgId = (Date.now() + 1).toString();
+    let streamedContent = '';
+
     try {
-      const response = await apiService.generateChatResponse(
+      // The server rebuilds a saved conversation's history itself; only the
+      // new turn is sent for it
+      const response = await apiService.streamChatResponse(
         activeModel,
-        updatedMessages,
+        backendConversationId ? [userMsg] : updatedMessages,
         [], // systemFiles - now using backend files
         [], // userFiles - now using backend files
         {
           conversationId: backendConversationId || undefined,
           fileIds: selectedFileIds.length > 0 ? selectedFileIds : undefined,
+          connectionIds: selectedConnectionIds.length > 0 ? selectedConnectionIds : undefined,
           saveHistory: true,
+        },
+        (text) => {
+          streamedContent += text;
+          setIsStreaming(true);
+          const partialMsg: Message = {
+            id: aiMsgId,
+            role: 'assistant',
+            content: streamedContent,
+            timestamp: Date.now(),
+            model: activeModel,
+          };
+          setHistories(prev => prev.map(h =>
+            h.id === chatKey
+              ? { ...h, messages: [...updatedMessages, partialMsg] }
+              : h
+          ));
+        },
+        (conversationId, title) => {
+          // Arrives after the answer; the chat may still carry its local id
+          setHistories(prev => prev.map(h =>
+            h.id === conversationId || h.id === chatKey ? { ...h, title } : h
+          ));
         }
       );
 
@@ -529,6 +1295,8 @@ const App: React.FC = () => {
         setActiveChatId(response.conversationId);
       }
 
+      setQuotaWarnings(response.quotaWarnings || []);
+
       // Calculate cost based on usage and model pricing
       const modelInfo = getModelInfo(activeModel);
       let usage: UsageInfo | undefined;
@@ -543,35 +1311,42 @@ const App: React.FC = () => {
       }
 
       const aiMsg: Message = {
-        id: (Date.now() + 1).toString(),
+        id: aiMsgId,
         role: 'assistant',
         content: response.content,
         timestamp: Date.now(),
         model: activeModel,
         usage,
+        citations: response.citations,
       };
 
       setHistories(prev => prev.map(h =>
         h.id === (response.conversationId || activeChatId)
-          ? { ...h, messages: [...updatedMessages, aiMsg], updatedAt: Date.now() }
+          ? {
+              ...h,
+              messages: [...updatedMessages, aiMsg],
+              updatedAt: Date.now(),
+              summarizedMessages: response.summarizedMessages,
+            }
           : h
       ));
     } catch (error) {
       console.error(error);
       const errorMsg: Message = {
-        id: (Date.now() + 1).toString(),
+        id: aiMsgId,
         role: 'assistant',
-        content: `エラーが発生しました: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        content: `${streamedContent ? `${streamedContent}\n\n` : ''}エラーが発生しました: ${error instanceof Error ? error.message : 'Unknown error'}`,
         timestamp: Date.now(),
         model: activeModel
       };
       setHistories(prev => prev.map(h =>
-        h.id === activeChatId
+        h.id === chatKey
           ? { ...h, messages: [...updatedMessages, errorMsg], updatedAt: Date.now() }
           : h
       ));
     } finally {
       setIsLoading(false);
+      setIsStreaming(false);
     }
   };
 
@@ -622,22 +1397,23 @@ const App: React.FC = () => {
       'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
       'text/plain',
       'text/csv',
+      'text/tab-separated-values',
+      'application/vnd.ms-excel',
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
     ];
 
     if (!supportedTypes.includes(file.type)) {
-      alert(`未対応のファイル形式です。対応形式: PDF, DOCX, TXT, CSV, XLSX`);
+      alert(`未対応のファイル形式です。対応形式: PDF, DOCX, TXT, CSV, TSV, XLSX`);
       return;
     }
 
     setIsUploading(true);
+    setUploadProgress(0);
     try {
       const result = await apiService.uploadFile(file, {
         visibility: uploadVisibility,
-        userRole: currentUser?.role,
-        organizationId: currentUser?.organizationId,
-        companyId: currentUser?.companyId,
-        departmentId: currentUser?.departmentId,
+        category: uploadCategory,
+        onProgress: setUploadProgress,
       });
       const newFile: UploadedFile = {
         fileId: result.fileId,
@@ -647,6 +1423,7 @@ const App: React.FC = () => {
         uploadedAt: result.uploadedAt,
         fileSize: file.size,
         visibility: uploadVisibility,
+        category: uploadCategory,
       };
       setUploadedFiles(prev => [newFile, ...prev]);
       // Auto-select the newly uploaded file
@@ -662,6 +1439,40 @@ const App: React.FC = () => {
     }
   };
 
+  // Append the next page of files (infinite scroll in the files panel)
+  const loadMoreFiles = async () => {
+    if (!filesNextToken || filesLoading) return;
+
+    setFilesLoading(true);
+    try {
+      const { files, nextToken } = await apiService.listFiles({ nextToken: filesNextToken });
+      setUploadedFiles(prev => [...prev, ...files.filter(f => !prev.some(p => p.fileId === f.fileId))]);
+      setFilesNextToken(nextToken || null);
+    } catch (error) {
+      console.error('Failed to load more files:', error);
+    } finally {
+      setFilesLoading(false);
+    }
+  };
+
+  // Poll while uploaded files are still being ingested on the backend
+  const hasPendingFiles = uploadedFiles.some(f => f.status === 'uploading' || f.status === 'processing');
+  useEffect(() => {
+    if (!hasPendingFiles || !authState.isAuthenticated) return;
+
+    const timer = setInterval(async () => {
+      try {
+        // Refresh the first page only; files already loaded from later
+        // pages are kept
+        const { files } = await apiService.listFiles();
+        setUploadedFiles(prev => [...files, ...prev.filter(f => !files.some(p => p.fileId === f.fileId))]);
+      } catch (error) {
+        console.error('Failed to refresh file status:', error);
+      }
+    }, 3000);
+    return () => clearInterval(timer);
+  }, [hasPendingFiles, authState.isAuthenticated]);
+
   const handleDeleteFile = async (fileId: string) => {
     try {
       await apiService.deleteFile(fileId);
@@ -681,6 +1492,41 @@ const App: React.FC = () => {
     );
   };
 
+  const toggleConnectionSelection = (connectionId: string) => {
+    setSelectedConnectionIds(prev =>
+      prev.includes(connectionId)
+        ? prev.filter(id => id !== connectionId)
+        : [...prev, connectionId]
+    );
+  };
+
+  const handleCreateConnection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setConnectionSaving(true);
+    setConnectionError(null);
+    try {
+      const connection = await apiService.createDatabaseConnection(connectionForm);
+      setDatabaseConnections(prev => [connection, ...prev]);
+      setConnectionForm(prev => ({ ...prev, name: '', host: '', port: undefined, database: '', username: '', password: '' }));
+    } catch (error) {
+      setConnectionError(error instanceof Error ? error.message : 'データベース接続の追加に失敗しました');
+    } finally {
+      setConnectionSaving(false);
+    }
+  };
+
+  const handleDeleteConnection = async (connectionId: string) => {
+    if (!confirm('このデータベース接続を削除しますか？')) return;
+    try {
+      await apiService.deleteDatabaseConnection(connectionId);
+      setDatabaseConnections(prev => prev.filter(c => c.connectionId !== connectionId));
+      setSelectedConnectionIds(prev => prev.filter(id => id !== connectionId));
+    } catch (error) {
+      console.error('Failed to delete database connection:', error);
+      alert('データベース接続の削除に失敗しました');
+    }
+  };
+
   // Admin handlers
   const isAdmin = currentUser && ['system_admin', 'org_admin', 'company_admin'].includes(currentUser.role);
 
@@ -689,8 +1535,24 @@ const App: React.FC = () => {
 
     setAdminLoading(true);
     try {
-      const users = await apiService.listUsers(currentUser.id);
+      const { users, nextToken } = await apiService.listUsers();
       setAdminUsers(users);
+      setUsersNextToken(nextToken || null);
+    } catch (error) {
+      console.error('Failed to load users:', error);
+    } finally {
+      setAdminLoading(false);
+    }
+  };
+
+  const loadMoreAdminUsers = async () => {
+    if (!usersNextToken || adminLoading) return;
+
+    setAdminLoading(true);
+    try {
+      const { users, nextToken } = await apiService.listUsers({ nextToken: usersNextToken });
+      setAdminUsers(prev => [...prev, ...users.filter(u => !prev.some(p => p.userId === u.userId))]);
+      setUsersNextToken(nextToken || null);
     } catch (error) {
       console.error('Failed to load users:', error);
     } finally {
@@ -704,12 +1566,12 @@ const App: React.FC = () => {
     setAdminLoading(true);
     setCreateUserResult(null);
     try {
-      const result = await apiService.createUser(currentUser.id, {
+      const result = await apiService.createUser({
         email: newUserData.email,
         name: newUserData.name,
         role: newUserData.role,
         organizationId: newUserData.organizationId || undefined,
-        companyId: newUserData.companyId || undefined,
+        companyId: newUserData.companyId || getCreateUserCompanyId() || undefined,
         departmentId: newUserData.departmentId || undefined,
       });
       setCreateUserResult(result);
@@ -731,6 +1593,306 @@ const App: React.FC = () => {
     }
   };
 
+  // Admins manage users below them in the role hierarchy, never themselves
+  const canManageUser = (user: AdminUser) =>
+    user.userId !== currentUser?.id && getAllowedRoles().includes(user.role);
+
+  const handleEditUser = (user: AdminUser) => {
+    setEditingUser({
+      userId: user.userId,
+      name: user.name,
+      role: user.role,
+      organizationId: user.organizationId || '',
+      companyId: user.companyId || '',
+      departmentId: user.departmentId || '',
+    });
+    if (user.companyId && !departmentsByCompany[user.companyId]) {
+      loadDepartments(user.companyId);
+    }
+  };
+
+  const handleSelectEditingCompany = (companyId: string) => {
+    setEditingUser(prev => prev && { ...prev, companyId, departmentId: '' });
+    if (companyId && !departmentsByCompany[companyId]) {
+      loadDepartments(companyId);
+    }
+  };
+
+  const handleSaveUser = async () => {
+    if (!editingUser) return;
+    try {
+      const updated = await apiService.updateUser(editingUser.userId, {
+        name: editingUser.name,
+        role: editingUser.role,
+        // Admins below system admin cannot move users out of their own tenant
+        ...(currentUser?.role === 'system_admin' ? { organizationId: editingUser.organizationId || null } : {}),
+        ...(canManageCompanies ? { companyId: editingUser.companyId || null } : {}),
+        departmentId: editingUser.departmentId || null,
+      });
+      setAdminUsers(prev => prev.map(user => (user.userId === updated.userId ? updated : user)));
+      setEditingUser(null);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'ユーザーの更新に失敗しました');
+    }
+  };
+
+  const handleToggleUserDisabled = async (user: AdminUser) => {
+    if (!user.disabled && !confirm(`${user.name} を無効化しますか？ログイン中のセッションも終了します。`)) return;
+    try {
+      await apiService.setUserDisabled(user.userId, !user.disabled);
+      setAdminUsers(prev => prev.map(u => (u.userId === user.userId ? { ...u, disabled: !user.disabled } : u)));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'ユーザーの更新に失敗しました');
+    }
+  };
+
+  const handleDeleteUser = async (user: AdminUser) => {
+    if (!confirm(`${user.name} を削除しますか？この操作は取り消せません。`)) return;
+    try {
+      await apiService.deleteUser(user.userId);
+      setAdminUsers(prev => prev.filter(u => u.userId !== user.userId));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'ユーザーの削除に失敗しました');
+    }
+  };
+
+  const handleResendInvite = async (user: AdminUser) => {
+    try {
+      const result = await apiService.resendInvite(user.userId);
+      setInviteResult({ userId: user.userId, temporaryPassword: result.temporaryPassword });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '招待の再送に失敗しました');
+    }
+  };
+
+  // Keep resuming the import until every row is processed. Each batch returns
+  // only the temporary passwords it created, so earlier ones are carried over.
+  const runUserImport = async (start: () => Promise<UserImportJob>, previous?: UserImportJob) => {
+    setImportRunning(true);
+    setImportError(null);
+    const withPasswords = (job: UserImportJob, earlier?: UserImportJob): UserImportJob => {
+      const passwords = new Map((earlier?.rows || []).map(row => [row.line, row.temporaryPassword]));
+      return {
+        ...job,
+        rows: job.rows.map(row => ({ ...row, temporaryPassword: row.temporaryPassword || passwords.get(row.line) })),
+      };
+    };
+    try {
+      let job = withPasswords(await start(), previous);
+      setImportJob(job);
+      while (job.status === 'in_progress') {
+        job = withPasswords(await apiService.resumeUserImport(job.jobId), job);
+        setImportJob(job);
+      }
+      await loadAdminUsers();
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'インポートに失敗しました');
+    } finally {
+      setImportRunning(false);
+    }
+  };
+
+  const handleStartImport = () => {
+    if (!importFile) return;
+    const companyId = canManageCompanies ? importCompanyId : undefined;
+    runUserImport(() => apiService.startUserImport(importFile, companyId));
+  };
+
+  const handleResumeImport = () => {
+    if (!importJob) return;
+    runUserImport(() => apiService.resumeUserImport(importJob.jobId), importJob);
+  };
+
+  const handleDownloadImportReport = (job: UserImportJob) => {
+    downloadCsv(`user-import-${job.createdAt.substring(0, 10)}.csv`, [
+      ['line', 'email', 'name', 'role', 'department', 'status', 'temporary_password', 'error'],
+      ...job.rows.map(row => [
+        row.line, row.email, row.name, row.role, row.department || '',
+        row.status, row.temporaryPassword || '', row.error || '',
+      ]),
+    ]);
+  };
+
+  // Tenant handlers
+  const loadTenants = async () => {
+    if (!authState.accessToken || !currentUser) return;
+
+    try {
+      const [orgs, comps] = await Promise.all([
+        apiService.listOrganizations(),
+        apiService.listCompanies(),
+      ]);
+      setOrganizations(orgs);
+      setCompanies(comps);
+      // Company admins only ever pick departments of their own company
+      if (currentUser.role === 'company_admin' && currentUser.companyId) {
+        await loadDepartments(currentUser.companyId);
+      }
+      if (currentUser.role === 'system_admin') {
+        setPlans(await apiService.listPlans());
+      }
+    } catch (error) {
+      console.error('Failed to load organizations:', error);
+    }
+  };
+
+  const loadDepartments = async (companyId: string) => {
+    try {
+      const departments = await apiService.listDepartments(companyId);
+      setDepartmentsByCompany(prev => ({ ...prev, [companyId]: departments }));
+    } catch (error) {
+      console.error('Failed to load departments:', error);
+    }
+  };
+
+  // Company admins create users in their own company without picking one
+  const getCreateUserCompanyId = () =>
+    currentUser?.role === 'company_admin' ? currentUser.companyId || '' : newUserData.companyId;
+
+  const getOrganizationName = (organizationId?: string) =>
+    organizations.find(org => org.organizationId === organizationId)?.name || organizationId;
+
+  const getCompanyName = (companyId?: string) =>
+    companies.find(company => company.companyId === companyId)?.name || companyId;
+
+  const handleSelectUserCompany = (companyId: string) => {
+    setNewUserData(prev => ({ ...prev, companyId, departmentId: '' }));
+    if (companyId && !departmentsByCompany[companyId]) {
+      loadDepartments(companyId);
+    }
+  };
+
+  const handleCreateOrganization = async () => {
+    try {
+      const organization = await apiService.createOrganization({
+        name: newOrganization.name,
+        plan: newOrganization.plan,
+      });
+      setOrganizations(prev => [organization, ...prev]);
+      setNewOrganization({ name: '', plan: 'free' });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '組織の作成に失敗しました');
+    }
+  };
+
+  const handleUpdateTitleModel = async (organization: Organization, titleModel: AIModel) => {
+    try {
+      const updated = await apiService.updateOrganization(organization.organizationId, { titleModel });
+      setOrganizations(prev => prev.map(org => (org.organizationId === updated.organizationId ? updated : org)));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'タイトル生成モデルの保存に失敗しました');
+    }
+  };
+
+  const handleDeleteOrganization = async (organization: Organization) => {
+    if (!confirm(`組織「${organization.name}」を削除しますか？`)) return;
+    try {
+      await apiService.deleteOrganization(organization.organizationId);
+      setOrganizations(prev => prev.filter(org => org.organizationId !== organization.organizationId));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '組織の削除に失敗しました');
+    }
+  };
+
+  const handleCreateCompany = async () => {
+    const organizationId = newCompany.organizationId || currentUser?.organizationId || '';
+    try {
+      const company = await apiService.createCompany({ organizationId, name: newCompany.name });
+      setCompanies(prev => [...prev, company]);
+      setNewCompany({ name: '', organizationId: newCompany.organizationId });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '会社の作成に失敗しました');
+    }
+  };
+
+  const handleDeleteCompany = async (company: Company) => {
+    if (!confirm(`会社「${company.name}」を削除しますか？`)) return;
+    try {
+      await apiService.deleteCompany(company.companyId);
+      setCompanies(prev => prev.filter(c => c.companyId !== company.companyId));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '会社の削除に失敗しました');
+    }
+  };
+
+  const handleToggleCompany = (companyId: string) => {
+    setExpandedCompanyId(prev => (prev === companyId ? null : companyId));
+    setNewDepartmentName('');
+    if (!departmentsByCompany[companyId]) {
+      loadDepartments(companyId);
+    }
+  };
+
+  const handleCreateDepartment = async (companyId: string) => {
+    try {
+      const department = await apiService.createDepartment(companyId, newDepartmentName);
+      setDepartmentsByCompany(prev => ({ ...prev, [companyId]: [...(prev[companyId] || []), department] }));
+      setNewDepartmentName('');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '部門の作成に失敗しました');
+    }
+  };
+
+  const handleDeleteDepartment = async (department: Department) => {
+    if (!confirm(`部門「${department.name}」を削除しますか？`)) return;
+    try {
+      await apiService.deleteDepartment(department.companyId, department.departmentId);
+      setDepartmentsByCompany(prev => ({
+        ...prev,
+        [department.companyId]: (prev[department.companyId] || [])
+          .filter(d => d.departmentId !== department.departmentId),
+      }));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '部門の削除に失敗しました');
+    }
+  };
+
+  const canManageCompanies = currentUser?.role === 'system_admin' || currentUser?.role === 'org_admin';
+
+  const getPlanLabel = (plan: OrganizationPlan) => {
+    const labels: Record<OrganizationPlan, string> = {
+      free: 'Free',
+      starter: 'Starter',
+      business: 'Business',
+      enterprise: 'Enterprise',
+    };
+    return labels[plan];
+  };
+
+  const togglePlanModel = (plan: OrganizationPlan, modelId: AIModel) => {
+    setPlans(prev => prev.map(settings => {
+      if (settings.plan !== plan) return settings;
+      const current = settings.allowedModels || (Object.keys(MODEL_CONFIGS) as AIModel[]);
+      const allowedModels = current.includes(modelId)
+        ? current.filter(id => id !== modelId)
+        : [...current, modelId];
+      return { ...settings, allowedModels };
+    }));
+  };
+
+  const handleSavePlan = async (settings: PlanSettings) => {
+    const allModels = Object.keys(MODEL_CONFIGS);
+    const allowsAll = !settings.allowedModels || settings.allowedModels.length === allModels.length;
+    try {
+      const saved = await apiService.updatePlan(settings.plan, {
+        allowedModels: allowsAll ? null : settings.allowedModels,
+        userMonthlyTokenLimit: settings.userMonthlyTokenLimit ?? null,
+      });
+      setPlans(prev => prev.map(p => (p.plan === saved.plan ? saved : p)));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'プラン設定の保存に失敗しました');
+    }
+  };
+
+  const getQuotaScopeLabel = (scope: QuotaScope) => {
+    const labels: Record<QuotaScope, string> = {
+      organization: '組織',
+      company: '会社',
+      user: 'あなた',
+    };
+    return labels[scope];
+  };
+
   const getRoleLabel = (role: UserRole) => {
     const labels: Record<UserRole, string> = {
       system_admin: 'システム管理者',
@@ -766,6 +1928,15 @@ const App: React.FC = () => {
     return labels[visibility];
   };
 
+  const getCategoryLabel = (category: FileCategory) => {
+    const labels: Record<FileCategory, string> = {
+      chat_attachment: '添付',
+      rag_source: 'RAGソース',
+      knowledge_base: 'ナレッジベース',
+    };
+    return labels[category];
+  };
+
   const getAllowedVisibilities = (): FileVisibility[] => {
     if (!currentUser) return ['private'];
     switch (currentUser.role) {
@@ -784,6 +1955,40 @@ const App: React.FC = () => {
     <div className="flex h-screen paper-texture text-[#1E3D6B]">
       {/* Sidebar */}
       <aside className="w-80 flex-shrink-0 border-r border-[#1E3D6B]/10 flex flex-col p-4">
+        {/* Conversation Context Menu */}
+        {menuChat && chatMenu && (
+          <div
+            className="fixed z-50 w-48 py-1 bg-white rounded-lg shadow-xl border border-[#1E3D6B]/10 text-sm"
+            style={{ left: chatMenu.x, top: chatMenu.y }}
+            onClick={() => setChatMenu(null)}
+          >
+            <button onClick={() => handleRenameChat(menuChat)} className="w-full text-left px-4 py-2 hover:bg-[#F5F7FA]">
+              名前を変更
+            </button>
+            <button
+              onClick={() => updateChat(menuChat.id, { pinned: !menuChat.pinned })}
+              className="w-full text-left px-4 py-2 hover:bg-[#F5F7FA]"
+            >
+              {menuChat.pinned ? 'ピン留めを解除' : 'ピン留め'}
+            </button>
+            <button onClick={() => handleMoveChatToFolder(menuChat)} className="w-full text-left px-4 py-2 hover:bg-[#F5F7FA]">
+              フォルダに移動
+            </button>
+            <button onClick={() => handleEditChatTags(menuChat)} className="w-full text-left px-4 py-2 hover:bg-[#F5F7FA]">
+              タグを編集
+            </button>
+            <button
+              onClick={() => updateChat(menuChat.id, { archived: !menuChat.archived })}
+              className="w-full text-left px-4 py-2 hover:bg-[#F5F7FA]"
+            >
+              {menuChat.archived ? 'アーカイブから戻す' : 'アーカイブ'}
+            </button>
+            <button onClick={() => deleteChat(menuChat.id)} className="w-full text-left px-4 py-2 hover:bg-red-50 text-red-600">
+              削除
+            </button>
+          </div>
+        )}
+
         <div className="flex items-center gap-3 mb-8 px-2">
           <div className="w-10 h-10 rounded-full bg-[#1E3D6B] flex items-center justify-center text-[#A18E66]">
             <ICONS.Admin />
@@ -798,19 +2003,172 @@ const App: React.FC = () => {
           <ICONS.Plus /> 新規チャット
         </button>
 
-        <div className="flex-1 overflow-y-auto custom-scrollbar pr-2">
-          <p className="text-xs font-bold text-[#A18E66] uppercase tracking-wider mb-2 px-2">Recent Chats</p>
-          {histories.map(h => (
-            <SidebarItem
-              key={h.id}
-              active={activeChatId === h.id}
-              onClick={() => handleSelectChat(h.id)}
-              onDelete={() => deleteChat(h.id)}
+        {/* Conversation Search */}
+        <div className="mb-4 space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="search"
+              value={searchQuery.q}
+              onChange={(e) => setSearchQuery(prev => ({ ...prev, q: e.target.value }))}
+              placeholder="会話を検索..."
+              className="flex-1 min-w-0 px-3 py-2 text-sm bg-[#F5F7FA] border border-[#1E3D6B]/10 rounded-lg focus:ring-2 focus:ring-[#A18E66] outline-none"
+            />
+            <button
+              onClick={() => setShowSearchFilters(!showSearchFilters)}
+              className={`px-2 text-xs rounded-lg border transition-colors ${
+                showSearchFilters || searchQuery.from || searchQuery.to || searchQuery.model
+                  ? 'border-[#A18E66] text-[#A18E66]'
+                  : 'border-[#1E3D6B]/10 text-[#1E3D6B]/60 hover:text-[#1E3D6B]'
+              }`}
+              title="絞り込み"
             >
-              <ICONS.History />
-              <span className="truncate flex-1">{h.title}</span>
-            </SidebarItem>
-          ))}
+              絞り込み
+            </button>
+          </div>
+          {showSearchFilters && (
+            <div className="p-3 bg-[#F5F7FA] rounded-lg space-y-2 text-xs">
+              <div className="flex items-center gap-1">
+                <input
+                  type="date"
+                  value={searchQuery.from || ''}
+                  onChange={(e) => setSearchQuery(prev => ({ ...prev, from: e.target.value || undefined }))}
+                  className="flex-1 min-w-0 px-2 py-1 border border-[#1E3D6B]/20 rounded"
+                />
+                <span className="opacity-50">〜</span>
+                <input
+                  type="date"
+                  value={searchQuery.to || ''}
+                  onChange={(e) => setSearchQuery(prev => ({ ...prev, to: e.target.value || undefined }))}
+                  className="flex-1 min-w-0 px-2 py-1 border border-[#1E3D6B]/20 rounded"
+                />
+              </div>
+              <select
+                value={searchQuery.model || ''}
+                onChange={(e) => setSearchQuery(prev => ({ ...prev, model: (e.target.value || undefined) as AIModel | undefined }))}
+                className="w-full px-2 py-1 border border-[#1E3D6B]/20 rounded bg-white"
+              >
+                <option value="">すべてのモデル</option>
+                {Object.values(MODEL_CONFIGS).map(model => (
+                  <option key={model.id} value={model.id}>{model.name}</option>
+                ))}
+              </select>
+              {(searchQuery.from || searchQuery.to || searchQuery.model) && (
+                <button
+                  onClick={() => setSearchQuery(prev => ({ q: prev.q }))}
+                  className="text-[#1E3D6B]/60 hover:text-[#1E3D6B]"
+                >
+                  条件をクリア
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar pr-2">
+          {searchQuery.q.trim() ? (
+            <>
+              <p className="text-xs font-bold text-[#A18E66] uppercase tracking-wider mb-2 px-2">
+                検索結果{searchResults ? ` (${searchResults.length})` : ''}
+              </p>
+              {searchError ? (
+                <p className="text-xs text-red-600 px-2">{searchError}</p>
+              ) : searchLoading && !searchResults ? (
+                <p className="text-xs opacity-50 px-2">検索中...</p>
+              ) : searchResults && searchResults.length === 0 ? (
+                <p className="text-xs opacity-50 px-2">一致する会話がありません</p>
+              ) : (
+                searchResults?.map(hit => (
+                  <button
+                    key={hit.conversationId}
+                    onClick={() => handleOpenSearchResult(hit)}
+                    className={`w-full text-left px-3 py-2 rounded-lg mb-1 transition-colors ${
+                      activeChatId === hit.conversationId ? 'bg-[#A18E66]/15' : 'hover:bg-[#A18E66]/10'
+                    }`}
+                  >
+                    <p className="text-sm font-semibold truncate">
+                      <HighlightedText text={hit.title} highlights={hit.titleHighlights} />
+                    </p>
+                    {hit.snippet && (
+                      <p className="text-xs opacity-70 line-clamp-2 mt-0.5">
+                        <HighlightedText text={hit.snippet.text} highlights={hit.snippet.highlights} />
+                      </p>
+                    )}
+                    <p className="text-[10px] opacity-40 mt-0.5">
+                      {new Date(hit.updatedAt).toLocaleDateString('ja-JP')} · {getModelInfo(hit.modelId)?.name || hit.modelId}
+                    </p>
+                  </button>
+                ))
+              )}
+            </>
+          ) : (
+            <>
+              {histories.some(h => h.pinned && !h.archived) && (
+                <>
+                  <p className="text-xs font-bold text-[#A18E66] uppercase tracking-wider mb-2 px-2">ピン留め</p>
+                  {histories.filter(h => h.pinned && !h.archived).map(renderChatItem)}
+                </>
+              )}
+
+              <div className="flex items-center justify-between mb-2 mt-2 px-2">
+                <p className="text-xs font-bold text-[#A18E66] uppercase tracking-wider">フォルダ</p>
+                <button onClick={handleCreateFolder} className="text-xs text-[#1E3D6B]/60 hover:text-[#1E3D6B]">
+                  + 新規
+                </button>
+              </div>
+              {sidebarFolders.map(folder => (
+                <div
+                  key={folder}
+                  {...dropHandlers(folder)}
+                  className={`rounded-lg mb-1 ${dropTarget === folder ? 'bg-[#A18E66]/15 ring-1 ring-[#A18E66]' : ''}`}
+                >
+                  <button
+                    onClick={() => toggleFolder(folder)}
+                    className="w-full text-left px-4 py-2 rounded-lg text-sm font-semibold text-[#1E3D6B] hover:bg-[#A18E66]/10 flex items-center gap-2"
+                  >
+                    <span className="text-xs opacity-50">{expandedFolders.includes(folder) ? '▼' : '▶'}</span>
+                    <span className="truncate flex-1">{folder}</span>
+                  </button>
+                  {expandedFolders.includes(folder) && (
+                    <div className="pl-3">
+                      {histories.some(h => h.folder === folder && !h.archived) ? (
+                        histories.filter(h => h.folder === folder && !h.archived).map(renderChatItem)
+                      ) : (
+                        <p className="text-xs opacity-40 px-4 py-2">会話をここにドラッグ</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              <div
+                {...dropHandlers('')}
+                className={`rounded-lg mt-2 ${dropTarget === '' ? 'bg-[#A18E66]/15 ring-1 ring-[#A18E66]' : ''}`}
+              >
+                <p className="text-xs font-bold text-[#A18E66] uppercase tracking-wider mb-2 px-2">Recent Chats</p>
+                {histories.filter(h => !h.pinned && !h.folder && !h.archived).map(renderChatItem)}
+              </div>
+              {conversationsNextToken && (
+                <LoadMoreSentinel onLoadMore={loadMoreConversations} loading={conversationsLoading} />
+              )}
+
+              <button
+                onClick={toggleArchived}
+                className="w-full text-left px-2 mt-4 mb-2 text-xs font-bold text-[#A18E66] uppercase tracking-wider flex items-center gap-2"
+              >
+                <span className="opacity-50">{showArchived ? '▼' : '▶'}</span>
+                アーカイブ
+              </button>
+              {showArchived && (
+                archivedLoading ? (
+                  <p className="text-xs opacity-50 px-4 py-2">読み込み中...</p>
+                ) : histories.some(h => h.archived) ? (
+                  histories.filter(h => h.archived).map(renderChatItem)
+                ) : (
+                  <p className="text-xs opacity-40 px-4 py-2">アーカイブされた会話はありません</p>
+                )
+              )}
+            </>
+          )}
         </div>
 
         <div className="mt-4 pt-4 border-t border-[#1E3D6B]/10 space-y-1">
@@ -824,7 +2182,7 @@ const App: React.FC = () => {
             )}
           </SidebarItem>
           {isAdmin && (
-            <SidebarItem active={showAdminPanel} onClick={() => { setShowAdminPanel(!showAdminPanel); setShowSettings(false); setShowFilesPanel(false); loadAdminUsers(); }}>
+            <SidebarItem active={showAdminPanel} onClick={() => { setShowAdminPanel(!showAdminPanel); setShowSettings(false); setShowFilesPanel(false); loadAdminUsers(); loadTenants(); }}>
               <ICONS.Admin />
               <span>ユーザー管理</span>
             </SidebarItem>
@@ -929,41 +2287,66 @@ const App: React.FC = () => {
               )}
             </div>
           ) : (
-            activeChat?.messages.map((msg) => (
-              <div
-                key={msg.id}
-                className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
-              >
-                <div className={`max-w-[80%] flex gap-4 ${msg.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}>
-                  <div className={`w-8 h-8 flex-shrink-0 rounded-lg flex items-center justify-center ${
-                    msg.role === 'user' ? 'bg-[#A18E66]' : 'bg-[#1E3D6B]'
-                  } text-white shadow-sm`}>
-                    {msg.role === 'user' ? 'U' : 'AI'}
-                  </div>
-                  <div className={`paper-card p-4 paper-shadow ${
-                    msg.role === 'user'
-                      ? 'bg-[#1E3D6B] text-white rounded-tr-none'
-                      : 'bg-white text-[#1E3D6B] rounded-tl-none border-l-4 border-[#A18E66]'
-                  }`}>
-                    <div className="whitespace-pre-wrap leading-relaxed">
-                      {msg.content}
+            activeChat?.messages.map((msg, index) => (
+              <React.Fragment key={msg.id}>
+                <div className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                  <div className={`max-w-[80%] flex gap-4 ${msg.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}>
+                    <div className={`w-8 h-8 flex-shrink-0 rounded-lg flex items-center justify-center ${
+                      msg.role === 'user' ? 'bg-[#A18E66]' : 'bg-[#1E3D6B]'
+                    } text-white shadow-sm`}>
+                      {msg.role === 'user' ? 'U' : 'AI'}
                     </div>
-                    <div className="mt-2 text-[10px] opacity-40 flex justify-between items-center gap-4">
-                      <span>{msg.model && getModelInfo(msg.model)?.name}</span>
-                      {msg.usage && (
-                        <span className="flex items-center gap-2">
-                          <span>{msg.usage.inputTokens.toLocaleString()}+{msg.usage.outputTokens.toLocaleString()} tokens</span>
-                          <span className="text-[#A18E66] font-semibold">${msg.usage.cost?.toFixed(4)}</span>
-                        </span>
+                    <div className={`paper-card p-4 paper-shadow ${
+                      msg.role === 'user'
+                        ? 'bg-[#1E3D6B] text-white rounded-tr-none'
+                        : 'bg-white text-[#1E3D6B] rounded-tl-none border-l-4 border-[#A18E66]'
+                    }`}>
+                      <div className="whitespace-pre-wrap leading-relaxed">
+                        <MessageContent
+                          content={msg.content}
+                          citations={msg.citations}
+                          onOpenCitation={setOpenCitation}
+                        />
+                      </div>
+                      {msg.citations && msg.citations.length > 0 && (
+                        <div className="mt-3 pt-2 border-t border-[#1E3D6B]/10 space-y-1">
+                          {msg.citations.map(citation => (
+                            <button
+                              key={citation.marker}
+                              onClick={() => setOpenCitation(citation)}
+                              className="block text-left text-[11px] text-[#1E3D6B]/70 hover:text-[#A18E66] transition-colors"
+                            >
+                              <span className="font-bold text-[#A18E66]">[{citation.marker}]</span>{' '}
+                              {citation.fileName}
+                              {citation.page && ` p.${citation.page}`}
+                            </button>
+                          ))}
+                        </div>
                       )}
-                      <span>{new Date(msg.timestamp).toLocaleTimeString()}</span>
+                      <div className="mt-2 text-[10px] opacity-40 flex justify-between items-center gap-4">
+                        <span>{msg.model && getModelInfo(msg.model)?.name}</span>
+                        {msg.usage && (
+                          <span className="flex items-center gap-2">
+                            <span>{msg.usage.inputTokens.toLocaleString()}+{msg.usage.outputTokens.toLocaleString()} tokens</span>
+                            <span className="text-[#A18E66] font-semibold">${msg.usage.cost?.toFixed(4)}</span>
+                          </span>
+                        )}
+                        <span>{new Date(msg.timestamp).toLocaleTimeString()}</span>
+                      </div>
                     </div>
                   </div>
                 </div>
-              </div>
+                {index + 1 === activeChat.summarizedMessages && (
+                  <div className="flex items-center gap-3 text-[11px] text-[#A18E66]">
+                    <div className="flex-1 border-t border-dashed border-[#A18E66]/40" />
+                    <span>ここまでの会話は要約してAIに渡しています</span>
+                    <div className="flex-1 border-t border-dashed border-[#A18E66]/40" />
+                  </div>
+                )}
+              </React.Fragment>
             ))
           )}
-          {isLoading && (
+          {isLoading && !isStreaming && (
             <div className="flex justify-start">
               <div className="paper-card p-4 bg-white/80 animate-pulse flex items-center gap-3">
                 <div className="flex space-x-1">
@@ -982,6 +2365,18 @@ const App: React.FC = () => {
         {/* Input Bar */}
         <div className="p-8 pt-2">
           <div className="max-w-4xl mx-auto">
+            {/* Quota Warnings */}
+            {quotaWarnings.length > 0 && (
+              <div className="mb-3 px-4 py-2 bg-amber-50 border border-amber-200 rounded-xl text-xs text-amber-700">
+                {quotaWarnings.map(warning => (
+                  <p key={warning.scope}>
+                    {getQuotaScopeLabel(warning.scope)}の今月のトークン使用量が上限の{Math.floor((warning.used / warning.limit) * 100)}%に達しています
+                    ({warning.used.toLocaleString()} / {warning.limit.toLocaleString()})
+                  </p>
+                ))}
+              </div>
+            )}
+
             {/* Selected Files Preview */}
             {selectedFileIds.length > 0 && (
               <div className="flex flex-wrap gap-2 mb-3">
@@ -1003,7 +2398,10 @@ const App: React.FC = () => {
             )}
 
             <div className="paper-card paper-shadow p-2 flex items-end gap-2 bg-white ring-1 ring-[#1E3D6B]/5">
-              <label className={`p-3 text-[#A18E66] hover:bg-[#A18E66]/10 rounded-xl cursor-pointer transition-colors ${isUploading ? 'opacity-50 cursor-wait' : ''}`}>
+              <label
+                className={`p-3 text-[#A18E66] hover:bg-[#A18E66]/10 rounded-xl cursor-pointer transition-colors ${isUploading ? 'opacity-50 cursor-wait' : ''}`}
+                title={isUploading ? `アップロード中... ${Math.round(uploadProgress * 100)}%` : undefined}
+              >
                 {isUploading ? (
                   <div className="w-5 h-5 border-2 border-[#A18E66] border-t-transparent rounded-full animate-spin" />
                 ) : (
@@ -1014,7 +2412,7 @@ const App: React.FC = () => {
                   type="file"
                   className="hidden"
                   onChange={handleFileUpload}
-                  accept=".pdf,.docx,.txt,.csv,.xlsx"
+                  accept=".pdf,.docx,.txt,.csv,.tsv,.xlsx"
                   disabled={isUploading}
                 />
               </label>
@@ -1100,11 +2498,44 @@ const App: React.FC = () => {
                     </p>
                   </div>
 
+                  {/* Category Selector */}
+                  <div className="mb-4">
+                    <label className="block text-xs font-bold text-[#1E3D6B]/70 mb-2">用途</label>
+                    <div className="flex flex-wrap gap-2">
+                      {(['chat_attachment', 'rag_source', 'knowledge_base'] as FileCategory[]).map(cat => (
+                        <button
+                          key={cat}
+                          onClick={() => setUploadCategory(cat)}
+                          className={`px-3 py-1.5 text-xs rounded-full border transition-all ${
+                            uploadCategory === cat
+                              ? 'bg-[#A18E66] text-white border-[#A18E66]'
+                              : 'border-[#1E3D6B]/20 hover:border-[#A18E66]/50'
+                          }`}
+                        >
+                          {getCategoryLabel(cat)}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-[10px] text-[#1E3D6B]/50 mt-1">
+                      {uploadCategory === 'chat_attachment' && '選択時に内容全体を参照します (大きいファイルは関連部分のみ)'}
+                      {uploadCategory === 'rag_source' && '選択時に質問に関連する部分だけを検索して参照します'}
+                      {uploadCategory === 'knowledge_base' && '選択しなくても毎回の質問で検索されます'}
+                    </p>
+                  </div>
+
                   <label className={`block w-full py-8 border-2 border-dashed border-[#A18E66]/30 text-[#A18E66] text-sm font-bold rounded-xl hover:bg-[#A18E66]/5 transition-colors cursor-pointer text-center ${isUploading ? 'opacity-50' : ''}`}>
                     {isUploading ? (
-                      <span className="flex items-center justify-center gap-2">
-                        <div className="w-4 h-4 border-2 border-[#A18E66] border-t-transparent rounded-full animate-spin" />
-                        アップロード中...
+                      <span className="flex flex-col items-center justify-center gap-2">
+                        <span className="flex items-center gap-2">
+                          <div className="w-4 h-4 border-2 border-[#A18E66] border-t-transparent rounded-full animate-spin" />
+                          アップロード中... {Math.round(uploadProgress * 100)}%
+                        </span>
+                        <span className="w-2/3 h-1 bg-[#A18E66]/20 rounded-full overflow-hidden">
+                          <span
+                            className="block h-full bg-[#A18E66] transition-all"
+                            style={{ width: `${Math.round(uploadProgress * 100)}%` }}
+                          />
+                        </span>
                       </span>
                     ) : (
                       <>+ ファイルを選択 (PDF, DOCX, TXT, CSV, XLSX)</>
@@ -1113,7 +2544,7 @@ const App: React.FC = () => {
                       type="file"
                       className="hidden"
                       onChange={handleFileUpload}
-                      accept=".pdf,.docx,.txt,.csv,.xlsx"
+                      accept=".pdf,.docx,.txt,.csv,.tsv,.xlsx"
                       disabled={isUploading}
                     />
                   </label>
@@ -1122,7 +2553,7 @@ const App: React.FC = () => {
                 {/* Uploaded Files List */}
                 <section>
                   <h3 className="text-sm font-bold text-[#A18E66] uppercase tracking-wider mb-4">
-                    アップロード済みファイル ({uploadedFiles.length})
+                    アップロード済みファイル ({uploadedFiles.length}{filesNextToken ? '+' : ''})
                   </h3>
                   {uploadedFiles.length === 0 ? (
                     <p className="text-sm opacity-50 text-center py-8">
@@ -1154,9 +2585,29 @@ const App: React.FC = () => {
                                 {new Date(file.uploadedAt).toLocaleString()}
                                 {file.fileSize && ` • ${(file.fileSize / 1024).toFixed(1)} KB`}
                               </p>
+                              {file.status === 'error' && (
+                                <p className="text-[10px] text-red-500">
+                                  テキスト抽出に失敗しました{file.errorMessage && `: ${file.errorMessage}`}
+                                </p>
+                              )}
                             </div>
                           </div>
                           <div className="flex items-center gap-2">
+                            {(file.status === 'uploading' || file.status === 'processing') && (
+                              <span className="px-2 py-0.5 text-[10px] rounded-full bg-yellow-100 text-yellow-700 animate-pulse">
+                                {file.status === 'uploading' ? 'アップロード中' : '処理中'}
+                              </span>
+                            )}
+                            {file.status === 'error' && (
+                              <span className="px-2 py-0.5 text-[10px] rounded-full bg-red-100 text-red-600">
+                                エラー
+                              </span>
+                            )}
+                            {file.category && file.category !== 'chat_attachment' && (
+                              <span className="px-2 py-0.5 text-[10px] rounded-full bg-[#1E3D6B]/10 text-[#1E3D6B]">
+                                {getCategoryLabel(file.category)}
+                              </span>
+                            )}
                             {file.visibility && (
                               <span className={`px-2 py-0.5 text-[10px] rounded-full ${
                                 file.visibility === 'system' ? 'bg-red-100 text-red-600' :
@@ -1181,8 +2632,167 @@ const App: React.FC = () => {
                           </div>
                         </div>
                       ))}
+                      {filesNextToken && (
+                        <LoadMoreSentinel onLoadMore={loadMoreFiles} loading={filesLoading} />
+                      )}
+                    </div>
+                  )}
+                </section>
+
+                {/* Database Connections */}
+                <section>
+                  <h3 className="text-sm font-bold text-[#A18E66] uppercase tracking-wider mb-4">
+                    データベース接続 ({databaseConnections.length})
+                  </h3>
+                  {databaseConnections.length === 0 ? (
+                    <p className="text-sm opacity-50 text-center py-4">
+                      登録されたデータベースはありません
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      {databaseConnections.map(connection => (
+                        <div
+                          key={connection.connectionId}
+                          className={`flex items-center justify-between p-4 rounded-xl border transition-all cursor-pointer ${
+                            selectedConnectionIds.includes(connection.connectionId)
+                              ? 'bg-[#A18E66]/10 border-[#A18E66]'
+                              : 'bg-[#F5F7FA] border-[#1E3D6B]/5 hover:border-[#A18E66]/50'
+                          }`}
+                          onClick={() => toggleConnectionSelection(connection.connectionId)}
+                        >
+                          <div className="flex items-center gap-3">
+                            <div className={`w-8 h-8 rounded flex items-center justify-center text-[10px] font-bold ${
+                              selectedConnectionIds.includes(connection.connectionId)
+                                ? 'bg-[#A18E66] text-white'
+                                : 'bg-[#1E3D6B]/10 text-[#1E3D6B]'
+                            }`}>
+                              {connection.type === 'postgresql' ? 'PG' : 'MY'}
+                            </div>
+                            <div>
+                              <p className="text-sm font-bold">{connection.name}</p>
+                              <p className="text-[10px] opacity-50">
+                                {connection.username}@{connection.host}:{connection.port}/{connection.database}
+                              </p>
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            {selectedConnectionIds.includes(connection.connectionId) && (
+                              <span className="text-xs text-[#A18E66] font-bold">選択中</span>
+                            )}
+                            {isAdmin && (
+                              <button
+                                onClick={(e) => { e.stopPropagation(); handleDeleteConnection(connection.connectionId); }}
+                                className="p-2 hover:bg-red-100 rounded text-red-500 transition-colors"
+                                title="削除"
+                              >
+                                ×
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
                     </div>
                   )}
+
+                  {isAdmin && (
+                    <form onSubmit={handleCreateConnection} className="mt-4 p-4 bg-[#F5F7FA] rounded-xl space-y-3">
+                      <p className="text-xs font-bold text-[#1E3D6B]">接続を追加 (読み取り専用で使用されます)</p>
+                      <div className="grid grid-cols-2 gap-2">
+                        <input
+                          type="text"
+                          placeholder="表示名"
+                          value={connectionForm.name}
+                          onChange={(e) => setConnectionForm(prev => ({ ...prev, name: e.target.value }))}
+                          className="px-3 py-2 text-sm rounded-lg border border-[#1E3D6B]/10"
+                          required
+                        />
+                        <select
+                          value={connectionForm.type}
+                          onChange={(e) => setConnectionForm(prev => ({ ...prev, type: e.target.value as CreateDatabaseConnectionRequest['type'] }))}
+                          className="px-3 py-2 text-sm rounded-lg border border-[#1E3D6B]/10"
+                        >
+                          <option value="postgresql">PostgreSQL</option>
+                          <option value="mysql">MySQL</option>
+                        </select>
+                        <input
+                          type="text"
+                          placeholder="ホスト"
+                          value={connectionForm.host}
+                          onChange={(e) => setConnectionForm(prev => ({ ...prev, host: e.target.value }))}
+                          className="px-3 py-2 text-sm rounded-lg border border-[#1E3D6B]/10"
+                          required
+                        />
+                        <input
+                          type="number"
+                          placeholder={connectionForm.type === 'postgresql' ? 'ポート (5432)' : 'ポート (3306)'}
+                          value={connectionForm.port ?? ''}
+                          onChange={(e) => setConnectionForm(prev => ({ ...prev, port: e.target.value ? Number(e.target.value) : undefined }))}
+                          className="px-3 py-2 text-sm rounded-lg border border-[#1E3D6B]/10"
+                        />
+                        <input
+                          type="text"
+                          placeholder="データベース名"
+                          value={connectionForm.database}
+                          onChange={(e) => setConnectionForm(prev => ({ ...prev, database: e.target.value }))}
+                          className="px-3 py-2 text-sm rounded-lg border border-[#1E3D6B]/10"
+                          required
+                        />
+                        <input
+                          type="text"
+                          placeholder="ユーザー名"
+                          value={connectionForm.username}
+                          onChange={(e) => setConnectionForm(prev => ({ ...prev, username: e.target.value }))}
+                          className="px-3 py-2 text-sm rounded-lg border border-[#1E3D6B]/10"
+                          required
+                        />
+                        <input
+                          type="password"
+                          placeholder="パスワード"
+                          value={connectionForm.password}
+                          onChange={(e) => setConnectionForm(prev => ({ ...prev, password: e.target.value }))}
+                          className="px-3 py-2 text-sm rounded-lg border border-[#1E3D6B]/10"
+                          required
+                        />
+                        <label className="flex items-center gap-2 text-xs">
+                          <input
+                            type="checkbox"
+                            checked={connectionForm.ssl !== false}
+                            onChange={(e) => setConnectionForm(prev => ({ ...prev, ssl: e.target.checked }))}
+                          />
+                          SSLを使用
+                        </label>
+                        {connectionForm.ssl !== false && (
+                          <>
+                            <textarea
+                              placeholder="CA証明書 (PEM形式、省略時は標準の証明書ストア。Amazon RDS は RDS の証明書バンドルを指定)"
+                              value={connectionForm.sslCa || ''}
+                              onChange={(e) => setConnectionForm(prev => ({ ...prev, sslCa: e.target.value || undefined }))}
+                              className="col-span-2 px-3 py-2 text-xs font-mono rounded-lg border border-[#1E3D6B]/10"
+                              rows={3}
+                            />
+                            <label className="col-span-2 flex items-center gap-2 text-xs">
+                              <input
+                                type="checkbox"
+                                checked={connectionForm.sslVerify === false}
+                                onChange={(e) => setConnectionForm(prev => ({ ...prev, sslVerify: e.target.checked ? false : undefined }))}
+                              />
+                              サーバー証明書を検証しない (非推奨: 通信を傍受される恐れがあります)
+                            </label>
+                          </>
+                        )}
+                      </div>
+                      {connectionError && (
+                        <p className="text-xs text-red-500">{connectionError}</p>
+                      )}
+                      <button
+                        type="submit"
+                        disabled={connectionSaving}
+                        className="w-full py-2 bg-[#1E3D6B] text-white text-sm font-bold rounded-lg disabled:opacity-50"
+                      >
+                        {connectionSaving ? '接続を確認中...' : '接続を追加'}
+                      </button>
+                    </form>
+                  )}
                 </section>
 
                 {/* Selected Files Info */}
@@ -1227,6 +2837,15 @@ const App: React.FC = () => {
                   </p>
                 </section>
 
+                {/* Usage Dashboard */}
+                {currentUser && (
+                  <UsageDashboard
+                    role={currentUser.role}
+                    organizations={organizations}
+                    companies={companies}
+                  />
+                )}
+
                 {/* Create User Form */}
                 <section>
                   <div className="flex justify-between items-center mb-4">
@@ -1278,37 +2897,49 @@ const App: React.FC = () => {
                         </div>
                         {currentUser?.role === 'system_admin' && (
                           <div>
-                            <label className="block text-xs font-bold text-[#1E3D6B]/70 mb-1">組織ID</label>
-                            <input
-                              type="text"
+                            <label className="block text-xs font-bold text-[#1E3D6B]/70 mb-1">組織</label>
+                            <select
                               value={newUserData.organizationId}
-                              onChange={(e) => setNewUserData({ ...newUserData, organizationId: e.target.value })}
+                              onChange={(e) => setNewUserData({ ...newUserData, organizationId: e.target.value, companyId: '', departmentId: '' })}
                               className="w-full px-3 py-2 border border-[#1E3D6B]/20 rounded-lg text-sm"
-                              placeholder="org-001"
-                            />
+                            >
+                              <option value="">(なし)</option>
+                              {organizations.map(org => (
+                                <option key={org.organizationId} value={org.organizationId}>{org.name}</option>
+                              ))}
+                            </select>
                           </div>
                         )}
-                        {['system_admin', 'org_admin'].includes(currentUser?.role || '') && (
+                        {canManageCompanies && (
                           <div>
-                            <label className="block text-xs font-bold text-[#1E3D6B]/70 mb-1">会社ID</label>
-                            <input
-                              type="text"
+                            <label className="block text-xs font-bold text-[#1E3D6B]/70 mb-1">会社</label>
+                            <select
                               value={newUserData.companyId}
-                              onChange={(e) => setNewUserData({ ...newUserData, companyId: e.target.value })}
+                              onChange={(e) => handleSelectUserCompany(e.target.value)}
                               className="w-full px-3 py-2 border border-[#1E3D6B]/20 rounded-lg text-sm"
-                              placeholder="comp-001"
-                            />
+                            >
+                              <option value="">(なし)</option>
+                              {companies
+                                .filter(company => !newUserData.organizationId || company.organizationId === newUserData.organizationId)
+                                .map(company => (
+                                  <option key={company.companyId} value={company.companyId}>{company.name}</option>
+                                ))}
+                            </select>
                           </div>
                         )}
                         <div>
-                          <label className="block text-xs font-bold text-[#1E3D6B]/70 mb-1">部門ID</label>
-                          <input
-                            type="text"
+                          <label className="block text-xs font-bold text-[#1E3D6B]/70 mb-1">部門</label>
+                          <select
                             value={newUserData.departmentId}
                             onChange={(e) => setNewUserData({ ...newUserData, departmentId: e.target.value })}
-                            className="w-full px-3 py-2 border border-[#1E3D6B]/20 rounded-lg text-sm"
-                            placeholder="dept-001"
-                          />
+                            disabled={!getCreateUserCompanyId()}
+                            className="w-full px-3 py-2 border border-[#1E3D6B]/20 rounded-lg text-sm disabled:opacity-50"
+                          >
+                            <option value="">(なし)</option>
+                            {(departmentsByCompany[getCreateUserCompanyId()] || []).map(department => (
+                              <option key={department.departmentId} value={department.departmentId}>{department.name}</option>
+                            ))}
+                          </select>
                         </div>
                       </div>
                       <button
@@ -1332,11 +2963,101 @@ const App: React.FC = () => {
                   )}
                 </section>
 
+                {/* Bulk Import */}
+                <section>
+                  <h3 className="text-sm font-bold text-[#A18E66] uppercase tracking-wider mb-4">
+                    CSV一括インポート
+                  </h3>
+                  <div className="p-4 bg-[#F5F7FA] rounded-xl space-y-3">
+                    <p className="text-xs opacity-60">
+                      列: email, name, role (省略時は一般ユーザー), department (部門名またはID)。見出し行が必要です。
+                    </p>
+                    <div className="flex flex-wrap items-center gap-3">
+                      {canManageCompanies && (
+                        <select
+                          value={importCompanyId}
+                          onChange={(e) => setImportCompanyId(e.target.value)}
+                          className="px-3 py-2 border border-[#1E3D6B]/20 rounded-lg text-sm"
+                        >
+                          <option value="">会社を選択</option>
+                          {companies.map(company => (
+                            <option key={company.companyId} value={company.companyId}>{company.name}</option>
+                          ))}
+                        </select>
+                      )}
+                      <input
+                        type="file"
+                        accept=".csv,.tsv,text/csv"
+                        onChange={(e) => setImportFile(e.target.files?.[0] || null)}
+                        className="text-sm"
+                      />
+                      <button
+                        onClick={handleStartImport}
+                        disabled={importRunning || !importFile || (canManageCompanies && !importCompanyId)}
+                        className="px-4 py-2 bg-[#1E3D6B] text-white text-sm font-bold rounded-lg disabled:opacity-50"
+                      >
+                        {importRunning ? 'インポート中...' : 'インポート'}
+                      </button>
+                    </div>
+
+                    {importError && (
+                      <div className="flex items-center gap-3 text-sm text-red-500">
+                        <span>{importError}</span>
+                        {importJob?.status === 'in_progress' && !importRunning && (
+                          <button onClick={handleResumeImport} className="text-[#A18E66] hover:underline">
+                            続行
+                          </button>
+                        )}
+                      </div>
+                    )}
+
+                    {importJob && (
+                      <div className="space-y-2">
+                        <div className="flex justify-between items-center text-xs">
+                          <span>
+                            作成 {importJob.created} ・ エラー {importJob.failed} ・ 全 {importJob.total} 件
+                            {importJob.status === 'in_progress' && ' (処理中)'}
+                          </span>
+                          <button
+                            onClick={() => handleDownloadImportReport(importJob)}
+                            className="text-[#A18E66] hover:underline"
+                          >
+                            結果をCSVでダウンロード
+                          </button>
+                        </div>
+                        <p className="text-xs text-red-500">
+                          仮パスワードはこの画面でのみ表示され、保存されません。閉じる前にCSVをダウンロードしてください。
+                        </p>
+                        <div className="max-h-64 overflow-y-auto">
+                          <table className="w-full text-xs">
+                            <tbody>
+                              {importJob.rows.map(row => (
+                                <tr key={row.line} className="border-b border-[#1E3D6B]/5 last:border-0">
+                                  <td className="py-1 opacity-50">{row.line}</td>
+                                  <td className="py-1">{row.email}</td>
+                                  <td className="py-1">{row.name}</td>
+                                  <td className="py-1">
+                                    {row.status === 'created' && (
+                                      <code className="bg-green-100 px-2 py-0.5 rounded font-mono">{row.temporaryPassword}</code>
+                                    )}
+                                    {row.status === 'error' && <span className="text-red-500">{row.error}</span>}
+                                    {row.status === 'pending' && <span className="opacity-50">待機中</span>}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </section>
+
                 {/* User List */}
                 <section>
                   <div className="flex justify-between items-center mb-4">
                     <h3 className="text-sm font-bold text-[#A18E66] uppercase tracking-wider">
-                      ユーザー一覧 ({adminUsers.length})
+                      ユーザー一覧 ({adminUsers.length}{usersNextToken ? '+' : ''})
                     </h3>
                     <button
                       onClick={loadAdminUsers}
@@ -1354,43 +3075,403 @@ const App: React.FC = () => {
                   ) : (
                     <div className="space-y-2">
                       {adminUsers.map(user => (
-                        <div
-                          key={user.userId}
-                          className="flex items-center justify-between p-4 bg-[#F5F7FA] rounded-xl"
+                        <div key={user.userId} className="p-4 bg-[#F5F7FA] rounded-xl">
+                          <div className="flex items-center justify-between">
+                            <div className={`flex items-center gap-4 ${user.disabled ? 'opacity-50' : ''}`}>
+                              <img
+                                src={`https://api.dicebear.com/7.x/initials/svg?seed=${encodeURIComponent(user.name)}`}
+                                alt={user.name}
+                                className="w-10 h-10 rounded-full"
+                              />
+                              <div>
+                                <p className="font-bold text-sm">
+                                  {user.name}
+                                  {user.disabled && (
+                                    <span className="ml-2 px-2 py-0.5 bg-gray-200 text-gray-600 text-[10px] rounded-full">無効</span>
+                                  )}
+                                </p>
+                                <p className="text-xs opacity-60">{user.email}</p>
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-3">
+                              <span className={`px-2 py-1 text-xs rounded-full ${
+                                user.role === 'system_admin' ? 'bg-red-100 text-red-600' :
+                                user.role === 'org_admin' ? 'bg-purple-100 text-purple-600' :
+                                user.role === 'company_admin' ? 'bg-blue-100 text-blue-600' :
+                                'bg-gray-100 text-gray-600'
+                              }`}>
+                                {getRoleLabel(user.role)}
+                              </span>
+                              {user.organizationId && (
+                                <span className="text-xs opacity-50">組織: {getOrganizationName(user.organizationId)}</span>
+                              )}
+                              {user.companyId && (
+                                <span className="text-xs opacity-50">会社: {getCompanyName(user.companyId)}</span>
+                              )}
+                              {canManageUser(user) && (
+                                <div className="flex items-center gap-2 text-xs">
+                                  <button onClick={() => handleEditUser(user)} className="text-[#1E3D6B]/70 hover:underline">
+                                    編集
+                                  </button>
+                                  <button onClick={() => handleToggleUserDisabled(user)} className="text-[#1E3D6B]/70 hover:underline">
+                                    {user.disabled ? '有効化' : '無効化'}
+                                  </button>
+                                  {!user.disabled && (
+                                    <button onClick={() => handleResendInvite(user)} className="text-[#1E3D6B]/70 hover:underline">
+                                      招待再送
+                                    </button>
+                                  )}
+                                  <button onClick={() => handleDeleteUser(user)} className="text-red-500 hover:underline">
+                                    削除
+                                  </button>
+                                </div>
+                              )}
+                            </div>
+                          </div>
+
+                          {inviteResult?.userId === user.userId && (
+                            <p className="mt-3 text-xs text-green-700">
+                              招待を再送しました。仮パスワード: <code className="bg-green-100 px-2 py-1 rounded font-mono">{inviteResult.temporaryPassword}</code>
+                            </p>
+                          )}
+
+                          {editingUser?.userId === user.userId && (
+                            <div className="mt-4 pt-4 border-t border-[#1E3D6B]/10 space-y-3">
+                              <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                  <label className="block text-xs font-bold text-[#1E3D6B]/70 mb-1">名前</label>
+                                  <input
+                                    type="text"
+                                    value={editingUser.name}
+                                    onChange={(e) => setEditingUser({ ...editingUser, name: e.target.value })}
+                                    className="w-full px-3 py-2 border border-[#1E3D6B]/20 rounded-lg text-sm"
+                                  />
+                                </div>
+                                <div>
+                                  <label className="block text-xs font-bold text-[#1E3D6B]/70 mb-1">権限レベル</label>
+                                  <select
+                                    value={editingUser.role}
+                                    onChange={(e) => setEditingUser({ ...editingUser, role: e.target.value as UserRole })}
+                                    className="w-full px-3 py-2 border border-[#1E3D6B]/20 rounded-lg text-sm"
+                                  >
+                                    {getAllowedRoles().map(role => (
+                                      <option key={role} value={role}>{getRoleLabel(role)}</option>
+                                    ))}
+                                  </select>
+                                </div>
+                                {currentUser?.role === 'system_admin' && (
+                                  <div>
+                                    <label className="block text-xs font-bold text-[#1E3D6B]/70 mb-1">組織</label>
+                                    <select
+                                      value={editingUser.organizationId}
+                                      onChange={(e) => setEditingUser({ ...editingUser, organizationId: e.target.value, companyId: '', departmentId: '' })}
+                                      className="w-full px-3 py-2 border border-[#1E3D6B]/20 rounded-lg text-sm"
+                                    >
+                                      <option value="">(なし)</option>
+                                      {organizations.map(org => (
+                                        <option key={org.organizationId} value={org.organizationId}>{org.name}</option>
+                                      ))}
+                                    </select>
+                                  </div>
+                                )}
+                                {canManageCompanies && (
+                                  <div>
+                                    <label className="block text-xs font-bold text-[#1E3D6B]/70 mb-1">会社</label>
+                                    <select
+                                      value={editingUser.companyId}
+                                      onChange={(e) => handleSelectEditingCompany(e.target.value)}
+                                      className="w-full px-3 py-2 border border-[#1E3D6B]/20 rounded-lg text-sm"
+                                    >
+                                      <option value="">(なし)</option>
+                                      {companies
+                                        .filter(company => !editingUser.organizationId || company.organizationId === editingUser.organizationId)
+                                        .map(company => (
+                                          <option key={company.companyId} value={company.companyId}>{company.name}</option>
+                                        ))}
+                                    </select>
+                                  </div>
+                                )}
+                                <div>
+                                  <label className="block text-xs font-bold text-[#1E3D6B]/70 mb-1">部門</label>
+                                  <select
+                                    value={editingUser.departmentId}
+                                    onChange={(e) => setEditingUser({ ...editingUser, departmentId: e.target.value })}
+                                    disabled={!editingUser.companyId}
+                                    className="w-full px-3 py-2 border border-[#1E3D6B]/20 rounded-lg text-sm disabled:opacity-50"
+                                  >
+                                    <option value="">(なし)</option>
+                                    {(departmentsByCompany[editingUser.companyId] || []).map(department => (
+                                      <option key={department.departmentId} value={department.departmentId}>{department.name}</option>
+                                    ))}
+                                  </select>
+                                </div>
+                              </div>
+                              <div className="flex gap-2">
+                                <button
+                                  onClick={handleSaveUser}
+                                  disabled={!editingUser.name.trim()}
+                                  className="px-4 py-2 bg-[#1E3D6B] text-white text-sm font-bold rounded-lg disabled:opacity-50"
+                                >
+                                  保存
+                                </button>
+                                <button
+                                  onClick={() => setEditingUser(null)}
+                                  className="px-4 py-2 text-sm text-[#1E3D6B]/70 hover:underline"
+                                >
+                                  キャンセル
+                                </button>
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                      {usersNextToken && (
+                        <button
+                          onClick={loadMoreAdminUsers}
+                          disabled={adminLoading}
+                          className="w-full py-2 text-sm text-[#1E3D6B]/70 hover:text-[#1E3D6B] disabled:opacity-50"
                         >
-                          <div className="flex items-center gap-4">
-                            <img
-                              src={`https://api.dicebear.com/7.x/initials/svg?seed=${encodeURIComponent(user.name)}`}
-                              alt={user.name}
-                              className="w-10 h-10 rounded-full"
-                            />
+                          {adminLoading ? '読み込み中...' : 'さらに読み込む'}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </section>
+
+                {/* Tenant Hierarchy */}
+                <section>
+                  <h3 className="text-sm font-bold text-[#A18E66] uppercase tracking-wider mb-4">
+                    組織・会社・部門
+                  </h3>
+
+                  {currentUser?.role === 'system_admin' && (
+                    <div className="mb-6">
+                      <div className="space-y-2 mb-3">
+                        {organizations.map(org => (
+                          <div key={org.organizationId} className="flex items-center justify-between p-3 bg-[#F5F7FA] rounded-xl">
                             <div>
-                              <p className="font-bold text-sm">{user.name}</p>
-                              <p className="text-xs opacity-60">{user.email}</p>
+                              <p className="font-bold text-sm">{org.name}</p>
+                              <p className="text-xs opacity-50">
+                                {getPlanLabel(org.plan)} ・ 会社上限 {org.maxCompanies} ・ 会社あたりユーザー上限 {org.maxUsersPerCompany}
+                              </p>
                             </div>
+                            <button
+                              onClick={() => handleDeleteOrganization(org)}
+                              className="p-2 hover:bg-red-100 rounded text-red-500 transition-colors"
+                              title="削除"
+                            >
+                              ×
+                            </button>
                           </div>
-                          <div className="flex items-center gap-3">
-                            <span className={`px-2 py-1 text-xs rounded-full ${
-                              user.role === 'system_admin' ? 'bg-red-100 text-red-600' :
-                              user.role === 'org_admin' ? 'bg-purple-100 text-purple-600' :
-                              user.role === 'company_admin' ? 'bg-blue-100 text-blue-600' :
-                              'bg-gray-100 text-gray-600'
-                            }`}>
-                              {getRoleLabel(user.role)}
-                            </span>
-                            {user.organizationId && (
-                              <span className="text-xs opacity-50">組織: {user.organizationId}</span>
-                            )}
-                            {user.companyId && (
-                              <span className="text-xs opacity-50">会社: {user.companyId}</span>
+                        ))}
+                      </div>
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={newOrganization.name}
+                          onChange={(e) => setNewOrganization({ ...newOrganization, name: e.target.value })}
+                          className="flex-1 px-3 py-2 border border-[#1E3D6B]/20 rounded-lg text-sm"
+                          placeholder="新しい組織名"
+                        />
+                        <select
+                          value={newOrganization.plan}
+                          onChange={(e) => setNewOrganization({ ...newOrganization, plan: e.target.value as OrganizationPlan })}
+                          className="px-3 py-2 border border-[#1E3D6B]/20 rounded-lg text-sm"
+                        >
+                          {(['free', 'starter', 'business', 'enterprise'] as OrganizationPlan[]).map(plan => (
+                            <option key={plan} value={plan}>{getPlanLabel(plan)}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={handleCreateOrganization}
+                          disabled={!newOrganization.name.trim()}
+                          className="px-4 py-2 bg-[#1E3D6B] text-white text-sm font-bold rounded-lg disabled:opacity-50"
+                        >
+                          組織を追加
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="space-y-2 mb-3">
+                    {companies.length === 0 ? (
+                      <p className="text-sm opacity-50 text-center py-4">会社がありません</p>
+                    ) : companies.map(company => (
+                      <div key={company.companyId} className="bg-[#F5F7FA] rounded-xl">
+                        <div
+                          className="flex items-center justify-between p-3 cursor-pointer"
+                          onClick={() => handleToggleCompany(company.companyId)}
+                        >
+                          <div>
+                            <p className="font-bold text-sm">{company.name}</p>
+                            <p className="text-xs opacity-50">
+                              {currentUser?.role === 'system_admin' && `${getOrganizationName(company.organizationId)} ・ `}
+                              ユーザー上限 {company.maxUsers} ・ 部門上限 {company.maxDepartments}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span className="text-xs opacity-50">{expandedCompanyId === company.companyId ? '▲' : '▼'}</span>
+                            {canManageCompanies && (
+                              <button
+                                onClick={(e) => { e.stopPropagation(); handleDeleteCompany(company); }}
+                                className="p-2 hover:bg-red-100 rounded text-red-500 transition-colors"
+                                title="削除"
+                              >
+                                ×
+                              </button>
                             )}
                           </div>
                         </div>
-                      ))}
+
+                        {expandedCompanyId === company.companyId && (
+                          <div className="px-3 pb-3 space-y-2">
+                            {(departmentsByCompany[company.companyId] || []).map(department => (
+                              <div key={department.departmentId} className="flex items-center justify-between pl-4 py-1 border-l-2 border-[#A18E66]/40">
+                                <span className="text-sm">{department.name}</span>
+                                <button
+                                  onClick={() => handleDeleteDepartment(department)}
+                                  className="px-2 text-red-500 hover:bg-red-100 rounded transition-colors"
+                                  title="削除"
+                                >
+                                  ×
+                                </button>
+                              </div>
+                            ))}
+                            <div className="flex gap-2 pt-1">
+                              <input
+                                type="text"
+                                value={newDepartmentName}
+                                onChange={(e) => setNewDepartmentName(e.target.value)}
+                                className="flex-1 px-3 py-2 border border-[#1E3D6B]/20 rounded-lg text-sm bg-white"
+                                placeholder="新しい部門名"
+                              />
+                              <button
+                                onClick={() => handleCreateDepartment(company.companyId)}
+                                disabled={!newDepartmentName.trim()}
+                                className="px-4 py-2 bg-[#1E3D6B] text-white text-sm font-bold rounded-lg disabled:opacity-50"
+                              >
+                                部門を追加
+                              </button>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  {canManageCompanies && (
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={newCompany.name}
+                        onChange={(e) => setNewCompany({ ...newCompany, name: e.target.value })}
+                        className="flex-1 px-3 py-2 border border-[#1E3D6B]/20 rounded-lg text-sm"
+                        placeholder="新しい会社名"
+                      />
+                      {currentUser?.role === 'system_admin' && (
+                        <select
+                          value={newCompany.organizationId}
+                          onChange={(e) => setNewCompany({ ...newCompany, organizationId: e.target.value })}
+                          className="px-3 py-2 border border-[#1E3D6B]/20 rounded-lg text-sm"
+                        >
+                          <option value="">組織を選択</option>
+                          {organizations.map(org => (
+                            <option key={org.organizationId} value={org.organizationId}>{org.name}</option>
+                          ))}
+                        </select>
+                      )}
+                      <button
+                        onClick={handleCreateCompany}
+                        disabled={!newCompany.name.trim() || (currentUser?.role === 'system_admin' && !newCompany.organizationId)}
+                        className="px-4 py-2 bg-[#1E3D6B] text-white text-sm font-bold rounded-lg disabled:opacity-50"
+                      >
+                        会社を追加
+                      </button>
                     </div>
                   )}
                 </section>
 
+                {/* Plan Settings */}
+                {currentUser?.role === 'system_admin' && plans.length > 0 && (
+                  <section>
+                    <h3 className="text-sm font-bold text-[#A18E66] uppercase tracking-wider mb-4">
+                      プラン設定
+                    </h3>
+                    <div className="space-y-4">
+                      {plans.map(settings => (
+                        <div key={settings.plan} className="p-4 bg-[#F5F7FA] rounded-xl space-y-3">
+                          <div className="flex justify-between items-center">
+                            <p className="font-bold text-sm">{getPlanLabel(settings.plan)}</p>
+                            <button
+                              onClick={() => handleSavePlan(settings)}
+                              className="px-3 py-1 bg-[#1E3D6B] text-white text-xs font-bold rounded-lg"
+                            >
+                              保存
+                            </button>
+                          </div>
+                          <div className="grid grid-cols-2 gap-1">
+                            {Object.values(MODEL_CONFIGS).map(model => (
+                              <label key={model.id} className="flex items-center gap-2 text-xs">
+                                <input
+                                  type="checkbox"
+                                  checked={!settings.allowedModels || settings.allowedModels.includes(model.id)}
+                                  onChange={() => togglePlanModel(settings.plan, model.id)}
+                                />
+                                {model.name}
+                              </label>
+                            ))}
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <label className="text-xs font-bold text-[#1E3D6B]/70">ユーザーあたり月間トークン上限</label>
+                            <input
+                              type="number"
+                              min={1}
+                              value={settings.userMonthlyTokenLimit ?? ''}
+                              onChange={(e) => setPlans(prev => prev.map(p => (
+                                p.plan === settings.plan
+                                  ? { ...p, userMonthlyTokenLimit: e.target.value ? Number(e.target.value) : undefined }
+                                  : p
+                              )))}
+                              className="w-40 px-3 py-1 border border-[#1E3D6B]/20 rounded-lg text-sm"
+                              placeholder="無制限"
+                            />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </section>
+                )}
+
+                {/* Conversation Title Model */}
+                {(currentUser?.role === 'system_admin' || currentUser?.role === 'org_admin') && organizations.length > 0 && (
+                  <section>
+                    <h3 className="text-sm font-bold text-[#A18E66] uppercase tracking-wider mb-2">
+                      会話タイトルの自動生成
+                    </h3>
+                    <p className="text-xs opacity-50 mb-4">
+                      新しい会話の最初のやり取りから、選択したモデルがタイトルを生成します。低コストのモデルを推奨します。
+                    </p>
+                    <div className="space-y-2">
+                      {organizations.map(org => (
+                        <div key={org.organizationId} className="flex items-center justify-between gap-4 p-3 bg-[#F5F7FA] rounded-xl">
+                          <span className="font-bold text-sm truncate">{org.name}</span>
+                          <select
+                            value={org.titleModel || DEFAULT_TITLE_MODEL}
+                            onChange={(e) => handleUpdateTitleModel(org, e.target.value as AIModel)}
+                            className="px-3 py-2 border border-[#1E3D6B]/20 rounded-lg text-sm bg-white"
+                          >
+                            {Object.values(MODEL_CONFIGS).map(model => (
+                              <option key={model.id} value={model.id}>
+                                {model.name}{model.id === DEFAULT_TITLE_MODEL ? ' (既定)' : ''} - ${model.pricing.input}/${model.pricing.output}/1M
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+                  </section>
+                )}
+
                 {/* Role Hierarchy Info */}
                 <section className="p-4 bg-[#1E3D6B]/5 rounded-xl">
                   <h4 className="text-xs font-bold text-[#A18E66] uppercase tracking-wider mb-3">権限階層について</h4>
@@ -1561,6 +3642,38 @@ const App: React.FC = () => {
             isLoading={authLoading}
           />
         )}
+
+        {/* Citation Source Excerpt */}
+        {openCitation && (
+          <div
+            className="fixed inset-0 z-50 bg-[#1E3D6B]/60 backdrop-blur-sm flex items-center justify-center p-4"
+            onClick={() => setOpenCitation(null)}
+          >
+            <div
+              className="paper-card paper-shadow bg-white w-full max-w-2xl max-h-[80vh] flex flex-col"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="p-4 border-b border-[#1E3D6B]/10 flex justify-between items-start gap-4">
+                <div>
+                  <p className="text-xs font-bold text-[#A18E66]">出典 [{openCitation.marker}]</p>
+                  <p className="text-sm font-bold text-[#1E3D6B]">
+                    {openCitation.fileName}
+                    {openCitation.page && <span className="opacity-60"> — p.{openCitation.page}</span>}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setOpenCitation(null)}
+                  className="p-2 hover:bg-[#1E3D6B]/5 rounded-lg text-[#1E3D6B]"
+                >
+                  ×
+                </button>
+              </div>
+              <div className="p-4 overflow-y-auto text-sm whitespace-pre-wrap leading-relaxed text-[#1E3D6B]/80">
+                {openCitation.snippet}
+              </div>
+            </div>
+          </div>
+        )}
       </main>
     </div>
   );
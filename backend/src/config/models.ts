@@ -1,5 +1,8 @@
 import type { ModelInfo, AIModel } from '../types/index.js';
 
+// Used by server-side features that are not tied to a chat model choice
+export const DEFAULT_MODEL: AIModel = 'us.anthropic.claude-sonnet-4-5-20250929-v1:0';
+
 export const MODEL_CONFIGS: Record<AIModel, ModelInfo> = {
   // Anthropic Claude (Bedrock)
   'us.anthropic.claude-opus-4-5-20251101-v1:0': {
@@ -10,6 +13,7 @@ export const MODEL_CONFIGS: Record<AIModel, ModelInfo> = {
     category: 'reasoning',
     supportsImages: true,
     maxTokens: 4096,
+    contextWindow: 200_000,
     pricing: { input: 15, output: 75 },
   },
   'us.anthropic.claude-sonnet-4-5-20250929-v1:0': {
@@ -20,6 +24,7 @@ export const MODEL_CONFIGS: Record<AIModel, ModelInfo> = {
     category: 'balanced',
     supportsImages: true,
     maxTokens: 4096,
+    contextWindow: 200_000,
     pricing: { input: 3, output: 15 },
   },
   'us.anthropic.claude-haiku-4-5-20251001-v1:0': {
@@ -30,6 +35,7 @@ export const MODEL_CONFIGS: Record<AIModel, ModelInfo> = {
     category: 'fast',
     supportsImages: true,
     maxTokens: 4096,
+    contextWindow: 200_000,
     pricing: { input: 0.8, output: 4 },
   },
 
@@ -42,6 +48,7 @@ export const MODEL_CONFIGS: Record<AIModel, ModelInfo> = {
     category: 'reasoning',
     supportsImages: true,
     maxTokens: 5000,
+    contextWindow: 300_000,
     pricing: { input: 0.8, output: 3.2 },
   },
   'us.amazon.nova-lite-v1:0': {
@@ -52,6 +59,7 @@ export const MODEL_CONFIGS: Record<AIModel, ModelInfo> = {
     category: 'fast',
     supportsImages: true,
     maxTokens: 5000,
+    contextWindow: 300_000,
     pricing: { input: 0.06, output: 0.24 },
   },
 
@@ -64,6 +72,7 @@ export const MODEL_CONFIGS: Record<AIModel, ModelInfo> = {
     category: 'balanced',
     supportsImages: false,
     maxTokens: 4096,
+    contextWindow: 128_000,
     pricing: { input: 0.17, output: 0.17 },
   },
   'us.meta.llama3-3-70b-instruct-v1:0': {
@@ -74,6 +83,7 @@ export const MODEL_CONFIGS: Record<AIModel, ModelInfo> = {
     category: 'reasoning',
     supportsImages: false,
     maxTokens: 4096,
+    contextWindow: 128_000,
     pricing: { input: 0.72, output: 0.72 },
   },
 
@@ -86,6 +96,7 @@ export const MODEL_CONFIGS: Record<AIModel, ModelInfo> = {
     category: 'fast',
     supportsImages: true,
     maxTokens: 8192,
+    contextWindow: 1_048_576,
     pricing: { input: 0.5, output: 3 },
   },
   'gemini-3-pro-preview': {
@@ -96,6 +107,7 @@ export const MODEL_CONFIGS: Record<AIModel, ModelInfo> = {
     category: 'reasoning',
     supportsImages: true,
     maxTokens: 8192,
+    contextWindow: 1_048_576,
     pricing: { input: 2.5, output: 10 },
   },
 };
@@ -111,3 +123,13 @@ export function getModelsByProvider(provider: 'bedrock' | 'gemini'): ModelInfo[]
 export function getAllModels(): ModelInfo[] {
   return Object.values(MODEL_CONFIGS);
 }
+
+// Calculate cost (USD) based on token usage
+export function calculateCost(modelId: string, inputTokens: number, outputTokens: number): number {
+  const modelInfo = MODEL_CONFIGS[modelId as keyof typeof MODEL_CONFIGS];
+  if (!modelInfo) return 0;
+
+  const inputCost = (inputTokens / 1_000_000) * modelInfo.pricing.input;
+  const outputCost = (outputTokens / 1_000_000) * modelInfo.pricing.output;
+  return inputCost + outputCost;
+}
@@ -0,0 +1,274 @@
+import type {
+  APIGatewayEvent,
+  APIGatewayResponse,
+  AuditEvent,
+  AuthPrincipal,
+  CreateCompanyRequest,
+  CreateDepartmentRequest,
+  CreateOrganizationRequest,
+  OrganizationPlan,
+  UpdateCompanyRequest,
+  UpdateDepartmentRequest,
+  UpdateOrganizationRequest,
+  UpdatePlanSettingsRequest,
+  UsageGroupBy,
+} from '../types/index.js';
+import { withAuth } from '../middleware/auth.js';
+import { ForbiddenError } from '../services/permissions.js';
+import { recordAccessDenied } from '../services/audit.js';
+import {
+  TenantValidationError,
+  canViewCompany,
+  canViewOrganization,
+  createCompany,
+  createDepartment,
+  createOrganization,
+  deleteCompany,
+  deleteDepartment,
+  deleteOrganization,
+  getCompany,
+  getDepartment,
+  getOrganization,
+  listCompanies,
+  listDepartments,
+  listOrganizations,
+  updateCompany,
+  updateDepartment,
+  updateOrganization,
+  type PageOptions,
+} from '../services/tenants.js';
+import { listPlanSettings, updatePlanSettings } from '../services/quotas.js';
+import { queryUsage, UsageQueryError } from '../services/usage.js';
+import { parseLimit, PaginationError } from '../services/pagination.js';
+
+const CORS_HEADERS = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Amz-Date,X-Api-Key,X-Amz-Security-Token',
+  'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+};
+
+function createResponse(statusCode: number, body: object): APIGatewayResponse {
+  return {
+    statusCode,
+    headers: CORS_HEADERS,
+    body: JSON.stringify(body),
+  };
+}
+
+function pageOptions(params: APIGatewayEvent['queryStringParameters']): PageOptions {
+  return { limit: parseLimit(params?.limit), nextToken: params?.nextToken };
+}
+
+// Run a tenant change, recording a denied attempt in the audit log
+async function audited<T>(
+  principal: AuthPrincipal,
+  action: string,
+  resourceType: AuditEvent['resourceType'],
+  resourceId: string,
+  run: () => Promise<T>
+): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof ForbiddenError) {
+      await recordAccessDenied(principal, action, resourceType, resourceId, error.message);
+    }
+    throw error;
+  }
+}
+
+// Main handler
+export const handler = withAuth(async (event, principal) => {
+  const path = event.path;
+  const method = event.httpMethod;
+  // /admin/{collection}/{id}/{sub-collection}/{sub-id}
+  const [, , collection, id, subCollection, subId] = path.split('/');
+
+  try {
+    if (collection === 'organizations') {
+      // GET /admin/organizations?limit=&nextToken=
+      if (method === 'GET' && !id) {
+        const page = await listOrganizations(principal, pageOptions(event.queryStringParameters));
+        return createResponse(200, { organizations: page.items, nextToken: page.nextToken });
+      }
+
+      // POST /admin/organizations
+      if (method === 'POST' && !id) {
+        const request: CreateOrganizationRequest = JSON.parse(event.body || '{}');
+        const organization = await audited(principal, 'organization:create', 'organization', 'new',
+          () => createOrganization(principal, request));
+        return createResponse(201, organization);
+      }
+
+      if (id && !subCollection) {
+        const organization = await getOrganization(id);
+        if (!organization) {
+          return createResponse(404, { error: 'Organization not found' });
+        }
+        if (!canViewOrganization(id, principal)) {
+          await recordAccessDenied(principal, `organization:${method.toLowerCase()}`, 'organization', id, 'outside organization');
+          return createResponse(403, { error: 'Permission denied' });
+        }
+
+        // GET /admin/organizations/{organizationId}
+        if (method === 'GET') {
+          return createResponse(200, organization);
+        }
+
+        // PUT /admin/organizations/{organizationId}
+        if (method === 'PUT') {
+          const request: UpdateOrganizationRequest = JSON.parse(event.body || '{}');
+          const updated = await audited(principal, 'organization:update', 'organization', id,
+            () => updateOrganization(principal, organization, request));
+          return createResponse(200, updated);
+        }
+
+        // DELETE /admin/organizations/{organizationId}
+        if (method === 'DELETE') {
+          await audited(principal, 'organization:delete', 'organization', id,
+            () => deleteOrganization(principal, organization));
+          return createResponse(200, { message: 'Organization deleted' });
+        }
+      }
+    }
+
+    if (collection === 'companies') {
+      // GET /admin/companies?organizationId=&limit=&nextToken=
+      if (method === 'GET' && !id) {
+        const params = event.queryStringParameters;
+        const page = await listCompanies(principal, params?.organizationId, pageOptions(params));
+        return createResponse(200, { companies: page.items, nextToken: page.nextToken });
+      }
+
+      // POST /admin/companies
+      if (method === 'POST' && !id) {
+        const request: CreateCompanyRequest = JSON.parse(event.body || '{}');
+        const company = await audited(principal, 'company:create', 'organization', request.organizationId || 'unknown',
+          () => createCompany(principal, request));
+        return createResponse(201, company);
+      }
+
+      if (id) {
+        const company = await getCompany(id);
+        if (!company) {
+          return createResponse(404, { error: 'Company not found' });
+        }
+        if (!canViewCompany(company, principal)) {
+          await recordAccessDenied(principal, `company:${method.toLowerCase()}`, 'company', id, 'outside company scope');
+          return createResponse(403, { error: 'Permission denied' });
+        }
+
+        if (!subCollection) {
+          // GET /admin/companies/{companyId}
+          if (method === 'GET') {
+            return createResponse(200, company);
+          }
+
+          // PUT /admin/companies/{companyId}
+          if (method === 'PUT') {
+            const request: UpdateCompanyRequest = JSON.parse(event.body || '{}');
+            const updated = await audited(principal, 'company:update', 'company', id,
+              () => updateCompany(principal, company, request));
+            return createResponse(200, updated);
+          }
+
+          // DELETE /admin/companies/{companyId}
+          if (method === 'DELETE') {
+            await audited(principal, 'company:delete', 'company', id,
+              () => deleteCompany(principal, company));
+            return createResponse(200, { message: 'Company deleted' });
+          }
+        }
+
+        if (subCollection === 'departments') {
+          // GET /admin/companies/{companyId}/departments?limit=&nextToken=
+          if (method === 'GET' && !subId) {
+            const page = await listDepartments(company.companyId, pageOptions(event.queryStringParameters));
+            return createResponse(200, { departments: page.items, nextToken: page.nextToken });
+          }
+
+          // POST /admin/companies/{companyId}/departments
+          if (method === 'POST' && !subId) {
+            const request: CreateDepartmentRequest = JSON.parse(event.body || '{}');
+            const department = await audited(principal, 'department:create', 'company', id,
+              () => createDepartment(principal, company, request));
+            return createResponse(201, department);
+          }
+
+          if (subId) {
+            const department = await getDepartment(company.companyId, subId);
+            if (!department) {
+              return createResponse(404, { error: 'Department not found' });
+            }
+
+            // PUT /admin/companies/{companyId}/departments/{departmentId}
+            if (method === 'PUT') {
+              const request: UpdateDepartmentRequest = JSON.parse(event.body || '{}');
+              const updated = await audited(principal, 'department:update', 'department', subId,
+                () => updateDepartment(principal, company, department, request));
+              return createResponse(200, updated);
+            }
+
+            // DELETE /admin/companies/{companyId}/departments/{departmentId}
+            if (method === 'DELETE') {
+              await audited(principal, 'department:delete', 'department', subId,
+                () => deleteDepartment(principal, company, department));
+              return createResponse(200, { message: 'Department deleted' });
+            }
+          }
+        }
+      }
+    }
+
+    if (collection === 'plans') {
+      // GET /admin/plans
+      if (method === 'GET' && !id) {
+        if (principal.role === 'user') {
+          return createResponse(403, { error: 'Permission denied' });
+        }
+        const plans = await listPlanSettings();
+        return createResponse(200, { plans });
+      }
+
+      // PUT /admin/plans/{plan}
+      if (method === 'PUT' && id) {
+        const request: UpdatePlanSettingsRequest = JSON.parse(event.body || '{}');
+        const settings = await audited(principal, 'plan:update', 'organization', `plan:${id}`,
+          () => updatePlanSettings(principal, id as OrganizationPlan, request));
+        return createResponse(200, settings);
+      }
+    }
+
+    // GET /admin/usage?from=&to=&groupBy=&organizationId=&companyId=&userId=
+    if (collection === 'usage' && method === 'GET' && !id) {
+      const params = event.queryStringParameters || {};
+      const report = await audited(principal, 'usage:read', 'organization', params.organizationId || 'all',
+        () => queryUsage(principal, {
+          from: params.from,
+          to: params.to,
+          groupBy: params.groupBy as UsageGroupBy | undefined,
+          organizationId: params.organizationId,
+          companyId: params.companyId,
+          userId: params.userId,
+        }));
+      return createResponse(200, report);
+    }
+
+    return createResponse(404, { error: 'Not found' });
+  } catch (error) {
+    if (error instanceof ForbiddenError) {
+      return createResponse(403, { error: error.message });
+    }
+    if (
+      error instanceof TenantValidationError ||
+      error instanceof UsageQueryError ||
+      error instanceof PaginationError
+    ) {
+      return createResponse(400, { error: error.message });
+    }
+    console.error('Admin handler error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return createResponse(500, { error: errorMessage });
+  }
+});
@@ -5,14 +5,54 @@ import {
   AdminCreateUserCommand,
   AdminUpdateUserAttributesCommand,
   AdminGetUserCommand,
+  AdminDisableUserCommand,
+  AdminEnableUserCommand,
+  AdminDeleteUserCommand,
+  AdminUserGlobalSignOutCommand,
   ListUsersCommand,
   ConfirmSignUpCommand,
   AdminConfirmSignUpCommand,
+  RevokeTokenCommand,
+  GlobalSignOutCommand,
 } from '@aws-sdk/client-cognito-identity-provider';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, PutCommand, GetCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  QueryCommand,
+  UpdateCommand,
+  DeleteCommand,
+} from '@aws-sdk/lib-dynamodb';
 import { v4 as uuidv4 } from 'uuid';
-import type { APIGatewayEvent, APIGatewayResponse } from '../types/index.js';
+import type {
+  APIGatewayEvent,
+  APIGatewayResponse,
+  AuthPrincipal,
+  CreateUserImportRequest,
+  CreateUserRequest,
+  UserRecord,
+  UserRole,
+} from '../types/index.js';
+import { authenticate } from '../middleware/auth.js';
+import { verifyCognitoToken } from '../services/jwt.js';
+import { revokeTokenSession } from '../services/tokenRevocation.js';
+import { resolveUserTenant, TenantValidationError, type TenantAssignment } from '../services/tenants.js';
+import { recordAccessDenied } from '../services/audit.js';
+import { ForbiddenError } from '../services/permissions.js';
+import { decodeCursor, encodeCursor, parseLimit, PaginationError } from '../services/pagination.js';
+import {
+  createUserImport,
+  getUserImport,
+  resumeUserImport,
+  UserImportError,
+} from '../services/userImport.js';
+import {
+  MANAGEABLE_ROLES,
+  USER_ROLES,
+  createUserAccount,
+  generateTemporaryPassword,
+} from '../services/users.js';
 
 const cognitoClient = new CognitoIdentityProviderClient({});
 const ddbClient = new DynamoDBClient({});
@@ -22,25 +62,6 @@ const USER_POOL_ID = process.env.USER_POOL_ID || '';
 const CLIENT_ID = process.env.USER_POOL_CLIENT_ID || '';
 const TABLE_NAME = process.env.MAIN_TABLE || '';
 
-// User roles
-type UserRole = 'system_admin' | 'org_admin' | 'company_admin' | 'user';
-
-interface UserRecord {
-  PK: string;
-  SK: string;
-  userId: string;
-  email: string;
-  name: string;
-  role: UserRole;
-  organizationId?: string;
-  companyId?: string;
-  departmentId?: string;
-  createdAt: string;
-  updatedAt: string;
-  GSI1PK?: string;
-  GSI1SK?: string;
-}
-
 const CORS_HEADERS = {
   'Content-Type': 'application/json',
   'Access-Control-Allow-Origin': '*',
@@ -56,6 +77,22 @@ function createResponse(statusCode: number, body: object): APIGatewayResponse {
   };
 }
 
+const TENANT_FIELDS = ['organizationId', 'companyId', 'departmentId'] as const;
+
+function toAdminUser(user: UserRecord) {
+  return {
+    userId: user.userId,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    organizationId: user.organizationId,
+    companyId: user.companyId,
+    departmentId: user.departmentId,
+    disabled: user.disabled || false,
+    createdAt: user.createdAt,
+  };
+}
+
 // Sign up new user
 async function signUp(body: {
   email: string;
@@ -204,6 +241,116 @@ async function signIn(body: {
   }
 }
 
+// Exchange a refresh token for new tokens. Cognito returns a new refresh
+// token when rotation is enabled on the app client; otherwise the caller
+// keeps using the one it sent.
+async function refreshTokens(body: {
+  refreshToken: string;
+}): Promise<APIGatewayResponse> {
+  const { refreshToken } = body;
+
+  if (!refreshToken) {
+    return createResponse(400, { error: 'refreshToken is required' });
+  }
+
+  try {
+    const authResult = await cognitoClient.send(new InitiateAuthCommand({
+      AuthFlow: 'REFRESH_TOKEN_AUTH',
+      ClientId: CLIENT_ID,
+      AuthParameters: {
+        REFRESH_TOKEN: refreshToken,
+      },
+    }));
+
+    if (!authResult.AuthenticationResult) {
+      return createResponse(401, { error: 'Token refresh failed' });
+    }
+
+    return createResponse(200, {
+      accessToken: authResult.AuthenticationResult.AccessToken,
+      idToken: authResult.AuthenticationResult.IdToken,
+      refreshToken: authResult.AuthenticationResult.RefreshToken || refreshToken,
+      expiresIn: authResult.AuthenticationResult.ExpiresIn,
+    });
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    const message = error instanceof Error ? error.message : 'Token refresh failed';
+    return createResponse(401, { error: message });
+  }
+}
+
+// Sign out. Revoking the refresh token also invalidates the access tokens
+// issued from it at Cognito; since this API verifies tokens locally, the
+// sign-in of the presented token is also recorded as revoked so its remaining
+// tokens are rejected here. A global sign-out additionally signs the user out
+// of every device and stamps tokensRevokedAt so that this API rejects tokens
+// issued before now.
+async function signOut(
+  headers: APIGatewayEvent['headers'],
+  body: {
+    refreshToken?: string;
+    global?: boolean;
+  }
+): Promise<APIGatewayResponse> {
+  const { refreshToken, global } = body;
+
+  if (!refreshToken && !global) {
+    return createResponse(400, { error: 'refreshToken is required' });
+  }
+
+  try {
+    if (refreshToken) {
+      await cognitoClient.send(new RevokeTokenCommand({
+        ClientId: CLIENT_ID,
+        Token: refreshToken,
+      }));
+    }
+
+    if (global) {
+      const user = await authenticate(headers);
+      if (!user) {
+        return createResponse(401, { error: 'Authentication required' });
+      }
+
+      const authHeader = headers?.Authorization || headers?.authorization || '';
+      await cognitoClient.send(new GlobalSignOutCommand({
+        AccessToken: authHeader.slice('Bearer '.length).trim(),
+      }));
+
+      const now = new Date().toISOString();
+      await ddb.send(new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `USER#${user.userId}`,
+          SK: 'META',
+        },
+        UpdateExpression: 'SET tokensRevokedAt = :now, updatedAt = :now',
+        ConditionExpression: 'attribute_exists(PK)',
+        ExpressionAttributeValues: {
+          ':now': now,
+        },
+      })).catch((error) => {
+        console.error('Failed to record token revocation:', error);
+      });
+    }
+
+    const authHeader = headers?.Authorization || headers?.authorization || '';
+    if (authHeader.startsWith('Bearer ')) {
+      // An expired or invalid token has nothing left to revoke
+      const claims = await verifyCognitoToken(authHeader.slice('Bearer '.length).trim()).catch(() => null);
+      if (claims) {
+        await revokeTokenSession(claims);
+      }
+    }
+
+    return createResponse(200, { message: 'Signed out' });
+  } catch (error) {
+    console.error('Sign out error:', error);
+    const message = error instanceof Error ? error.message : 'Sign out failed';
+    return createResponse(400, { error: message });
+  }
+}
+
 // Get user profile
 async function getProfile(userId: string): Promise<APIGatewayResponse> {
   try {
@@ -270,11 +417,15 @@ async function updateProfile(userId: string, body: {
 }
 
 // Admin: List users (with role-based filtering)
-async function listUsers(requestingUser: UserRecord, query: {
+async function listUsers(requestingUser: AuthPrincipal, query: {
   organizationId?: string;
   companyId?: string;
+  limit?: string;
+  nextToken?: string;
 }): Promise<APIGatewayResponse> {
   try {
+    const limit = parseLimit(query.limit);
+
     let filterExpression = '';
     const expressionValues: Record<string, string> = { ':pk': 'USERS' };
 
@@ -297,139 +448,291 @@ async function listUsers(requestingUser: UserRecord, query: {
       return createResponse(403, { error: 'Permission denied' });
     }
 
-    const result = await ddb.send(new QueryCommand({
-      TableName: TABLE_NAME,
-      IndexName: 'GSI1',
-      KeyConditionExpression: 'GSI1PK = :pk',
-      FilterExpression: filterExpression || undefined,
-      ExpressionAttributeValues: expressionValues,
-      ScanIndexForward: false,
-    }));
+    // The filter applies after Limit, so keep reading until the page is full.
+    // Each read evaluates at most the missing number of items, so the last
+    // evaluated key is always right after the last returned user.
+    const items: UserRecord[] = [];
+    let lastKey = decodeCursor<Record<string, unknown>>(query.nextToken);
+    do {
+      const result = await ddb.send(new QueryCommand({
+        TableName: TABLE_NAME,
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :pk',
+        FilterExpression: filterExpression || undefined,
+        ExpressionAttributeValues: expressionValues,
+        ScanIndexForward: false,
+        Limit: limit - items.length,
+        ExclusiveStartKey: lastKey,
+      }));
+      items.push(...(result.Items || []) as UserRecord[]);
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey && items.length < limit);
 
-    const users = (result.Items || []).map((item) => {
-      const user = item as UserRecord;
-      return {
-        userId: user.userId,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-        organizationId: user.organizationId,
-        companyId: user.companyId,
-        departmentId: user.departmentId,
-        createdAt: user.createdAt,
-      };
+    return createResponse(200, {
+      users: items.map(toAdminUser),
+      nextToken: lastKey ? encodeCursor(lastKey) : undefined,
     });
-
-    return createResponse(200, { users });
   } catch (error) {
+    if (error instanceof PaginationError) {
+      return createResponse(400, { error: error.message });
+    }
     console.error('List users error:', error);
     return createResponse(500, { error: 'Failed to list users' });
   }
 }
 
 // Admin: Create user
-async function createUser(requestingUser: UserRecord, body: {
-  email: string;
-  name: string;
-  role: UserRole;
-  organizationId?: string;
-  companyId?: string;
-  departmentId?: string;
-  temporaryPassword?: string;
+async function createUser(requestingUser: AuthPrincipal, body: CreateUserRequest): Promise<APIGatewayResponse> {
+  try {
+    const result = await createUserAccount(requestingUser, body);
+
+    return createResponse(200, {
+      message: 'User created successfully',
+      ...result,
+    });
+  } catch (error) {
+    if (error instanceof ForbiddenError) {
+      return createResponse(403, { error: error.message });
+    }
+    if (!(error instanceof TenantValidationError)) {
+      console.error('Create user error:', error);
+    }
+    const message = error instanceof Error ? error.message : 'Failed to create user';
+    return createResponse(400, { error: message });
+  }
+}
+
+async function getUserRecord(userId: string): Promise<UserRecord | null> {
+  const result = await ddb.send(new GetCommand({
+    TableName: TABLE_NAME,
+    Key: {
+      PK: `USER#${userId}`,
+      SK: 'META',
+    },
+  }));
+
+  return (result.Item as UserRecord) || null;
+}
+
+// Why the caller may not manage an existing user, or null when they may. The
+// role hierarchy and tenant scope are the ones createUser applies; admins
+// cannot change their own account this way, so they cannot lock themselves out.
+function manageUserDenial(requestingUser: AuthPrincipal, target: UserRecord): string | null {
+  if (target.userId === requestingUser.userId) {
+    return 'Cannot manage your own account';
+  }
+  if (!MANAGEABLE_ROLES[requestingUser.role].includes(target.role)) {
+    return 'Cannot manage user with this role';
+  }
+  if (requestingUser.role === 'org_admin' && target.organizationId !== requestingUser.organizationId) {
+    return 'Cannot manage user in different organization';
+  }
+  if (requestingUser.role === 'company_admin' && target.companyId !== requestingUser.companyId) {
+    return 'Cannot manage user in different company';
+  }
+  return null;
+}
+
+async function denyUserAction(
+  requestingUser: AuthPrincipal,
+  action: string,
+  userId: string,
+  reason: string
+): Promise<APIGatewayResponse> {
+  await recordAccessDenied(requestingUser, action, 'user', userId, reason);
+  return createResponse(403, { error: reason });
+}
+
+// Admin: Update a user's name, role or tenant. Omitted fields keep their
+// value; null (or '') clears a tenant field. Moving to another company drops
+// the department unless a new one is given.
+async function updateUser(requestingUser: AuthPrincipal, userId: string, body: {
+  name?: string;
+  role?: UserRole;
+  organizationId?: string | null;
+  companyId?: string | null;
+  departmentId?: string | null;
 }): Promise<APIGatewayResponse> {
-  const { email, name, role, organizationId, companyId, departmentId, temporaryPassword } = body;
-
-  // Permission check
-  const allowedRoles: Record<UserRole, UserRole[]> = {
-    system_admin: ['system_admin', 'org_admin', 'company_admin', 'user'],
-    org_admin: ['company_admin', 'user'],
-    company_admin: ['user'],
-    user: [],
-  };
+  const target = await getUserRecord(userId);
+  if (!target) {
+    return createResponse(404, { error: 'User not found' });
+  }
 
-  if (!allowedRoles[requestingUser.role].includes(role)) {
-    return createResponse(403, { error: 'Cannot create user with this role' });
+  const denial = manageUserDenial(requestingUser, target);
+  if (denial) {
+    return denyUserAction(requestingUser, 'user:update', userId, denial);
   }
 
-  // Org admin can only create users in their organization
-  if (requestingUser.role === 'org_admin' && organizationId !== requestingUser.organizationId) {
-    return createResponse(403, { error: 'Cannot create user in different organization' });
+  if (body.name !== undefined && !body.name.trim()) {
+    return createResponse(400, { error: 'name must not be empty' });
+  }
+  if (body.role !== undefined && !USER_ROLES.includes(body.role)) {
+    return createResponse(400, { error: `Unknown role: ${body.role}` });
   }
 
-  // Company admin can only create users in their company
-  if (requestingUser.role === 'company_admin' && companyId !== requestingUser.companyId) {
-    return createResponse(403, { error: 'Cannot create user in different company' });
+  const role = body.role || target.role;
+  if (!MANAGEABLE_ROLES[requestingUser.role].includes(role)) {
+    return denyUserAction(requestingUser, 'user:update', userId, 'Cannot assign this role');
   }
 
+  const companyId = body.companyId === undefined ? target.companyId : body.companyId || undefined;
+  const companyChanged = companyId !== target.companyId;
+  const assignment: TenantAssignment = {
+    organizationId: body.organizationId === undefined
+      ? (companyChanged ? undefined : target.organizationId)
+      : body.organizationId || undefined,
+    companyId,
+    departmentId: body.departmentId === undefined
+      ? (companyChanged ? undefined : target.departmentId)
+      : body.departmentId || undefined,
+  };
+
+  let tenant: TenantAssignment;
   try {
-    // Create user in Cognito
-    const password = temporaryPassword || `Temp${uuidv4().substring(0, 8)}!`;
+    tenant = await resolveUserTenant(role, assignment, { countNewUser: companyChanged });
+  } catch (error) {
+    if (error instanceof TenantValidationError) {
+      return createResponse(400, { error: error.message });
+    }
+    throw error;
+  }
+
+  // The user may only be moved within the caller's own scope
+  if (requestingUser.role === 'org_admin' && tenant.organizationId !== requestingUser.organizationId) {
+    return denyUserAction(requestingUser, 'user:update', userId, 'Cannot move user to different organization');
+  }
+  if (requestingUser.role === 'company_admin' && tenant.companyId !== requestingUser.companyId) {
+    return denyUserAction(requestingUser, 'user:update', userId, 'Cannot move user to different company');
+  }
 
-    const cognitoResult = await cognitoClient.send(new AdminCreateUserCommand({
+  const name = body.name?.trim() || target.name;
+
+  try {
+    // Cognito first: the token claims should never be ahead of the record
+    await cognitoClient.send(new AdminUpdateUserAttributesCommand({
       UserPoolId: USER_POOL_ID,
-      Username: email,
-      TemporaryPassword: password,
+      Username: userId,
       UserAttributes: [
-        { Name: 'email', Value: email },
-        { Name: 'email_verified', Value: 'true' },
         { Name: 'name', Value: name },
         { Name: 'custom:role', Value: role },
-        { Name: 'custom:orgId', Value: organizationId || '' },
-        { Name: 'custom:compId', Value: companyId || '' },
-        { Name: 'custom:deptId', Value: departmentId || '' },
+        { Name: 'custom:orgId', Value: tenant.organizationId || '' },
+        { Name: 'custom:compId', Value: tenant.companyId || '' },
+        { Name: 'custom:deptId', Value: tenant.departmentId || '' },
       ],
-      MessageAction: 'SUPPRESS', // Don't send welcome email
     }));
 
-    const userId = cognitoResult.User?.Username || uuidv4();
-    const now = new Date().toISOString();
+    // Attribute names go through placeholders: "name" and "role" are reserved words
+    const values: Record<string, string> = { name, role, updatedAt: new Date().toISOString(), ...tenant };
+    const removed = TENANT_FIELDS.filter(field => !tenant[field]);
+    const result = await ddb.send(new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `USER#${userId}`,
+        SK: 'META',
+      },
+      UpdateExpression: `SET ${Object.keys(values).map(field => `#${field} = :${field}`).join(', ')}`
+        + (removed.length > 0 ? ` REMOVE ${removed.map(field => `#${field}`).join(', ')}` : ''),
+      ConditionExpression: 'attribute_exists(PK)',
+      ExpressionAttributeNames: Object.fromEntries(
+        [...Object.keys(values), ...removed].map(field => [`#${field}`, field])
+      ),
+      ExpressionAttributeValues: Object.fromEntries(
+        Object.entries(values).map(([field, value]) => [`:${field}`, value])
+      ),
+      ReturnValues: 'ALL_NEW',
+    }));
 
-    // Create user record in DynamoDB
-    const userRecord: UserRecord = {
-      PK: `USER#${userId}`,
-      SK: 'META',
-      userId,
-      email,
-      name,
-      role,
-      organizationId,
-      companyId,
-      departmentId,
-      createdAt: now,
-      updatedAt: now,
-      GSI1PK: 'USERS',
-      GSI1SK: `USER#${now}`,
-    };
+    return createResponse(200, toAdminUser(result.Attributes as UserRecord));
+  } catch (error) {
+    console.error('Update user error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to update user';
+    return createResponse(400, { error: message });
+  }
+}
 
-    await ddb.send(new PutCommand({
+// Admin: Disable or re-enable a user. Disabling blocks sign-in at Cognito,
+// signs the user out everywhere and stamps tokensRevokedAt so tokens already
+// issued stop working here as well.
+async function setUserDisabled(
+  requestingUser: AuthPrincipal,
+  userId: string,
+  disabled: boolean
+): Promise<APIGatewayResponse> {
+  const action = disabled ? 'user:disable' : 'user:enable';
+  const target = await getUserRecord(userId);
+  if (!target) {
+    return createResponse(404, { error: 'User not found' });
+  }
+
+  const denial = manageUserDenial(requestingUser, target);
+  if (denial) {
+    return denyUserAction(requestingUser, action, userId, denial);
+  }
+
+  const now = new Date().toISOString();
+
+  try {
+    if (disabled) {
+      await cognitoClient.send(new AdminDisableUserCommand({
+        UserPoolId: USER_POOL_ID,
+        Username: userId,
+      }));
+      await cognitoClient.send(new AdminUserGlobalSignOutCommand({
+        UserPoolId: USER_POOL_ID,
+        Username: userId,
+      }));
+    } else {
+      await cognitoClient.send(new AdminEnableUserCommand({
+        UserPoolId: USER_POOL_ID,
+        Username: userId,
+      }));
+    }
+
+    await ddb.send(new UpdateCommand({
       TableName: TABLE_NAME,
-      Item: userRecord,
+      Key: {
+        PK: `USER#${userId}`,
+        SK: 'META',
+      },
+      UpdateExpression: disabled
+        ? 'SET disabled = :true, disabledAt = :now, tokensRevokedAt = :now, updatedAt = :now'
+        : 'SET updatedAt = :now REMOVE disabled, disabledAt',
+      ConditionExpression: 'attribute_exists(PK)',
+      ExpressionAttributeValues: disabled ? { ':true': true, ':now': now } : { ':now': now },
     }));
 
-    return createResponse(200, {
-      message: 'User created successfully',
-      userId,
-      temporaryPassword: password,
-    });
+    return createResponse(200, { message: disabled ? 'User disabled' : 'User enabled' });
   } catch (error) {
-    console.error('Create user error:', error);
-    const message = error instanceof Error ? error.message : 'Failed to create user';
+    console.error(`${disabled ? 'Disable' : 'Enable'} user error:`, error);
+    const message = error instanceof Error ? error.message : 'Failed to update user';
     return createResponse(400, { error: message });
   }
 }
 
-// Extract user from Authorization header (simplified - in production use proper JWT validation)
-async function getUserFromToken(authHeader: string | undefined): Promise<UserRecord | null> {
-  if (!authHeader?.startsWith('Bearer ')) {
-    return null;
+// Admin: Delete a user from Cognito and DynamoDB. Cognito goes first so a
+// failure never leaves an account that can sign in without a record. The
+// user's conversations and files are kept.
+async function deleteUser(requestingUser: AuthPrincipal, userId: string): Promise<APIGatewayResponse> {
+  const target = await getUserRecord(userId);
+  if (!target) {
+    return createResponse(404, { error: 'User not found' });
   }
 
-  // For now, we'll use the userId passed in header for simplicity
-  // In production, validate JWT and extract claims
-  const userId = authHeader.replace('Bearer ', '');
+  const denial = manageUserDenial(requestingUser, target);
+  if (denial) {
+    return denyUserAction(requestingUser, 'user:delete', userId, denial);
+  }
 
   try {
-    const result = await ddb.send(new GetCommand({
+    await cognitoClient.send(new AdminDeleteUserCommand({
+      UserPoolId: USER_POOL_ID,
+      Username: userId,
+    })).catch((error) => {
+      // Already gone from Cognito: still remove the record
+      if ((error as Error).name !== 'UserNotFoundException') throw error;
+    });
+
+    await ddb.send(new DeleteCommand({
       TableName: TABLE_NAME,
       Key: {
         PK: `USER#${userId}`,
@@ -437,9 +740,102 @@ async function getUserFromToken(authHeader: string | undefined): Promise<UserRec
       },
     }));
 
-    return (result.Item as UserRecord) || null;
-  } catch {
-    return null;
+    return createResponse(200, { message: 'User deleted' });
+  } catch (error) {
+    console.error('Delete user error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to delete user';
+    return createResponse(400, { error: message });
+  }
+}
+
+// Admin: Send the invitation email again with a new temporary password. Only
+// possible while the user has not set their own password yet.
+async function resendInvite(requestingUser: AuthPrincipal, userId: string): Promise<APIGatewayResponse> {
+  const target = await getUserRecord(userId);
+  if (!target) {
+    return createResponse(404, { error: 'User not found' });
+  }
+
+  const denial = manageUserDenial(requestingUser, target);
+  if (denial) {
+    return denyUserAction(requestingUser, 'user:resend_invite', userId, denial);
+  }
+  if (target.disabled) {
+    return createResponse(409, { error: 'User is disabled' });
+  }
+
+  try {
+    const cognitoUser = await cognitoClient.send(new AdminGetUserCommand({
+      UserPoolId: USER_POOL_ID,
+      Username: userId,
+    }));
+    if (cognitoUser.UserStatus !== 'FORCE_CHANGE_PASSWORD') {
+      return createResponse(409, { error: 'User has already signed in' });
+    }
+
+    const password = generateTemporaryPassword();
+    await cognitoClient.send(new AdminCreateUserCommand({
+      UserPoolId: USER_POOL_ID,
+      Username: target.email,
+      TemporaryPassword: password,
+      MessageAction: 'RESEND',
+    }));
+
+    return createResponse(200, {
+      message: 'Invitation sent',
+      temporaryPassword: password,
+    });
+  } catch (error) {
+    console.error('Resend invite error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to resend invitation';
+    return createResponse(400, { error: message });
+  }
+}
+
+// Admin: Bulk user import. Starting an import processes the first batch;
+// while the returned job is in_progress the client resumes it.
+async function handleUserImport(
+  requestingUser: AuthPrincipal,
+  method: string,
+  jobId: string | undefined,
+  action: string | undefined,
+  body: string | null
+): Promise<APIGatewayResponse> {
+  try {
+    // POST /admin/users/import
+    if (method === 'POST' && !jobId) {
+      const request: CreateUserImportRequest = JSON.parse(body || '{}');
+      const job = await createUserImport(requestingUser, request);
+      return createResponse(201, job);
+    }
+
+    if (jobId && (method === 'GET' || (method === 'POST' && action === 'resume'))) {
+      const job = await getUserImport(requestingUser, jobId);
+      if (!job) {
+        return createResponse(404, { error: 'Import not found' });
+      }
+
+      // GET /admin/users/import/{jobId}
+      if (method === 'GET') {
+        return createResponse(200, job);
+      }
+
+      // POST /admin/users/import/{jobId}/resume
+      return createResponse(200, await resumeUserImport(requestingUser, job));
+    }
+
+    return createResponse(404, { error: 'Not found' });
+  } catch (error) {
+    if (error instanceof ForbiddenError) {
+      await recordAccessDenied(requestingUser, 'user:import', 'user', jobId || 'new', error.message);
+      return createResponse(403, { error: error.message });
+    }
+    if (error instanceof UserImportError) {
+      return createResponse(400, { error: error.message });
+    }
+    console.error('User import error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to import users';
+    return createResponse(500, { error: message });
   }
 }
 
@@ -470,33 +866,36 @@ export async function handler(event: APIGatewayEvent): Promise<APIGatewayRespons
       return confirmSignUp(body);
     }
 
+    if (method === 'POST' && path === '/auth/refresh') {
+      const body = JSON.parse(event.body || '{}');
+      return refreshTokens(body);
+    }
+
+    if (method === 'POST' && path === '/auth/signout') {
+      const body = JSON.parse(event.body || '{}');
+      return signOut(event.headers, body);
+    }
+
     // Protected routes (auth required)
-    const authHeader = event.headers?.Authorization || event.headers?.authorization;
+    const user = await authenticate(event.headers);
+    if (!user) {
+      return createResponse(401, { error: 'Authentication required' });
+    }
 
-    // For profile routes, use userId from query or path
+    // Profile routes always act on the authenticated caller
     if (path === '/auth/profile') {
-      const userId = event.queryStringParameters?.userId;
-      if (!userId) {
-        return createResponse(400, { error: 'userId is required' });
-      }
-
       if (method === 'GET') {
-        return getProfile(userId);
+        return getProfile(user.userId);
       }
 
       if (method === 'PUT') {
         const body = JSON.parse(event.body || '{}');
-        return updateProfile(userId, body);
+        return updateProfile(user.userId, body);
       }
     }
 
     // Admin routes
     if (path.startsWith('/admin/')) {
-      const user = await getUserFromToken(authHeader);
-      if (!user) {
-        return createResponse(401, { error: 'Authentication required' });
-      }
-
       if (path === '/admin/users') {
         if (method === 'GET') {
           const query = event.queryStringParameters || {};
@@ -508,6 +907,33 @@ export async function handler(event: APIGatewayEvent): Promise<APIGatewayRespons
           return createUser(user, body);
         }
       }
+
+      // /admin/users/import[/{jobId}[/resume]]
+      if (path === '/admin/users/import' || path.startsWith('/admin/users/import/')) {
+        const [, , , , jobId, action] = path.split('/');
+        return handleUserImport(user, method, jobId, action, event.body);
+      }
+
+      // /admin/users/{userId}[/{action}]
+      const [, , collection, userId, action] = path.split('/');
+      if (collection === 'users' && userId) {
+        if (!action && method === 'PUT') {
+          const body = JSON.parse(event.body || '{}');
+          return updateUser(user, userId, body);
+        }
+
+        if (!action && method === 'DELETE') {
+          return deleteUser(user, userId);
+        }
+
+        if (method === 'POST' && (action === 'disable' || action === 'enable')) {
+          return setUserDisabled(user, userId, action === 'disable');
+        }
+
+        if (method === 'POST' && action === 'resend-invite') {
+          return resendInvite(user, userId);
+        }
+      }
     }
 
     return createResponse(404, { error: 'Not found' });
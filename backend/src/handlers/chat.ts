@@ -1,26 +1,45 @@
+/// <reference types="aws-lambda" />
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, PutCommand, UpdateCommand, GetCommand } from '@aws-sdk/lib-dynamodb';
-import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { DynamoDBDocumentClient, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { LambdaClient, InvokeCommand } from '@aws-sdk/client-lambda';
 import { v4 as uuidv4 } from 'uuid';
 import type {
   APIGatewayEvent,
   APIGatewayResponse,
+  AuthPrincipal,
+  ChatMessage,
   ChatRequest,
   ChatResponse,
+  ChatStreamEvent,
+  Citation,
   Conversation,
   ConversationMessage,
-  FileRecord,
+  FunctionUrlEvent,
+  QuotaWarning,
 } from '../types/index.js';
-import { getModelInfo, getAllModels, MODEL_CONFIGS } from '../config/models.js';
-import { invokeBedrock } from '../services/bedrock.js';
-import { invokeGemini } from '../services/gemini.js';
+import { getModelInfo, getAllModels, calculateCost } from '../config/models.js';
+import { invokeModel, streamModel } from '../services/llm.js';
+import { authenticate, withAuth } from '../middleware/auth.js';
+import { ForbiddenError } from '../services/permissions.js';
+import { recordAccessDenied } from '../services/audit.js';
+import { buildFileContext, extractCitations } from '../services/fileContext.js';
+import { conversationIndexKeys, getConversationMeta, loadConversationHistory } from '../services/conversations.js';
+import { indexConversationMessages } from '../services/conversationIndex.js';
+import { buildDatabaseContext } from '../services/databaseQuery.js';
+import { checkQuota, recordTokenUsage, QuotaExceededError } from '../services/quotas.js';
+import { recordChatUsage } from '../services/usage.js';
+import { generateConversationTitle, TITLE_EXCERPT_LENGTH } from '../services/titles.js';
+import { buildConversationContext } from '../services/conversationContext.js';
+import { estimateTokens } from '../services/tokens.js';
 
 const ddbClient = new DynamoDBClient({});
 const ddb = DynamoDBDocumentClient.from(ddbClient);
-const s3 = new S3Client({});
 
 const TABLE_NAME = process.env.MAIN_TABLE || '';
-const BUCKET_NAME = process.env.FILES_BUCKET || '';
+
+const lambda = new LambdaClient({});
+// Indexes and names conversations for the non-streaming endpoint (followUpHandler)
+const FOLLOW_UP_FUNCTION_NAME = process.env.FOLLOW_UP_FUNCTION_NAME || '';
 
 const CORS_HEADERS = {
   'Content-Type': 'application/json',
@@ -37,66 +56,17 @@ function createResponse(statusCode: number, body: object): APIGatewayResponse {
   };
 }
 
-// Calculate cost based on token usage
-function calculateCost(modelId: string, inputTokens: number, outputTokens: number): number {
-  const modelInfo = MODEL_CONFIGS[modelId as keyof typeof MODEL_CONFIGS];
-  if (!modelInfo) return 0;
-
-  const inputCost = (inputTokens / 1_000_000) * modelInfo.pricing.input;
-  const outputCost = (outputTokens / 1_000_000) * modelInfo.pricing.output;
-  return inputCost + outputCost;
-}
-
-// Get file content for RAG
-async function getFileContent(fileId: string): Promise<string | null> {
-  try {
-    const result = await ddb.send(new GetCommand({
-      TableName: TABLE_NAME,
-      Key: {
-        PK: `FILE#${fileId}`,
-        SK: 'META',
-      },
-    }));
-
-    const file = result.Item as FileRecord | undefined;
-    if (!file) return null;
-
-    // Return extracted text if available
-    if (file.extractedText) {
-      return file.extractedText;
-    }
-
-    // Otherwise fetch from S3
-    const s3Response = await s3.send(new GetObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: file.s3Key,
-    }));
-
-    const bodyStream = s3Response.Body;
-    if (bodyStream) {
-      const chunks: Uint8Array[] = [];
-      for await (const chunk of bodyStream as AsyncIterable<Uint8Array>) {
-        chunks.push(chunk);
-      }
-      return Buffer.concat(chunks).toString('utf-8');
-    }
-
-    return null;
-  } catch (error) {
-    console.error('Error getting file content:', error);
-    return null;
-  }
-}
-
-// Save or update conversation
+// Save or update conversation. Returns whether the conversation is in the
+// search index, so its new messages are indexed too.
 async function saveConversation(
   conversationId: string,
-  userId: string,
+  principal: AuthPrincipal,
   modelId: string,
   title: string,
   isNew: boolean
-): Promise<void> {
+): Promise<boolean> {
   const now = new Date().toISOString();
+  const userId = principal.userId;
 
   if (isNew) {
     const conversation: Conversation = {
@@ -105,6 +75,9 @@ async function saveConversation(
       conversationId,
       title,
       userId,
+      organizationId: principal.organizationId,
+      companyId: principal.companyId,
+      departmentId: principal.departmentId,
       modelId,
       createdAt: now,
       updatedAt: now,
@@ -112,27 +85,37 @@ async function saveConversation(
       totalInputTokens: 0,
       totalOutputTokens: 0,
       totalCost: 0,
-      GSI1PK: `USER#${userId}`,
-      GSI1SK: `CONV#${now}`,
+      searchIndexed: true,
+      ...conversationIndexKeys({ userId, updatedAt: now }),
     };
 
     await ddb.send(new PutCommand({
       TableName: TABLE_NAME,
       Item: conversation,
     }));
+    return true;
   } else {
+    // The sort keys carry the last activity time (and the pinned state)
+    const conversation = await getConversationMeta(conversationId);
+    if (!conversation) return false;
+    const keys = conversationIndexKeys({ ...conversation, updatedAt: now });
+
     await ddb.send(new UpdateCommand({
       TableName: TABLE_NAME,
       Key: {
         PK: `CONV#${conversationId}`,
         SK: 'META',
       },
-      UpdateExpression: 'SET updatedAt = :now, GSI1SK = :gsi1sk',
+      UpdateExpression: keys.GSI2SK
+        ? 'SET updatedAt = :now, GSI1SK = :gsi1sk, GSI2SK = :gsi2sk'
+        : 'SET updatedAt = :now, GSI1SK = :gsi1sk',
       ExpressionAttributeValues: {
         ':now': now,
-        ':gsi1sk': `CONV#${now}`,
+        ':gsi1sk': keys.GSI1SK,
+        ...(keys.GSI2SK ? { ':gsi2sk': keys.GSI2SK } : {}),
       },
     }));
+    return conversation.searchIndexed === true;
   }
 }
 
@@ -143,8 +126,9 @@ async function saveMessage(
   content: string,
   modelId?: string,
   inputTokens?: number,
-  outputTokens?: number
-): Promise<void> {
+  outputTokens?: number,
+  citations?: Citation[]
+): Promise<ConversationMessage> {
   const messageId = uuidv4();
   const now = new Date().toISOString();
   const cost = modelId && inputTokens && outputTokens
@@ -163,6 +147,9 @@ async function saveMessage(
     cost,
     createdAt: now,
   };
+  if (citations?.length) {
+    message.citations = citations;
+  }
 
   await ddb.send(new PutCommand({
     TableName: TABLE_NAME,
@@ -187,116 +174,433 @@ async function saveMessage(
       },
     }));
   }
+  return message;
 }
 
 // Extended chat request with conversation support
 interface ExtendedChatRequest extends ChatRequest {
   conversationId?: string;
-  userId?: string;
   fileIds?: string[];
+  connectionIds?: string[];   // database connections queried for this turn
   saveHistory?: boolean;
 }
 
-export async function handler(event: APIGatewayEvent): Promise<APIGatewayResponse> {
-  // Handle CORS preflight
-  if (event.httpMethod === 'OPTIONS') {
-    return createResponse(200, {});
+// Validate the request body; returns an error message when invalid
+function validateChatRequest(request: ExtendedChatRequest): string | null {
+  if (!request.model) {
+    return 'Model is required';
+  }
+  if (!request.messages || request.messages.length === 0) {
+    return 'Messages are required';
+  }
+  if (request.conversationId && request.messages[request.messages.length - 1].role !== 'user') {
+    return 'The last message must be the new user turn';
+  }
+  if (!getModelInfo(request.model)) {
+    return `Unknown model: ${request.model}`;
   }
+  return null;
+}
 
-  try {
-    if (!event.body) {
-      return createResponse(400, { error: 'Request body is required' });
-    }
+// Only the owner may continue an existing conversation
+async function authorizeConversation(principal: AuthPrincipal, conversationId: string): Promise<Conversation> {
+  const conversation = await getConversationMeta(conversationId);
+  if (!conversation) {
+    throw new ForbiddenError('Conversation not found or not accessible');
+  }
+  if (conversation.userId !== principal.userId) {
+    await recordAccessDenied(principal, 'conversation:append', 'conversation', conversationId, 'not owner');
+    throw new ForbiddenError('Conversation not found or not accessible');
+  }
+  return conversation;
+}
 
-    const request: ExtendedChatRequest = JSON.parse(event.body);
+// Build the provider request, adding file context (attachments and retrieved
+// chunks) to the system prompt. Also returns the numbered sources the answer
+// may cite. A saved conversation's history is read from the table, with older
+// turns condensed into a summary once it outgrows the model's context window;
+// of the request's messages only the new user turn is used.
+async function prepareChatRequest(
+  principal: AuthPrincipal,
+  request: ExtendedChatRequest
+): Promise<{ chatRequest: ChatRequest; sources: Citation[]; summarizedMessages: number }> {
+  let conversation: Conversation | undefined;
+  let history: ChatMessage[] = [];
+  if (request.conversationId && request.saveHistory !== false) {
+    conversation = await authorizeConversation(principal, request.conversationId);
+    history = await loadConversationHistory(request.conversationId);
+  }
 
-    // Validate request
-    if (!request.model) {
-      return createResponse(400, { error: 'Model is required' });
-    }
-    if (!request.messages || request.messages.length === 0) {
-      return createResponse(400, { error: 'Messages are required' });
-    }
+  let systemPromptWithFiles = request.systemPrompt || '';
+  const lastUserMessage = [...request.messages].reverse().find(msg => msg.role === 'user');
+  const fileContext = await buildFileContext(principal, request.fileIds || [], lastUserMessage?.content || '');
+  if (fileContext.prompt) {
+    systemPromptWithFiles = `${systemPromptWithFiles}\n\n以下は参照ファイルの内容です。質問に回答する際にこのデータを参照してください。`
+      + `参照した内容には、該当する資料の番号を [1] のような形式で文中に付けてください:\n\n${fileContext.prompt}`;
+  }
 
-    // Get model info to determine provider
-    const modelInfo = getModelInfo(request.model);
-    if (!modelInfo) {
-      return createResponse(400, { error: `Unknown model: ${request.model}` });
-    }
+  if (request.connectionIds && request.connectionIds.length > 0) {
+    const databaseContext = await buildDatabaseContext(
+      principal,
+      request.connectionIds,
+      lastUserMessage?.content || '',
+      request.model
+    );
+    systemPromptWithFiles = `${systemPromptWithFiles}\n\n以下は質問に基づいてデータベースを検索した結果です。`
+      + `回答の根拠として使用してください:\n\n${databaseContext}`;
+  }
 
-    // Handle file references for RAG
-    let systemPromptWithFiles = request.systemPrompt || '';
-    if (request.fileIds && request.fileIds.length > 0) {
-      const fileContents: string[] = [];
-      for (const fileId of request.fileIds) {
-        const content = await getFileContent(fileId);
-        if (content) {
-          fileContents.push(`--- ファイル内容 ---\n${content}\n--- ファイル終了 ---`);
-        }
-      }
-      if (fileContents.length > 0) {
-        systemPromptWithFiles = `${systemPromptWithFiles}\n\n以下は参照ファイルの内容です。質問に回答する際にこのデータを参照してください:\n\n${fileContents.join('\n\n')}`;
-      }
+  let messages = request.messages;
+  let summarizedMessages = 0;
+  if (conversation) {
+    const reservedTokens = estimateTokens(systemPromptWithFiles)
+      + (request.maxTokens || getModelInfo(request.model).maxTokens);
+    const context = await buildConversationContext(
+      principal,
+      conversation,
+      history,
+      request.messages[request.messages.length - 1],
+      request.model,
+      reservedTokens
+    );
+    messages = context.messages;
+    summarizedMessages = context.summarizedMessages;
+    if (context.summary) {
+      systemPromptWithFiles = `${systemPromptWithFiles}\n\n以下はこの会話のこれまでのやり取りの要約です。`
+        + `直近のやり取りはメッセージとして続きます:\n\n${context.summary}`;
     }
+  }
 
-    const modifiedRequest = {
+  return {
+    chatRequest: {
       ...request,
+      messages,
       systemPrompt: systemPromptWithFiles || undefined,
+    },
+    sources: fileContext.sources,
+    summarizedMessages,
+  };
+}
+
+// Count a model call towards the monthly quotas and the daily usage statistics
+async function recordUsage(principal: AuthPrincipal, model: string, response: ChatResponse): Promise<void> {
+  const inputTokens = response.usage?.inputTokens || 0;
+  const outputTokens = response.usage?.outputTokens || 0;
+  await Promise.all([
+    recordTokenUsage(principal, inputTokens + outputTokens),
+    recordChatUsage(principal, model, inputTokens, outputTokens),
+  ]);
+}
+
+interface SavedExchange {
+  conversationId: string;
+  provisionalTitle?: string;    // Set when the exchange started the conversation
+  indexedMessages?: string[];   // Sort keys of the saved messages, when the conversation is searchable
+}
+
+// Save the latest exchange to conversation history
+async function persistExchange(
+  principal: AuthPrincipal,
+  request: ExtendedChatRequest,
+  response: ChatResponse
+): Promise<SavedExchange | undefined> {
+  if (request.saveHistory === false || !TABLE_NAME) {
+    return undefined;
+  }
+
+  const conversationId = request.conversationId || uuidv4();
+  const isNewConversation = !request.conversationId;
+
+  try {
+    // Save conversation metadata
+    const lastUserMessage = request.messages[request.messages.length - 1];
+    const title = lastUserMessage?.content.substring(0, 50) || 'New Conversation';
+
+    const searchIndexed = await saveConversation(conversationId, principal, request.model, title, isNewConversation);
+
+    // Save user message
+    const userMessage = await saveMessage(conversationId, 'user', lastUserMessage?.content || '');
+
+    // Save assistant response
+    const assistantMessage = await saveMessage(
+      conversationId,
+      'assistant',
+      response.content,
+      request.model,
+      response.usage?.inputTokens,
+      response.usage?.outputTokens,
+      response.citations
+    );
+
+    return {
+      conversationId,
+      ...(isNewConversation ? { provisionalTitle: title } : {}),
+      ...(searchIndexed ? { indexedMessages: [userMessage.SK, assistantMessage.SK] } : {}),
     };
+  } catch (saveError) {
+    console.error('Error saving conversation:', saveError);
+    // Don't fail the request if save fails
+    return undefined;
+  }
+}
 
-    // Route to appropriate provider
-    let response: ChatResponse;
-    if (modelInfo.provider === 'bedrock') {
-      response = await invokeBedrock(modifiedRequest);
-    } else if (modelInfo.provider === 'gemini') {
-      response = await invokeGemini(modifiedRequest);
-    } else {
-      return createResponse(400, { error: `Unsupported provider: ${modelInfo.provider}` });
+// Add a saved exchange (and the provisional title of a new conversation) to
+// the search index. Runs after the answer is delivered; failures are logged,
+// not thrown.
+async function indexExchange(userId: string, saved: SavedExchange): Promise<void> {
+  if (!saved.indexedMessages) return;
+  await indexConversationMessages(userId, saved.conversationId, saved.indexedMessages, saved.provisionalTitle)
+    .catch(error => console.error(`Failed to index conversation ${saved.conversationId}:`, error));
+}
+
+// Replace the provisional title of a conversation the exchange started with
+// a generated one
+async function nameConversation(
+  principal: AuthPrincipal,
+  request: ExtendedChatRequest,
+  response: ChatResponse,
+  saved: SavedExchange
+): Promise<string | null> {
+  if (!saved.provisionalTitle) return null;
+  const lastUserMessage = request.messages[request.messages.length - 1];
+  return generateConversationTitle(principal, saved.conversationId, saved.provisionalTitle, {
+    question: lastUserMessage?.content || '',
+    answer: response.content,
+  });
+}
+
+// Payload of the asynchronous invocation of followUpHandler
+interface FollowUpRequest {
+  principal: AuthPrincipal;
+  saved: SavedExchange;
+  question: string;     // Excerpts the title is generated from
+  answer: string;
+}
+
+// Have the follow-up function index the exchange and name a new
+// conversation, so the non-streaming answer is not held up by either (a
+// Lambda behind API Gateway cannot keep working after it responds). Without
+// the function the exchange is indexed in place and no title is generated.
+// Returns whether a title is being generated.
+async function requestFollowUp(
+  principal: AuthPrincipal,
+  request: ExtendedChatRequest,
+  response: ChatResponse,
+  saved: SavedExchange
+): Promise<boolean> {
+  if (!saved.provisionalTitle && !saved.indexedMessages) return false;
+  if (!FOLLOW_UP_FUNCTION_NAME) {
+    await indexExchange(principal.userId, saved);
+    return false;
+  }
+
+  const lastUserMessage = request.messages[request.messages.length - 1];
+  const payload: FollowUpRequest = {
+    principal,
+    saved,
+    question: (lastUserMessage?.content || '').substring(0, TITLE_EXCERPT_LENGTH),
+    answer: response.content.substring(0, TITLE_EXCERPT_LENGTH),
+  };
+
+  try {
+    await lambda.send(new InvokeCommand({
+      FunctionName: FOLLOW_UP_FUNCTION_NAME,
+      InvocationType: 'Event',
+      Payload: Buffer.from(JSON.stringify(payload)),
+    }));
+    return !!saved.provisionalTitle;
+  } catch (error) {
+    console.error(`Failed to request the follow-up of conversation ${saved.conversationId}:`, error);
+    return false;
+  }
+}
+
+// Invoked asynchronously by the non-streaming chat endpoint. The exchange is
+// indexed before the title is generated, which replaces the indexed
+// provisional title.
+export async function followUpHandler(event: FollowUpRequest): Promise<void> {
+  const { principal, saved } = event;
+  await indexExchange(principal.userId, saved);
+  if (saved.provisionalTitle) {
+    await generateConversationTitle(principal, saved.conversationId, saved.provisionalTitle, {
+      question: event.question,
+      answer: event.answer,
+    });
+  }
+}
+
+export const handler = withAuth(async (event, principal) => {
+  try {
+    if (!event.body) {
+      return createResponse(400, { error: 'Request body is required' });
+    }
+
+    const request: ExtendedChatRequest = JSON.parse(event.body);
+
+    const validationError = validateChatRequest(request);
+    if (validationError) {
+      return createResponse(400, { error: validationError });
     }
 
-    // Save to conversation history if requested
-    if (request.saveHistory !== false && TABLE_NAME) {
-      const conversationId = request.conversationId || uuidv4();
-      const userId = request.userId || 'anonymous';
-      const isNewConversation = !request.conversationId;
+    const quota = await checkQuota(principal, request.model);
+    const { chatRequest, sources, summarizedMessages } = await prepareChatRequest(principal, request);
+    const response = await invokeModel(chatRequest);
+    await recordUsage(principal, request.model, response);
+    if (sources.length > 0) {
+      response.citations = extractCitations(response.content, sources);
+    }
+    if (summarizedMessages > 0) {
+      response.summarizedMessages = summarizedMessages;
+    }
+    if (quota.warnings.length > 0) {
+      response.quotaWarnings = quota.warnings;
+    }
 
-      try {
-        // Save conversation metadata
-        const lastUserMessage = request.messages[request.messages.length - 1];
-        const title = lastUserMessage?.content.substring(0, 50) || 'New Conversation';
-
-        await saveConversation(conversationId, userId, request.model, title, isNewConversation);
-
-        // Save user message
-        await saveMessage(conversationId, 'user', lastUserMessage?.content || '');
-
-        // Save assistant response
-        await saveMessage(
-          conversationId,
-          'assistant',
-          response.content,
-          request.model,
-          response.usage?.inputTokens,
-          response.usage?.outputTokens
-        );
-
-        // Add conversationId to response
-        (response as ChatResponse & { conversationId?: string }).conversationId = conversationId;
-      } catch (saveError) {
-        console.error('Error saving conversation:', saveError);
-        // Don't fail the request if save fails
+    // Save to conversation history if requested. A new conversation's
+    // generated title is stored after the response; clients read it from the
+    // conversation.
+    const saved = await persistExchange(principal, request, response);
+    if (saved) {
+      response.conversationId = saved.conversationId;
+      if (await requestFollowUp(principal, request, response, saved)) {
+        response.title = saved.provisionalTitle;
+        response.titlePending = true;
       }
     }
 
     return createResponse(200, response);
   } catch (error) {
+    if (error instanceof ForbiddenError) {
+      return createResponse(403, { error: error.message });
+    }
+    if (error instanceof QuotaExceededError) {
+      return createResponse(429, { error: error.message, scope: error.scope });
+    }
     console.error('Chat handler error:', error);
 
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return createResponse(500, { error: errorMessage });
   }
+});
+
+// Write a single SSE event to the response stream
+function writeStreamEvent(stream: NodeJS.WritableStream, event: ChatStreamEvent): void {
+  stream.write(`data: ${JSON.stringify(event)}\n\n`);
 }
 
+// Streaming chat endpoint (Lambda Function URL with RESPONSE_STREAM).
+// Emits `delta` events as tokens arrive and a `done` event with usage and
+// conversationId. For a new conversation a `title` event follows once its
+// title is generated. CORS is configured on the Function URL itself.
+export const streamHandler = awslambda.streamifyResponse<FunctionUrlEvent>(
+  async (event, responseStream) => {
+    const method = event.requestContext.http.method;
+    const body = event.body && event.isBase64Encoded
+      ? Buffer.from(event.body, 'base64').toString('utf-8')
+      : event.body;
+
+    const principal = await authenticate(event.headers);
+
+    let request: ExtendedChatRequest | null = null;
+    let statusCode = 400;
+    let validationError: string | null = null;
+    if (method !== 'POST') {
+      statusCode = 405;
+      validationError = 'Method not allowed';
+    } else if (!principal) {
+      statusCode = 401;
+      validationError = 'Authentication required';
+    } else if (!body) {
+      validationError = 'Request body is required';
+    } else {
+      try {
+        request = JSON.parse(body) as ExtendedChatRequest;
+        validationError = validateChatRequest(request);
+      } catch {
+        validationError = 'Invalid JSON body';
+      }
+    }
+
+    // Plan and quota checks happen before the stream opens so that a block
+    // is reported with its own status code
+    let quotaWarnings: QuotaWarning[] = [];
+    if (!validationError && request && principal) {
+      try {
+        quotaWarnings = (await checkQuota(principal, request.model)).warnings;
+      } catch (error) {
+        if (error instanceof QuotaExceededError) {
+          statusCode = 429;
+        } else if (error instanceof ForbiddenError) {
+          statusCode = 403;
+        } else {
+          statusCode = 500;
+          console.error('Quota check error:', error);
+        }
+        validationError = error instanceof Error ? error.message : 'Quota check failed';
+      }
+    }
+
+    if (validationError || !request || !principal) {
+      const errorStream = awslambda.HttpResponseStream.from(responseStream, {
+        statusCode,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      errorStream.end(JSON.stringify({ error: validationError }));
+      return;
+    }
+
+    const sseStream = awslambda.HttpResponseStream.from(responseStream, {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+      },
+    });
+
+    try {
+      const { chatRequest, sources, summarizedMessages } = await prepareChatRequest(principal, request);
+      let saved: SavedExchange | undefined;
+      let finalResponse: ChatResponse | undefined;
+      for await (const streamEvent of streamModel(chatRequest)) {
+        if (streamEvent.type === 'done') {
+          finalResponse = streamEvent.response;
+          await recordUsage(principal, request.model, finalResponse);
+          if (quotaWarnings.length > 0) {
+            finalResponse.quotaWarnings = quotaWarnings;
+          }
+          if (sources.length > 0) {
+            finalResponse.citations = extractCitations(finalResponse.content, sources);
+          }
+          if (summarizedMessages > 0) {
+            finalResponse.summarizedMessages = summarizedMessages;
+          }
+          saved = await persistExchange(principal, request, finalResponse);
+          if (saved) {
+            finalResponse.conversationId = saved.conversationId;
+          }
+        }
+        writeStreamEvent(sseStream, streamEvent);
+      }
+
+      // The answer is complete on the client; indexing happens and the title
+      // follows on the open stream
+      if (saved && finalResponse) {
+        await indexExchange(principal.userId, saved);
+        const title = await nameConversation(principal, request, finalResponse, saved);
+        if (title) {
+          writeStreamEvent(sseStream, { type: 'title', conversationId: saved.conversationId, title });
+        }
+      }
+    } catch (error) {
+      console.error('Chat stream error:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      writeStreamEvent(sseStream, { type: 'error', error: errorMessage });
+    } finally {
+      sseStream.end();
+    }
+  }
+);
+
 // Models endpoint - returns available models
 export async function modelsHandler(event: APIGatewayEvent): Promise<APIGatewayResponse> {
   // Handle CORS preflight
@@ -1,22 +1,39 @@
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, QueryCommand, GetCommand, DeleteCommand, BatchWriteCommand } from '@aws-sdk/lib-dynamodb';
 import type {
-  APIGatewayEvent,
   APIGatewayResponse,
   Conversation,
   ConversationMessage,
+  UpdateConversationRequest,
 } from '../types/index.js';
+import { withAuth } from '../middleware/auth.js';
+import { canAccessConversation } from '../services/permissions.js';
+import { recordAccessDenied } from '../services/audit.js';
+import {
+  ConversationValidationError,
+  getConversationMeta,
+  listConversationFolders,
+  listConversations,
+  syncConversationFolder,
+  updateConversation,
+  type ConversationListFilter,
+} from '../services/conversations.js';
+import { parseLimit, PaginationError } from '../services/pagination.js';
+import { ConversationSearchError, parseSearchQuery, searchConversations } from '../services/conversationSearch.js';
+import { removeConversationFromIndex } from '../services/conversationIndex.js';
 
 const ddbClient = new DynamoDBClient({});
 const ddb = DynamoDBDocumentClient.from(ddbClient);
 
 const TABLE_NAME = process.env.MAIN_TABLE || '';
 
+const SEARCH_RESULT_LIMIT = 20;
+
 const CORS_HEADERS = {
   'Content-Type': 'application/json',
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Amz-Date,X-Api-Key,X-Amz-Security-Token',
-  'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+  'Access-Control-Allow-Methods': 'GET,POST,PUT,PATCH,DELETE,OPTIONS',
 };
 
 function createResponse(statusCode: number, body: object): APIGatewayResponse {
@@ -27,23 +44,6 @@ function createResponse(statusCode: number, body: object): APIGatewayResponse {
   };
 }
 
-// List conversations for a user
-async function listConversations(userId: string, limit: number = 50): Promise<Conversation[]> {
-  const result = await ddb.send(new QueryCommand({
-    TableName: TABLE_NAME,
-    IndexName: 'GSI1',
-    KeyConditionExpression: 'GSI1PK = :pk AND begins_with(GSI1SK, :sk)',
-    ExpressionAttributeValues: {
-      ':pk': `USER#${userId}`,
-      ':sk': 'CONV#',
-    },
-    ScanIndexForward: false, // Most recent first
-    Limit: limit,
-  }));
-
-  return (result.Items || []) as Conversation[];
-}
-
 // Get conversation with messages
 async function getConversation(conversationId: string): Promise<{
   conversation: Conversation | null;
@@ -111,22 +111,35 @@ async function deleteConversation(conversationId: string): Promise<void> {
 }
 
 // Main handler
-export async function handler(event: APIGatewayEvent): Promise<APIGatewayResponse> {
-  // Handle CORS preflight
-  if (event.httpMethod === 'OPTIONS') {
-    return createResponse(200, {});
-  }
-
+export const handler = withAuth(async (event, principal) => {
   const path = event.path;
   const method = event.httpMethod;
 
   try {
-    // GET /conversations
+    // GET /conversations?folder=&archived=&tag=&limit=&nextToken= (always the caller's own conversations)
     if (method === 'GET' && path === '/conversations') {
-      const userId = event.queryStringParameters?.userId || 'anonymous';
-      const limit = parseInt(event.queryStringParameters?.limit || '50', 10);
-      const conversations = await listConversations(userId, limit);
-      return createResponse(200, { conversations });
+      const params = event.queryStringParameters || {};
+      const filter: ConversationListFilter = {
+        ...(params.folder ? { folder: params.folder } : {}),
+        ...(params.archived === 'true' ? { archived: true } : {}),
+        ...(params.tag ? { tag: params.tag } : {}),
+      };
+      const page = await listConversations(principal.userId, filter, parseLimit(params.limit), params.nextToken);
+      return createResponse(200, { conversations: page.items, nextToken: page.nextToken });
+    }
+
+    // GET /conversations/folders
+    if (method === 'GET' && path === '/conversations/folders') {
+      const folders = await listConversationFolders(principal.userId);
+      return createResponse(200, { folders });
+    }
+
+    // GET /conversations/search?q=&from=&to=&model=&limit= (the caller's own conversations)
+    if (method === 'GET' && path === '/conversations/search') {
+      const params = event.queryStringParameters || {};
+      const query = parseSearchQuery(params, parseLimit(params.limit, SEARCH_RESULT_LIMIT));
+      const results = await searchConversations(principal.userId, query);
+      return createResponse(200, { results });
     }
 
     // GET /conversations/{conversationId}
@@ -141,9 +154,37 @@ export async function handler(event: APIGatewayEvent): Promise<APIGatewayRespons
         return createResponse(404, { error: 'Conversation not found' });
       }
 
+      if (!canAccessConversation(result.conversation, principal)) {
+        await recordAccessDenied(principal, 'conversation:get', 'conversation', conversationId, 'not owner or tenant admin');
+        return createResponse(403, { error: 'Permission denied' });
+      }
+
       return createResponse(200, result);
     }
 
+    // PATCH /conversations/{conversationId} (owner only)
+    if (method === 'PATCH' && path.startsWith('/conversations/')) {
+      const conversationId = path.split('/')[2];
+      if (!conversationId) {
+        return createResponse(400, { error: 'Conversation ID is required' });
+      }
+
+      const conversation = await getConversationMeta(conversationId);
+      if (!conversation) {
+        return createResponse(404, { error: 'Conversation not found' });
+      }
+
+      // Organizing is personal: tenant admins may read but not rearrange
+      if (conversation.userId !== principal.userId) {
+        await recordAccessDenied(principal, 'conversation:update', 'conversation', conversationId, 'not owner');
+        return createResponse(403, { error: 'Permission denied' });
+      }
+
+      const body: UpdateConversationRequest = JSON.parse(event.body || '{}');
+      const updated = await updateConversation(conversation, body);
+      return createResponse(200, { conversation: updated });
+    }
+
     // DELETE /conversations/{conversationId}
     if (method === 'DELETE' && path.startsWith('/conversations/')) {
       const conversationId = path.split('/')[2];
@@ -151,14 +192,33 @@ export async function handler(event: APIGatewayEvent): Promise<APIGatewayRespons
         return createResponse(400, { error: 'Conversation ID is required' });
       }
 
+      const conversation = await getConversationMeta(conversationId);
+      if (!conversation) {
+        return createResponse(404, { error: 'Conversation not found' });
+      }
+
+      if (!canAccessConversation(conversation, principal)) {
+        await recordAccessDenied(principal, 'conversation:delete', 'conversation', conversationId, 'not owner or tenant admin');
+        return createResponse(403, { error: 'Permission denied' });
+      }
+
+      await removeConversationFromIndex(conversation);
       await deleteConversation(conversationId);
+      await syncConversationFolder(conversation);
       return createResponse(200, { message: 'Conversation deleted' });
     }
 
     return createResponse(404, { error: 'Not found' });
   } catch (error) {
+    if (
+      error instanceof PaginationError
+      || error instanceof ConversationSearchError
+      || error instanceof ConversationValidationError
+    ) {
+      return createResponse(400, { error: error.message });
+    }
     console.error('Conversations handler error:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return createResponse(500, { error: errorMessage });
   }
-}
+});
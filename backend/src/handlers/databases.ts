@@ -0,0 +1,134 @@
+import type {
+  AIModel,
+  APIGatewayResponse,
+  CreateDatabaseConnectionRequest,
+  DatabaseQueryRequest,
+} from '../types/index.js';
+import { withAuth } from '../middleware/auth.js';
+import { ForbiddenError } from '../services/permissions.js';
+import { recordAccessDenied } from '../services/audit.js';
+import {
+  DatabaseConnectionError,
+  DatabaseQueryError,
+  canAccessConnection,
+  createDatabaseConnection,
+  deleteDatabaseConnection,
+  getDatabaseConnection,
+  listAccessibleConnections,
+  toConnectionResponse,
+} from '../services/databases.js';
+import { answerDatabaseQuestion } from '../services/databaseQuery.js';
+import { SqlValidationError } from '../services/sqlGuard.js';
+import { checkQuota, QuotaExceededError } from '../services/quotas.js';
+import { DEFAULT_MODEL, getModelInfo } from '../config/models.js';
+
+const CORS_HEADERS = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Amz-Date,X-Api-Key,X-Amz-Security-Token',
+  'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+};
+
+function createResponse(statusCode: number, body: object): APIGatewayResponse {
+  return {
+    statusCode,
+    headers: CORS_HEADERS,
+    body: JSON.stringify(body),
+  };
+}
+
+// Main handler
+export const handler = withAuth(async (event, principal) => {
+  const path = event.path;
+  const method = event.httpMethod;
+
+  try {
+    // GET /db/connections
+    if (method === 'GET' && path === '/db/connections') {
+      const connections = await listAccessibleConnections(principal);
+      return createResponse(200, { connections: connections.map(toConnectionResponse) });
+    }
+
+    // POST /db/connections
+    if (method === 'POST' && path === '/db/connections') {
+      if (!event.body) {
+        return createResponse(400, { error: 'Request body is required' });
+      }
+
+      const request: CreateDatabaseConnectionRequest = JSON.parse(event.body);
+      const connection = await createDatabaseConnection(principal, request);
+      return createResponse(201, toConnectionResponse(connection));
+    }
+
+    // POST /db/connections/{connectionId}/query
+    if (method === 'POST' && path.startsWith('/db/connections/') && path.endsWith('/query')) {
+      const connectionId = path.split('/')[3];
+      if (!event.body) {
+        return createResponse(400, { error: 'Request body is required' });
+      }
+
+      const request: DatabaseQueryRequest = JSON.parse(event.body);
+      if (!request.question) {
+        return createResponse(400, { error: 'question is required' });
+      }
+      if (request.model && !getModelInfo(request.model as AIModel)) {
+        return createResponse(400, { error: `Unknown model: ${request.model}` });
+      }
+
+      const connection = await getDatabaseConnection(connectionId);
+      if (!connection) {
+        return createResponse(404, { error: 'Connection not found' });
+      }
+      if (!canAccessConnection(connection, principal)) {
+        await recordAccessDenied(principal, 'database:query', 'database_connection', connectionId, 'outside connection scope');
+        return createResponse(403, { error: 'Permission denied' });
+      }
+
+      const model = (request.model || DEFAULT_MODEL) as AIModel;
+      // The plan's model list and monthly quotas apply as they do to chat
+      await checkQuota(principal, model);
+      const response = await answerDatabaseQuestion(principal, connection, request.question, model);
+      return createResponse(200, response);
+    }
+
+    // DELETE /db/connections/{connectionId}
+    if (method === 'DELETE' && path.startsWith('/db/connections/')) {
+      const connectionId = path.split('/')[3];
+
+      const connection = await getDatabaseConnection(connectionId);
+      if (!connection) {
+        return createResponse(404, { error: 'Connection not found' });
+      }
+
+      try {
+        await deleteDatabaseConnection(connection, principal);
+      } catch (error) {
+        if (error instanceof ForbiddenError) {
+          await recordAccessDenied(principal, 'database:delete', 'database_connection', connectionId, 'not creator or tenant admin');
+        }
+        throw error;
+      }
+
+      return createResponse(200, { message: 'Connection deleted' });
+    }
+
+    return createResponse(404, { error: 'Not found' });
+  } catch (error) {
+    if (error instanceof ForbiddenError) {
+      return createResponse(403, { error: error.message });
+    }
+    if (error instanceof QuotaExceededError) {
+      return createResponse(429, { error: error.message, scope: error.scope });
+    }
+    if (
+      error instanceof DatabaseConnectionError
+      || error instanceof DatabaseQueryError
+      || error instanceof SqlValidationError
+    ) {
+      return createResponse(400, { error: error.message });
+    }
+    console.error('Databases handler error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return createResponse(500, { error: errorMessage });
+  }
+});
@@ -1,20 +1,48 @@
-import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  CopyObjectCommand,
+  DeleteObjectCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, PutCommand, GetCommand, QueryCommand, DeleteCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBDocumentClient, PutCommand, DeleteCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
 import { v4 as uuidv4 } from 'uuid';
 import type {
-  APIGatewayEvent,
   APIGatewayResponse,
   FileRecord,
-  FileUploadRequest,
+  FileStatus,
+  FileType,
+  FileUploadUrlRequest,
+  FileUploadUrlResponse,
   FileUploadResponse,
   FileQueryRequest,
   FileQueryResponse,
-  FileType,
   FileVisibility,
   FileCategory,
-  UserRole,
+  AuthPrincipal,
+  AIModel,
 } from '../types/index.js';
+import { withAuth } from '../middleware/auth.js';
+import {
+  ForbiddenError,
+  canAccessFile,
+  canModifyFile,
+  getAllowedVisibilities,
+} from '../services/permissions.js';
+import { loadFileText, deleteFileText, UPLOADS_PREFIX } from '../services/fileText.js';
+import { getFileRecord, listAccessibleFilesPage } from '../services/files.js';
+import { deleteFileIndex } from '../services/retrieval.js';
+import { isTabularFile } from '../services/tabular.js';
+import { TableQueryError } from '../services/tableQuery.js';
+import { answerTableQuestion } from '../services/analytics.js';
+import { checkQuota, QuotaExceededError } from '../services/quotas.js';
+import { TenantValidationError, validateSharingScope } from '../services/tenants.js';
+import { recordFileUpload } from '../services/usage.js';
+import { parseLimit, PaginationError } from '../services/pagination.js';
+import { DEFAULT_MODEL, getModelInfo } from '../config/models.js';
 
 const s3 = new S3Client({});
 const ddbClient = new DynamoDBClient({});
@@ -38,92 +66,91 @@ function createResponse(statusCode: number, body: object): APIGatewayResponse {
   };
 }
 
-// Check what visibility levels a user can set based on their role
-function getAllowedVisibilities(role: UserRole): FileVisibility[] {
-  const visibilityByRole: Record<UserRole, FileVisibility[]> = {
-    system_admin: ['private', 'department', 'company', 'organization', 'system'],
-    org_admin: ['private', 'department', 'company', 'organization'],
-    company_admin: ['private', 'department', 'company'],
-    user: ['private'],
-  };
-  return visibilityByRole[role] || ['private'];
+// Largest file accepted through a presigned upload
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+// How long a presigned upload URL stays valid
+const UPLOAD_URL_EXPIRES_SECONDS = 15 * 60;
+
+// MIME types accepted for each file type
+const ALLOWED_MIME_TYPES: Record<FileType, string[]> = {
+  pdf: ['application/pdf'],
+  docx: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  xlsx: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+  txt: ['text/plain'],
+  csv: ['text/csv', 'text/tab-separated-values', 'application/vnd.ms-excel'],
+};
+
+// Rejected upload input (returned as 400)
+class UploadValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadValidationError';
+  }
 }
 
-// Check if user can access a file based on visibility
-function canAccessFile(
-  file: FileRecord,
-  userId: string,
-  userRole: UserRole,
-  userOrgId?: string,
-  userCompanyId?: string,
-  userDeptId?: string
-): boolean {
-  // Owner can always access
-  if (file.userId === userId) return true;
-
-  // System admins can access everything
-  if (userRole === 'system_admin') return true;
-
-  switch (file.visibility) {
-    case 'private':
-      return false;
-    case 'department':
-      return file.departmentId === userDeptId && file.companyId === userCompanyId;
-    case 'company':
-      return file.companyId === userCompanyId;
-    case 'organization':
-      return file.organizationId === userOrgId;
-    case 'system':
-      return true;
+// Check the first bytes of an upload against its declared type
+function matchesFileSignature(fileType: FileType, head: Buffer): boolean {
+  switch (fileType) {
+    case 'pdf':
+      return head.subarray(0, 5).toString('latin1') === '%PDF-';
+    case 'docx':
+    case 'xlsx':
+      // Office Open XML files are ZIP archives
+      return head.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]));
+    case 'txt':
+      return !head.includes(0);
+    case 'csv':
+      // UTF-16 exports (BOM-marked) contain zero bytes
+      return (head[0] === 0xff && head[1] === 0xfe) || (head[0] === 0xfe && head[1] === 0xff) || !head.includes(0);
     default:
       return false;
   }
 }
 
-// Upload file
-async function uploadFile(request: FileUploadRequest): Promise<FileUploadResponse> {
+// Step 1 of an upload: create a pending file record and a presigned URL the
+// client PUTs the file to. The object lands under temp/ and is only moved to
+// uploads/ (which starts ingestion) by completeUpload.
+async function createUploadUrl(principal: AuthPrincipal, request: FileUploadUrlRequest): Promise<FileUploadUrlResponse> {
   const fileId = uuidv4();
   const now = new Date().toISOString();
-  const userId = request.userId || 'anonymous';
-  const userRole = request.userRole || 'user';
+  const { userId, role: userRole, organizationId, companyId, departmentId } = principal;
   const visibility = request.visibility || 'private';
   const category = request.category || 'chat_attachment';
 
   // Validate visibility based on role
   const allowedVisibilities = getAllowedVisibilities(userRole);
   if (!allowedVisibilities.includes(visibility)) {
-    throw new Error(`Role ${userRole} cannot set visibility to ${visibility}`);
+    throw new ForbiddenError(`Role ${userRole} cannot set visibility to ${visibility}`);
   }
 
-  const s3Key = `${request.organizationId || 'default'}/${request.companyId || 'default'}/${userId}/${fileId}/${request.fileName}`;
-
-  // Decode base64 and upload to S3
-  const fileBuffer = Buffer.from(request.fileData, 'base64');
+  if (!ALLOWED_MIME_TYPES[request.fileType]?.includes(request.mimeType)) {
+    throw new UploadValidationError(`Unsupported file type: ${request.fileType} (${request.mimeType})`);
+  }
+  if (!Number.isInteger(request.fileSize) || request.fileSize <= 0 || request.fileSize > MAX_UPLOAD_BYTES) {
+    throw new UploadValidationError(`fileSize must be between 1 and ${MAX_UPLOAD_BYTES} bytes`);
+  }
+  await validateSharingScope(visibility, principal);
 
-  await s3.send(new PutObjectCommand({
-    Bucket: BUCKET_NAME,
-    Key: s3Key,
-    Body: fileBuffer,
-    ContentType: request.mimeType,
-  }));
+  const fileName = request.fileName.replace(/[\\/]/g, '_');
+  const tempKey = `temp/${fileId}/${fileName}`;
 
   // Create file record in DynamoDB
   const fileRecord: FileRecord = {
     PK: `FILE#${fileId}`,
     SK: 'META',
     fileId,
-    fileName: request.fileName,
+    fileName,
     fileType: request.fileType,
     mimeType: request.mimeType,
-    s3Key,
+    s3Key: tempKey,
     userId,
     createdByRole: userRole,
-    organizationId: request.organizationId,
-    companyId: request.companyId,
-    departmentId: request.departmentId,
+    organizationId,
+    companyId,
+    departmentId,
     uploadedAt: now,
-    fileSize: fileBuffer.length,
-    status: 'ready',
+    fileSize: request.fileSize,
+    status: 'uploading',
     visibility,
     category,
     description: request.description,
@@ -136,147 +163,162 @@ async function uploadFile(request: FileUploadRequest): Promise<FileUploadRespons
   if (visibility === 'system') {
     fileRecord.GSI2PK = 'VISIBILITY#system';
     fileRecord.GSI2SK = `FILE#${now}`;
-  } else if (visibility === 'organization' && request.organizationId) {
-    fileRecord.GSI2PK = `ORG#${request.organizationId}`;
+  } else if (visibility === 'organization' && organizationId) {
+    fileRecord.GSI2PK = `ORG#${organizationId}`;
     fileRecord.GSI2SK = `FILE#${now}`;
-  } else if (visibility === 'company' && request.companyId) {
-    fileRecord.GSI2PK = `COMPANY#${request.companyId}`;
+  } else if (visibility === 'company' && companyId) {
+    fileRecord.GSI2PK = `COMPANY#${companyId}`;
     fileRecord.GSI2SK = `FILE#${now}`;
   }
 
-  // For text-based files, extract and store the text
-  if (request.fileType === 'txt' || request.fileType === 'csv') {
-    fileRecord.extractedText = fileBuffer.toString('utf-8');
-  }
-
   await ddb.send(new PutCommand({
     TableName: TABLE_NAME,
     Item: fileRecord,
   }));
 
+  const uploadUrl = await getSignedUrl(s3, new PutObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: tempKey,
+    ContentType: request.mimeType,
+  }), { expiresIn: UPLOAD_URL_EXPIRES_SECONDS });
+
   return {
     fileId,
-    fileName: request.fileName,
-    status: fileRecord.status,
-    uploadedAt: now,
+    uploadUrl,
+    expiresIn: UPLOAD_URL_EXPIRES_SECONDS,
+    file: fileRecord,
   };
 }
 
-// List files accessible to user
-async function listFiles(
-  userId: string,
-  userRole: UserRole,
-  organizationId?: string,
-  companyId?: string,
-  departmentId?: string,
-  category?: FileCategory
-): Promise<FileRecord[]> {
-  const allFiles: FileRecord[] = [];
-
-  // 1. Get user's own files
-  const userFilesResult = await ddb.send(new QueryCommand({
-    TableName: TABLE_NAME,
-    IndexName: 'GSI1',
-    KeyConditionExpression: 'GSI1PK = :pk AND begins_with(GSI1SK, :sk)',
-    ExpressionAttributeValues: {
-      ':pk': `USER#${userId}`,
-      ':sk': 'FILE#',
-    },
-    ScanIndexForward: false,
-  }));
-  allFiles.push(...(userFilesResult.Items || []) as FileRecord[]);
-
-  // 2. Get system-wide files
-  const systemFilesResult = await ddb.send(new QueryCommand({
-    TableName: TABLE_NAME,
-    IndexName: 'GSI2',
-    KeyConditionExpression: 'GSI2PK = :pk AND begins_with(GSI2SK, :sk)',
-    ExpressionAttributeValues: {
-      ':pk': 'VISIBILITY#system',
-      ':sk': 'FILE#',
-    },
-    ScanIndexForward: false,
-  }));
-  allFiles.push(...(systemFilesResult.Items || []) as FileRecord[]);
+// Step 2 of an upload: validate the uploaded object and move it under
+// uploads/, where the ingestion worker picks it up
+async function completeUpload(fileId: string, principal: AuthPrincipal): Promise<FileUploadResponse> {
+  const file = await getFileRecord(fileId);
+  if (!file) {
+    throw new Error('File not found');
+  }
+  if (file.userId !== principal.userId) {
+    throw new ForbiddenError();
+  }
+  if (file.status !== 'uploading' || !file.s3Key.startsWith('temp/')) {
+    throw new UploadValidationError('Upload has already been completed');
+  }
 
-  // 3. Get organization files (if user belongs to an organization)
-  if (organizationId) {
-    const orgFilesResult = await ddb.send(new QueryCommand({
-      TableName: TABLE_NAME,
-      IndexName: 'GSI2',
-      KeyConditionExpression: 'GSI2PK = :pk AND begins_with(GSI2SK, :sk)',
-      ExpressionAttributeValues: {
-        ':pk': `ORG#${organizationId}`,
-        ':sk': 'FILE#',
-      },
-      ScanIndexForward: false,
+  let head;
+  try {
+    head = await s3.send(new HeadObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: file.s3Key,
     }));
-    allFiles.push(...(orgFilesResult.Items || []) as FileRecord[]);
+  } catch {
+    throw new UploadValidationError('Uploaded object not found');
+  }
+
+  // Leading bytes for the file signature check
+  const rangeResponse = await s3.send(new GetObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: file.s3Key,
+    Range: 'bytes=0-511',
+  }));
+  const leadingBytes = rangeResponse.Body
+    ? Buffer.from(await rangeResponse.Body.transformToByteArray())
+    : Buffer.alloc(0);
+
+  const size = head.ContentLength || 0;
+  const problems: string[] = [];
+  if (size !== file.fileSize) {
+    problems.push(`size ${size} does not match declared ${file.fileSize}`);
+  }
+  if (size > MAX_UPLOAD_BYTES) {
+    problems.push(`size exceeds ${MAX_UPLOAD_BYTES} bytes`);
+  }
+  if (head.ContentType !== file.mimeType) {
+    problems.push(`content type ${head.ContentType} does not match ${file.mimeType}`);
+  }
+  if (!matchesFileSignature(file.fileType, leadingBytes)) {
+    problems.push(`content is not a valid ${file.fileType} file`);
   }
 
-  // 4. Get company files (if user belongs to a company)
-  if (companyId) {
-    const companyFilesResult = await ddb.send(new QueryCommand({
+  if (problems.length > 0) {
+    const errorMessage = `Upload rejected: ${problems.join('; ')}`;
+    await s3.send(new DeleteObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: file.s3Key,
+    }));
+    await ddb.send(new UpdateCommand({
       TableName: TABLE_NAME,
-      IndexName: 'GSI2',
-      KeyConditionExpression: 'GSI2PK = :pk AND begins_with(GSI2SK, :sk)',
-      ExpressionAttributeValues: {
-        ':pk': `COMPANY#${companyId}`,
-        ':sk': 'FILE#',
+      Key: {
+        PK: `FILE#${fileId}`,
+        SK: 'META',
       },
-      ScanIndexForward: false,
+      UpdateExpression: 'SET #status = :status, errorMessage = :errorMessage',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':status': 'error', ':errorMessage': errorMessage },
     }));
-    allFiles.push(...(companyFilesResult.Items || []) as FileRecord[]);
+    throw new UploadValidationError(errorMessage);
   }
 
-  // Deduplicate by fileId
-  const uniqueFiles = Array.from(
-    new Map(allFiles.map(f => [f.fileId, f])).values()
-  );
-
-  // Filter by access permission and category
-  return uniqueFiles.filter(file => {
-    const hasAccess = canAccessFile(file, userId, userRole, organizationId, companyId, departmentId);
-    const matchesCategory = !category || file.category === category;
-    return hasAccess && matchesCategory;
-  });
-}
+  const s3Key = `${UPLOADS_PREFIX}${file.organizationId || 'default'}/${file.companyId || 'default'}/${file.userId}/${fileId}/${file.fileName}`;
 
-// Get single file (with access check)
-async function getFile(fileId: string): Promise<FileRecord | null> {
-  const result = await ddb.send(new GetCommand({
+  // Point the record at the final key before the object lands, so the
+  // ingestion worker reads the right object
+  const status: FileStatus = 'processing';
+  await ddb.send(new UpdateCommand({
     TableName: TABLE_NAME,
     Key: {
       PK: `FILE#${fileId}`,
       SK: 'META',
     },
+    UpdateExpression: 'SET s3Key = :s3Key, #status = :status',
+    ExpressionAttributeNames: { '#status': 'status' },
+    ExpressionAttributeValues: { ':s3Key': s3Key, ':status': status },
+  }));
+
+  await s3.send(new CopyObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: s3Key,
+    CopySource: encodeURIComponent(`${BUCKET_NAME}/${file.s3Key}`),
+    ContentType: file.mimeType,
+    MetadataDirective: 'REPLACE',
   }));
 
-  return (result.Item as FileRecord) || null;
+  await s3.send(new DeleteObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: file.s3Key,
+  }));
+
+  await recordFileUpload(principal, size);
+
+  return {
+    fileId,
+    fileName: file.fileName,
+    status,
+    uploadedAt: file.uploadedAt,
+  };
 }
 
 // Update file visibility
 async function updateFileVisibility(
   fileId: string,
-  userId: string,
-  userRole: UserRole,
+  principal: AuthPrincipal,
   newVisibility: FileVisibility
 ): Promise<void> {
-  const file = await getFile(fileId);
+  const file = await getFileRecord(fileId);
   if (!file) {
     throw new Error('File not found');
   }
 
   // Only owner or admin can update
-  if (file.userId !== userId && userRole !== 'system_admin') {
-    throw new Error('Permission denied');
+  if (!canModifyFile(file, principal)) {
+    throw new ForbiddenError();
   }
 
   // Validate new visibility
-  const allowedVisibilities = getAllowedVisibilities(userRole);
+  const allowedVisibilities = getAllowedVisibilities(principal.role);
   if (!allowedVisibilities.includes(newVisibility)) {
-    throw new Error(`Role ${userRole} cannot set visibility to ${newVisibility}`);
+    throw new ForbiddenError(`Role ${principal.role} cannot set visibility to ${newVisibility}`);
   }
+  await validateSharingScope(newVisibility, file);
 
   const now = new Date().toISOString();
 
@@ -298,15 +340,15 @@ async function updateFileVisibility(
 }
 
 // Delete file
-async function deleteFile(fileId: string, userId: string, userRole: UserRole): Promise<void> {
-  const file = await getFile(fileId);
+async function deleteFile(fileId: string, principal: AuthPrincipal): Promise<void> {
+  const file = await getFileRecord(fileId);
   if (!file) {
     throw new Error('File not found');
   }
 
   // Only owner or admin can delete
-  if (file.userId !== userId && userRole !== 'system_admin') {
-    throw new Error('Permission denied');
+  if (!canModifyFile(file, principal)) {
+    throw new ForbiddenError();
   }
 
   // Delete from S3
@@ -314,6 +356,8 @@ async function deleteFile(fileId: string, userId: string, userRole: UserRole): P
     Bucket: BUCKET_NAME,
     Key: file.s3Key,
   }));
+  await deleteFileText(file);
+  await deleteFileIndex(file);
 
   // Delete from DynamoDB
   await ddb.send(new DeleteCommand({
@@ -326,46 +370,53 @@ async function deleteFile(fileId: string, userId: string, userRole: UserRole): P
 }
 
 // Query file content (for RAG)
-async function queryFile(fileId: string, request: FileQueryRequest): Promise<FileQueryResponse> {
-  const file = await getFile(fileId);
+async function queryFile(
+  fileId: string,
+  principal: AuthPrincipal,
+  request: FileQueryRequest
+): Promise<FileQueryResponse> {
+  const file = await getFileRecord(fileId);
   if (!file) {
     throw new Error('File not found');
   }
+  if (!canAccessFile(file, principal)) {
+    throw new ForbiddenError();
+  }
 
-  let fileContent = '';
-
-  if (file.extractedText) {
-    fileContent = file.extractedText;
-  } else {
-    const s3Response = await s3.send(new GetObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: file.s3Key,
-    }));
-    const bodyStream = s3Response.Body;
-    if (bodyStream) {
-      const chunks: Uint8Array[] = [];
-      for await (const chunk of bodyStream as AsyncIterable<Uint8Array>) {
-        chunks.push(chunk);
-      }
-      fileContent = Buffer.concat(chunks).toString('utf-8');
-    }
+  if (file.status !== 'ready') {
+    return {
+      answer: file.status === 'error'
+        ? `ファイル「${file.fileName}」のテキスト抽出に失敗しました: ${file.errorMessage || '不明なエラー'}`
+        : `ファイル「${file.fileName}」は処理中です。しばらくしてから再度お試しください。`,
+    };
   }
 
-  if (file.fileType === 'csv') {
-    const lines = fileContent.split('\n').filter(line => line.trim());
-    const headers = lines[0]?.split(',').map(h => h.trim()) || [];
-    const rowCount = lines.length - 1;
+  if (isTabularFile(file)) {
+    const model = (request.model || DEFAULT_MODEL) as AIModel;
+    // The plan's model list and monthly quotas apply as they do to chat
+    await checkQuota(principal, model);
+    const { answer, sheet, query, result } = await answerTableQuestion(
+      principal,
+      file,
+      request.query,
+      model,
+      request.sheet
+    );
 
     return {
-      answer: `CSVファイル「${file.fileName}」の情報:\n- 列: ${headers.join(', ')}\n- 行数: ${rowCount}行\n\n質問に回答するにはチャット機能を使用してください。`,
+      answer,
       sourceData: JSON.stringify({
-        headers,
-        rowCount,
-        preview: lines.slice(0, 6).join('\n'),
+        sheet,
+        query,
+        columns: result.columns,
+        rows: result.rows,
+        totalMatched: result.totalMatched,
       }),
     };
   }
 
+  const fileContent = (await loadFileText(file)) || '';
+
   return {
     answer: `ファイル「${file.fileName}」の内容を取得しました。チャットで質問してください。`,
     sourceData: fileContent.substring(0, 1000),
@@ -373,57 +424,59 @@ async function queryFile(fileId: string, request: FileQueryRequest): Promise<Fil
 }
 
 // Main handler
-export async function handler(event: APIGatewayEvent): Promise<APIGatewayResponse> {
-  if (event.httpMethod === 'OPTIONS') {
-    return createResponse(200, {});
-  }
-
+export const handler = withAuth(async (event, principal) => {
   const path = event.path;
   const method = event.httpMethod;
 
   try {
-    // POST /files/upload
-    if (method === 'POST' && path === '/files/upload') {
+    // POST /files/upload-url
+    if (method === 'POST' && path === '/files/upload-url') {
       if (!event.body) {
         return createResponse(400, { error: 'Request body is required' });
       }
 
-      const request: FileUploadRequest = JSON.parse(event.body);
+      const request: FileUploadUrlRequest = JSON.parse(event.body);
 
-      if (!request.fileName || !request.fileType || !request.fileData) {
-        return createResponse(400, { error: 'fileName, fileType, and fileData are required' });
+      if (!request.fileName || !request.fileType || !request.mimeType || !request.fileSize) {
+        return createResponse(400, { error: 'fileName, fileType, mimeType, and fileSize are required' });
       }
 
-      const response = await uploadFile(request);
+      const response = await createUploadUrl(principal, request);
       return createResponse(200, response);
     }
 
-    // GET /files
+    // POST /files/{fileId}/complete
+    if (method === 'POST' && path.startsWith('/files/') && path.endsWith('/complete')) {
+      const fileId = path.split('/')[2];
+
+      const response = await completeUpload(fileId, principal);
+      return createResponse(200, response);
+    }
+
+    // GET /files?category=&limit=&nextToken=
     if (method === 'GET' && path === '/files') {
       const params = event.queryStringParameters || {};
-      const userId = params.userId || 'anonymous';
-      const userRole = (params.userRole as UserRole) || 'user';
       const category = params.category as FileCategory | undefined;
 
-      const files = await listFiles(
-        userId,
-        userRole,
-        params.organizationId,
-        params.companyId,
-        params.departmentId,
-        category
-      );
+      const page = await listAccessibleFilesPage(principal, {
+        category,
+        limit: parseLimit(params.limit),
+        nextToken: params.nextToken,
+      });
 
-      return createResponse(200, { files });
+      return createResponse(200, { files: page.items, nextToken: page.nextToken });
     }
 
     // GET /files/{fileId}
     if (method === 'GET' && path.startsWith('/files/') && !path.includes('/query')) {
       const fileId = path.split('/')[2];
-      const file = await getFile(fileId);
+      const file = await getFileRecord(fileId);
       if (!file) {
         return createResponse(404, { error: 'File not found' });
       }
+      if (!canAccessFile(file, principal)) {
+        return createResponse(403, { error: 'Permission denied' });
+      }
       return createResponse(200, { file });
     }
 
@@ -435,12 +488,7 @@ export async function handler(event: APIGatewayEvent): Promise<APIGatewayRespons
       }
 
       const body = JSON.parse(event.body);
-      await updateFileVisibility(
-        fileId,
-        body.userId || 'anonymous',
-        body.userRole || 'user',
-        body.visibility
-      );
+      await updateFileVisibility(fileId, principal, body.visibility);
 
       return createResponse(200, { message: 'File updated' });
     }
@@ -448,13 +496,8 @@ export async function handler(event: APIGatewayEvent): Promise<APIGatewayRespons
     // DELETE /files/{fileId}
     if (method === 'DELETE' && path.startsWith('/files/')) {
       const fileId = path.split('/')[2];
-      const params = event.queryStringParameters || {};
 
-      await deleteFile(
-        fileId,
-        params.userId || 'anonymous',
-        (params.userRole as UserRole) || 'user'
-      );
+      await deleteFile(fileId, principal);
 
       return createResponse(200, { message: 'File deleted' });
     }
@@ -467,14 +510,35 @@ export async function handler(event: APIGatewayEvent): Promise<APIGatewayRespons
       }
 
       const request: FileQueryRequest = JSON.parse(event.body);
-      const response = await queryFile(fileId, request);
+      if (!request.query) {
+        return createResponse(400, { error: 'query is required' });
+      }
+      if (request.model && !getModelInfo(request.model as AIModel)) {
+        return createResponse(400, { error: `Unknown model: ${request.model}` });
+      }
+
+      const response = await queryFile(fileId, principal, request);
       return createResponse(200, response);
     }
 
     return createResponse(404, { error: 'Not found' });
   } catch (error) {
+    if (error instanceof ForbiddenError) {
+      return createResponse(403, { error: error.message });
+    }
+    if (error instanceof QuotaExceededError) {
+      return createResponse(429, { error: error.message, scope: error.scope });
+    }
+    if (
+      error instanceof UploadValidationError ||
+      error instanceof TableQueryError ||
+      error instanceof TenantValidationError ||
+      error instanceof PaginationError
+    ) {
+      return createResponse(400, { error: error.message });
+    }
     console.error('Files handler error:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return createResponse(500, { error: errorMessage });
   }
-}
+});
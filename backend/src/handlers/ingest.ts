@@ -0,0 +1,64 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import type { FileRecord, S3ObjectCreatedEvent } from '../types/index.js';
+import { getFileIdFromKey, loadFileText, processFileText, readObject } from '../services/fileText.js';
+import { indexFile } from '../services/retrieval.js';
+
+const ddbClient = new DynamoDBClient({});
+const ddb = DynamoDBDocumentClient.from(ddbClient);
+
+const TABLE_NAME = process.env.MAIN_TABLE || '';
+
+// Ingestion worker: runs for every object created under uploads/, extracts
+// the text and builds the retrieval index. Progress is reported through the
+// file record's status (uploading -> processing -> ready | error).
+export async function handler(event: S3ObjectCreatedEvent): Promise<void> {
+  const key = event.detail.object.key;
+  const fileId = getFileIdFromKey(key);
+  if (!fileId) {
+    console.warn('Ignoring object outside the uploads prefix:', key);
+    return;
+  }
+
+  const result = await ddb.send(new GetCommand({
+    TableName: TABLE_NAME,
+    Key: {
+      PK: `FILE#${fileId}`,
+      SK: 'META',
+    },
+  }));
+
+  const file = result.Item as FileRecord | undefined;
+  if (!file) {
+    // The file was deleted before ingestion started
+    console.warn(`No file record for ${fileId}, skipping`);
+    return;
+  }
+
+  // EventBridge delivers at least once
+  if (file.status === 'ready') {
+    return;
+  }
+
+  const buffer = await readObject(file.s3Key);
+  if (!buffer) {
+    throw new Error(`Object ${file.s3Key} has no content`);
+  }
+
+  const processed = await processFileText(file, buffer);
+  if (processed.status !== 'ready') {
+    console.error(`Ingestion failed for ${fileId}: ${processed.errorMessage}`);
+    return;
+  }
+
+  // Chunk and index for retrieval. Without an index the file is still usable:
+  // chat indexes it in memory from the extracted text.
+  try {
+    const text = await loadFileText(processed);
+    if (text) {
+      await indexFile(processed, text);
+    }
+  } catch (error) {
+    console.error(`Indexing failed for ${fileId}:`, error);
+  }
+}
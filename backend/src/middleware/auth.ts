@@ -0,0 +1,126 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import type {
+  APIGatewayEvent,
+  APIGatewayResponse,
+  AuthPrincipal,
+  UserRecord,
+} from '../types/index.js';
+import { verifyCognitoToken, type CognitoTokenClaims } from '../services/jwt.js';
+import { isTokenSessionRevoked } from '../services/tokenRevocation.js';
+
+const ddbClient = new DynamoDBClient({});
+const ddb = DynamoDBDocumentClient.from(ddbClient);
+
+const TABLE_NAME = process.env.MAIN_TABLE || '';
+
+const CORS_HEADERS = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Amz-Date,X-Api-Key,X-Amz-Security-Token',
+  'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+};
+
+function createResponse(statusCode: number, body: object): APIGatewayResponse {
+  return {
+    statusCode,
+    headers: CORS_HEADERS,
+    body: JSON.stringify(body),
+  };
+}
+
+function toPrincipal(user: UserRecord): AuthPrincipal {
+  return {
+    userId: user.userId,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    organizationId: user.organizationId,
+    companyId: user.companyId,
+    departmentId: user.departmentId,
+  };
+}
+
+// Resolve the caller from the Authorization header: verify the Cognito JWT,
+// then load the DynamoDB record for its subject, the only source of role and
+// tenant (token claims are never trusted for them). Returns null when the
+// caller is not authenticated or has no user record.
+export async function authenticate(
+  headers: Record<string, string | undefined> | null | undefined
+): Promise<AuthPrincipal | null> {
+  const authHeader = headers?.Authorization || headers?.authorization;
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const token = authHeader.slice('Bearer '.length).trim();
+
+  let claims: CognitoTokenClaims;
+  try {
+    claims = await verifyCognitoToken(token);
+  } catch (error) {
+    console.warn('Token verification failed:', error instanceof Error ? error.message : error);
+    return null;
+  }
+
+  try {
+    const [result, sessionRevoked] = await Promise.all([
+      ddb.send(new GetCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `USER#${claims.sub}`,
+          SK: 'META',
+        },
+      })),
+      isTokenSessionRevoked(claims),
+    ]);
+
+    // Tokens of a sign-in that was signed out
+    if (sessionRevoked) {
+      console.warn('Token of a signed-out session:', claims.sub);
+      return null;
+    }
+
+    const user = result.Item as UserRecord | undefined;
+    if (!user) {
+      console.warn('Token of unknown user:', claims.sub);
+      return null;
+    }
+
+    // Tokens issued before a global sign-out are no longer accepted
+    if (user.tokensRevokedAt && claims.iat * 1000 < Date.parse(user.tokensRevokedAt)) {
+      console.warn('Token issued before revocation:', claims.sub);
+      return null;
+    }
+
+    // Disabled accounts are rejected even with a still valid token
+    if (user.disabled) {
+      console.warn('Token of disabled user:', claims.sub);
+      return null;
+    }
+
+    return toPrincipal(user);
+  } catch (error) {
+    console.error('Failed to load user record:', error);
+    return null;
+  }
+}
+
+// Wrap a handler so it only runs for authenticated callers. CORS preflight
+// is answered without auth; everything else gets 401 without a valid token.
+export function withAuth(
+  handler: (event: APIGatewayEvent, principal: AuthPrincipal) => Promise<APIGatewayResponse>
+): (event: APIGatewayEvent) => Promise<APIGatewayResponse> {
+  return async (event) => {
+    if (event.httpMethod === 'OPTIONS') {
+      return createResponse(200, {});
+    }
+
+    const principal = await authenticate(event.headers);
+    if (!principal) {
+      return createResponse(401, { error: 'Authentication required' });
+    }
+
+    return handler(event, principal);
+  };
+}
@@ -0,0 +1,210 @@
+import type { AIModel, AuthPrincipal, ChatMessage, ChatResponse, FileRecord, SheetSchema } from '../types/index.js';
+import { invokeModel } from './llm.js';
+import { recordTokenUsage } from './quotas.js';
+import { recordChatUsage } from './usage.js';
+import { loadFileTables } from './fileText.js';
+import {
+  inferSheetSchema,
+  describeSheetSchema,
+  toMarkdownTable,
+  type Table,
+  type TableCell,
+} from './tabular.js';
+import {
+  validateTableQuery,
+  runTableQuery,
+  TableQueryError,
+  DEFAULT_QUERY_LIMIT,
+  MAX_QUERY_LIMIT,
+  type TableQuery,
+  type TableQueryResult,
+} from './tableQuery.js';
+
+// Rows shown to the model when planning, and result rows passed to it when
+// writing the answer
+const SAMPLE_ROWS = 5;
+const SUMMARY_ROWS = 100;
+
+// Tokens of every model call made for one question
+interface TokenTally {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+function tally(usage: TokenTally, response: ChatResponse): void {
+  usage.inputTokens += response.usage?.inputTokens || 0;
+  usage.outputTokens += response.usage?.outputTokens || 0;
+}
+
+export interface TableAnswer {
+  answer: string;
+  sheet: string;
+  query: TableQuery;
+  result: TableQueryResult;
+}
+
+const PLANNER_PROMPT = `You translate questions about a spreadsheet into a JSON query.
+Reply with a single JSON object and nothing else:
+{
+  "filters": [{ "column": string, "op": "eq"|"ne"|"gt"|"gte"|"lt"|"lte"|"contains"|"in", "value": string|number|null|array }],
+  "groupBy": [column, ...],
+  "aggregates": [{ "fn": "count"|"sum"|"avg"|"min"|"max", "column": string (omit for row count), "as": string }],
+  "select": [column, ...],
+  "sort": [{ "column": string, "direction": "asc"|"desc" }],
+  "limit": number (default ${DEFAULT_QUERY_LIMIT}, max ${MAX_QUERY_LIMIT})
+}
+Use only the column names listed. Dates are ISO strings (YYYY-MM-DD) and compare as such;
+for enum columns use one of the listed values. "select" applies only when there are no aggregates or groupBy.
+With aggregates, "sort" may use groupBy columns or aggregate "as" names.`;
+
+const SUMMARY_PROMPT = `あなたはデータ分析アシスタントです。
+ユーザーの質問に対し、実行したクエリの結果表だけを根拠に日本語で簡潔に回答してください。
+結果に含まれない数値を推測しないでください。`;
+
+// Averages and other computed values are shown to two decimals
+function roundCell(cell: TableCell): TableCell {
+  return typeof cell === 'number' && !Number.isInteger(cell) ? Math.round(cell * 100) / 100 : cell;
+}
+
+function describeTable(table: Table, schema: SheetSchema): string {
+  return [
+    describeSheetSchema(schema),
+    '',
+    'Sample rows:',
+    toMarkdownTable(table.columns, table.rows.slice(0, SAMPLE_ROWS)),
+  ].join('\n');
+}
+
+// The model is asked for bare JSON but may still wrap it in a code fence
+function parseJsonReply(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const text = fenced ? fenced[1] : content;
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end < start) {
+    throw new TableQueryError('Model did not return a JSON query');
+  }
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    throw new TableQueryError('Model returned invalid JSON');
+  }
+}
+
+// Ask the model for a query; an invalid query is sent back once with the
+// validation error so the model can correct it
+async function planQuery(
+  table: Table,
+  schema: SheetSchema,
+  question: string,
+  model: AIModel,
+  usage: TokenTally
+): Promise<TableQuery> {
+  const messages: ChatMessage[] = [
+    { role: 'user', content: `${describeTable(table, schema)}\n\nQuestion: ${question}` },
+  ];
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const response = await invokeModel({
+      model,
+      messages,
+      systemPrompt: PLANNER_PROMPT,
+      maxTokens: 1024,
+      temperature: 0,
+    });
+    tally(usage, response);
+
+    try {
+      return validateTableQuery(parseJsonReply(response.content), table.columns);
+    } catch (error) {
+      if (!(error instanceof TableQueryError) || attempt > 0) {
+        throw error;
+      }
+      messages.push(
+        { role: 'assistant', content: response.content },
+        { role: 'user', content: `The query is invalid: ${error.message}. Reply with a corrected JSON query only.` }
+      );
+    }
+  }
+
+  throw new TableQueryError('Could not build a query');
+}
+
+function pickTable(tables: Table[], sheet?: string): Table {
+  if (tables.length === 0) {
+    throw new TableQueryError('The file contains no table data');
+  }
+  if (!sheet) {
+    return tables[0];
+  }
+  const table = tables.find(candidate => candidate.name === sheet);
+  if (!table) {
+    throw new TableQueryError(`Sheet not found: ${sheet}`);
+  }
+  return table;
+}
+
+// Answer a question about a CSV / XLSX file: the model writes a structured
+// query, the query runs over the parsed table, and the model summarizes the
+// resulting rows. The tokens of all calls are counted like chat usage, also
+// when a later step fails.
+export async function answerTableQuestion(
+  principal: AuthPrincipal,
+  file: FileRecord,
+  question: string,
+  model: AIModel,
+  sheet?: string
+): Promise<TableAnswer> {
+  const usage: TokenTally = { inputTokens: 0, outputTokens: 0 };
+  try {
+    return await answerWithUsage(file, question, model, usage, sheet);
+  } finally {
+    if (usage.inputTokens + usage.outputTokens > 0) {
+      await Promise.all([
+        recordTokenUsage(principal, usage.inputTokens + usage.outputTokens),
+        recordChatUsage(principal, model, usage.inputTokens, usage.outputTokens),
+      ]);
+    }
+  }
+}
+
+async function answerWithUsage(
+  file: FileRecord,
+  question: string,
+  model: AIModel,
+  usage: TokenTally,
+  sheet?: string
+): Promise<TableAnswer> {
+  const { tables } = await loadFileTables(file);
+  const table = pickTable(tables, sheet);
+  // The schema recorded at ingestion; files ingested before schemas existed
+  // get one inferred now
+  const schema = file.tableSchema?.sheets.find(candidate => candidate.name === table.name)
+    || inferSheetSchema(table);
+  const query = await planQuery(table, schema, question, model, usage);
+  const result = runTableQuery(table, query);
+
+  const shownRows = result.rows.slice(0, SUMMARY_ROWS);
+  const summary = await invokeModel({
+    model,
+    systemPrompt: SUMMARY_PROMPT,
+    maxTokens: 2048,
+    temperature: 0,
+    messages: [{
+      role: 'user',
+      content: [
+        `質問: ${question}`,
+        '',
+        `ファイル: ${file.fileName} (シート: ${table.name})`,
+        `実行したクエリ: ${JSON.stringify(query)}`,
+        `条件に一致した行数: ${result.totalMatched}`,
+        '',
+        `結果 (${result.rows.length}行中${shownRows.length}行):`,
+        toMarkdownTable(result.columns, shownRows.map(row => row.map(roundCell))),
+      ].join('\n'),
+    }],
+  });
+  tally(usage, summary);
+
+  return { answer: summary.content, sheet: table.name, query, result };
+}
@@ -0,0 +1,62 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import type { AuditEvent, AuthPrincipal } from '../types/index.js';
+
+const ddbClient = new DynamoDBClient({});
+const ddb = DynamoDBDocumentClient.from(ddbClient);
+
+const TABLE_NAME = process.env.MAIN_TABLE || '';
+
+// Audit records expire after one year (DynamoDB TTL)
+const AUDIT_RETENTION_SECONDS = 365 * 24 * 60 * 60;
+
+// Record a denied access attempt. Failures are logged, never thrown, so an
+// audit outage cannot turn a 403 into a 500.
+export async function recordAccessDenied(
+  principal: AuthPrincipal,
+  action: string,
+  resourceType: AuditEvent['resourceType'],
+  resourceId: string,
+  reason: string
+): Promise<void> {
+  const eventId = uuidv4();
+  const now = new Date();
+  const timestamp = now.toISOString();
+
+  const auditEvent: AuditEvent = {
+    PK: `AUDIT#${timestamp.substring(0, 10)}`,
+    SK: `${timestamp}#${eventId}`,
+    eventId,
+    eventType: 'access_denied',
+    action,
+    resourceType,
+    resourceId,
+    reason,
+    userId: principal.userId,
+    userRole: principal.role,
+    organizationId: principal.organizationId,
+    companyId: principal.companyId,
+    createdAt: timestamp,
+    ttl: Math.floor(now.getTime() / 1000) + AUDIT_RETENTION_SECONDS,
+    GSI1PK: `USER#${principal.userId}`,
+    GSI1SK: `AUDIT#${timestamp}`,
+  };
+
+  console.warn('Access denied:', JSON.stringify({
+    action,
+    resourceType,
+    resourceId,
+    userId: principal.userId,
+    reason,
+  }));
+
+  try {
+    await ddb.send(new PutCommand({
+      TableName: TABLE_NAME,
+      Item: auditEvent,
+    }));
+  } catch (error) {
+    console.error('Failed to record audit event:', error);
+  }
+}
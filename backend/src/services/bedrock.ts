@@ -1,12 +1,14 @@
 import {
   BedrockRuntimeClient,
   ConverseCommand,
+  ConverseStreamCommand,
+  type ConverseCommandInput,
   type Message,
   type ContentBlock,
   type ImageBlock,
   type SystemContentBlock,
 } from '@aws-sdk/client-bedrock-runtime';
-import type { ChatMessage, ChatRequest, ChatResponse, BedrockModel } from '../types/index.js';
+import type { ChatMessage, ChatRequest, ChatResponse, ChatStreamEvent, BedrockModel } from '../types/index.js';
 
 const client = new BedrockRuntimeClient({
   region: 'us-east-1', // Required for cross-region inference (us. prefix models)
@@ -43,7 +45,7 @@ function convertToBedrockMessages(messages: ChatMessage[]): Message[] {
   });
 }
 
-export async function invokeBedrock(request: ChatRequest): Promise<ChatResponse> {
+function buildConverseInput(request: ChatRequest): ConverseCommandInput {
   const modelId = request.model as BedrockModel;
 
   // Build system content if provided
@@ -51,7 +53,7 @@ export async function invokeBedrock(request: ChatRequest): Promise<ChatResponse>
     ? [{ text: request.systemPrompt }]
     : undefined;
 
-  const command = new ConverseCommand({
+  return {
     modelId,
     messages: convertToBedrockMessages(request.messages),
     system,
@@ -59,7 +61,11 @@ export async function invokeBedrock(request: ChatRequest): Promise<ChatResponse>
       maxTokens: request.maxTokens || 4096,
       temperature: request.temperature || 0.7,
     },
-  });
+  };
+}
+
+export async function invokeBedrock(request: ChatRequest): Promise<ChatResponse> {
+  const command = new ConverseCommand(buildConverseInput(request));
 
   const response = await client.send(command);
 
@@ -85,3 +91,48 @@ export async function invokeBedrock(request: ChatRequest): Promise<ChatResponse>
       : undefined,
   };
 }
+
+// Stream a response token-by-token via ConverseStream
+export async function* streamBedrock(request: ChatRequest): AsyncGenerator<ChatStreamEvent> {
+  const command = new ConverseStreamCommand(buildConverseInput(request));
+
+  const response = await client.send(command);
+
+  let content = '';
+  let usage: ChatResponse['usage'];
+
+  for await (const event of response.stream ?? []) {
+    const text = event.contentBlockDelta?.delta?.text;
+    if (text) {
+      content += text;
+      yield { type: 'delta', text };
+    }
+
+    if (event.metadata?.usage) {
+      usage = {
+        inputTokens: event.metadata.usage.inputTokens || 0,
+        outputTokens: event.metadata.usage.outputTokens || 0,
+      };
+    }
+
+    // Errors raised mid-stream arrive as events rather than exceptions
+    const streamError = event.internalServerException
+      || event.modelStreamErrorException
+      || event.serviceUnavailableException
+      || event.throttlingException
+      || event.validationException;
+    if (streamError) {
+      throw new Error(streamError.message || 'Bedrock stream error');
+    }
+  }
+
+  yield {
+    type: 'done',
+    response: {
+      content,
+      model: request.model,
+      provider: 'bedrock',
+      usage,
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from '@jest/globals';
+import { buildBm25Index, searchBm25, tokenize } from './bm25.js';
+
+describe('tokenize', () => {
+  it('lower-cases words and drops punctuation', () => {
+    expect(tokenize('Quarterly Budget, 2024!')).toEqual(['quarterly', 'budget', '2024']);
+  });
+
+  it('splits CJK runs into overlapping bigrams', () => {
+    expect(tokenize('売上報告')).toEqual(['売上', '上報', '報告']);
+    expect(tokenize('表')).toEqual(['表']);
+  });
+
+  it('separates CJK runs from adjacent Latin words', () => {
+    expect(tokenize('AWSの請求')).toEqual(['aws', 'の請', '請求']);
+  });
+
+  it('normalizes full-width characters', () => {
+    expect(tokenize('ＡＢＣ１２３')).toEqual(['abc123']);
+  });
+
+  it('returns nothing for text without letters or digits', () => {
+    expect(tokenize(' -- ... ')).toEqual([]);
+  });
+});
+
+describe('buildBm25Index', () => {
+  it('records term and document frequencies', () => {
+    const index = buildBm25Index(['budget budget plan', 'plan']);
+    expect(index.docs).toEqual([
+      { length: 3, termFreq: { budget: 2, plan: 1 } },
+      { length: 1, termFreq: { plan: 1 } },
+    ]);
+    expect(index.docFreq).toEqual({ budget: 1, plan: 2 });
+  });
+});
+
+describe('searchBm25', () => {
+  it('ranks documents with more and rarer matches first', () => {
+    const index = buildBm25Index([
+      'the travel policy covers hotels',
+      'the budget for travel and the budget for hotels',
+      'the office opens at nine',
+    ]);
+    const hits = searchBm25([index], 'budget travel');
+
+    expect(hits.map(hit => hit.docNo)).toEqual([1, 0]);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+  });
+
+  it('scores across several indexes with shared statistics', () => {
+    const first = buildBm25Index(['invoice total', 'meeting notes']);
+    const second = buildBm25Index(['invoice due date']);
+    const hits = searchBm25([first, second], 'invoice');
+
+    expect(hits.map(hit => [hit.indexNo, hit.docNo])).toEqual([[0, 0], [1, 0]]);
+  });
+
+  it('matches Japanese queries by bigram', () => {
+    const index = buildBm25Index(['来期の売上予測について', '出張旅費の精算手順']);
+    const hits = searchBm25([index], '売上');
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0].docNo).toBe(0);
+  });
+
+  it('returns nothing for an empty query or empty indexes', () => {
+    expect(searchBm25([buildBm25Index(['text'])], '...')).toEqual([]);
+    expect(searchBm25([buildBm25Index([])], 'text')).toEqual([]);
+  });
+});
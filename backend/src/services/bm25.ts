@@ -0,0 +1,117 @@
+// Lexical retrieval with Okapi BM25. Runs entirely in the Lambda; indexes are
+// plain JSON so they can be stored next to the file in S3.
+
+const K1 = 1.2;
+const B = 0.75;
+
+// Runs of CJK characters (indexed as overlapping bigrams, since Japanese and
+// Chinese text has no word separators) or of letters / digits (indexed as words)
+const TOKEN_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff\uac00-\ud7af]+|(?:(?![\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff\uac00-\ud7af])[\p{L}\p{N}])+/gu;
+const CJK_PATTERN = /^[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff\uac00-\ud7af]/;
+
+export interface Bm25Document {
+  length: number;                       // token count
+  termFreq: Record<string, number>;
+}
+
+export interface Bm25Index {
+  docFreq: Record<string, number>;
+  docs: Bm25Document[];
+}
+
+export interface Bm25Hit {
+  indexNo: number;      // position in the indexes passed to searchBm25
+  docNo: number;
+  score: number;
+}
+
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of text.normalize('NFKC').toLowerCase().matchAll(TOKEN_PATTERN)) {
+    const run = match[0];
+    if (CJK_PATTERN.test(run)) {
+      const chars = Array.from(run);
+      if (chars.length === 1) {
+        tokens.push(run);
+      }
+      for (let i = 0; i < chars.length - 1; i++) {
+        tokens.push(chars[i] + chars[i + 1]);
+      }
+    } else {
+      tokens.push(run);
+    }
+  }
+  return tokens;
+}
+
+export function buildBm25Index(texts: string[]): Bm25Index {
+  const docFreq: Record<string, number> = {};
+  const docs = texts.map((text) => {
+    const tokens = tokenize(text);
+    const termFreq: Record<string, number> = {};
+    for (const token of tokens) {
+      termFreq[token] = (termFreq[token] || 0) + 1;
+    }
+    for (const term of Object.keys(termFreq)) {
+      docFreq[term] = (docFreq[term] || 0) + 1;
+    }
+    return { length: tokens.length, termFreq };
+  });
+
+  return { docFreq, docs };
+}
+
+// Inverse document frequency of a term found in docFreq of docCount documents
+export function bm25Idf(docCount: number, docFreq: number): number {
+  return Math.log(1 + (docCount - docFreq + 0.5) / (docFreq + 0.5));
+}
+
+// Contribution of one query term to a document's score
+export function bm25TermScore(idf: number, termFreq: number, docLength: number, avgLength: number): number {
+  return idf * (termFreq * (K1 + 1)) / (termFreq + K1 * (1 - B + B * docLength / avgLength));
+}
+
+// Score every document of several indexes against a query. Collection
+// statistics (document count, document frequency, average length) are
+// combined across the indexes so scores are comparable between files.
+export function searchBm25(indexes: Bm25Index[], query: string): Bm25Hit[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0) return [];
+
+  let docCount = 0;
+  let totalLength = 0;
+  const docFreq: Record<string, number> = {};
+  for (const index of indexes) {
+    docCount += index.docs.length;
+    for (const doc of index.docs) {
+      totalLength += doc.length;
+    }
+    for (const term of queryTerms) {
+      docFreq[term] = (docFreq[term] || 0) + (index.docFreq[term] || 0);
+    }
+  }
+  if (docCount === 0) return [];
+  const avgLength = totalLength / docCount || 1;
+
+  const idf: Record<string, number> = {};
+  for (const term of queryTerms) {
+    idf[term] = bm25Idf(docCount, docFreq[term]);
+  }
+
+  const hits: Bm25Hit[] = [];
+  indexes.forEach((index, indexNo) => {
+    index.docs.forEach((doc, docNo) => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = doc.termFreq[term];
+        if (!tf) continue;
+        score += bm25TermScore(idf[term], tf, doc.length, avgLength);
+      }
+      if (score > 0) {
+        hits.push({ indexNo, docNo, score });
+      }
+    });
+  });
+
+  return hits.sort((a, b) => b.score - a.score);
+}
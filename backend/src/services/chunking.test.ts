@@ -0,0 +1,61 @@
+import { describe, expect, it } from '@jest/globals';
+import { chunkText } from './chunking.js';
+import { PAGE_SEPARATOR } from './extraction.js';
+
+describe('chunkText', () => {
+  it('keeps short text in one chunk', () => {
+    expect(chunkText('  A short note.  ')).toEqual([
+      { index: 0, text: 'A short note.', page: undefined, start: 2, end: 15 },
+    ]);
+  });
+
+  it('returns no chunks for blank text', () => {
+    expect(chunkText('   \n\n  ')).toEqual([]);
+  });
+
+  it('breaks at a paragraph boundary within the window', () => {
+    const first = 'First paragraph sentence one. Sentence two.';
+    const second = 'Second paragraph continues here with more words.';
+    const chunks = chunkText(`${first}\n\n${second}`, { maxChars: 60, overlapChars: 0 });
+
+    expect(chunks[0].text).toBe(first);
+    expect(chunks[1].text).toBe(second);
+  });
+
+  it('overlaps consecutive chunks and keeps offsets into the text', () => {
+    const text = Array.from({ length: 40 }, (_, i) => `word${i}`).join(' ');
+    const chunks = chunkText(text, { maxChars: 100, overlapChars: 20 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(100);
+      expect(text.slice(chunk.start, chunk.end)).toBe(chunk.text);
+    }
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].start).toBeLessThan(chunks[i - 1].end);
+    }
+    expect(chunks[chunks.length - 1].end).toBe(text.length);
+  });
+
+  it('breaks Japanese text after a full stop', () => {
+    const sentence = 'これは長い説明の文です。';
+    const text = sentence.repeat(10);
+    const chunks = chunkText(text, { maxChars: 50, overlapChars: 0 });
+
+    for (const chunk of chunks.slice(0, -1)) {
+      expect(chunk.text.endsWith('。')).toBe(true);
+    }
+  });
+
+  it('numbers pages and never spans a page separator', () => {
+    const text = ['Page one text.', 'Page two text.', '', 'Page four text.'].join(PAGE_SEPARATOR);
+    const chunks = chunkText(text);
+
+    expect(chunks.map(chunk => [chunk.page, chunk.text])).toEqual([
+      [1, 'Page one text.'],
+      [2, 'Page two text.'],
+      [4, 'Page four text.'],
+    ]);
+    expect(chunks.map(chunk => chunk.index)).toEqual([0, 1, 2]);
+  });
+});
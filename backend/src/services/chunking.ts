@@ -0,0 +1,81 @@
+import { PAGE_SEPARATOR } from './extraction.js';
+
+export interface TextChunk {
+  index: number;
+  text: string;
+  page?: number;        // 1-based; only for text with page separators (PDF)
+  start: number;        // character offset into the extracted text
+  end: number;
+}
+
+const DEFAULT_MAX_CHARS = 1200;
+const DEFAULT_OVERLAP_CHARS = 150;
+
+// Preferred break points, strongest first
+const BREAK_PATTERNS = [/\n\s*\n/g, /\n/g, /[\u3002\uff0e\uff01\uff1f]|[.!?](?=\s)/g, /\s/g];
+
+// Find where to end a chunk that would otherwise end at `limit`: the last
+// strong boundary in the second half of the window
+function findBreak(text: string, start: number, limit: number): number {
+  const minEnd = start + Math.floor((limit - start) / 2);
+  const window = text.slice(minEnd, limit);
+
+  for (const pattern of BREAK_PATTERNS) {
+    let lastEnd = -1;
+    for (const match of window.matchAll(pattern)) {
+      lastEnd = (match.index ?? 0) + match[0].length;
+    }
+    if (lastEnd > 0) {
+      return minEnd + lastEnd;
+    }
+  }
+  return limit;
+}
+
+// Split extracted text into overlapping chunks that respect paragraph and
+// sentence boundaries. Chunks never span a page separator.
+export function chunkText(
+  text: string,
+  options: { maxChars?: number; overlapChars?: number } = {}
+): TextChunk[] {
+  const maxChars = options.maxChars || DEFAULT_MAX_CHARS;
+  const overlapChars = Math.min(options.overlapChars ?? DEFAULT_OVERLAP_CHARS, Math.floor(maxChars / 2));
+  const hasPages = text.includes(PAGE_SEPARATOR);
+
+  const chunks: TextChunk[] = [];
+  let pageStart = 0;
+  let page = 1;
+
+  while (pageStart <= text.length) {
+    const separatorAt = hasPages ? text.indexOf(PAGE_SEPARATOR, pageStart) : -1;
+    const pageEnd = separatorAt === -1 ? text.length : separatorAt;
+
+    let start = pageStart;
+    while (start < pageEnd) {
+      const limit = Math.min(start + maxChars, pageEnd);
+      const end = limit < pageEnd ? findBreak(text, start, limit) : limit;
+
+      const raw = text.slice(start, end);
+      const trimmed = raw.trim();
+      if (trimmed) {
+        const leading = raw.length - raw.trimStart().length;
+        chunks.push({
+          index: chunks.length,
+          text: trimmed,
+          page: hasPages ? page : undefined,
+          start: start + leading,
+          end: start + leading + trimmed.length,
+        });
+      }
+
+      if (end >= pageEnd) break;
+      start = Math.max(end - overlapChars, start + 1);
+    }
+
+    if (separatorAt === -1) break;
+    pageStart = separatorAt + PAGE_SEPARATOR.length;
+    page++;
+  }
+
+  return chunks;
+}
@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import type { AIModel, AuthPrincipal, ChatMessage, ChatRequest, ChatResponse, Conversation } from '../types/index.js';
+import { estimateTokens } from './tokens.js';
+
+// 200,000-token window: summarizing starts above 140,000 tokens and keeps
+// 60,000 for recent turns
+const MODEL: AIModel = 'us.anthropic.claude-sonnet-4-5-20250929-v1:0';
+
+const invokeModel = jest.fn<(request: ChatRequest) => Promise<ChatResponse>>();
+const recordTokenUsage = jest.fn<(principal: AuthPrincipal, tokens: number) => Promise<void>>();
+const recordChatUsage = jest.fn<
+  (principal: AuthPrincipal, model: string, inputTokens: number, outputTokens: number) => Promise<void>
+>();
+
+jest.unstable_mockModule('./llm.js', () => ({ invokeModel }));
+jest.unstable_mockModule('./quotas.js', () => ({ recordTokenUsage }));
+jest.unstable_mockModule('./usage.js', () => ({ recordChatUsage }));
+
+const { buildConversationContext, spansWithin } = await import('./conversationContext.js');
+
+const principal: AuthPrincipal = {
+  userId: 'user-1',
+  email: 'user@example.com',
+  name: 'User',
+  role: 'user',
+  organizationId: 'org-1',
+  companyId: 'company-1',
+};
+
+// A message of the given estimated size (each kana is one token, plus 4 for
+// the message overhead), tagged so tests can tell messages apart
+function turn(role: ChatMessage['role'], label: string, tokens: number): ChatMessage {
+  return { role, content: label + 'あ'.repeat(tokens - 4 - estimateTokens(label)) };
+}
+
+function conversation(overrides: Partial<Conversation> = {}): Conversation {
+  return {
+    PK: 'CONV#conv-1',
+    SK: 'META',
+    conversationId: 'conv-1',
+    title: 'Budget',
+    userId: 'user-1',
+    modelId: MODEL,
+    createdAt: '2024-01-05T00:00:00.000Z',
+    updatedAt: '2024-01-05T00:00:00.000Z',
+    messageCount: 0,
+    totalInputTokens: 0,
+    totalOutputTokens: 0,
+    totalCost: 0,
+    ...overrides,
+  };
+}
+
+function labels(messages: ChatMessage[]): string[] {
+  return messages.map(message => message.content.replace(/あ+$/, ''));
+}
+
+describe('spansWithin', () => {
+  it('groups consecutive turns up to the budget', () => {
+    const messages = [turn('user', 'u1', 40), turn('assistant', 'a1', 50), turn('user', 'u2', 30)];
+
+    expect(spansWithin(messages, 100).map(labels)).toEqual([['u1', 'a1'], ['u2']]);
+  });
+
+  it('gives a turn larger than the budget a span of its own', () => {
+    const messages = [turn('user', 'u1', 20), turn('assistant', 'a1', 500), turn('user', 'u2', 20)];
+
+    expect(spansWithin(messages, 100).map(labels)).toEqual([['u1'], ['a1'], ['u2']]);
+  });
+});
+
+describe('buildConversationContext', () => {
+  let send: ReturnType<typeof jest.spyOn>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    invokeModel.mockResolvedValue({
+      content: '新しい要約',
+      model: MODEL,
+      provider: 'bedrock',
+      usage: { inputTokens: 100, outputTokens: 10 },
+    });
+    recordTokenUsage.mockResolvedValue();
+    recordChatUsage.mockResolvedValue();
+    send = jest.spyOn(DynamoDBDocumentClient.prototype, 'send').mockImplementation((async () => ({})) as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function savedSummary() {
+    return (send.mock.calls[0][0] as UpdateCommand).input.ExpressionAttributeValues;
+  }
+
+  it('sends every turn while the prompt stays under the threshold', async () => {
+    const history = [turn('user', 'u1', 60_000), turn('assistant', 'a1', 60_000)];
+
+    const context = await buildConversationContext(
+      principal, conversation(), history, turn('user', 'new', 10_000), MODEL, 10_000
+    );
+
+    expect(labels(context.messages)).toEqual(['u1', 'a1', 'new']);
+    expect(context).toMatchObject({ summary: undefined, summarizedMessages: 0 });
+    expect(invokeModel).not.toHaveBeenCalled();
+  });
+
+  it('counts the reserved tokens toward the threshold', async () => {
+    const history = [turn('user', 'u1', 60_000), turn('assistant', 'a1', 60_000)];
+
+    const context = await buildConversationContext(
+      principal, conversation(), history, turn('user', 'new', 10_000), MODEL, 10_001
+    );
+
+    expect(labels(context.messages)).toEqual(['new']);
+    expect(context).toMatchObject({ summary: '新しい要約', summarizedMessages: 2 });
+  });
+
+  it('summarizes the older turns and keeps a window that starts on a user turn', async () => {
+    // The recent share reaches back to a2, so the window starts at u3 instead
+    const history = [
+      turn('user', 'u1', 60_000),
+      turn('assistant', 'a1', 20_000),
+      turn('user', 'u2', 40_000),
+      turn('assistant', 'a2', 20_000),
+      turn('user', 'u3', 5_000),
+      turn('assistant', 'a3', 5_000),
+    ];
+
+    const context = await buildConversationContext(
+      principal, conversation(), history, turn('user', 'new', 10_000), MODEL, 0
+    );
+
+    expect(labels(context.messages)).toEqual(['u3', 'a3', 'new']);
+    expect(context).toMatchObject({ summary: '新しい要約', summarizedMessages: 4 });
+    expect(savedSummary()).toEqual({ ':summary': '新しい要約', ':count': 4 });
+    // The aged-out turns exceed one call's input share and are read in two
+    const [first, second] = invokeModel.mock.calls.map(([request]) => request.messages[0].content);
+    expect(invokeModel).toHaveBeenCalledTimes(2);
+    expect(first.startsWith('New turns:\nUser: u1')).toBe(true);
+    expect(first).toContain('Assistant: a1');
+    expect(second.startsWith('Previous summary:\n新しい要約\n\nNew turns:\nUser: u2')).toBe(true);
+    expect(second).toContain('Assistant: a2');
+    expect(second).not.toContain('u3');
+    expect(recordTokenUsage).toHaveBeenCalledTimes(2);
+  });
+
+  it('folds the stored summary together with the turns that aged out since', async () => {
+    const history = [
+      turn('user', 'old-u', 1_000),
+      turn('assistant', 'old-a', 1_000),
+      turn('user', 'u1', 50_000),
+      turn('assistant', 'a1', 40_000),
+      turn('user', 'u2', 20_000),
+      turn('assistant', 'a2', 20_000),
+    ];
+
+    const context = await buildConversationContext(
+      principal,
+      conversation({ summary: '前回の要約', summarizedMessages: 2 }),
+      history,
+      turn('user', 'new', 10_000),
+      MODEL,
+      0
+    );
+
+    expect(labels(context.messages)).toEqual(['u2', 'a2', 'new']);
+    expect(context).toMatchObject({ summary: '新しい要約', summarizedMessages: 4 });
+    const prompt = invokeModel.mock.calls[0][0].messages[0].content;
+    expect(prompt.startsWith('Previous summary:\n前回の要約\n\nNew turns:\nUser: u1')).toBe(true);
+    expect(prompt).not.toContain('old-u');
+  });
+
+  it('sends the turns as they are when summarizing fails', async () => {
+    invokeModel.mockRejectedValue(new Error('throttled'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const history = [turn('user', 'u1', 100_000), turn('assistant', 'a1', 40_000)];
+
+    const context = await buildConversationContext(
+      principal,
+      conversation({ summary: '前回の要約', summarizedMessages: 0 }),
+      history,
+      turn('user', 'new', 10_000),
+      MODEL,
+      0
+    );
+
+    expect(labels(context.messages)).toEqual(['u1', 'a1', 'new']);
+    expect(context).toMatchObject({ summary: undefined, summarizedMessages: 0 });
+    expect(send).not.toHaveBeenCalled();
+  });
+});
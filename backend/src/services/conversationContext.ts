@@ -0,0 +1,186 @@
+// Keeps long conversations within the model's context window. Once the prompt
+// would fill most of the window, older turns are condensed into a summary
+// stored on the conversation and sent in their place; recent turns stay
+// verbatim. Later summaries fold the previous one together with the turns
+// that have aged out since.
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import type { AIModel, AuthPrincipal, ChatMessage, Conversation } from '../types/index.js';
+import { getModelInfo } from '../config/models.js';
+import { invokeModel } from './llm.js';
+import { recordTokenUsage } from './quotas.js';
+import { estimateTokens } from './tokens.js';
+import { recordChatUsage } from './usage.js';
+
+const ddbClient = new DynamoDBClient({});
+const ddb = DynamoDBDocumentClient.from(ddbClient);
+
+const TABLE_NAME = process.env.MAIN_TABLE || '';
+
+// Share of the context window a prompt may fill before older turns are summarized
+const SUMMARIZE_THRESHOLD = 0.7;
+// Share of the window kept for verbatim recent turns once summarizing
+const RECENT_TURNS_SHARE = 0.3;
+// Share of the window one summarization call reads; longer spans are folded in
+// several calls
+const SUMMARY_INPUT_SHARE = 0.5;
+const SUMMARY_MAX_TOKENS = 2048;
+// Role markers and separators per message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const SUMMARY_PROMPT = [
+  'You condense the earlier part of a chat conversation so that it can continue without the full transcript.',
+  'Keep the facts, figures, names, decisions, open questions and instructions the user gave, and what the assistant already answered.',
+  'If a previous summary is given, merge it with the new turns into one summary.',
+  'Write the summary in the language of the conversation, as plain prose or short bullet points, without preamble.',
+].join('\n');
+
+export interface ConversationContext {
+  messages: ChatMessage[];      // Verbatim turns, ending with the new user turn
+  summary?: string;             // Condensed earlier turns
+  summarizedMessages: number;   // Leading stored messages the summary replaces
+}
+
+function messageTokens(message: ChatMessage): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+function totalTokens(messages: ChatMessage[]): number {
+  return messages.reduce((sum, message) => sum + messageTokens(message), 0);
+}
+
+// One message of the transcript to summarize, cut to the token budget (a
+// token is at least one character)
+function transcriptLine(message: ChatMessage, maxTokens: number): string {
+  const speaker = message.role === 'user' ? 'User' : 'Assistant';
+  const content = estimateTokens(message.content) > maxTokens
+    ? `${message.content.substring(0, maxTokens)}…`
+    : message.content;
+  return `${speaker}: ${content}`;
+}
+
+// Split the turns into consecutive spans of at most maxTokens each
+export function spansWithin(messages: ChatMessage[], maxTokens: number): ChatMessage[][] {
+  const spans: ChatMessage[][] = [];
+  let span: ChatMessage[] = [];
+  let spanTokens = 0;
+  for (const message of messages) {
+    const tokens = Math.min(messageTokens(message), maxTokens);
+    if (span.length > 0 && spanTokens + tokens > maxTokens) {
+      spans.push(span);
+      span = [];
+      spanTokens = 0;
+    }
+    span.push(message);
+    spanTokens += tokens;
+  }
+  if (span.length > 0) spans.push(span);
+  return spans;
+}
+
+// Fold the turns into the previous summary with the conversation's own model
+// (its window holds whatever the conversation has held). Usage is counted like
+// any other model call.
+async function summarizeTurns(
+  principal: AuthPrincipal,
+  model: AIModel,
+  previousSummary: string | undefined,
+  messages: ChatMessage[]
+): Promise<string> {
+  const inputBudget = Math.floor(getModelInfo(model).contextWindow * SUMMARY_INPUT_SHARE);
+  let summary = previousSummary;
+  for (const span of spansWithin(messages, inputBudget)) {
+    const sections = [
+      ...(summary ? [`Previous summary:\n${summary}`] : []),
+      `New turns:\n${span.map(message => transcriptLine(message, inputBudget)).join('\n\n')}`,
+    ];
+    const response = await invokeModel({
+      model,
+      systemPrompt: SUMMARY_PROMPT,
+      maxTokens: SUMMARY_MAX_TOKENS,
+      temperature: 0,
+      messages: [{ role: 'user', content: sections.join('\n\n') }],
+    });
+
+    const inputTokens = response.usage?.inputTokens || 0;
+    const outputTokens = response.usage?.outputTokens || 0;
+    await Promise.all([
+      recordTokenUsage(principal, inputTokens + outputTokens),
+      recordChatUsage(principal, model, inputTokens, outputTokens),
+    ]);
+
+    summary = response.content.trim() || summary;
+  }
+  if (!summary) {
+    throw new Error('The model returned an empty summary');
+  }
+  return summary;
+}
+
+async function saveSummary(conversationId: string, summary: string, summarizedMessages: number): Promise<void> {
+  await ddb.send(new UpdateCommand({
+    TableName: TABLE_NAME,
+    Key: {
+      PK: `CONV#${conversationId}`,
+      SK: 'META',
+    },
+    UpdateExpression: 'SET summary = :summary, summarizedMessages = :count',
+    ExpressionAttributeValues: {
+      ':summary': summary,
+      ':count': summarizedMessages,
+    },
+  }));
+}
+
+// The turns to send for a saved conversation: its stored summary (if any),
+// the stored messages after it and the new turn. When these and the reserved
+// tokens (system prompt and answer) would pass the threshold, the older turns
+// are summarized first and the summary is stored. A failed summarization is
+// logged and the turns are sent as they are.
+export async function buildConversationContext(
+  principal: AuthPrincipal,
+  conversation: Conversation,
+  history: ChatMessage[],
+  newTurn: ChatMessage,
+  model: AIModel,
+  reservedTokens: number
+): Promise<ConversationContext> {
+  const contextWindow = getModelInfo(model).contextWindow;
+  const summarizedMessages = Math.min(conversation.summarizedMessages || 0, history.length);
+  const summary = summarizedMessages > 0 ? conversation.summary : undefined;
+  const verbatim = history.slice(summarizedMessages);
+
+  const promptTokens = reservedTokens + estimateTokens(summary || '') + totalTokens([...verbatim, newTurn]);
+  if (promptTokens <= contextWindow * SUMMARIZE_THRESHOLD) {
+    return { messages: [...verbatim, newTurn], summary, summarizedMessages };
+  }
+
+  // Keep the most recent turns that fit their share, starting at a user turn
+  const recentBudget = contextWindow * RECENT_TURNS_SHARE;
+  let keepFrom = verbatim.length;
+  let recentTokens = messageTokens(newTurn);
+  while (keepFrom > 0 && recentTokens + messageTokens(verbatim[keepFrom - 1]) <= recentBudget) {
+    keepFrom--;
+    recentTokens += messageTokens(verbatim[keepFrom]);
+  }
+  while (keepFrom < verbatim.length && verbatim[keepFrom].role !== 'user') {
+    keepFrom++;
+  }
+  if (keepFrom === 0) {
+    return { messages: [...verbatim, newTurn], summary, summarizedMessages };
+  }
+
+  try {
+    const newSummary = await summarizeTurns(principal, model, summary, verbatim.slice(0, keepFrom));
+    const newSummarizedMessages = summarizedMessages + keepFrom;
+    await saveSummary(conversation.conversationId, newSummary, newSummarizedMessages);
+    return {
+      messages: [...verbatim.slice(keepFrom), newTurn],
+      summary: newSummary,
+      summarizedMessages: newSummarizedMessages,
+    };
+  } catch (error) {
+    console.error(`Failed to summarize conversation ${conversation.conversationId}:`, error);
+    return { messages: [...verbatim, newTurn], summary, summarizedMessages };
+  }
+}
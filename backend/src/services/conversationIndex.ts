@@ -0,0 +1,283 @@
+// Inverted index for conversation search, kept up to date as conversations
+// are written so that a search reads only the postings of its query terms.
+// Every distinct term of a document (a conversation's title or one message)
+// is one posting item; the user's document count and total length, which
+// BM25 needs, are kept in a statistics item. Conversations saved before the
+// index existed are indexed in the background of the user's first searches.
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  BatchWriteCommand,
+  GetCommand,
+  QueryCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import type { Conversation, ConversationSearchPosting, ConversationSearchStats } from '../types/index.js';
+import { tokenize } from './bm25.js';
+
+const ddbClient = new DynamoDBClient({});
+const ddb = DynamoDBDocumentClient.from(ddbClient);
+
+const TABLE_NAME = process.env.MAIN_TABLE || '';
+
+export const TITLE_DOC = 'TITLE';
+// Longer tokens (encoded data, long identifiers) are not indexed or searched
+const MAX_TERM_LENGTH = 64;
+const BATCH_WRITE_LIMIT = 25;
+const MAX_WRITE_ATTEMPTS = 5;
+// Time one search spends indexing older conversations
+const BACKFILL_TIME_BUDGET_MS = 10_000;
+
+export interface IndexedDocument {
+  doc: string;          // The message's sort key (MSG#...) or TITLE_DOC
+  text: string;
+}
+
+type WriteRequest =
+  | { PutRequest: { Item: ConversationSearchPosting } }
+  | { DeleteRequest: { Key: { PK: string; SK: string } } };
+
+// Terms as the index stores them; the query is split the same way
+export function searchTerms(text: string): string[] {
+  return tokenize(text).filter(term => term.length <= MAX_TERM_LENGTH);
+}
+
+function postingKey(userId: string, conversationId: string, doc: string, term: string) {
+  return {
+    PK: `SEARCH#${userId}#${term}`,
+    SK: `${conversationId}#${doc}`,
+  };
+}
+
+function statsKey(userId: string) {
+  return {
+    PK: `SEARCH#${userId}`,
+    SK: 'STATS',
+  };
+}
+
+function termFrequencies(text: string): { termFreq: Map<string, number>; length: number } {
+  const terms = searchTerms(text);
+  const termFreq = new Map<string, number>();
+  for (const term of terms) {
+    termFreq.set(term, (termFreq.get(term) || 0) + 1);
+  }
+  return { termFreq, length: terms.length };
+}
+
+// Write in batches, retrying the items DynamoDB did not process
+async function writeBatches(requests: WriteRequest[]): Promise<void> {
+  for (let i = 0; i < requests.length; i += BATCH_WRITE_LIMIT) {
+    let pending = requests.slice(i, i + BATCH_WRITE_LIMIT);
+    for (let attempt = 0; pending.length > 0; attempt++) {
+      if (attempt === MAX_WRITE_ATTEMPTS) {
+        throw new Error('Search index write was throttled');
+      }
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, 100 * 2 ** attempt));
+      }
+      const result = await ddb.send(new BatchWriteCommand({
+        RequestItems: { [TABLE_NAME]: pending },
+      }));
+      pending = (result.UnprocessedItems?.[TABLE_NAME] || []) as WriteRequest[];
+    }
+  }
+}
+
+async function updateStats(userId: string, docCount: number, totalLength: number): Promise<void> {
+  if (docCount === 0 && totalLength === 0) return;
+  await ddb.send(new UpdateCommand({
+    TableName: TABLE_NAME,
+    Key: statsKey(userId),
+    UpdateExpression: 'ADD docCount :docs, totalLength :length',
+    ExpressionAttributeValues: {
+      ':docs': docCount,
+      ':length': totalLength,
+    },
+  }));
+}
+
+// Add a conversation's title or messages to the owner's index
+export async function addToSearchIndex(
+  userId: string,
+  conversationId: string,
+  documents: IndexedDocument[]
+): Promise<void> {
+  const requests: WriteRequest[] = [];
+  let docCount = 0;
+  let totalLength = 0;
+  for (const { doc, text } of documents) {
+    const { termFreq, length } = termFrequencies(text);
+    if (length === 0) continue;
+    docCount++;
+    totalLength += length;
+    for (const [term, freq] of termFreq) {
+      requests.push({
+        PutRequest: {
+          Item: {
+            ...postingKey(userId, conversationId, doc, term),
+            conversationId,
+            doc,
+            termFreq: freq,
+            docLength: length,
+          },
+        },
+      });
+    }
+  }
+
+  await writeBatches(requests);
+  await updateStats(userId, docCount, totalLength);
+}
+
+// Remove documents added with addToSearchIndex; their text gives the keys
+export async function removeFromSearchIndex(
+  userId: string,
+  conversationId: string,
+  documents: IndexedDocument[]
+): Promise<void> {
+  const requests: WriteRequest[] = [];
+  let docCount = 0;
+  let totalLength = 0;
+  for (const { doc, text } of documents) {
+    const { termFreq, length } = termFrequencies(text);
+    if (length === 0) continue;
+    docCount++;
+    totalLength += length;
+    for (const term of termFreq.keys()) {
+      requests.push({ DeleteRequest: { Key: postingKey(userId, conversationId, doc, term) } });
+    }
+  }
+
+  await writeBatches(requests);
+  await updateStats(userId, -docCount, -totalLength);
+}
+
+// Index a conversation's new messages, read by sort key, and the title of a
+// new conversation. The chat handlers pass keys rather than the texts so
+// that the work can be handed to a background invocation.
+export async function indexConversationMessages(
+  userId: string,
+  conversationId: string,
+  messageKeys: string[],
+  title?: string
+): Promise<void> {
+  const messages = await Promise.all(messageKeys.map(async (doc): Promise<IndexedDocument> => {
+    const result = await ddb.send(new GetCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `CONV#${conversationId}`,
+        SK: doc,
+      },
+      ProjectionExpression: 'content',
+    }));
+    return { doc, text: (result.Item?.content as string) || '' };
+  }));
+  await addToSearchIndex(userId, conversationId, [
+    ...(title !== undefined ? [{ doc: TITLE_DOC, text: title }] : []),
+    ...messages,
+  ]);
+}
+
+// Re-index a renamed conversation's title
+export async function replaceIndexedTitle(
+  userId: string,
+  conversationId: string,
+  previousTitle: string,
+  title: string
+): Promise<void> {
+  if (previousTitle === title) return;
+  await removeFromSearchIndex(userId, conversationId, [{ doc: TITLE_DOC, text: previousTitle }]);
+  await addToSearchIndex(userId, conversationId, [{ doc: TITLE_DOC, text: title }]);
+}
+
+async function loadMessageDocuments(conversationId: string): Promise<IndexedDocument[]> {
+  const documents: IndexedDocument[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+  do {
+    const result = await ddb.send(new QueryCommand({
+      TableName: TABLE_NAME,
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `CONV#${conversationId}`,
+        ':sk': 'MSG#',
+      },
+      ProjectionExpression: 'SK, content',
+      ExclusiveStartKey: exclusiveStartKey,
+    }));
+    for (const item of result.Items || []) {
+      documents.push({ doc: item.SK as string, text: (item.content as string) || '' });
+    }
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+  return documents;
+}
+
+// Remove a conversation about to be deleted from its owner's index
+export async function removeConversationFromIndex(conversation: Conversation): Promise<void> {
+  if (!conversation.searchIndexed) return;
+  await removeFromSearchIndex(conversation.userId, conversation.conversationId, [
+    { doc: TITLE_DOC, text: conversation.title || '' },
+    ...await loadMessageDocuments(conversation.conversationId),
+  ]);
+}
+
+async function indexStoredConversation(conversation: Conversation): Promise<void> {
+  await addToSearchIndex(conversation.userId, conversation.conversationId, [
+    { doc: TITLE_DOC, text: conversation.title || '' },
+    ...await loadMessageDocuments(conversation.conversationId),
+  ]);
+  await ddb.send(new UpdateCommand({
+    TableName: TABLE_NAME,
+    Key: {
+      PK: conversation.PK,
+      SK: conversation.SK,
+    },
+    UpdateExpression: 'SET searchIndexed = :true',
+    ConditionExpression: 'attribute_exists(PK)',
+    ExpressionAttributeValues: { ':true': true },
+  }));
+}
+
+export async function loadSearchStats(userId: string): Promise<ConversationSearchStats | null> {
+  const result = await ddb.send(new GetCommand({
+    TableName: TABLE_NAME,
+    Key: statsKey(userId),
+  }));
+  return (result.Item as ConversationSearchStats) || null;
+}
+
+// Index the user's conversations saved before the index existed, for up to
+// the time budget. Returns true once all of them are indexed; later calls
+// continue where an interrupted one stopped.
+export async function backfillSearchIndex(userId: string): Promise<boolean> {
+  const deadline = Date.now() + BACKFILL_TIME_BUDGET_MS;
+
+  for (const pk of [`USER#${userId}`, `USER#${userId}#ARCHIVED`]) {
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+    do {
+      if (Date.now() > deadline) return false;
+      const result = await ddb.send(new QueryCommand({
+        TableName: TABLE_NAME,
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :pk AND begins_with(GSI1SK, :sk)',
+        FilterExpression: 'attribute_not_exists(searchIndexed)',
+        ExpressionAttributeValues: { ':pk': pk, ':sk': 'CONV#' },
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      for (const conversation of (result.Items || []) as Conversation[]) {
+        if (Date.now() > deadline) return false;
+        await indexStoredConversation(conversation);
+      }
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+  }
+
+  await ddb.send(new UpdateCommand({
+    TableName: TABLE_NAME,
+    Key: statsKey(userId),
+    UpdateExpression: 'SET backfilled = :true',
+    ExpressionAttributeValues: { ':true': true },
+  }));
+  return true;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from '@jest/globals';
+import { buildSnippet, findMatches, highlightPattern } from './conversationSearch.js';
+
+function pattern(query: string): RegExp {
+  const compiled = highlightPattern(query);
+  if (!compiled) throw new Error(`No terms in ${query}`);
+  return compiled;
+}
+
+function matched(text: string, query: string): string[] {
+  return findMatches(text, pattern(query)).map(range => text.substring(range.start, range.end));
+}
+
+describe('highlightPattern', () => {
+  it('has no pattern for a query without terms', () => {
+    expect(highlightPattern('  ')).toBeNull();
+  });
+
+  it('prefers the longer of overlapping terms', () => {
+    expect(matched('budget bu', 'bu budget')).toEqual(['budget', 'bu']);
+  });
+});
+
+describe('findMatches', () => {
+  it('matches case-insensitively', () => {
+    expect(findMatches('The Budget review', pattern('budget'))).toEqual([{ start: 4, end: 10 }]);
+  });
+
+  it('merges consecutive CJK bigrams into one span', () => {
+    expect(findMatches('来期の予算案について', pattern('予算案'))).toEqual([{ start: 3, end: 6 }]);
+  });
+
+  it('keeps separate spans for separate matches', () => {
+    expect(matched('予算と予算', '予算')).toEqual(['予算', '予算']);
+  });
+
+  it('matches the NFKC form but reports offsets in the original text', () => {
+    const text = 'ｶｲｹｲ：ＡＷＳ';
+
+    expect(findMatches(text, pattern('aws'))).toEqual([{ start: 5, end: 8 }]);
+    expect(matched(text, 'カイケイ')).toEqual(['ｶｲｹｲ']);
+  });
+});
+
+describe('buildSnippet', () => {
+  it('returns short content whole with whitespace flattened', () => {
+    expect(buildSnippet('予算の\n確認', pattern('予算'))).toEqual({
+      text: '予算の 確認',
+      highlights: [{ start: 0, end: 2 }],
+    });
+  });
+
+  it('starts shortly before the first match and marks cut ends', () => {
+    const content = `${'a'.repeat(100)} budget ${'b'.repeat(200)}`;
+
+    const snippet = buildSnippet(content, pattern('budget'));
+
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+    expect(snippet.text).toHaveLength(1 + 160 + 1);
+    const [highlight] = snippet.highlights;
+    expect(snippet.text.substring(highlight.start, highlight.end)).toBe('budget');
+    expect(highlight.start).toBe(1 + 40);
+  });
+
+  it('leaves out highlights past the end of the excerpt', () => {
+    const content = `budget ${'x'.repeat(300)} budget`;
+
+    expect(buildSnippet(content, pattern('budget')).highlights).toEqual([{ start: 0, end: 6 }]);
+  });
+
+  it('starts at the beginning when nothing matches', () => {
+    expect(buildSnippet('no hits here', pattern('budget'))).toEqual({ text: 'no hits here', highlights: [] });
+  });
+});
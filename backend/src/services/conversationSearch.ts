@@ -0,0 +1,309 @@
+// Full-text search over a user's conversation history. Titles and messages
+// are indexed as they are written (see conversationIndex.ts); a search reads
+// the postings of its terms and ranks conversations with the same BM25
+// scoring (and CJK bigram tokenization) used for file retrieval.
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, BatchGetCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import type {
+  Conversation,
+  ConversationMessage,
+  ConversationSearchHit,
+  ConversationSearchPosting,
+  ConversationSearchQuery,
+  ConversationSearchStats,
+  TextRange,
+} from '../types/index.js';
+import { bm25Idf, bm25TermScore, tokenize } from './bm25.js';
+import { backfillSearchIndex, loadSearchStats, searchTerms, TITLE_DOC } from './conversationIndex.js';
+
+const ddbClient = new DynamoDBClient({});
+const ddb = DynamoDBDocumentClient.from(ddbClient);
+
+const TABLE_NAME = process.env.MAIN_TABLE || '';
+
+// Query terms looked up; a longer query is searched by its first terms
+const MAX_QUERY_TERMS = 32;
+// Postings read per term. A term in more documents than this is common enough
+// that the documents beyond it barely change the ranking.
+const MAX_POSTINGS_PER_TERM = 1000;
+// BatchGetItem accepts at most 100 keys per call
+const BATCH_GET_LIMIT = 100;
+const MAX_READ_ATTEMPTS = 5;
+// A title match counts this much more than the same match in a message
+const TITLE_BOOST = 2;
+const SNIPPET_LENGTH = 160;
+const SNIPPET_CONTEXT = 40;   // characters kept before the first match
+const MAX_QUERY_LENGTH = 200;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+type SearchedMessage = Pick<ConversationMessage, 'messageId' | 'role' | 'content' | 'createdAt'>;
+
+// Invalid search parameters (returned as 400)
+export class ConversationSearchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConversationSearchError';
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Pattern matching any query term, longest first so "budget" wins over "bu"
+export function highlightPattern(query: string): RegExp | null {
+  const terms = Array.from(new Set(tokenize(query))).sort((a, b) => b.length - a.length);
+  return terms.length > 0 ? new RegExp(terms.map(escapeRegExp).join('|'), 'gi') : null;
+}
+
+// Spans of text matching the pattern. Matching runs on the NFKC form, as
+// indexing does, but offsets refer to the original text. Matching resumes one
+// character after each match so overlapping CJK bigrams are all found;
+// overlapping and adjacent spans are merged.
+export function findMatches(text: string, pattern: RegExp): TextRange[] {
+  let normalized = '';
+  const offsets: number[] = [];
+  let position = 0;
+  for (const char of text) {
+    const form = char.normalize('NFKC');
+    for (let i = 0; i < form.length; i++) offsets.push(position);
+    normalized += form;
+    position += char.length;
+  }
+  offsets.push(text.length);
+
+  const ranges: TextRange[] = [];
+  const matcher = new RegExp(pattern.source, pattern.flags);
+  for (let match = matcher.exec(normalized); match; match = matcher.exec(normalized)) {
+    matcher.lastIndex = match.index + 1;
+    const start = offsets[match.index];
+    const end = offsets[match.index + match[0].length];
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end) {
+      last.end = Math.max(last.end, end);
+    } else if (end > start) {
+      ranges.push({ start, end });
+    }
+  }
+  return ranges;
+}
+
+// Excerpt of a message around its first match, with highlight offsets
+// relative to the excerpt
+export function buildSnippet(content: string, pattern: RegExp): { text: string; highlights: TextRange[] } {
+  const matches = findMatches(content, pattern);
+  const start = Math.max(0, (matches[0]?.start || 0) - SNIPPET_CONTEXT);
+  const end = Math.min(content.length, start + SNIPPET_LENGTH);
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < content.length ? '…' : '';
+  const highlights = matches
+    .filter(range => range.start >= start && range.end <= end)
+    .map(range => ({ start: range.start - start + prefix.length, end: range.end - start + prefix.length }));
+
+  return {
+    text: prefix + content.substring(start, end).replace(/\s/g, ' ') + suffix,
+    highlights,
+  };
+}
+
+function parseDate(value: string | undefined, name: string): string | undefined {
+  if (!value) return undefined;
+  if (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+    throw new ConversationSearchError(`${name} must be a date (yyyy-mm-dd)`);
+  }
+  return value;
+}
+
+export function parseSearchQuery(params: Record<string, string | undefined>, limit: number): ConversationSearchQuery {
+  const q = (params.q || '').trim();
+  if (!q) {
+    throw new ConversationSearchError('q is required');
+  }
+  if (q.length > MAX_QUERY_LENGTH) {
+    throw new ConversationSearchError(`q must be at most ${MAX_QUERY_LENGTH} characters`);
+  }
+
+  const from = parseDate(params.from, 'from');
+  const to = parseDate(params.to, 'to');
+  if (from && to && from > to) {
+    throw new ConversationSearchError('from must not be after to');
+  }
+
+  return {
+    q,
+    ...(from ? { from } : {}),
+    ...(to ? { to } : {}),
+    ...(params.model ? { model: params.model } : {}),
+    limit,
+  };
+}
+
+async function loadPostings(userId: string, term: string): Promise<ConversationSearchPosting[]> {
+  const postings: ConversationSearchPosting[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+  do {
+    const result = await ddb.send(new QueryCommand({
+      TableName: TABLE_NAME,
+      KeyConditionExpression: 'PK = :pk',
+      ExpressionAttributeValues: { ':pk': `SEARCH#${userId}#${term}` },
+      Limit: MAX_POSTINGS_PER_TERM - postings.length,
+      ExclusiveStartKey: exclusiveStartKey,
+    }));
+    postings.push(...(result.Items || []) as ConversationSearchPosting[]);
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey && postings.length < MAX_POSTINGS_PER_TERM);
+  return postings;
+}
+
+// Read items in batches, retrying the keys DynamoDB did not process
+async function batchGet<T>(
+  keys: { PK: string; SK: string }[],
+  projection?: { expression: string; names?: Record<string, string> }
+): Promise<T[]> {
+  const items: T[] = [];
+  for (let i = 0; i < keys.length; i += BATCH_GET_LIMIT) {
+    let pending: Record<string, unknown>[] = keys.slice(i, i + BATCH_GET_LIMIT);
+    for (let attempt = 0; pending.length > 0; attempt++) {
+      if (attempt === MAX_READ_ATTEMPTS) {
+        throw new Error('Search read was throttled');
+      }
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, 100 * 2 ** attempt));
+      }
+      const result = await ddb.send(new BatchGetCommand({
+        RequestItems: {
+          [TABLE_NAME]: {
+            Keys: pending,
+            ...(projection ? { ProjectionExpression: projection.expression } : {}),
+            ...(projection?.names ? { ExpressionAttributeNames: projection.names } : {}),
+          },
+        },
+      }));
+      items.push(...(result.Responses?.[TABLE_NAME] || []) as T[]);
+      pending = result.UnprocessedKeys?.[TABLE_NAME]?.Keys || [];
+    }
+  }
+  return items;
+}
+
+function matchesFilters(conversation: Conversation, query: ConversationSearchQuery): boolean {
+  if (query.from && conversation.updatedAt < query.from) return false;
+  // Any timestamp on the "to" day sorts before T~
+  if (query.to && conversation.updatedAt > `${query.to}T~`) return false;
+  if (query.model && conversation.modelId !== query.model) return false;
+  return true;
+}
+
+interface RankedConversation {
+  conversationId: string;
+  score: number;
+  doc?: string;         // Best-matching message, for the snippet
+}
+
+// Score the indexed documents containing the query terms. Each conversation
+// scores as its best-matching title or message.
+async function rankConversations(
+  userId: string,
+  terms: string[],
+  stats: ConversationSearchStats | null
+): Promise<RankedConversation[]> {
+  if (!stats?.docCount) return [];
+  const avgLength = stats.totalLength / stats.docCount || 1;
+
+  const postingLists = await Promise.all(terms.map(term => loadPostings(userId, term)));
+  const docScores = new Map<string, { conversationId: string; doc: string; score: number }>();
+  for (const postings of postingLists) {
+    const idf = bm25Idf(stats.docCount, postings.length);
+    for (const posting of postings) {
+      const entry = docScores.get(posting.SK)
+        || { conversationId: posting.conversationId, doc: posting.doc, score: 0 };
+      entry.score += bm25TermScore(idf, posting.termFreq, posting.docLength, avgLength);
+      docScores.set(posting.SK, entry);
+    }
+  }
+
+  const best = new Map<string, RankedConversation>();
+  const docs = Array.from(docScores.values()).sort((a, b) => b.score - a.score);
+  for (const { conversationId, doc, score: docScore } of docs) {
+    const isTitle = doc === TITLE_DOC;
+    const score = isTitle ? docScore * TITLE_BOOST : docScore;
+    const current = best.get(conversationId);
+    if (!current) {
+      best.set(conversationId, { conversationId, score, ...(isTitle ? {} : { doc }) });
+    } else {
+      // The best message is kept for the snippet even when the title scores higher
+      current.score = Math.max(current.score, score);
+      if (!current.doc && !isTitle) current.doc = doc;
+    }
+  }
+
+  return Array.from(best.values()).sort((a, b) => b.score - a.score);
+}
+
+// Search the caller's own conversations (archived ones included) by title and
+// message content. Results carry the matched title spans and a highlighted
+// excerpt of the best message. Conversations saved before the search index
+// existed are indexed during the user's first searches and found once indexed.
+export async function searchConversations(
+  userId: string,
+  query: ConversationSearchQuery
+): Promise<ConversationSearchHit[]> {
+  const pattern = highlightPattern(query.q);
+  const terms = Array.from(new Set(searchTerms(query.q))).slice(0, MAX_QUERY_TERMS);
+  if (!pattern || terms.length === 0) return [];
+
+  let stats = await loadSearchStats(userId);
+  if (!stats?.backfilled) {
+    await backfillSearchIndex(userId);
+    stats = await loadSearchStats(userId);
+  }
+
+  // Conversation records are read best first until enough pass the filters
+  const ranked = await rankConversations(userId, terms, stats);
+  const matches: { conversation: Conversation; ranked: RankedConversation }[] = [];
+  for (let i = 0; i < ranked.length && matches.length < query.limit; i += BATCH_GET_LIMIT) {
+    const batch = ranked.slice(i, i + BATCH_GET_LIMIT);
+    const conversations = await batchGet<Conversation>(
+      batch.map(({ conversationId }) => ({ PK: `CONV#${conversationId}`, SK: 'META' }))
+    );
+    const byId = new Map(conversations.map(conversation => [conversation.conversationId, conversation]));
+    for (const entry of batch) {
+      const conversation = byId.get(entry.conversationId);
+      if (conversation && conversation.userId === userId && matchesFilters(conversation, query)) {
+        matches.push({ conversation, ranked: entry });
+      }
+    }
+  }
+  const results = matches.slice(0, query.limit);
+
+  const messageKeys = results
+    .filter(({ ranked: entry }) => entry.doc)
+    .map(({ ranked: entry }) => ({ PK: `CONV#${entry.conversationId}`, SK: entry.doc as string }));
+  const messages = await batchGet<SearchedMessage & { PK: string; SK: string }>(messageKeys, {
+    expression: 'PK, SK, messageId, #role, content, createdAt',
+    names: { '#role': 'role' },
+  });
+  const messageByKey = new Map(messages.map(message => [`${message.PK}#${message.SK}`, message]));
+
+  return results.map(({ conversation, ranked: entry }) => {
+    const hit: ConversationSearchHit = {
+      conversationId: conversation.conversationId,
+      title: conversation.title,
+      titleHighlights: findMatches(conversation.title || '', pattern),
+      modelId: conversation.modelId,
+      updatedAt: conversation.updatedAt,
+      score: entry.score,
+    };
+    const message = entry.doc ? messageByKey.get(`CONV#${entry.conversationId}#${entry.doc}`) : undefined;
+    if (message) {
+      hit.snippet = {
+        messageId: message.messageId,
+        role: message.role,
+        createdAt: message.createdAt,
+        ...buildSnippet(message.content || '', pattern),
+      };
+    }
+    return hit;
+  });
+}
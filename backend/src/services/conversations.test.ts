@@ -0,0 +1,198 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { DynamoDBDocumentClient, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import type { Conversation, UpdateConversationRequest } from '../types/index.js';
+import {
+  ConversationValidationError,
+  conversationIndexKeys,
+  listConversations,
+  updateConversation,
+} from './conversations.js';
+import { decodeCursor, encodeCursor } from './pagination.js';
+
+const UPDATED_AT = '2024-03-01T09:00:00.000Z';
+
+function conversation(overrides: Partial<Conversation> = {}): Conversation {
+  return {
+    PK: 'CONV#conv-1',
+    SK: 'META',
+    conversationId: 'conv-1',
+    title: 'Budget',
+    userId: 'user-1',
+    modelId: 'model',
+    createdAt: '2024-01-05T00:00:00.000Z',
+    updatedAt: UPDATED_AT,
+    messageCount: 2,
+    totalInputTokens: 10,
+    totalOutputTokens: 20,
+    totalCost: 0.01,
+    ...overrides,
+  };
+}
+
+describe('conversationIndexKeys', () => {
+  it('lists a plain conversation by last activity', () => {
+    expect(conversationIndexKeys({ userId: 'user-1', updatedAt: UPDATED_AT })).toEqual({
+      GSI1PK: 'USER#user-1',
+      GSI1SK: `CONV#${UPDATED_AT}`,
+    });
+  });
+
+  it('sorts pinned conversations after every timestamp', () => {
+    const pinned = conversationIndexKeys({ userId: 'user-1', updatedAt: '2020-01-01T00:00:00.000Z', pinned: true });
+    const recent = conversationIndexKeys({ userId: 'user-1', updatedAt: '2099-12-31T00:00:00.000Z' });
+
+    expect(pinned.GSI1SK).toBe('CONV#PINNED#2020-01-01T00:00:00.000Z');
+    expect(pinned.GSI1SK > recent.GSI1SK).toBe(true);
+  });
+
+  it('adds folder keys for a filed conversation', () => {
+    expect(conversationIndexKeys({ userId: 'user-1', updatedAt: UPDATED_AT, folder: '経理' })).toEqual({
+      GSI1PK: 'USER#user-1',
+      GSI1SK: `CONV#${UPDATED_AT}`,
+      GSI2PK: 'USER#user-1#FOLDER#経理',
+      GSI2SK: `CONV#${UPDATED_AT}`,
+    });
+  });
+
+  it('moves archived conversations to their own partition and out of folders', () => {
+    expect(conversationIndexKeys({
+      userId: 'user-1',
+      updatedAt: UPDATED_AT,
+      archived: true,
+      pinned: true,
+      folder: '経理',
+    })).toEqual({
+      GSI1PK: 'USER#user-1#ARCHIVED',
+      GSI1SK: `CONV#PINNED#${UPDATED_AT}`,
+    });
+  });
+});
+
+describe('updateConversation', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function stubUpdate() {
+    return jest.spyOn(DynamoDBDocumentClient.prototype, 'send')
+      .mockImplementation((async () => ({ Attributes: conversation() })) as never);
+  }
+
+  it.each([
+    ['a blank title', { title: '   ' }, 'title must not be empty'],
+    ['a long title', { title: 'x'.repeat(101) }, 'title must be at most 100 characters'],
+    ['a non-boolean flag', { pinned: 'yes' }, 'pinned must be true or false'],
+    ['a long folder name', { folder: 'x'.repeat(51) }, 'folder must be a name of at most 50 characters'],
+    ['too many tags', { tags: Array.from({ length: 11 }, (_, i) => `tag${i}`) }, 'tags must be a list of at most 10 tags'],
+    ['a blank tag', { tags: ['ok', ' '] }, 'Each tag must be 1 to 30 characters'],
+  ])('rejects %s', async (_label, request, message) => {
+    const send = stubUpdate();
+
+    await expect(updateConversation(conversation(), request as unknown as UpdateConversationRequest))
+      .rejects.toThrow(new ConversationValidationError(message));
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('rebuilds the index keys and removes cleared fields', async () => {
+    const send = stubUpdate();
+
+    await updateConversation(
+      conversation({ pinned: true, folder: '経理', tags: ['old'] }),
+      { pinned: false, folder: ' 予算 ', tags: [' q1 ', 'q1'] }
+    );
+
+    const input = (send.mock.calls[0][0] as UpdateCommand).input;
+    expect(input.UpdateExpression).toBe(
+      'SET #title = :title, #GSI1PK = :GSI1PK, #GSI1SK = :GSI1SK, #folder = :folder, #tags = :tags, '
+      + '#GSI2PK = :GSI2PK, #GSI2SK = :GSI2SK REMOVE #pinned, #archived'
+    );
+    expect(input.ExpressionAttributeValues).toEqual({
+      ':title': 'Budget',
+      ':GSI1PK': 'USER#user-1',
+      ':GSI1SK': `CONV#${UPDATED_AT}`,
+      ':folder': '予算',
+      ':tags': ['q1'],
+      ':GSI2PK': 'USER#user-1#FOLDER#予算',
+      ':GSI2SK': `CONV#${UPDATED_AT}`,
+    });
+  });
+
+  it('drops the folder keys when a conversation is archived', async () => {
+    const send = stubUpdate();
+
+    await updateConversation(conversation({ folder: '経理' }), { archived: true });
+
+    const input = (send.mock.calls[0][0] as UpdateCommand).input;
+    expect(input.UpdateExpression).toBe(
+      'SET #title = :title, #GSI1PK = :GSI1PK, #GSI1SK = :GSI1SK, #archived = :archived, #folder = :folder '
+      + 'REMOVE #pinned, #tags, #GSI2PK, #GSI2SK'
+    );
+    expect(input.ExpressionAttributeValues).toMatchObject({ ':GSI1PK': 'USER#user-1#ARCHIVED' });
+  });
+});
+
+describe('listConversations', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Each read returns the next prepared page (the tag filter already applied)
+  function stubPages(pages: { items: Conversation[]; lastKey?: Record<string, unknown> }[]) {
+    const send = jest.spyOn(DynamoDBDocumentClient.prototype, 'send');
+    for (const page of pages) {
+      send.mockImplementationOnce((async () => ({ Items: page.items, LastEvaluatedKey: page.lastKey })) as never);
+    }
+    return send;
+  }
+
+  function limits(send: ReturnType<typeof stubPages>): (number | undefined)[] {
+    return send.mock.calls.map(([command]) => (command as QueryCommand).input.Limit);
+  }
+
+  it('keeps reading until a tag-filtered page is full', async () => {
+    const send = stubPages([
+      { items: [conversation({ conversationId: 'a' })], lastKey: { SK: 'k1' } },
+      { items: [], lastKey: { SK: 'k2' } },
+      { items: [conversation({ conversationId: 'b' }), conversation({ conversationId: 'c' })], lastKey: { SK: 'k3' } },
+    ]);
+
+    const page = await listConversations('user-1', { tag: '経理' }, 3);
+
+    expect(page.items.map(item => item.conversationId)).toEqual(['a', 'b', 'c']);
+    expect(limits(send)).toEqual([3, 2, 2]);
+    expect(decodeCursor(page.nextToken)).toEqual({ SK: 'k3' });
+    expect((send.mock.calls[0][0] as QueryCommand).input).toMatchObject({
+      FilterExpression: 'contains(tags, :tag)',
+      ExpressionAttributeValues: { ':pk': 'USER#user-1', ':sk': 'CONV#', ':tag': '経理' },
+    });
+  });
+
+  it('returns a short last page without a next token when the partition is exhausted', async () => {
+    const send = stubPages([
+      { items: [conversation({ conversationId: 'a' })], lastKey: { SK: 'k1' } },
+      { items: [] },
+    ]);
+
+    const page = await listConversations('user-1', { tag: '経理' }, 3);
+
+    expect(page.items.map(item => item.conversationId)).toEqual(['a']);
+    expect(page.nextToken).toBeUndefined();
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('resumes from the next token', async () => {
+    const send = stubPages([{ items: [] }]);
+
+    await listConversations('user-1', { archived: true }, 10, encodeCursor({ SK: 'k3' }));
+
+    expect((send.mock.calls[0][0] as QueryCommand).input).toMatchObject({
+      ExclusiveStartKey: { SK: 'k3' },
+      ExpressionAttributeValues: { ':pk': 'USER#user-1#ARCHIVED' },
+    });
+  });
+
+  it('rejects a folder filter on the archive', async () => {
+    await expect(listConversations('user-1', { folder: '経理', archived: true }, 10))
+      .rejects.toThrow(ConversationValidationError);
+  });
+});
@@ -0,0 +1,295 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import type {
+  ChatMessage,
+  Conversation,
+  ConversationFolders,
+  ConversationMessage,
+  UpdateConversationRequest,
+} from '../types/index.js';
+import { replaceIndexedTitle } from './conversationIndex.js';
+import { decodeCursor, encodeCursor, type Page } from './pagination.js';
+
+const ddbClient = new DynamoDBClient({});
+const ddb = DynamoDBDocumentClient.from(ddbClient);
+
+const TABLE_NAME = process.env.MAIN_TABLE || '';
+
+const MAX_TITLE_LENGTH = 100;
+const MAX_FOLDER_LENGTH = 50;
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+
+// Invalid conversation changes or list filters (returned as 400)
+export class ConversationValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConversationValidationError';
+  }
+}
+
+// Load conversation metadata (without messages)
+export async function getConversationMeta(conversationId: string): Promise<Conversation | null> {
+  const result = await ddb.send(new GetCommand({
+    TableName: TABLE_NAME,
+    Key: {
+      PK: `CONV#${conversationId}`,
+      SK: 'META',
+    },
+  }));
+
+  return (result.Item as Conversation) || null;
+}
+
+export interface ConversationListFilter {
+  folder?: string;      // conversations filed in the folder
+  archived?: boolean;   // archived conversations instead of the active ones
+  tag?: string;
+}
+
+// List conversations for a user, most recent first, one page at a time.
+// Active conversations list pinned ones first; a folder or the archive is
+// read from its own index partition.
+export async function listConversations(
+  userId: string,
+  filter: ConversationListFilter,
+  limit: number,
+  nextToken?: string
+): Promise<Page<Conversation>> {
+  if (filter.folder && filter.archived) {
+    throw new ConversationValidationError('folder and archived cannot be combined');
+  }
+
+  const index = filter.folder
+    ? { IndexName: 'GSI2', KeyConditionExpression: 'GSI2PK = :pk', pk: `USER#${userId}#FOLDER#${filter.folder}` }
+    : {
+      IndexName: 'GSI1',
+      KeyConditionExpression: 'GSI1PK = :pk AND begins_with(GSI1SK, :sk)',
+      pk: filter.archived ? `USER#${userId}#ARCHIVED` : `USER#${userId}`,
+    };
+
+  // A tag filter applies after Limit, so keep reading until the page is
+  // full. Each read evaluates at most the missing number of items, so the
+  // last evaluated key is always right after the last returned conversation.
+  const items: Conversation[] = [];
+  let lastKey = decodeCursor<Record<string, unknown>>(nextToken);
+  do {
+    const result = await ddb.send(new QueryCommand({
+      TableName: TABLE_NAME,
+      IndexName: index.IndexName,
+      KeyConditionExpression: index.KeyConditionExpression,
+      ...(filter.tag ? { FilterExpression: 'contains(tags, :tag)' } : {}),
+      ExpressionAttributeValues: {
+        ':pk': index.pk,
+        ...(filter.folder ? {} : { ':sk': 'CONV#' }),
+        ...(filter.tag ? { ':tag': filter.tag } : {}),
+      },
+      ScanIndexForward: false, // Most recent first
+      Limit: limit - items.length,
+      ExclusiveStartKey: lastKey,
+    }));
+    items.push(...(result.Items || []) as Conversation[]);
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey && items.length < limit);
+
+  return {
+    items,
+    ...(lastKey ? { nextToken: encodeCursor(lastKey) } : {}),
+  };
+}
+
+// The stored turns of a conversation, oldest first, as model input. Only the
+// text is kept: attachments are sent with the turn they belong to.
+export async function loadConversationHistory(conversationId: string): Promise<ChatMessage[]> {
+  const messages: ChatMessage[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+  do {
+    const result = await ddb.send(new QueryCommand({
+      TableName: TABLE_NAME,
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeNames: { '#role': 'role' },
+      ExpressionAttributeValues: {
+        ':pk': `CONV#${conversationId}`,
+        ':sk': 'MSG#',
+      },
+      ProjectionExpression: '#role, content',
+      ScanIndexForward: true,
+      ExclusiveStartKey: exclusiveStartKey,
+    }));
+    for (const item of (result.Items || []) as Pick<ConversationMessage, 'role' | 'content'>[]) {
+      messages.push({ role: item.role, content: item.content });
+    }
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+  return messages;
+}
+
+// Index keys for a conversation's current state. GSI1 lists the owner's
+// conversations by last activity with pinned ones first (CONV#P... sorts after
+// any timestamp) and archived ones in a partition of their own; GSI2 lists a
+// folder, leaving out archived conversations until they are restored.
+export function conversationIndexKeys(
+  conversation: Pick<Conversation, 'userId' | 'updatedAt' | 'pinned' | 'archived' | 'folder'>
+): Required<Pick<Conversation, 'GSI1PK' | 'GSI1SK'>> & Pick<Conversation, 'GSI2PK' | 'GSI2SK'> {
+  const { userId, updatedAt } = conversation;
+  const keys = {
+    GSI1PK: conversation.archived ? `USER#${userId}#ARCHIVED` : `USER#${userId}`,
+    GSI1SK: conversation.pinned ? `CONV#PINNED#${updatedAt}` : `CONV#${updatedAt}`,
+  };
+  if (!conversation.folder || conversation.archived) {
+    return keys;
+  }
+  return {
+    ...keys,
+    GSI2PK: `USER#${userId}#FOLDER#${conversation.folder}`,
+    GSI2SK: `CONV#${updatedAt}`,
+  };
+}
+
+function validateUpdate(request: UpdateConversationRequest): void {
+  if (request.title !== undefined) {
+    if (typeof request.title !== 'string' || !request.title.trim()) {
+      throw new ConversationValidationError('title must not be empty');
+    }
+    if (request.title.trim().length > MAX_TITLE_LENGTH) {
+      throw new ConversationValidationError(`title must be at most ${MAX_TITLE_LENGTH} characters`);
+    }
+  }
+  for (const field of ['pinned', 'archived'] as const) {
+    if (request[field] !== undefined && typeof request[field] !== 'boolean') {
+      throw new ConversationValidationError(`${field} must be true or false`);
+    }
+  }
+  if (request.folder !== undefined && request.folder !== null) {
+    if (typeof request.folder !== 'string' || request.folder.trim().length > MAX_FOLDER_LENGTH) {
+      throw new ConversationValidationError(`folder must be a name of at most ${MAX_FOLDER_LENGTH} characters`);
+    }
+  }
+  if (request.tags !== undefined) {
+    if (!Array.isArray(request.tags) || request.tags.length > MAX_TAGS) {
+      throw new ConversationValidationError(`tags must be a list of at most ${MAX_TAGS} tags`);
+    }
+    if (request.tags.some(tag => typeof tag !== 'string' || !tag.trim() || tag.trim().length > MAX_TAG_LENGTH)) {
+      throw new ConversationValidationError(`Each tag must be 1 to ${MAX_TAG_LENGTH} characters`);
+    }
+  }
+}
+
+// Keep a folder in the user's folder list exactly while it holds conversations
+async function syncFolder(userId: string, folder: string): Promise<void> {
+  const result = await ddb.send(new QueryCommand({
+    TableName: TABLE_NAME,
+    IndexName: 'GSI2',
+    KeyConditionExpression: 'GSI2PK = :pk',
+    ExpressionAttributeValues: {
+      ':pk': `USER#${userId}#FOLDER#${folder}`,
+    },
+    Limit: 1,
+  }));
+
+  const inUse = (result.Items || []).length > 0;
+  await ddb.send(new UpdateCommand({
+    TableName: TABLE_NAME,
+    Key: {
+      PK: `USER#${userId}`,
+      SK: 'CONV_FOLDERS',
+    },
+    UpdateExpression: inUse ? 'ADD folders :folder' : 'DELETE folders :folder',
+    ExpressionAttributeValues: {
+      ':folder': new Set([folder]),
+    },
+  }));
+}
+
+// Folders the user has filed (non-archived) conversations in, by name
+export async function listConversationFolders(userId: string): Promise<string[]> {
+  const result = await ddb.send(new GetCommand({
+    TableName: TABLE_NAME,
+    Key: {
+      PK: `USER#${userId}`,
+      SK: 'CONV_FOLDERS',
+    },
+  }));
+
+  const item = result.Item as ConversationFolders | undefined;
+  return Array.from(item?.folders || []).sort((a, b) => a.localeCompare(b, 'ja'));
+}
+
+// Bring the folder list up to date for the folder a conversation is (or was)
+// filed in; call after it is filed, moved, archived, restored or deleted
+export async function syncConversationFolder(conversation: Conversation): Promise<void> {
+  if (conversation.folder) {
+    await syncFolder(conversation.userId, conversation.folder);
+  }
+}
+
+// Rename, pin, archive, file or tag a conversation. The index keys are
+// rebuilt from the resulting state; the order by last activity is kept.
+export async function updateConversation(
+  conversation: Conversation,
+  request: UpdateConversationRequest
+): Promise<Conversation> {
+  validateUpdate(request);
+
+  const updated: Conversation = { ...conversation };
+  if (request.title !== undefined) updated.title = request.title.trim();
+  if (request.pinned !== undefined) updated.pinned = request.pinned;
+  if (request.archived !== undefined) updated.archived = request.archived;
+  if (request.folder !== undefined) updated.folder = request.folder?.trim() || undefined;
+  if (request.tags !== undefined) updated.tags = [...new Set(request.tags.map(tag => tag.trim()))];
+
+  const keys = conversationIndexKeys(updated);
+  const set: Record<string, unknown> = {
+    title: updated.title,
+    GSI1PK: keys.GSI1PK,
+    GSI1SK: keys.GSI1SK,
+  };
+  const remove: string[] = [];
+  if (updated.pinned) set.pinned = true; else remove.push('pinned');
+  if (updated.archived) set.archived = true; else remove.push('archived');
+  if (updated.folder) set.folder = updated.folder; else remove.push('folder');
+  if (updated.tags?.length) set.tags = updated.tags; else remove.push('tags');
+  if (keys.GSI2PK) {
+    set.GSI2PK = keys.GSI2PK;
+    set.GSI2SK = keys.GSI2SK;
+  } else {
+    remove.push('GSI2PK', 'GSI2SK');
+  }
+
+  const names: Record<string, string> = {};
+  const values: Record<string, unknown> = {};
+  const setClauses = Object.entries(set).map(([field, value]) => {
+    names[`#${field}`] = field;
+    values[`:${field}`] = value;
+    return `#${field} = :${field}`;
+  });
+  const removeClauses = remove.map(field => {
+    names[`#${field}`] = field;
+    return `#${field}`;
+  });
+
+  const result = await ddb.send(new UpdateCommand({
+    TableName: TABLE_NAME,
+    Key: {
+      PK: conversation.PK,
+      SK: conversation.SK,
+    },
+    UpdateExpression: `SET ${setClauses.join(', ')}`
+      + (removeClauses.length > 0 ? ` REMOVE ${removeClauses.join(', ')}` : ''),
+    ExpressionAttributeNames: names,
+    ExpressionAttributeValues: values,
+    ConditionExpression: 'attribute_exists(PK)',
+    ReturnValues: 'ALL_NEW',
+  }));
+
+  const saved = result.Attributes as Conversation;
+  if (saved.searchIndexed) {
+    await replaceIndexedTitle(saved.userId, saved.conversationId, conversation.title || '', saved.title || '')
+      .catch(error => console.error(`Failed to index the title of conversation ${saved.conversationId}:`, error));
+  }
+  if (conversation.GSI2PK !== saved.GSI2PK) {
+    await syncConversationFolder(conversation);
+    if (saved.folder && saved.folder !== conversation.folder) await syncConversationFolder(saved);
+  }
+  return saved;
+}
@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { AuthPrincipal, ChatRequest, ChatResponse, DatabaseConnection } from '../types/index.js';
+import type { DatabaseTable, QueryRows } from './databases.js';
+
+const MODEL = 'us.anthropic.claude-sonnet-4-5-20250929-v1:0';
+
+const invokeModel = jest.fn<(request: ChatRequest) => Promise<ChatResponse>>();
+const getDatabaseConnection = jest.fn<(connectionId: string) => Promise<DatabaseConnection | null>>();
+const loadDatabaseSchema = jest.fn<() => Promise<DatabaseTable[]>>();
+const runReadOnlyQuery = jest.fn<(connection: DatabaseConnection, sql: string) => Promise<QueryRows>>();
+const recordTokenUsage = jest.fn<(principal: AuthPrincipal, tokens: number) => Promise<void>>();
+const recordChatUsage = jest.fn<
+  (principal: AuthPrincipal, model: string, inputTokens: number, outputTokens: number) => Promise<void>
+>();
+
+class DatabaseConnectionError extends Error {}
+class DatabaseQueryError extends Error {}
+
+jest.unstable_mockModule('./llm.js', () => ({ invokeModel }));
+jest.unstable_mockModule('./databases.js', () => ({
+  DatabaseConnectionError,
+  DatabaseQueryError,
+  getDatabaseConnection,
+  canAccessConnection: () => true,
+  loadDatabaseSchema,
+  runReadOnlyQuery,
+}));
+jest.unstable_mockModule('./quotas.js', () => ({ recordTokenUsage }));
+jest.unstable_mockModule('./usage.js', () => ({ recordChatUsage }));
+
+const { answerDatabaseQuestion, buildDatabaseContext } = await import('./databaseQuery.js');
+
+const principal: AuthPrincipal = {
+  userId: 'user-1',
+  email: 'user@example.com',
+  name: 'User',
+  role: 'user',
+  organizationId: 'org-1',
+  companyId: 'company-1',
+};
+
+const connection: DatabaseConnection = {
+  PK: 'DBCONN#conn-1',
+  SK: 'META',
+  connectionId: 'conn-1',
+  name: 'Sales DB',
+  type: 'postgresql',
+  host: 'db.internal',
+  port: 5432,
+  database: 'sales',
+  username: 'reader',
+  ssl: true,
+  passwordSecretArn: 'arn:secret',
+  secretManaged: true,
+  companyId: 'company-1',
+  createdBy: 'admin-1',
+  createdAt: '2024-01-05T00:00:00.000Z',
+};
+
+function modelReply(content: string, inputTokens: number, outputTokens: number): ChatResponse {
+  return { content, model: MODEL, provider: 'bedrock', usage: { inputTokens, outputTokens } };
+}
+
+describe('database question usage', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    getDatabaseConnection.mockResolvedValue(connection);
+    loadDatabaseSchema.mockResolvedValue([
+      { schema: 'public', name: 'orders', columns: [{ name: 'total', type: 'numeric' }] },
+    ]);
+    runReadOnlyQuery.mockResolvedValue({ columns: ['sum'], rows: [[1200]] });
+    recordTokenUsage.mockResolvedValue();
+    recordChatUsage.mockResolvedValue();
+  });
+
+  it('records the SQL, retry and summary calls of a question together', async () => {
+    invokeModel
+      .mockResolvedValueOnce(modelReply('DELETE FROM orders', 100, 10))
+      .mockResolvedValueOnce(modelReply('SELECT sum(total) FROM orders', 120, 12))
+      .mockResolvedValueOnce(modelReply('合計は1200です。', 200, 30));
+
+    const response = await answerDatabaseQuestion(principal, connection, '売上の合計は?', MODEL);
+
+    expect(response.answer).toBe('合計は1200です。');
+    expect(invokeModel).toHaveBeenCalledTimes(3);
+    expect(recordTokenUsage).toHaveBeenCalledWith(principal, 472);
+    expect(recordChatUsage).toHaveBeenCalledWith(principal, MODEL, 420, 52);
+  });
+
+  it('records the calls made before a question fails', async () => {
+    invokeModel
+      .mockResolvedValueOnce(modelReply('DROP TABLE orders', 100, 10))
+      .mockResolvedValueOnce(modelReply('DROP TABLE orders', 120, 12));
+
+    await expect(answerDatabaseQuestion(principal, connection, '消して', MODEL)).rejects.toThrow();
+    expect(recordTokenUsage).toHaveBeenCalledWith(principal, 242);
+    expect(recordChatUsage).toHaveBeenCalledWith(principal, MODEL, 220, 22);
+  });
+
+  it('records the query calls of every connection attached to a chat turn', async () => {
+    invokeModel
+      .mockResolvedValueOnce(modelReply('SELECT sum(total) FROM orders', 100, 10))
+      .mockResolvedValueOnce(modelReply('SELECT count(*) FROM orders', 50, 5));
+
+    const context = await buildDatabaseContext(principal, ['conn-1', 'conn-2'], '売上は?', MODEL);
+
+    expect(context).toContain('実行したSQL: SELECT sum(total) FROM orders');
+    expect(context).toContain('実行したSQL: SELECT count(*) FROM orders');
+    expect(recordTokenUsage).toHaveBeenCalledTimes(1);
+    expect(recordTokenUsage).toHaveBeenCalledWith(principal, 165);
+    expect(recordChatUsage).toHaveBeenCalledWith(principal, MODEL, 150, 15);
+  });
+});
+
+describe('database query failures', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    getDatabaseConnection.mockResolvedValue(connection);
+    loadDatabaseSchema.mockResolvedValue([
+      { schema: 'public', name: 'orders', columns: [{ name: 'total', type: 'numeric' }] },
+    ]);
+    recordTokenUsage.mockResolvedValue();
+    recordChatUsage.mockResolvedValue();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sends the generic reason of a rejected query back to the model', async () => {
+    invokeModel
+      .mockResolvedValueOnce(modelReply('SELECT sum(amount) FROM orders', 100, 10))
+      .mockResolvedValueOnce(modelReply('SELECT sum(total) FROM orders', 120, 12))
+      .mockResolvedValueOnce(modelReply('合計は1200です。', 200, 30));
+    runReadOnlyQuery
+      .mockRejectedValueOnce(new DatabaseQueryError('A column in the query does not exist'))
+      .mockResolvedValueOnce({ columns: ['sum'], rows: [[1200]] });
+
+    await answerDatabaseQuestion(principal, connection, '売上の合計は?', MODEL);
+
+    const retry = invokeModel.mock.calls[1][0].messages;
+    expect(retry[retry.length - 1].content)
+      .toBe('The query failed: A column in the query does not exist. Reply with a corrected query only.');
+  });
+
+  it('does not retry when the database cannot be reached', async () => {
+    invokeModel.mockResolvedValueOnce(modelReply('SELECT sum(total) FROM orders', 100, 10));
+    runReadOnlyQuery.mockRejectedValueOnce(new DatabaseConnectionError('Could not connect to the database'));
+
+    await expect(answerDatabaseQuestion(principal, connection, '売上の合計は?', MODEL))
+      .rejects.toThrow(DatabaseConnectionError);
+    expect(invokeModel).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps unexpected error messages out of the chat context', async () => {
+    invokeModel.mockResolvedValueOnce(modelReply('SELECT sum(total) FROM orders', 100, 10));
+    runReadOnlyQuery.mockRejectedValueOnce(new Error('password authentication failed for user "reader"'));
+
+    const context = await buildDatabaseContext(principal, ['conn-1'], '売上は?', MODEL);
+
+    expect(context).toBe('--- データベース: Sales DB ---\nクエリに失敗しました\n--- 終了 ---');
+  });
+
+  it('includes the generic reason of a known failure in the chat context', async () => {
+    invokeModel.mockResolvedValueOnce(modelReply('SELECT sum(total) FROM orders', 100, 10));
+    runReadOnlyQuery.mockRejectedValueOnce(new DatabaseConnectionError('Could not connect to the database'));
+
+    const context = await buildDatabaseContext(principal, ['conn-1'], '売上は?', MODEL);
+
+    expect(context).toContain('クエリに失敗しました: Could not connect to the database');
+  });
+});
@@ -0,0 +1,268 @@
+import type {
+  AIModel,
+  AuthPrincipal,
+  ChatMessage,
+  ChatResponse,
+  DatabaseConnection,
+  DatabaseQueryResponse,
+} from '../types/index.js';
+import { invokeModel } from './llm.js';
+import { ForbiddenError } from './permissions.js';
+import { recordTokenUsage } from './quotas.js';
+import { recordChatUsage } from './usage.js';
+import {
+  DatabaseConnectionError,
+  DatabaseQueryError,
+  getDatabaseConnection,
+  canAccessConnection,
+  loadDatabaseSchema,
+  runReadOnlyQuery,
+  type DatabaseTable,
+  type DbCell,
+} from './databases.js';
+import { validateReadOnlySql, applyRowLimit, SqlValidationError } from './sqlGuard.js';
+import { estimateTokens } from './tokens.js';
+
+// Most rows a generated query may return
+const MAX_ROWS = 200;
+// Result rows passed to the model for the answer or as chat context
+const SUMMARY_ROWS = 100;
+// Budget for the schema description in the SQL prompt
+const SCHEMA_TOKEN_BUDGET = 6000;
+
+export interface DatabaseQueryResult {
+  sql: string;
+  columns: string[];
+  rows: DbCell[][];
+  truncated: boolean;
+}
+
+interface TokenTally {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+function tally(usage: TokenTally, response: ChatResponse): void {
+  usage.inputTokens += response.usage?.inputTokens || 0;
+  usage.outputTokens += response.usage?.outputTokens || 0;
+}
+
+// Count the model calls of a database question like chat usage
+async function recordUsage(principal: AuthPrincipal, model: AIModel, usage: TokenTally): Promise<void> {
+  if (usage.inputTokens + usage.outputTokens === 0) return;
+  await Promise.all([
+    recordTokenUsage(principal, usage.inputTokens + usage.outputTokens),
+    recordChatUsage(principal, model, usage.inputTokens, usage.outputTokens),
+  ]);
+}
+
+const DIALECT_NAMES = {
+  postgresql: 'PostgreSQL',
+  mysql: 'MySQL',
+};
+
+function plannerPrompt(connection: DatabaseConnection): string {
+  return `You write ${DIALECT_NAMES[connection.type]} queries that answer questions about a database.
+Reply with a single SELECT statement and nothing else (no explanation, no code fence).
+Rules:
+- Read-only: SELECT / WITH only, one statement, no comments.
+- Use only the tables and columns listed.
+- Return at most ${MAX_ROWS} rows; aggregate rather than listing many rows.`;
+}
+
+const SUMMARY_PROMPT = `あなたはデータ分析アシスタントです。
+ユーザーの質問に対し、実行したSQLの結果表だけを根拠に日本語で簡潔に回答してください。
+結果に含まれない数値を推測しないでください。`;
+
+// Schema as "schema.table(column type, ...)" lines, within the token budget
+function describeSchema(tables: DatabaseTable[]): string {
+  const lines: string[] = [];
+  let tokens = 0;
+  for (const table of tables) {
+    const line = `${table.schema}.${table.name}(${table.columns.map(c => `${c.name} ${c.type}`).join(', ')})`;
+    tokens += estimateTokens(line);
+    if (tokens > SCHEMA_TOKEN_BUDGET) {
+      lines.push(`... (${tables.length - lines.length} more tables omitted)`);
+      break;
+    }
+    lines.push(line);
+  }
+  return lines.join('\n');
+}
+
+// Names a query may reference: "table" and "schema.table", lower-cased
+function allowedTableNames(tables: DatabaseTable[]): Set<string> {
+  const names = new Set<string>();
+  for (const table of tables) {
+    names.add(table.name.toLowerCase());
+    names.add(`${table.schema}.${table.name}`.toLowerCase());
+  }
+  return names;
+}
+
+function extractSql(content: string): string {
+  const fenced = content.match(/```(?:sql)?\s*([\s\S]*?)```/i);
+  return (fenced ? fenced[1] : content).trim();
+}
+
+function formatCell(cell: DbCell): string {
+  if (cell === null) return '';
+  return String(cell).replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+export function resultToMarkdown(result: DatabaseQueryResult, maxRows = SUMMARY_ROWS): string {
+  return [
+    `| ${result.columns.map(formatCell).join(' | ')} |`,
+    `| ${result.columns.map(() => '---').join(' | ')} |`,
+    ...result.rows.slice(0, maxRows).map(row => `| ${row.map(formatCell).join(' | ')} |`),
+  ].join('\n');
+}
+
+// Turn a question into a validated read-only query and run it. A query the
+// validator or the database rejects is sent back to the model once, with the
+// generic reason (never the driver's message). The
+// tokens of each model call are added to usage.
+export async function queryDatabase(
+  connection: DatabaseConnection,
+  question: string,
+  model: AIModel,
+  usage: TokenTally
+): Promise<DatabaseQueryResult> {
+  const tables = await loadDatabaseSchema(connection);
+  const allowedTables = allowedTableNames(tables);
+
+  const messages: ChatMessage[] = [
+    { role: 'user', content: `Tables:\n${describeSchema(tables)}\n\nQuestion: ${question}` },
+  ];
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await invokeModel({
+      model,
+      messages,
+      systemPrompt: plannerPrompt(connection),
+      maxTokens: 1024,
+      temperature: 0,
+    });
+    tally(usage, response);
+
+    let sql = '';
+    try {
+      sql = validateReadOnlySql(extractSql(response.content), connection.type, allowedTables);
+      const limited = applyRowLimit(sql, MAX_ROWS);
+      const { columns, rows } = await runReadOnlyQuery(connection, limited.sql);
+      return {
+        sql,
+        columns,
+        rows: rows.slice(0, limited.limit),
+        truncated: rows.length > limited.limit && limited.limit === MAX_ROWS,
+      };
+    } catch (error) {
+      const rejected = error instanceof SqlValidationError || error instanceof DatabaseQueryError;
+      if (attempt > 0 || !rejected) throw error;
+      messages.push(
+        { role: 'assistant', content: response.content },
+        { role: 'user', content: `The query failed: ${error.message}. Reply with a corrected query only.` }
+      );
+    }
+  }
+}
+
+// Answer a question about a database: query it, then have the model summarize
+// the result rows. The tokens of all calls are recorded for the principal,
+// also when the question fails part way.
+export async function answerDatabaseQuestion(
+  principal: AuthPrincipal,
+  connection: DatabaseConnection,
+  question: string,
+  model: AIModel
+): Promise<DatabaseQueryResponse> {
+  const usage: TokenTally = { inputTokens: 0, outputTokens: 0 };
+  try {
+    return await answerWithUsage(connection, question, model, usage);
+  } finally {
+    await recordUsage(principal, model, usage);
+  }
+}
+
+async function answerWithUsage(
+  connection: DatabaseConnection,
+  question: string,
+  model: AIModel,
+  usage: TokenTally
+): Promise<DatabaseQueryResponse> {
+  const result = await queryDatabase(connection, question, model, usage);
+
+  const summary = await invokeModel({
+    model,
+    systemPrompt: SUMMARY_PROMPT,
+    maxTokens: 2048,
+    temperature: 0,
+    messages: [{
+      role: 'user',
+      content: [
+        `質問: ${question}`,
+        '',
+        `データベース: ${connection.name}`,
+        `実行したSQL: ${result.sql}`,
+        '',
+        `結果 (${result.rows.length}行${result.truncated ? '、上限で打ち切り' : ''}):`,
+        resultToMarkdown(result),
+      ].join('\n'),
+    }],
+  });
+  tally(usage, summary);
+
+  return { answer: summary.content, ...result };
+}
+
+// Query the selected connections for one chat turn and render the results as
+// context sections. A failing connection adds a note instead of failing the
+// chat; inaccessible ones are rejected. The query generation calls are
+// recorded like the chat call itself.
+export async function buildDatabaseContext(
+  principal: AuthPrincipal,
+  connectionIds: string[],
+  question: string,
+  model: AIModel
+): Promise<string> {
+  const sections: string[] = [];
+  const usage: TokenTally = { inputTokens: 0, outputTokens: 0 };
+
+  try {
+    for (const connectionId of connectionIds) {
+      sections.push(await describeConnectionResult(principal, connectionId, question, model, usage));
+    }
+  } finally {
+    await recordUsage(principal, model, usage);
+  }
+
+  return sections.join('\n\n');
+}
+
+async function describeConnectionResult(
+  principal: AuthPrincipal,
+  connectionId: string,
+  question: string,
+  model: AIModel,
+  usage: TokenTally
+): Promise<string> {
+  const connection = await getDatabaseConnection(connectionId);
+  if (!connection || !canAccessConnection(connection, principal)) {
+    throw new ForbiddenError(`Access denied to database connection: ${connectionId}`);
+  }
+
+  try {
+    const result = await queryDatabase(connection, question, model, usage);
+    const truncated = result.truncated ? ` (上限${MAX_ROWS}行で打ち切り)` : '';
+    return `--- データベース: ${connection.name} ---\n`
+      + `実行したSQL: ${result.sql}\n結果${truncated}:\n${resultToMarkdown(result)}\n--- 終了 ---`;
+  } catch (error) {
+    console.error(`Database context failed for ${connectionId}:`, error);
+    // Only the generic reasons of the database services reach the model
+    const known = error instanceof DatabaseConnectionError
+      || error instanceof DatabaseQueryError
+      || error instanceof SqlValidationError;
+    const reason = known ? `: ${error.message}` : '';
+    return `--- データベース: ${connection.name} ---\nクエリに失敗しました${reason}\n--- 終了 ---`;
+  }
+}
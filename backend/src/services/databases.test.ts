@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { createServer, type AddressInfo } from 'net';
+import type { AuthPrincipal, DatabaseType } from '../types/index.js';
+import { createDatabaseConnection, DatabaseConnectionError } from './databases.js';
+
+const admin: AuthPrincipal = {
+  userId: 'admin-1',
+  email: 'admin@example.com',
+  name: 'Admin',
+  role: 'company_admin',
+  organizationId: 'org-1',
+  companyId: 'company-1',
+};
+
+// A local port nothing listens on
+async function closedPort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+describe('createDatabaseConnection', () => {
+  let warn: ReturnType<typeof jest.spyOn>;
+
+  beforeEach(() => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each<DatabaseType>(['postgresql', 'mysql'])('reports an unreachable %s server without the driver message', async type => {
+    const port = await closedPort();
+
+    const error = await createDatabaseConnection(admin, {
+      name: 'Sales DB',
+      type,
+      host: '127.0.0.1',
+      port,
+      database: 'sales',
+      username: 'reader',
+      password: 'secret',
+      ssl: false,
+    }).catch((thrown: unknown) => thrown);
+
+    expect(error).toBeInstanceOf(DatabaseConnectionError);
+    expect((error as Error).message).toBe('Could not connect to the database: the server refused the connection');
+    expect(warn).toHaveBeenCalledWith(
+      `Could not connect to ${type} database sales at 127.0.0.1:${port}:`,
+      expect.objectContaining({ code: 'ECONNREFUSED' })
+    );
+  });
+});
@@ -0,0 +1,534 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand, DeleteCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  SecretsManagerClient,
+  CreateSecretCommand,
+  DeleteSecretCommand,
+  GetSecretValueCommand,
+} from '@aws-sdk/client-secrets-manager';
+import pg from 'pg';
+import mysql from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  AuthPrincipal,
+  CreateDatabaseConnectionRequest,
+  DatabaseConnection,
+  DatabaseConnectionResponse,
+  DatabaseType,
+} from '../types/index.js';
+import { ForbiddenError } from './permissions.js';
+
+const ddbClient = new DynamoDBClient({});
+const ddb = DynamoDBDocumentClient.from(ddbClient);
+const secrets = new SecretsManagerClient({});
+
+const TABLE_NAME = process.env.MAIN_TABLE || '';
+
+// Secrets created for connection passwords. The functions' IAM policies grant
+// access to secrets named ai-connective/*; referenced secrets need such a name.
+const SECRET_NAME_PREFIX = 'ai-connective/db/';
+
+const DEFAULT_PORTS: Record<DatabaseType, number> = {
+  postgresql: 5432,
+  mysql: 3306,
+};
+
+const CONNECT_TIMEOUT_MS = 10_000;
+const MAX_SSL_CA_LENGTH = 64 * 1024;
+const STATEMENT_TIMEOUT_MS = 15_000;
+// Introspected schemas are reused for a few minutes per Lambda instance
+const SCHEMA_CACHE_TTL_MS = 5 * 60 * 1000;
+const MAX_SCHEMA_COLUMNS = 3000;
+
+export type DbCell = string | number | boolean | null;
+
+export interface QueryRows {
+  columns: string[];
+  rows: DbCell[][];
+}
+
+export interface DatabaseTable {
+  schema: string;
+  name: string;
+  columns: { name: string; type: string }[];
+}
+
+// Rejected connection input or an unreachable database (returned as 400)
+export class DatabaseConnectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatabaseConnectionError';
+  }
+}
+
+// A query the database could not run (returned as 400)
+export class DatabaseQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatabaseQueryError';
+  }
+}
+
+// Driver messages can reveal hosts, users and schema details, so callers get
+// a generic reason chosen by the error code (Node.js network and TLS codes,
+// PostgreSQL SQLSTATE, MySQL error names) and the details are only logged
+const CONNECTION_FAILURES: Record<string, string> = {
+  ECONNREFUSED: 'the server refused the connection',
+  ECONNRESET: 'the server closed the connection',
+  ENOTFOUND: 'the host name could not be resolved',
+  EAI_AGAIN: 'the host name could not be resolved',
+  ETIMEDOUT: 'the connection timed out',
+  EHOSTUNREACH: 'the host is unreachable',
+  ENETUNREACH: 'the host is unreachable',
+  '28P01': 'the user name or password was rejected',
+  '28000': 'the user name or password was rejected',
+  ER_ACCESS_DENIED_ERROR: 'the user name or password was rejected',
+  '3D000': 'the database does not exist',
+  ER_BAD_DB_ERROR: 'the database does not exist',
+  DEPTH_ZERO_SELF_SIGNED_CERT: 'the server certificate could not be verified',
+  SELF_SIGNED_CERT_IN_CHAIN: 'the server certificate could not be verified',
+  UNABLE_TO_VERIFY_LEAF_SIGNATURE: 'the server certificate could not be verified',
+  UNABLE_TO_GET_ISSUER_CERT_LOCALLY: 'the server certificate could not be verified',
+  CERT_HAS_EXPIRED: 'the server certificate could not be verified',
+  ERR_TLS_CERT_ALTNAME_INVALID: 'the server certificate could not be verified',
+};
+
+const QUERY_FAILURES: Record<string, string> = {
+  '42601': 'The query has a syntax error',
+  ER_PARSE_ERROR: 'The query has a syntax error',
+  '42P01': 'A table in the query does not exist',
+  ER_NO_SUCH_TABLE: 'A table in the query does not exist',
+  '42703': 'A column in the query does not exist',
+  ER_BAD_FIELD_ERROR: 'A column in the query does not exist',
+  '42702': 'A column in the query is ambiguous',
+  ER_NON_UNIQ_ERROR: 'A column in the query is ambiguous',
+  '42883': 'A function or operator in the query does not exist',
+  ER_SP_DOES_NOT_EXIST: 'A function or operator in the query does not exist',
+  '42803': 'The query mixes grouped and ungrouped columns',
+  ER_WRONG_FIELD_WITH_GROUP: 'The query mixes grouped and ungrouped columns',
+  '42804': 'The query compares or converts incompatible types',
+  '22P02': 'The query compares or converts incompatible types',
+  '22012': 'The query divides by zero',
+  '42501': 'The database user may not read a table in the query',
+  ER_TABLEACCESS_DENIED_ERROR: 'The database user may not read a table in the query',
+  ER_COLUMNACCESS_DENIED_ERROR: 'The database user may not read a table in the query',
+  '57014': 'The query ran longer than the time limit',
+  ER_QUERY_TIMEOUT: 'The query ran longer than the time limit',
+};
+
+function errorCode(error: unknown): string {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' ? code : '';
+}
+
+function connectionFailure(target: ConnectionTarget, error: unknown): DatabaseConnectionError {
+  console.warn(`Could not connect to ${target.type} database ${target.database} at ${target.host}:${target.port}:`, error);
+  const reason = CONNECTION_FAILURES[errorCode(error)];
+  return new DatabaseConnectionError(reason ? `Could not connect to the database: ${reason}` : 'Could not connect to the database');
+}
+
+function queryFailure(target: ConnectionTarget, error: unknown): DatabaseQueryError {
+  console.warn(`Query on ${target.type} database ${target.database} at ${target.host}:${target.port} failed:`, error);
+  return new DatabaseQueryError(QUERY_FAILURES[errorCode(error)] || 'The database could not run the query');
+}
+
+// ============================================
+// Access control
+// ============================================
+
+// Connections belong to the creator's company (or organization when the
+// creator has no company); everyone in that scope may query them
+export function canAccessConnection(connection: DatabaseConnection, principal: AuthPrincipal): boolean {
+  if (principal.role === 'system_admin') return true;
+  if (connection.companyId) {
+    return connection.companyId === principal.companyId
+      || (principal.role === 'org_admin' && connection.organizationId === principal.organizationId);
+  }
+  return !!connection.organizationId && connection.organizationId === principal.organizationId;
+}
+
+// Registering connections is an admin task
+export function canCreateConnection(principal: AuthPrincipal): boolean {
+  return principal.role !== 'user';
+}
+
+// The creator, or an admin whose scope covers the connection
+export function canDeleteConnection(connection: DatabaseConnection, principal: AuthPrincipal): boolean {
+  if (connection.createdBy === principal.userId || principal.role === 'system_admin') return true;
+  if (principal.role === 'org_admin') return connection.organizationId === principal.organizationId;
+  if (principal.role === 'company_admin') return !!connection.companyId && connection.companyId === principal.companyId;
+  return false;
+}
+
+export function toConnectionResponse(connection: DatabaseConnection): DatabaseConnectionResponse {
+  return {
+    connectionId: connection.connectionId,
+    name: connection.name,
+    type: connection.type,
+    host: connection.host,
+    port: connection.port,
+    database: connection.database,
+    username: connection.username,
+    ssl: connection.ssl,
+    sslVerify: connection.sslVerify !== false,
+    ...(connection.sslCa ? { sslCa: connection.sslCa } : {}),
+    createdBy: connection.createdBy,
+    createdAt: connection.createdAt,
+  };
+}
+
+// ============================================
+// Records
+// ============================================
+
+export async function getDatabaseConnection(connectionId: string): Promise<DatabaseConnection | null> {
+  const result = await ddb.send(new GetCommand({
+    TableName: TABLE_NAME,
+    Key: {
+      PK: `DBCONN#${connectionId}`,
+      SK: 'META',
+    },
+  }));
+
+  return (result.Item as DatabaseConnection) || null;
+}
+
+export async function listAccessibleConnections(principal: AuthPrincipal): Promise<DatabaseConnection[]> {
+  const scopes = [
+    principal.companyId ? `COMPANY#${principal.companyId}` : null,
+    principal.organizationId ? `ORG#${principal.organizationId}` : null,
+  ].filter((scope): scope is string => scope !== null);
+
+  const connections: DatabaseConnection[] = [];
+  for (const scope of scopes) {
+    const result = await ddb.send(new QueryCommand({
+      TableName: TABLE_NAME,
+      IndexName: 'GSI2',
+      KeyConditionExpression: 'GSI2PK = :pk AND begins_with(GSI2SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': scope,
+        ':sk': 'DBCONN#',
+      },
+      ScanIndexForward: false,
+    }));
+    connections.push(...(result.Items || []) as DatabaseConnection[]);
+  }
+
+  return connections.filter(connection => canAccessConnection(connection, principal));
+}
+
+function validateCreateRequest(request: CreateDatabaseConnectionRequest): void {
+  if (!request.name || !request.host || !request.database || !request.username) {
+    throw new DatabaseConnectionError('name, host, database and username are required');
+  }
+  if (request.type !== 'postgresql' && request.type !== 'mysql') {
+    throw new DatabaseConnectionError(`Unsupported database type: ${request.type}`);
+  }
+  if (request.port !== undefined && (!Number.isInteger(request.port) || request.port < 1 || request.port > 65535)) {
+    throw new DatabaseConnectionError('port must be between 1 and 65535');
+  }
+  if (!request.password === !request.passwordSecretArn) {
+    throw new DatabaseConnectionError('Either password or passwordSecretArn is required');
+  }
+  if (request.passwordSecretArn && !/^arn:aws[\w-]*:secretsmanager:[\w-]+:\d{12}:secret:.+/.test(request.passwordSecretArn)) {
+    throw new DatabaseConnectionError('passwordSecretArn must be a Secrets Manager secret ARN');
+  }
+  if (request.passwordSecretArn?.includes(`:secret:${SECRET_NAME_PREFIX}`)) {
+    throw new DatabaseConnectionError('Secrets of other connections cannot be referenced');
+  }
+  if (request.sslVerify !== undefined && typeof request.sslVerify !== 'boolean') {
+    throw new DatabaseConnectionError('sslVerify must be true or false');
+  }
+  if (request.sslCa !== undefined) {
+    if (typeof request.sslCa !== 'string' || !request.sslCa.includes('-----BEGIN CERTIFICATE-----')) {
+      throw new DatabaseConnectionError('sslCa must be PEM-encoded certificates');
+    }
+    if (request.sslCa.length > MAX_SSL_CA_LENGTH) {
+      throw new DatabaseConnectionError(`sslCa must be at most ${MAX_SSL_CA_LENGTH} characters`);
+    }
+  }
+}
+
+// Register a connection. The database is contacted first so that wrong
+// credentials are reported instead of stored; a given password is then
+// stored as a new secret.
+export async function createDatabaseConnection(
+  principal: AuthPrincipal,
+  request: CreateDatabaseConnectionRequest
+): Promise<DatabaseConnection> {
+  if (!canCreateConnection(principal)) {
+    throw new ForbiddenError('Only administrators can add database connections');
+  }
+  validateCreateRequest(request);
+  // A secret reference could point at another tenant's credentials, so only
+  // system admins (who provision secrets) may use one
+  if (request.passwordSecretArn && principal.role !== 'system_admin') {
+    throw new ForbiddenError('Only system administrators can reference an existing secret');
+  }
+
+  const connectionId = uuidv4();
+  const now = new Date().toISOString();
+  const { userId, organizationId, companyId } = principal;
+
+  const target: ConnectionTarget = {
+    type: request.type,
+    host: request.host,
+    port: request.port || DEFAULT_PORTS[request.type],
+    database: request.database,
+    username: request.username,
+    ssl: request.ssl !== false,
+  };
+  if (target.ssl && request.sslVerify === false) target.sslVerify = false;
+  if (target.ssl && request.sslCa) target.sslCa = request.sslCa;
+  const password = request.password ?? await readSecretPassword(request.passwordSecretArn!);
+
+  await withClient(target, password, client => client.query('SELECT 1'));
+
+  let passwordSecretArn = request.passwordSecretArn;
+  if (!passwordSecretArn) {
+    const secret = await secrets.send(new CreateSecretCommand({
+      Name: `${SECRET_NAME_PREFIX}${connectionId}`,
+      Description: `Password for database connection "${request.name}"`,
+      SecretString: JSON.stringify({ password }),
+    }));
+    passwordSecretArn = secret.ARN!;
+  }
+
+  const connection: DatabaseConnection = {
+    PK: `DBCONN#${connectionId}`,
+    SK: 'META',
+    connectionId,
+    name: request.name,
+    ...target,
+    passwordSecretArn,
+    secretManaged: !request.passwordSecretArn,
+    createdBy: userId,
+    createdAt: now,
+  };
+  if (organizationId) connection.organizationId = organizationId;
+  if (companyId) connection.companyId = companyId;
+
+  // GSI2 for listing by company / organization
+  if (companyId) {
+    connection.GSI2PK = `COMPANY#${companyId}`;
+    connection.GSI2SK = `DBCONN#${now}`;
+  } else if (organizationId) {
+    connection.GSI2PK = `ORG#${organizationId}`;
+    connection.GSI2SK = `DBCONN#${now}`;
+  }
+
+  await ddb.send(new PutCommand({
+    TableName: TABLE_NAME,
+    Item: connection,
+  }));
+
+  return connection;
+}
+
+export async function deleteDatabaseConnection(connection: DatabaseConnection, principal: AuthPrincipal): Promise<void> {
+  if (!canDeleteConnection(connection, principal)) {
+    throw new ForbiddenError();
+  }
+
+  if (connection.secretManaged) {
+    await secrets.send(new DeleteSecretCommand({
+      SecretId: connection.passwordSecretArn,
+      RecoveryWindowInDays: 7,
+    }));
+  }
+
+  await ddb.send(new DeleteCommand({
+    TableName: TABLE_NAME,
+    Key: {
+      PK: connection.PK,
+      SK: connection.SK,
+    },
+  }));
+
+  schemaCache.delete(connection.connectionId);
+}
+
+// A secret holds either the bare password or JSON with a "password" field
+// (the format RDS-managed secrets use)
+async function readSecretPassword(secretArn: string): Promise<string> {
+  const secret = await secrets.send(new GetSecretValueCommand({ SecretId: secretArn }));
+  const value = secret.SecretString || '';
+  try {
+    const parsed = JSON.parse(value) as { password?: string };
+    if (typeof parsed.password === 'string') return parsed.password;
+  } catch {
+    // Not JSON: the whole string is the password
+  }
+  return value;
+}
+
+// ============================================
+// Drivers
+// ============================================
+
+type ConnectionTarget = Pick<
+  DatabaseConnection,
+  'type' | 'host' | 'port' | 'database' | 'username' | 'ssl' | 'sslVerify' | 'sslCa'
+>;
+
+interface DbClient {
+  query(sql: string): Promise<QueryRows>;
+}
+
+function toDbCell(value: unknown): DbCell {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string' || typeof value === 'boolean') return value;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : String(value);
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return `<binary ${value.length} bytes>`;
+  return JSON.stringify(value);
+}
+
+// TLS options for either driver. The server certificate is verified against
+// the connection's CA bundle (or the system trust store) unless the connection
+// explicitly opted out.
+function tlsOptions(target: ConnectionTarget): { rejectUnauthorized: boolean; ca?: string } | undefined {
+  if (!target.ssl) return undefined;
+  return {
+    rejectUnauthorized: target.sslVerify !== false,
+    ...(target.sslCa ? { ca: target.sslCa } : {}),
+  };
+}
+
+// Open a connection, run fn inside a read-only transaction with a statement
+// timeout, and always roll back and close. Driver errors surface as
+// DatabaseConnectionError (opening) or DatabaseQueryError (fn's queries).
+async function withClient<T>(target: ConnectionTarget, password: string, fn: (client: DbClient) => Promise<T>): Promise<T> {
+  if (target.type === 'postgresql') {
+    const client = new pg.Client({
+      host: target.host,
+      port: target.port,
+      database: target.database,
+      user: target.username,
+      password,
+      ssl: tlsOptions(target) || false,
+      connectionTimeoutMillis: CONNECT_TIMEOUT_MS,
+      statement_timeout: STATEMENT_TIMEOUT_MS,
+    });
+    try {
+      await client.connect();
+      await client.query('BEGIN READ ONLY');
+    } catch (error) {
+      await client.end().catch(() => undefined);
+      throw connectionFailure(target, error);
+    }
+    try {
+      return await fn({
+        async query(sql) {
+          const result = await client.query({ text: sql, rowMode: 'array' }).catch((error: unknown) => {
+            throw queryFailure(target, error);
+          });
+          return {
+            columns: result.fields.map(field => field.name),
+            rows: (result.rows as unknown[][]).map(row => row.map(toDbCell)),
+          };
+        },
+      });
+    } finally {
+      await client.query('ROLLBACK').catch(() => undefined);
+      await client.end();
+    }
+  }
+
+  let connection: mysql.Connection;
+  try {
+    connection = await mysql.createConnection({
+      host: target.host,
+      port: target.port,
+      database: target.database,
+      user: target.username,
+      password,
+      ssl: tlsOptions(target),
+      connectTimeout: CONNECT_TIMEOUT_MS,
+      multipleStatements: false,
+      dateStrings: true,
+      supportBigNumbers: true,
+      bigNumberStrings: true,
+    });
+  } catch (error) {
+    throw connectionFailure(target, error);
+  }
+  try {
+    await connection.query(`SET SESSION max_execution_time = ${STATEMENT_TIMEOUT_MS}`);
+    await connection.query('START TRANSACTION READ ONLY');
+  } catch (error) {
+    await connection.end().catch(() => undefined);
+    throw connectionFailure(target, error);
+  }
+  try {
+    return await fn({
+      async query(sql) {
+        const [rows, fields] = await connection.query({ sql, rowsAsArray: true }).catch((error: unknown) => {
+          throw queryFailure(target, error);
+        });
+        return {
+          columns: (fields || []).map(field => field.name),
+          rows: (rows as unknown[][]).map(row => row.map(toDbCell)),
+        };
+      },
+    });
+  } finally {
+    await connection.query('ROLLBACK').catch(() => undefined);
+    await connection.end();
+  }
+}
+
+async function withConnectionClient<T>(connection: DatabaseConnection, fn: (client: DbClient) => Promise<T>): Promise<T> {
+  const password = await readSecretPassword(connection.passwordSecretArn);
+  return withClient(connection, password, fn);
+}
+
+// ============================================
+// Schema and queries
+// ============================================
+
+const schemaCache = new Map<string, { tables: DatabaseTable[]; loadedAt: number }>();
+
+const SCHEMA_QUERIES: Record<DatabaseType, string> = {
+  postgresql: `SELECT table_schema, table_name, column_name, data_type
+    FROM information_schema.columns
+    WHERE table_schema NOT IN ('pg_catalog', 'information_schema')
+    ORDER BY table_schema, table_name, ordinal_position
+    LIMIT ${MAX_SCHEMA_COLUMNS}`,
+  mysql: `SELECT table_schema, table_name, column_name, data_type
+    FROM information_schema.columns
+    WHERE table_schema = DATABASE()
+    ORDER BY table_schema, table_name, ordinal_position
+    LIMIT ${MAX_SCHEMA_COLUMNS}`,
+};
+
+// Tables and columns visible to the connection's user
+export async function loadDatabaseSchema(connection: DatabaseConnection): Promise<DatabaseTable[]> {
+  const cached = schemaCache.get(connection.connectionId);
+  if (cached && Date.now() - cached.loadedAt < SCHEMA_CACHE_TTL_MS) {
+    return cached.tables;
+  }
+
+  const { rows } = await withConnectionClient(connection, client => client.query(SCHEMA_QUERIES[connection.type]));
+
+  const tables = new Map<string, DatabaseTable>();
+  for (const [schema, name, column, type] of rows.map(row => row.map(String))) {
+    const key = `${schema}.${name}`;
+    let table = tables.get(key);
+    if (!table) {
+      table = { schema, name, columns: [] };
+      tables.set(key, table);
+    }
+    table.columns.push({ name: column, type });
+  }
+
+  const result = [...tables.values()];
+  schemaCache.set(connection.connectionId, { tables: result, loadedAt: Date.now() });
+  return result;
+}
+
+// Run an already validated SELECT in a read-only transaction
+export async function runReadOnlyQuery(connection: DatabaseConnection, sql: string): Promise<QueryRows> {
+  return withConnectionClient(connection, client => client.query(sql));
+}
@@ -0,0 +1,41 @@
+import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
+
+const client = new BedrockRuntimeClient({
+  region: process.env.BEDROCK_REGION || 'us-east-1',
+});
+
+const EMBEDDING_MODEL_ID = process.env.EMBEDDING_MODEL_ID || 'amazon.titan-embed-text-v2:0';
+// Titan v2 accepts up to 8k tokens; keep inputs well below that
+const MAX_INPUT_CHARS = 8000;
+
+// Embed texts with Amazon Titan Text Embeddings (normalized vectors)
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+  const vectors: number[][] = [];
+  for (const text of texts) {
+    const response = await client.send(new InvokeModelCommand({
+      modelId: EMBEDDING_MODEL_ID,
+      contentType: 'application/json',
+      accept: 'application/json',
+      body: JSON.stringify({
+        inputText: text.slice(0, MAX_INPUT_CHARS),
+        normalize: true,
+      }),
+    }));
+
+    const body = JSON.parse(new TextDecoder().decode(response.body)) as { embedding: number[] };
+    vectors.push(body.embedding);
+  }
+  return vectors;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
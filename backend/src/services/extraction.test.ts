@@ -0,0 +1,49 @@
+import { describe, expect, it } from '@jest/globals';
+import { htmlToText } from './extraction.js';
+
+describe('htmlToText', () => {
+  it('turns paragraphs, headings and line breaks into lines', () => {
+    expect(htmlToText('<h1>議事録</h1><p>出席者:<br/>佐藤</p><p>以上</p>')).toBe('議事録\n出席者:\n佐藤\n以上');
+  });
+
+  it('marks list items with a dash', () => {
+    const lines = htmlToText('<ul><li>予算</li><li>採用</li></ul>').split('\n');
+
+    expect(lines.filter(Boolean)).toEqual(['- 予算', '- 採用']);
+  });
+
+  it('renders tables as Markdown', () => {
+    const html = '<table><tr><th>項目</th><th>金額</th></tr><tr><td><p>交通費</p></td><td>1,200</td></tr></table>';
+
+    expect(htmlToText(html)).toBe('| 項目 | 金額 |\n| --- | --- |\n| 交通費 | 1,200 |');
+  });
+
+  it('decodes named and numeric entities', () => {
+    expect(htmlToText('<p>&lt;b&gt; &quot;A&quot; &#39;B&#39; &#12354;&#x3044;&#X30A2; x&nbsp;y</p>'))
+      .toBe('<b> "A" \'B\' あいア x y');
+  });
+
+  it('decodes escaped entities only once', () => {
+    expect(htmlToText('<p>&amp;lt;p&amp;gt; &amp;amp;</p>')).toBe('&lt;p&gt; &amp;');
+  });
+
+  it('drops numeric references outside Unicode', () => {
+    expect(htmlToText('<p>a&#99999999;b&#x110000;c</p>')).toBe('abc');
+  });
+
+  it('drops scripts and styles with their content', () => {
+    const html = [
+      '<style type="text/css">p { color: red; }</style>',
+      '<p>本文</p>',
+      '<script>alert("x")</script>',
+      '<SCRIPT src="a.js"></SCRIPT >',
+      '<p>続き</p>',
+    ].join('');
+
+    expect(htmlToText(html)).toBe('本文\n続き');
+  });
+
+  it('does not treat an element whose name starts with script as a script', () => {
+    expect(htmlToText('<scripture>本文</scripture>')).toBe('本文');
+  });
+});
@@ -0,0 +1,128 @@
+import { extractText as extractPdfText } from 'unpdf';
+import mammoth from 'mammoth';
+import type { FileType, TableSchema } from '../types/index.js';
+import { parseTables, inferTableSchema, toMarkdownTable } from './tabular.js';
+
+// Separator between PDF pages in extracted text (form feed)
+export const PAGE_SEPARATOR = '\f';
+
+export interface ExtractionResult {
+  text: string;
+  tableSchema?: TableSchema;    // CSV / XLSX only
+}
+
+// Extract plain text from an uploaded file. Tables (DOCX tables, CSV files,
+// XLSX sheets) are rendered as Markdown tables so the model can read rows and
+// columns; for CSV / XLSX the inferred column schema is returned as well.
+export async function extractText(buffer: Buffer, fileType: FileType, fileName: string): Promise<ExtractionResult> {
+  switch (fileType) {
+    case 'txt':
+      return { text: buffer.toString('utf-8') };
+    case 'pdf':
+      return { text: await extractFromPdf(buffer) };
+    case 'docx':
+      return { text: await extractFromDocx(buffer) };
+    case 'csv':
+    case 'xlsx':
+      return extractFromTable(buffer, fileType, fileName);
+    default:
+      throw new Error(`Unsupported file type: ${fileType}`);
+  }
+}
+
+// PDF: one text block per page, pages separated by PAGE_SEPARATOR
+async function extractFromPdf(buffer: Buffer): Promise<string> {
+  const { text } = await extractPdfText(new Uint8Array(buffer), { mergePages: false });
+  return text.map(page => page.trim()).join(`\n${PAGE_SEPARATOR}\n`);
+}
+
+// DOCX: convert to HTML (keeps table structure), then flatten to text
+async function extractFromDocx(buffer: Buffer): Promise<string> {
+  const result = await mammoth.convertToHtml({ buffer });
+  for (const message of result.messages) {
+    if (message.type === 'error') {
+      console.warn('DOCX conversion:', message.message);
+    }
+  }
+  return htmlToText(result.value);
+}
+
+// CSV / XLSX: every table rendered as Markdown; worksheets under their name
+async function extractFromTable(buffer: Buffer, fileType: FileType, fileName: string): Promise<ExtractionResult> {
+  const parsed = await parseTables(buffer, fileType, fileName);
+
+  const sections = parsed.tables.map((table) => {
+    const markdown = toMarkdownTable(table.columns, table.rows);
+    return fileType === 'xlsx' ? `## ${table.name}\n\n${markdown}` : markdown;
+  });
+
+  return { text: sections.join('\n\n'), tableSchema: inferTableSchema(parsed) };
+}
+
+function rowsToMarkdown(rows: string[][]): string {
+  const width = Math.max(...rows.map(row => row.length));
+  const format = (row: string[]) => {
+    const cells = Array.from({ length: width }, (_, i) => escapeCell(row[i] || ''));
+    return `| ${cells.join(' | ')} |`;
+  };
+
+  const [header, ...body] = rows;
+  return [
+    format(header),
+    `| ${Array(width).fill('---').join(' | ')} |`,
+    ...body.map(format),
+  ].join('\n');
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ').trim();
+}
+
+// Flatten mammoth's HTML output: block elements become lines, tables become
+// Markdown tables, scripts and styles are dropped
+export function htmlToText(html: string): string {
+  const withoutScripts = html.replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, '');
+  const withTables = withoutScripts.replace(/<table[^>]*>([\s\S]*?)<\/table>/gi, (_, tableHtml: string) => {
+    const rows: string[][] = [];
+    for (const rowMatch of tableHtml.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi)) {
+      const cells: string[] = [];
+      for (const cellMatch of rowMatch[1].matchAll(/<t[dh][^>]*>([\s\S]*?)<\/t[dh]>/gi)) {
+        cells.push(stripTags(cellMatch[1].replace(/<\/p>/gi, ' ')));
+      }
+      rows.push(cells);
+    }
+    return rows.length > 0 ? `\n\n${rowsToMarkdown(rows)}\n\n` : '';
+  });
+
+  const text = withTables
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|h[1-6]|li|ul|ol)>/gi, '\n');
+
+  return stripTags(text, false)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function stripTags(html: string, collapseWhitespace = true): string {
+  const text = decodeEntities(html.replace(/<[^>]+>/g, ''));
+  return collapseWhitespace ? text.replace(/\s+/g, ' ').trim() : text;
+}
+
+// Numeric references outside Unicode are dropped
+function fromCodePoint(code: number): string {
+  return code <= 0x10ffff ? String.fromCodePoint(code) : '';
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&#(\d+);/g, (_, code: string) => fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from '@jest/globals';
+import type { Citation } from '../types/index.js';
+import { extractCitations } from './fileContext.js';
+
+const sources: Citation[] = [1, 2, 3].map(marker => ({
+  marker,
+  fileId: `file-${marker}`,
+  fileName: `source-${marker}.pdf`,
+  snippet: `Snippet ${marker}`,
+}));
+
+function markers(content: string): number[] {
+  return extractCitations(content, sources).map(citation => citation.marker);
+}
+
+describe('extractCitations', () => {
+  it('lists cited sources in order of first appearance', () => {
+    expect(markers('売上は増加した[3]。一方で費用も増えた[1]。')).toEqual([3, 1]);
+  });
+
+  it('lists a source cited several times once', () => {
+    expect(markers('A [2], B [2] and C [1][2].')).toEqual([2, 1]);
+  });
+
+  it('ignores markers without a source', () => {
+    expect(markers('See [0], [4] and [12], but also [2].')).toEqual([2]);
+  });
+
+  it('reads markers next to punctuation and parentheses', () => {
+    expect(markers('(see [1]).\n「詳細は[2]」、[3]:')).toEqual([1, 2, 3]);
+  });
+
+  it('does not read other bracketed text as markers', () => {
+    expect(markers('Use arr[i], [1a], [ 1 ], [1.5] or [-2].')).toEqual([]);
+  });
+
+  it('returns nothing for an answer without markers', () => {
+    expect(extractCitations('No sources were needed.', sources)).toEqual([]);
+  });
+});
@@ -0,0 +1,144 @@
+import type { AuthPrincipal, Citation, FileRecord } from '../types/index.js';
+import { ForbiddenError, canAccessFile } from './permissions.js';
+import { getFileRecord, listAccessibleFilesPage } from './files.js';
+import { loadFileText } from './fileText.js';
+import { retrieveChunks } from './retrieval.js';
+import { estimateTokens } from './tokens.js';
+import { describeTableSchema } from './tabular.js';
+
+// Attachments up to this size (all together) are included whole
+const ATTACHMENT_TOKEN_BUDGET = 8000;
+// Budget and count for chunks retrieved from larger files / knowledge base
+const RETRIEVAL_TOKEN_BUDGET = 6000;
+const RETRIEVAL_TOP_K = 8;
+// Most recent knowledge base files searched on each turn
+const MAX_KNOWLEDGE_BASE_FILES = 20;
+// Longest snippet returned with a citation
+const SNIPPET_MAX_CHARS = 1000;
+
+export interface FileContext {
+  prompt: string;         // numbered source sections; empty when no context
+  sources: Citation[];    // one per section, marker = section number
+}
+
+function toSnippet(text: string): string {
+  return text.length > SNIPPET_MAX_CHARS ? `${text.slice(0, SNIPPET_MAX_CHARS)}…` : text;
+}
+
+// Resolve the selected files, checking access. Files that are missing or not
+// yet ingested are skipped.
+async function loadSelectedFiles(principal: AuthPrincipal, fileIds: string[]): Promise<FileRecord[]> {
+  const files: FileRecord[] = [];
+  for (const fileId of fileIds) {
+    const file = await getFileRecord(fileId);
+    if (!file) continue;
+
+    if (!canAccessFile(file, principal)) {
+      throw new ForbiddenError(`Access denied to file: ${fileId}`);
+    }
+    if (file.status !== 'ready') {
+      console.warn(`File ${fileId} is not ready (status: ${file.status})`);
+      continue;
+    }
+    files.push(file);
+  }
+  return files;
+}
+
+// Knowledge base files searched for a turn: the most recent ones the user can
+// access that are not already selected
+async function loadKnowledgeBase(principal: AuthPrincipal, fileIds: string[]): Promise<FileRecord[]> {
+  const page = await listAccessibleFilesPage(principal, {
+    category: 'knowledge_base',
+    limit: MAX_KNOWLEDGE_BASE_FILES,
+  });
+  return page.items.filter(file => file.status === 'ready' && !fileIds.includes(file.fileId));
+}
+
+// Build the file context for one chat turn: small attachments in full, plus
+// the chunks of larger files, RAG sources and the knowledge base that are most
+// relevant to the query. Each section is numbered so the answer can cite it.
+// Nothing is searched for an empty query.
+export async function buildFileContext(
+  principal: AuthPrincipal,
+  fileIds: string[],
+  query: string
+): Promise<FileContext> {
+  const selected = await loadSelectedFiles(principal, fileIds);
+  const knowledgeBase = query.trim() ? await loadKnowledgeBase(principal, fileIds) : [];
+
+  const wholeFiles: { file: FileRecord; text: string }[] = [];
+  const retrievalFiles: FileRecord[] = [...knowledgeBase];
+  let attachmentTokens = 0;
+
+  for (const file of selected) {
+    if (file.category !== 'chat_attachment') {
+      retrievalFiles.push(file);
+      continue;
+    }
+
+    const text = await loadFileText(file);
+    if (!text) continue;
+
+    const tokens = estimateTokens(text);
+    if (attachmentTokens + tokens <= ATTACHMENT_TOKEN_BUDGET) {
+      attachmentTokens += tokens;
+      wholeFiles.push({ file, text });
+    } else {
+      retrievalFiles.push(file);
+    }
+  }
+
+  const chunks = retrievalFiles.length > 0 && query.trim()
+    ? await retrieveChunks(retrievalFiles, query, {
+        topK: RETRIEVAL_TOP_K,
+        tokenBudget: RETRIEVAL_TOKEN_BUDGET,
+      })
+    : [];
+
+  const sections: string[] = [];
+  const sources: Citation[] = [];
+  for (const { file, text } of wholeFiles) {
+    const marker = sources.length + 1;
+    const schema = file.tableSchema ? `列の構成:\n${describeTableSchema(file.tableSchema)}\n\n` : '';
+    sections.push(`--- [${marker}] ファイル: ${file.fileName} ---\n${schema}${text}\n--- [${marker}] 終了 ---`);
+    sources.push({ marker, fileId: file.fileId, fileName: file.fileName, snippet: toSnippet(text) });
+  }
+  for (const { file, chunk } of chunks) {
+    const marker = sources.length + 1;
+    const location = chunk.page ? ` (p.${chunk.page})` : '';
+    sections.push(`--- [${marker}] 抜粋: ${file.fileName}${location} ---\n${chunk.text}\n--- [${marker}] 終了 ---`);
+    sources.push({
+      marker,
+      fileId: file.fileId,
+      fileName: file.fileName,
+      chunkIndex: chunk.index,
+      ...(chunk.page ? { page: chunk.page } : {}),
+      snippet: toSnippet(chunk.text),
+    });
+  }
+
+  // Excerpts of a table lack its header row; give the column schema once
+  const excerptedTables = new Map<string, FileRecord>();
+  for (const { file } of chunks) {
+    if (file.tableSchema) excerptedTables.set(file.fileId, file);
+  }
+  for (const file of excerptedTables.values()) {
+    sections.push(`--- 表の構成: ${file.fileName} ---\n${describeTableSchema(file.tableSchema!)}\n--- 終了 ---`);
+  }
+
+  return { prompt: sections.join('\n\n'), sources };
+}
+
+// Citations for the [n] markers that actually appear in an answer, in order
+// of first appearance
+export function extractCitations(content: string, sources: Citation[]): Citation[] {
+  const cited: Citation[] = [];
+  for (const match of content.matchAll(/\[(\d+)\]/g)) {
+    const source = sources.find(s => s.marker === Number(match[1]));
+    if (source && !cited.includes(source)) {
+      cited.push(source);
+    }
+  }
+  return cited;
+}
@@ -0,0 +1,162 @@
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import type { FileRecord } from '../types/index.js';
+import { extractText } from './extraction.js';
+import { decodeText, parseTables, type ParsedTables } from './tabular.js';
+
+const s3 = new S3Client({});
+const ddbClient = new DynamoDBClient({});
+const ddb = DynamoDBDocumentClient.from(ddbClient);
+
+const BUCKET_NAME = process.env.FILES_BUCKET || '';
+const TABLE_NAME = process.env.MAIN_TABLE || '';
+
+// Prefix for uploaded originals; new objects here are picked up by the
+// ingestion worker. Key layout: uploads/{org}/{company}/{user}/{fileId}/{name}
+export const UPLOADS_PREFIX = 'uploads/';
+
+// Extracted text larger than this is stored in S3 instead of on the
+// DynamoDB item (items are limited to 400KB)
+const INLINE_TEXT_LIMIT_BYTES = 100 * 1024;
+
+function getTextS3Key(fileId: string): string {
+  return `extracted/${fileId}.txt`;
+}
+
+// File id from an object key under UPLOADS_PREFIX, or null for other keys
+export function getFileIdFromKey(key: string): string | null {
+  if (!key.startsWith(UPLOADS_PREFIX)) return null;
+  const segments = key.slice(UPLOADS_PREFIX.length).split('/');
+  return segments.length >= 5 ? decodeURIComponent(segments[3]) : null;
+}
+
+export async function readObject(key: string): Promise<Buffer | null> {
+  const s3Response = await s3.send(new GetObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: key,
+  }));
+
+  const bodyStream = s3Response.Body;
+  if (!bodyStream) return null;
+
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of bodyStream as AsyncIterable<Uint8Array>) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Extract text from the file's contents and record the result on the file
+// item: status moves processing -> ready, or -> error with errorMessage.
+// CSV / XLSX files also get their column schema recorded. Returns the updated
+// record.
+export async function processFileText(file: FileRecord, buffer: Buffer): Promise<FileRecord> {
+  const key = { PK: `FILE#${file.fileId}`, SK: 'META' };
+
+  await ddb.send(new UpdateCommand({
+    TableName: TABLE_NAME,
+    Key: key,
+    UpdateExpression: 'SET #status = :status REMOVE errorMessage',
+    ExpressionAttributeNames: { '#status': 'status' },
+    ExpressionAttributeValues: { ':status': 'processing' },
+  }));
+
+  try {
+    const { text, tableSchema } = await extractText(buffer, file.fileType, file.fileName);
+
+    if (tableSchema) {
+      await ddb.send(new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: key,
+        UpdateExpression: 'SET tableSchema = :tableSchema',
+        ExpressionAttributeValues: { ':tableSchema': tableSchema },
+      }));
+      file = { ...file, tableSchema };
+    }
+
+    if (Buffer.byteLength(text, 'utf-8') > INLINE_TEXT_LIMIT_BYTES) {
+      const textS3Key = getTextS3Key(file.fileId);
+      await s3.send(new PutObjectCommand({
+        Bucket: BUCKET_NAME,
+        Key: textS3Key,
+        Body: text,
+        ContentType: 'text/plain; charset=utf-8',
+      }));
+
+      await ddb.send(new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: key,
+        UpdateExpression: 'SET #status = :status, textS3Key = :textS3Key REMOVE extractedText',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':status': 'ready', ':textS3Key': textS3Key },
+      }));
+
+      return { ...file, status: 'ready', textS3Key, extractedText: undefined, errorMessage: undefined };
+    }
+
+    await ddb.send(new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: key,
+      UpdateExpression: 'SET #status = :status, extractedText = :text REMOVE textS3Key',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':status': 'ready', ':text': text },
+    }));
+
+    return { ...file, status: 'ready', extractedText: text, textS3Key: undefined, errorMessage: undefined };
+  } catch (error) {
+    console.error(`Text extraction failed for ${file.fileId}:`, error);
+    const errorMessage = error instanceof Error ? error.message : 'Text extraction failed';
+
+    await ddb.send(new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: key,
+      UpdateExpression: 'SET #status = :status, errorMessage = :errorMessage',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':status': 'error', ':errorMessage': errorMessage },
+    }));
+
+    return { ...file, status: 'error', errorMessage };
+  }
+}
+
+// Load the extracted text of a file. Returns null when no text is available
+// (still processing, extraction failed); raw binary content is never returned.
+export async function loadFileText(file: FileRecord): Promise<string | null> {
+  if (file.extractedText) {
+    return file.extractedText;
+  }
+
+  if (file.textS3Key) {
+    const text = await readObject(file.textS3Key);
+    return text ? text.toString('utf-8') : null;
+  }
+
+  // Plain-text files uploaded before extraction was recorded
+  if (file.status === 'ready' && (file.fileType === 'txt' || file.fileType === 'csv')) {
+    const content = await readObject(file.s3Key);
+    if (!content) return null;
+    return file.fileType === 'csv' ? decodeText(content).text : content.toString('utf-8');
+  }
+
+  return null;
+}
+
+// Parse the original of a CSV / XLSX file into tables
+export async function loadFileTables(file: FileRecord): Promise<ParsedTables> {
+  const content = await readObject(file.s3Key);
+  if (!content) {
+    throw new Error(`File content not found: ${file.fileId}`);
+  }
+  return parseTables(content, file.fileType, file.fileName);
+}
+
+// Remove stored extracted text along with the file
+export async function deleteFileText(file: FileRecord): Promise<void> {
+  if (!file.textS3Key) return;
+
+  await s3.send(new DeleteObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: file.textS3Key,
+  }));
+}
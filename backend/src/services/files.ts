@@ -0,0 +1,147 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import type { AuthPrincipal, FileCategory, FileRecord } from '../types/index.js';
+import { canAccessFile } from './permissions.js';
+import { decodeCursor, encodeCursor, DEFAULT_PAGE_SIZE, type Page } from './pagination.js';
+
+const ddbClient = new DynamoDBClient({});
+const ddb = DynamoDBDocumentClient.from(ddbClient);
+
+const TABLE_NAME = process.env.MAIN_TABLE || '';
+
+// Get a file record (callers check access)
+export async function getFileRecord(fileId: string): Promise<FileRecord | null> {
+  const result = await ddb.send(new GetCommand({
+    TableName: TABLE_NAME,
+    Key: {
+      PK: `FILE#${fileId}`,
+      SK: 'META',
+    },
+  }));
+
+  return (result.Item as FileRecord) || null;
+}
+
+// Sources a user's accessible files come from, each newest first: their own
+// files (GSI1) and files shared system-wide, with their organization or with
+// their company (GSI2)
+interface FileSource {
+  name: 'own' | 'system' | 'organization' | 'company';
+  indexName: 'GSI1' | 'GSI2';
+  partitionKey: string;
+}
+
+// Per source: where to continue (the last returned item's key), or null once
+// the source is exhausted. Sources not listed start from the top.
+type FileCursor = Partial<Record<FileSource['name'], Record<string, unknown> | null>>;
+
+function fileSources(principal: AuthPrincipal): FileSource[] {
+  return [
+    { name: 'own', indexName: 'GSI1', partitionKey: `USER#${principal.userId}` },
+    { name: 'system', indexName: 'GSI2', partitionKey: 'VISIBILITY#system' },
+    ...(principal.organizationId
+      ? [{ name: 'organization' as const, indexName: 'GSI2' as const, partitionKey: `ORG#${principal.organizationId}` }]
+      : []),
+    ...(principal.companyId
+      ? [{ name: 'company' as const, indexName: 'GSI2' as const, partitionKey: `COMPANY#${principal.companyId}` }]
+      : []),
+  ];
+}
+
+function indexKey(file: FileRecord, source: FileSource): Record<string, unknown> {
+  return source.indexName === 'GSI1'
+    ? { PK: file.PK, SK: file.SK, GSI1PK: file.GSI1PK, GSI1SK: file.GSI1SK }
+    : { PK: file.PK, SK: file.SK, GSI2PK: file.GSI2PK, GSI2SK: file.GSI2SK };
+}
+
+// One merge round: read up to `limit` files (of the category, when given)
+// from every source that is not exhausted, merge them newest first, keep the
+// first `limit` and move each source's cursor past the files it contributed
+async function readFileRound(
+  principal: AuthPrincipal,
+  cursor: FileCursor,
+  limit: number,
+  category?: FileCategory
+): Promise<FileRecord[]> {
+  const candidates: { file: FileRecord; source: FileSource }[] = [];
+  const exhausted = new Set<FileSource['name']>();
+  // Where each source's query stopped; with a category filter this can be
+  // past the last file it returned
+  const lastEvaluated = new Map<FileSource['name'], Record<string, unknown>>();
+
+  const sources = fileSources(principal).filter(source => cursor[source.name] !== null);
+  await Promise.all(sources.map(async (source) => {
+    const result = await ddb.send(new QueryCommand({
+      TableName: TABLE_NAME,
+      IndexName: source.indexName,
+      KeyConditionExpression: `${source.indexName}PK = :pk AND begins_with(${source.indexName}SK, :sk)`,
+      ...(category ? {
+        FilterExpression: '#category = :category',
+        ExpressionAttributeNames: { '#category': 'category' },
+      } : {}),
+      ExpressionAttributeValues: {
+        ':pk': source.partitionKey,
+        ':sk': 'FILE#',
+        ...(category ? { ':category': category } : {}),
+      },
+      ScanIndexForward: false,
+      Limit: limit,
+      ExclusiveStartKey: cursor[source.name] || undefined,
+    }));
+    candidates.push(...((result.Items || []) as FileRecord[]).map(file => ({ file, source })));
+    if (result.LastEvaluatedKey) {
+      lastEvaluated.set(source.name, result.LastEvaluatedKey);
+    } else {
+      exhausted.add(source.name);
+    }
+  }));
+
+  // Merge on each source's own sort key (the upload or sharing time). The
+  // sort is stable, so files of one source keep the order its cursor follows.
+  const sortKey = ({ file, source }: { file: FileRecord; source: FileSource }) =>
+    (source.indexName === 'GSI1' ? file.GSI1SK : file.GSI2SK) || '';
+  candidates.sort((a, b) => sortKey(b).localeCompare(sortKey(a)));
+  const taken = candidates.slice(0, limit);
+
+  for (const source of sources) {
+    const fromSource = taken.filter(candidate => candidate.source === source);
+    const allTaken = fromSource.length === candidates.filter(candidate => candidate.source === source).length;
+    if (allTaken && exhausted.has(source.name)) {
+      cursor[source.name] = null;
+    } else if (allTaken) {
+      // Continue after the files the filter skipped as well
+      cursor[source.name] = lastEvaluated.get(source.name);
+    } else if (fromSource.length > 0) {
+      cursor[source.name] = indexKey(fromSource[fromSource.length - 1].file, source);
+    }
+  }
+
+  // The caller's own files shared with their tenant also appear in a shared
+  // source; they are listed through the "own" source only
+  return taken
+    .filter(({ file, source }) => source.name === 'own' || file.userId !== principal.userId)
+    .map(({ file }) => file);
+}
+
+// One page of the files accessible to the user, newest first
+export async function listAccessibleFilesPage(
+  principal: AuthPrincipal,
+  options: { category?: FileCategory; limit?: number; nextToken?: string } = {}
+): Promise<Page<FileRecord>> {
+  const limit = options.limit || DEFAULT_PAGE_SIZE;
+  const cursor = decodeCursor<FileCursor>(options.nextToken) || {};
+  const isDone = () => fileSources(principal).every(source => cursor[source.name] === null);
+
+  // Files the user cannot see are dropped after reading, and the category
+  // filter may leave a round short, so keep reading until the page is full
+  const items: FileRecord[] = [];
+  while (items.length < limit && !isDone()) {
+    const files = await readFileRound(principal, cursor, limit - items.length, options.category);
+    items.push(...files.filter(file => canAccessFile(file, principal)));
+  }
+
+  return {
+    items,
+    ...(isDone() ? {} : { nextToken: encodeCursor(cursor) }),
+  };
+}
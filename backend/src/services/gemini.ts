@@ -1,5 +1,5 @@
 import { GoogleGenAI, type Content, type Part } from '@google/genai';
-import type { ChatMessage, ChatRequest, ChatResponse, GeminiModel } from '../types/index.js';
+import type { ChatMessage, ChatRequest, ChatResponse, ChatStreamEvent, GeminiModel } from '../types/index.js';
 
 const genai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || '' });
 
@@ -60,3 +60,47 @@ export async function invokeGemini(request: ChatRequest): Promise<ChatResponse>
       : undefined,
   };
 }
+
+// Stream a response token-by-token via generateContentStream
+export async function* streamGemini(request: ChatRequest): AsyncGenerator<ChatStreamEvent> {
+  const modelId = request.model as GeminiModel;
+
+  const stream = await genai.models.generateContentStream({
+    model: modelId,
+    contents: convertToGeminiContents(request.messages),
+    config: {
+      maxOutputTokens: request.maxTokens || 8192,
+      temperature: request.temperature || 0.7,
+      systemInstruction: request.systemPrompt,
+    },
+  });
+
+  let content = '';
+  let usage: ChatResponse['usage'];
+
+  for await (const chunk of stream) {
+    const text = chunk.text;
+    if (text) {
+      content += text;
+      yield { type: 'delta', text };
+    }
+
+    // Usage metadata is cumulative; the last chunk carries the totals
+    if (chunk.usageMetadata) {
+      usage = {
+        inputTokens: chunk.usageMetadata.promptTokenCount || 0,
+        outputTokens: chunk.usageMetadata.candidatesTokenCount || 0,
+      };
+    }
+  }
+
+  yield {
+    type: 'done',
+    response: {
+      content,
+      model: request.model,
+      provider: 'gemini',
+      usage,
+    },
+  };
+}
@@ -0,0 +1,181 @@
+import { createHmac, generateKeyPairSync, sign, type JsonWebKey, type KeyObject } from 'crypto';
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { createJwtVerifier } from './jwt.js';
+
+const ISSUER = 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_Test';
+const CLIENT_ID = 'test-client';
+
+type Jwk = JsonWebKey & { kid?: string };
+
+function createKey(kid: string) {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwk: Jwk = { ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' };
+  return { kid, privateKey, jwk };
+}
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function signToken(privateKey: KeyObject, header: object, claims: object): string {
+  const body = `${encode(header)}.${encode(claims)}`;
+  return `${body}.${sign('RSA-SHA256', Buffer.from(body), privateKey).toString('base64url')}`;
+}
+
+function idClaims(overrides: object = {}) {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    sub: 'user-1',
+    iss: ISSUER,
+    aud: CLIENT_ID,
+    token_use: 'id',
+    iat: now,
+    exp: now + 3600,
+    ...overrides,
+  };
+}
+
+function createVerifier(keySet: () => Jwk[]) {
+  const fetchJwks = jest.fn(async () => ({ keys: keySet() }));
+  const verify = createJwtVerifier({
+    issuer: ISSUER,
+    clientId: CLIENT_ID,
+    jwksUri: 'https://example.test/jwks.json',
+    fetchJwks,
+  });
+  return { verify, fetchJwks };
+}
+
+const key = createKey('key-1');
+const otherKey = createKey('key-2');
+
+describe('createJwtVerifier', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('accepts a valid ID token', async () => {
+    const { verify } = createVerifier(() => [key.jwk]);
+    const token = signToken(key.privateKey, { alg: 'RS256', kid: key.kid }, idClaims());
+
+    await expect(verify(token)).resolves.toMatchObject({ sub: 'user-1', token_use: 'id' });
+  });
+
+  it('accepts a valid access token', async () => {
+    const { verify } = createVerifier(() => [key.jwk]);
+    const claims = idClaims({ token_use: 'access', aud: undefined, client_id: CLIENT_ID });
+    const token = signToken(key.privateKey, { alg: 'RS256', kid: key.kid }, claims);
+
+    await expect(verify(token)).resolves.toMatchObject({ sub: 'user-1', token_use: 'access' });
+  });
+
+  it('rejects a token signed with another key', async () => {
+    const { verify } = createVerifier(() => [key.jwk]);
+    const token = signToken(otherKey.privateKey, { alg: 'RS256', kid: key.kid }, idClaims());
+
+    await expect(verify(token)).rejects.toThrow('Invalid token signature');
+  });
+
+  it('rejects a token whose claims were changed after signing', async () => {
+    const { verify } = createVerifier(() => [key.jwk]);
+    const token = signToken(key.privateKey, { alg: 'RS256', kid: key.kid }, idClaims());
+    const [header, , signature] = token.split('.');
+    const forged = `${header}.${encode(idClaims({ sub: 'admin' }))}.${signature}`;
+
+    await expect(verify(forged)).rejects.toThrow('Invalid token signature');
+  });
+
+  it('rejects the wrong issuer', async () => {
+    const { verify } = createVerifier(() => [key.jwk]);
+    const claims = idClaims({ iss: 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_Other' });
+    const token = signToken(key.privateKey, { alg: 'RS256', kid: key.kid }, claims);
+
+    await expect(verify(token)).rejects.toThrow('Invalid token issuer');
+  });
+
+  it('rejects an ID token for another client', async () => {
+    const { verify } = createVerifier(() => [key.jwk]);
+    const token = signToken(key.privateKey, { alg: 'RS256', kid: key.kid }, idClaims({ aud: 'other-client' }));
+
+    await expect(verify(token)).rejects.toThrow('Invalid token audience');
+  });
+
+  it('rejects an access token for another client', async () => {
+    const { verify } = createVerifier(() => [key.jwk]);
+    const claims = idClaims({ token_use: 'access', aud: undefined, client_id: 'other-client' });
+    const token = signToken(key.privateKey, { alg: 'RS256', kid: key.kid }, claims);
+
+    await expect(verify(token)).rejects.toThrow('Invalid token client');
+  });
+
+  it('rejects an expired token', async () => {
+    const { verify } = createVerifier(() => [key.jwk]);
+    const now = Math.floor(Date.now() / 1000);
+    const token = signToken(key.privateKey, { alg: 'RS256', kid: key.kid }, idClaims({
+      iat: now - 7200,
+      exp: now - 3600,
+    }));
+
+    await expect(verify(token)).rejects.toThrow('Token expired');
+  });
+
+  it.each([
+    ['without an issue time', { iat: undefined }],
+    ['with a non-numeric issue time', { iat: '1700000000' }],
+  ])('rejects a token %s', async (_label, overrides) => {
+    const { verify } = createVerifier(() => [key.jwk]);
+    const token = signToken(key.privateKey, { alg: 'RS256', kid: key.kid }, idClaims(overrides));
+
+    await expect(verify(token)).rejects.toThrow('Token has no issue time');
+  });
+
+  it('rejects an unsigned token (alg: none)', async () => {
+    const { verify, fetchJwks } = createVerifier(() => [key.jwk]);
+    const token = `${encode({ alg: 'none', kid: key.kid })}.${encode(idClaims())}.`;
+
+    await expect(verify(token)).rejects.toThrow('Unsupported token algorithm: none');
+    expect(fetchJwks).not.toHaveBeenCalled();
+  });
+
+  it('rejects an HS256 token signed with the public key as secret', async () => {
+    const { verify } = createVerifier(() => [key.jwk]);
+    const body = `${encode({ alg: 'HS256', kid: key.kid })}.${encode(idClaims())}`;
+    const signature = createHmac('sha256', JSON.stringify(key.jwk)).update(body).digest('base64url');
+
+    await expect(verify(`${body}.${signature}`)).rejects.toThrow('Unsupported token algorithm: HS256');
+  });
+
+  it('rejects a malformed token', async () => {
+    const { verify } = createVerifier(() => [key.jwk]);
+
+    await expect(verify('not-a-token')).rejects.toThrow('Malformed token');
+  });
+
+  it('refetches the key set for an unknown kid after the refetch interval', async () => {
+    let keys = [key.jwk];
+    const { verify, fetchJwks } = createVerifier(() => keys);
+    await verify(signToken(key.privateKey, { alg: 'RS256', kid: key.kid }, idClaims()));
+    expect(fetchJwks).toHaveBeenCalledTimes(1);
+
+    // The pool rotates to a new key
+    keys = [key.jwk, otherKey.jwk];
+    const rotated = signToken(otherKey.privateKey, { alg: 'RS256', kid: otherKey.kid }, idClaims());
+
+    // Within the refetch interval the cached key set is used
+    await expect(verify(rotated)).rejects.toThrow('Unknown signing key');
+    expect(fetchJwks).toHaveBeenCalledTimes(1);
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 2 * 60 * 1000);
+    await expect(verify(rotated)).resolves.toMatchObject({ sub: 'user-1' });
+    expect(fetchJwks).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects a kid that is still unknown after refetching', async () => {
+    const { verify, fetchJwks } = createVerifier(() => [key.jwk]);
+    const token = signToken(otherKey.privateKey, { alg: 'RS256', kid: otherKey.kid }, idClaims());
+
+    await expect(verify(token)).rejects.toThrow('Unknown signing key');
+    expect(fetchJwks).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,189 @@
+import { createPublicKey, verify, type JsonWebKey, type KeyObject } from 'crypto';
+
+const USER_POOL_ID = process.env.USER_POOL_ID || '';
+const CLIENT_ID = process.env.USER_POOL_CLIENT_ID || '';
+
+// How long fetched signing keys are trusted before refetching the JWKS
+const JWKS_CACHE_TTL_MS = 60 * 60 * 1000;
+// Minimum interval between refetches triggered by an unknown `kid`
+const JWKS_REFETCH_INTERVAL_MS = 60 * 1000;
+// Allowed clock skew when checking exp / iat
+const CLOCK_SKEW_SECONDS = 30;
+
+// Claims present in Cognito ID and access tokens
+export interface CognitoTokenClaims {
+  sub: string;
+  iss: string;
+  exp: number;
+  iat: number;
+  token_use: 'id' | 'access';
+  aud?: string;         // ID token only
+  client_id?: string;   // Access token only
+  username?: string;    // Access token only
+  origin_jti?: string;  // Shared by all tokens of one sign-in
+  email?: string;
+  name?: string;
+  'custom:role'?: string;
+  'custom:orgId'?: string;
+  'custom:compId'?: string;
+  'custom:deptId'?: string;
+  [claim: string]: unknown;
+}
+
+export interface JwtVerifierOptions {
+  issuer: string;
+  clientId: string;
+  jwksUri: string;
+  // Override for fetching the key set (e.g. a local keypair in tests)
+  fetchJwks?: (jwksUri: string) => Promise<{ keys: (JsonWebKey & { kid?: string })[] }>;
+}
+
+interface JwtHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+}
+
+async function defaultFetchJwks(jwksUri: string): Promise<{ keys: (JsonWebKey & { kid?: string })[] }> {
+  const response = await fetch(jwksUri);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch JWKS: HTTP ${response.status}`);
+  }
+  return response.json() as Promise<{ keys: (JsonWebKey & { kid?: string })[] }>;
+}
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8')) as T;
+}
+
+// Create a verifier bound to one issuer / app client. Signing keys are cached
+// per `kid` and refreshed when the cache expires or an unknown key appears.
+export function createJwtVerifier(options: JwtVerifierOptions) {
+  const fetchJwks = options.fetchJwks || defaultFetchJwks;
+  let keys = new Map<string, KeyObject>();
+  let fetchedAt = 0;
+
+  async function refreshKeys(): Promise<void> {
+    const jwks = await fetchJwks(options.jwksUri);
+    const nextKeys = new Map<string, KeyObject>();
+    for (const jwk of jwks.keys) {
+      if (jwk.kid && jwk.kty === 'RSA') {
+        nextKeys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+      }
+    }
+    keys = nextKeys;
+    fetchedAt = Date.now();
+  }
+
+  async function getKey(kid: string): Promise<KeyObject> {
+    const now = Date.now();
+    if (now - fetchedAt > JWKS_CACHE_TTL_MS) {
+      await refreshKeys();
+    } else if (!keys.has(kid) && now - fetchedAt > JWKS_REFETCH_INTERVAL_MS) {
+      // Keys may have been rotated since the last fetch
+      await refreshKeys();
+    }
+
+    const key = keys.get(kid);
+    if (!key) {
+      throw new Error('Unknown signing key');
+    }
+    return key;
+  }
+
+  return async function verifyToken(token: string): Promise<CognitoTokenClaims> {
+    const segments = token.split('.');
+    if (segments.length !== 3) {
+      throw new Error('Malformed token');
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = segments;
+
+    let header: JwtHeader;
+    let claims: CognitoTokenClaims;
+    try {
+      header = decodeSegment<JwtHeader>(encodedHeader);
+      claims = decodeSegment<CognitoTokenClaims>(encodedPayload);
+    } catch {
+      throw new Error('Malformed token');
+    }
+
+    if (header.alg !== 'RS256' || !header.kid) {
+      throw new Error(`Unsupported token algorithm: ${header.alg}`);
+    }
+
+    // Signature
+    const key = await getKey(header.kid);
+    const signatureValid = verify(
+      'RSA-SHA256',
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      key,
+      Buffer.from(encodedSignature, 'base64url')
+    );
+    if (!signatureValid) {
+      throw new Error('Invalid token signature');
+    }
+
+    // Issuer
+    if (claims.iss !== options.issuer) {
+      throw new Error('Invalid token issuer');
+    }
+
+    // Audience: ID tokens carry `aud`, access tokens carry `client_id`
+    if (claims.token_use === 'id') {
+      if (claims.aud !== options.clientId) {
+        throw new Error('Invalid token audience');
+      }
+    } else if (claims.token_use === 'access') {
+      if (claims.client_id !== options.clientId) {
+        throw new Error('Invalid token client');
+      }
+    } else {
+      throw new Error('Invalid token use');
+    }
+
+    // Expiry
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < nowSeconds) {
+      throw new Error('Token expired');
+    }
+    // The issue time is compared with the user's last global sign-out
+    if (typeof claims.iat !== 'number') {
+      throw new Error('Token has no issue time');
+    }
+    if (claims.iat - CLOCK_SKEW_SECONDS > nowSeconds) {
+      throw new Error('Token issued in the future');
+    }
+
+    if (!claims.sub) {
+      throw new Error('Token has no subject');
+    }
+
+    return claims;
+  };
+}
+
+// Region is the prefix of the user pool id, e.g. "us-east-1_AbCdEf"
+function getCognitoIssuer(userPoolId: string): string {
+  const region = userPoolId.split('_')[0];
+  return `https://cognito-idp.${region}.amazonaws.com/${userPoolId}`;
+}
+
+let cognitoVerifier: ReturnType<typeof createJwtVerifier> | null = null;
+
+// Verify a Cognito ID or access token issued for this app's user pool client
+export async function verifyCognitoToken(token: string): Promise<CognitoTokenClaims> {
+  if (!USER_POOL_ID || !CLIENT_ID) {
+    throw new Error('Cognito user pool is not configured');
+  }
+
+  if (!cognitoVerifier) {
+    const issuer = getCognitoIssuer(USER_POOL_ID);
+    cognitoVerifier = createJwtVerifier({
+      issuer,
+      clientId: CLIENT_ID,
+      jwksUri: `${issuer}/.well-known/jwks.json`,
+    });
+  }
+
+  return cognitoVerifier(token);
+}
@@ -0,0 +1,36 @@
+import type { ChatRequest, ChatResponse, ChatStreamEvent } from '../types/index.js';
+import { getModelInfo } from '../config/models.js';
+import { invokeBedrock, streamBedrock } from './bedrock.js';
+import { invokeGemini, streamGemini } from './gemini.js';
+
+// Route a chat request to the provider that serves the model
+export async function invokeModel(request: ChatRequest): Promise<ChatResponse> {
+  const modelInfo = getModelInfo(request.model);
+  if (!modelInfo) {
+    throw new Error(`Unknown model: ${request.model}`);
+  }
+
+  if (modelInfo.provider === 'bedrock') {
+    return invokeBedrock(request);
+  }
+  if (modelInfo.provider === 'gemini') {
+    return invokeGemini(request);
+  }
+  throw new Error(`Unsupported provider: ${modelInfo.provider}`);
+}
+
+// Streaming variant of invokeModel; the final event carries the full response
+export function streamModel(request: ChatRequest): AsyncGenerator<ChatStreamEvent> {
+  const modelInfo = getModelInfo(request.model);
+  if (!modelInfo) {
+    throw new Error(`Unknown model: ${request.model}`);
+  }
+
+  if (modelInfo.provider === 'bedrock') {
+    return streamBedrock(request);
+  }
+  if (modelInfo.provider === 'gemini') {
+    return streamGemini(request);
+  }
+  throw new Error(`Unsupported provider: ${modelInfo.provider}`);
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import {
+  collectPages,
+  decodeCursor,
+  DEFAULT_PAGE_SIZE,
+  encodeCursor,
+  MAX_PAGE_SIZE,
+  PaginationError,
+  parseLimit,
+  type Page,
+} from './pagination.js';
+
+describe('cursors', () => {
+  it('round-trips a DynamoDB key through an opaque token', () => {
+    const key = { PK: 'USER#u-1', SK: 'CONV#2024-01-05T00:00:00.000Z#c-1', title: '売上レポート' };
+    const token = encodeCursor(key);
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(token)).toEqual(key);
+  });
+
+  it('treats a missing token as the first page', () => {
+    expect(decodeCursor(undefined)).toBeUndefined();
+    expect(decodeCursor('')).toBeUndefined();
+  });
+
+  it.each([
+    ['not base64 JSON', 'not-a-token'],
+    ['a JSON string', Buffer.from('"PK"').toString('base64url')],
+    ['JSON null', Buffer.from('null').toString('base64url')],
+  ])('rejects %s', (_label, token) => {
+    expect(() => decodeCursor(token)).toThrow(PaginationError);
+    expect(() => decodeCursor(token)).toThrow('Invalid nextToken');
+  });
+});
+
+describe('parseLimit', () => {
+  it('uses the default when no limit is given', () => {
+    expect(parseLimit(undefined)).toBe(DEFAULT_PAGE_SIZE);
+    expect(parseLimit('', 20)).toBe(20);
+  });
+
+  it('caps the limit at the maximum page size', () => {
+    expect(parseLimit('10')).toBe(10);
+    expect(parseLimit('100000')).toBe(MAX_PAGE_SIZE);
+  });
+
+  it.each(['0', '-5', '2.5', 'ten'])('rejects %j', (value) => {
+    expect(() => parseLimit(value)).toThrow(PaginationError);
+  });
+});
+
+describe('collectPages', () => {
+  it('follows next tokens until the last page', async () => {
+    const pages: Record<string, Page<number>> = {
+      first: { items: [1, 2], nextToken: 'a' },
+      a: { items: [3], nextToken: 'b' },
+      b: { items: [] },
+    };
+    const fetchPage = jest.fn(async (nextToken?: string) => pages[nextToken || 'first']);
+
+    await expect(collectPages(fetchPage)).resolves.toEqual([1, 2, 3]);
+    expect(fetchPage.mock.calls).toEqual([[undefined], ['a'], ['b']]);
+  });
+});
@@ -0,0 +1,56 @@
+// Cursor pagination for list endpoints. Continuation tokens are opaque to
+// clients: base64url-encoded JSON of whatever the list needs to resume
+// (usually a DynamoDB LastEvaluatedKey).
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+export interface Page<T> {
+  items: T[];
+  nextToken?: string;   // Omitted on the last page
+}
+
+// Malformed limit or continuation token (returned as 400)
+export class PaginationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaginationError';
+  }
+}
+
+export function encodeCursor(cursor: object): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf-8').toString('base64url');
+}
+
+export function decodeCursor<T extends object>(token: string | undefined): T | undefined {
+  if (!token) return undefined;
+  try {
+    const cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf-8'));
+    if (cursor && typeof cursor === 'object') return cursor as T;
+  } catch {
+    // Reported below
+  }
+  throw new PaginationError('Invalid nextToken');
+}
+
+// Page size from a query parameter, capped at MAX_PAGE_SIZE
+export function parseLimit(value: string | undefined, defaultLimit = DEFAULT_PAGE_SIZE): number {
+  if (!value) return defaultLimit;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new PaginationError('limit must be a positive integer');
+  }
+  return Math.min(limit, MAX_PAGE_SIZE);
+}
+
+// Every item of a paged list, for callers that need the whole set
+export async function collectPages<T>(fetchPage: (nextToken?: string) => Promise<Page<T>>): Promise<T[]> {
+  const items: T[] = [];
+  let nextToken: string | undefined;
+  do {
+    const page = await fetchPage(nextToken);
+    items.push(...page.items);
+    nextToken = page.nextToken;
+  } while (nextToken);
+  return items;
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from '@jest/globals';
+import type { AuthPrincipal, Conversation, FileRecord, FileVisibility, UserRole } from '../types/index.js';
+import {
+  canAccessConversation,
+  canAccessFile,
+  canModifyFile,
+  getAllowedVisibilities,
+} from './permissions.js';
+
+function principal(role: UserRole, overrides: Partial<AuthPrincipal> = {}): AuthPrincipal {
+  return {
+    userId: 'viewer',
+    email: 'viewer@example.com',
+    name: 'Viewer',
+    role,
+    organizationId: 'org-1',
+    companyId: 'company-1',
+    departmentId: 'dept-1',
+    ...overrides,
+  };
+}
+
+function file(visibility: FileVisibility, overrides: Partial<FileRecord> = {}): FileRecord {
+  return {
+    PK: 'FILE#file-1',
+    SK: 'META',
+    fileId: 'file-1',
+    fileName: 'report.pdf',
+    fileType: 'pdf',
+    mimeType: 'application/pdf',
+    s3Key: 'uploads/owner/file-1.pdf',
+    userId: 'owner',
+    createdByRole: 'user',
+    organizationId: 'org-1',
+    companyId: 'company-1',
+    departmentId: 'dept-1',
+    uploadedAt: '2024-01-05T00:00:00.000Z',
+    fileSize: 1024,
+    status: 'ready',
+    visibility,
+    category: 'knowledge_base',
+    ...overrides,
+  };
+}
+
+function conversation(overrides: Partial<Conversation> = {}): Conversation {
+  return {
+    PK: 'CONV#conv-1',
+    SK: 'META',
+    conversationId: 'conv-1',
+    title: 'Budget',
+    userId: 'owner',
+    organizationId: 'org-1',
+    companyId: 'company-1',
+    departmentId: 'dept-1',
+    modelId: 'model',
+    createdAt: '2024-01-05T00:00:00.000Z',
+    updatedAt: '2024-01-05T00:00:00.000Z',
+    messageCount: 2,
+    totalInputTokens: 10,
+    totalOutputTokens: 20,
+    totalCost: 0.01,
+    ...overrides,
+  };
+}
+
+describe('getAllowedVisibilities', () => {
+  it('widens the allowed visibilities with the role', () => {
+    expect(getAllowedVisibilities('user')).toEqual(['private']);
+    expect(getAllowedVisibilities('company_admin')).toEqual(['private', 'department', 'company']);
+    expect(getAllowedVisibilities('org_admin')).toEqual(['private', 'department', 'company', 'organization']);
+    expect(getAllowedVisibilities('system_admin')).toContain('system');
+  });
+
+  it('falls back to private for an unknown role', () => {
+    expect(getAllowedVisibilities('guest' as UserRole)).toEqual(['private']);
+  });
+});
+
+describe('canAccessFile', () => {
+  it('lets the owner and system admins read any file', () => {
+    expect(canAccessFile(file('private'), principal('user', { userId: 'owner' }))).toBe(true);
+    expect(canAccessFile(file('private', { organizationId: 'org-2' }), principal('system_admin'))).toBe(true);
+  });
+
+  it('keeps private files from everyone else, including tenant admins', () => {
+    expect(canAccessFile(file('private'), principal('user'))).toBe(false);
+    expect(canAccessFile(file('private'), principal('org_admin'))).toBe(false);
+  });
+
+  it('shares department files within the same department of the same company', () => {
+    expect(canAccessFile(file('department'), principal('user'))).toBe(true);
+    expect(canAccessFile(file('department'), principal('user', { departmentId: 'dept-2' }))).toBe(false);
+    expect(canAccessFile(file('department'), principal('user', { companyId: 'company-2' }))).toBe(false);
+  });
+
+  it('shares company and organization files within that tenant', () => {
+    expect(canAccessFile(file('company'), principal('user', { departmentId: 'dept-2' }))).toBe(true);
+    expect(canAccessFile(file('company'), principal('user', { companyId: 'company-2' }))).toBe(false);
+    expect(canAccessFile(file('organization'), principal('user', { companyId: 'company-2' }))).toBe(true);
+    expect(canAccessFile(file('organization'), principal('user', { organizationId: 'org-2' }))).toBe(false);
+  });
+
+  it('shares system files with everyone', () => {
+    expect(canAccessFile(file('system'), principal('user', { organizationId: 'org-2' }))).toBe(true);
+  });
+});
+
+describe('canModifyFile', () => {
+  it('allows only the owner and system admins', () => {
+    expect(canModifyFile(file('company'), principal('user', { userId: 'owner' }))).toBe(true);
+    expect(canModifyFile(file('company'), principal('system_admin'))).toBe(true);
+    expect(canModifyFile(file('company'), principal('company_admin'))).toBe(false);
+    expect(canModifyFile(file('company'), principal('user'))).toBe(false);
+  });
+});
+
+describe('canAccessConversation', () => {
+  it('lets the owner and system admins read a conversation', () => {
+    expect(canAccessConversation(conversation(), principal('user', { userId: 'owner' }))).toBe(true);
+    expect(canAccessConversation(conversation({ organizationId: 'org-2' }), principal('system_admin'))).toBe(true);
+  });
+
+  it('keeps other users out even in the same department', () => {
+    expect(canAccessConversation(conversation(), principal('user'))).toBe(false);
+  });
+
+  it('lets company and org admins read conversations in their tenant only', () => {
+    expect(canAccessConversation(conversation(), principal('company_admin'))).toBe(true);
+    expect(canAccessConversation(conversation(), principal('company_admin', { companyId: 'company-2' }))).toBe(false);
+    expect(canAccessConversation(conversation(), principal('org_admin', { companyId: 'company-2' }))).toBe(true);
+    expect(canAccessConversation(conversation(), principal('org_admin', { organizationId: 'org-2' }))).toBe(false);
+  });
+
+  it('does not match admins without a tenant to conversations without one', () => {
+    const untenanted = conversation({ organizationId: undefined, companyId: undefined });
+    const admin = { organizationId: undefined, companyId: undefined };
+
+    expect(canAccessConversation(untenanted, principal('company_admin', admin))).toBe(false);
+    expect(canAccessConversation(untenanted, principal('org_admin', admin))).toBe(false);
+  });
+});
@@ -0,0 +1,66 @@
+import type { AuthPrincipal, Conversation, FileRecord, FileVisibility, UserRole } from '../types/index.js';
+
+// Thrown when the caller is authenticated but not allowed to act; handlers map it to 403
+export class ForbiddenError extends Error {
+  constructor(message = 'Permission denied') {
+    super(message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+// Check what visibility levels a user can set based on their role
+export function getAllowedVisibilities(role: UserRole): FileVisibility[] {
+  const visibilityByRole: Record<UserRole, FileVisibility[]> = {
+    system_admin: ['private', 'department', 'company', 'organization', 'system'],
+    org_admin: ['private', 'department', 'company', 'organization'],
+    company_admin: ['private', 'department', 'company'],
+    user: ['private'],
+  };
+  return visibilityByRole[role] || ['private'];
+}
+
+// Check if user can access a file based on visibility
+export function canAccessFile(file: FileRecord, principal: AuthPrincipal): boolean {
+  // Owner can always access
+  if (file.userId === principal.userId) return true;
+
+  // System admins can access everything
+  if (principal.role === 'system_admin') return true;
+
+  switch (file.visibility) {
+    case 'private':
+      return false;
+    case 'department':
+      return file.departmentId === principal.departmentId && file.companyId === principal.companyId;
+    case 'company':
+      return file.companyId === principal.companyId;
+    case 'organization':
+      return file.organizationId === principal.organizationId;
+    case 'system':
+      return true;
+    default:
+      return false;
+  }
+}
+
+// Only the owner or a system admin can change or delete a file
+export function canModifyFile(file: FileRecord, principal: AuthPrincipal): boolean {
+  return file.userId === principal.userId || principal.role === 'system_admin';
+}
+
+// Conversation access mirrors the file model: the owner, company admins for
+// their company, org admins for their organization, and system admins
+export function canAccessConversation(conversation: Conversation, principal: AuthPrincipal): boolean {
+  if (conversation.userId === principal.userId) return true;
+
+  switch (principal.role) {
+    case 'system_admin':
+      return true;
+    case 'org_admin':
+      return !!conversation.organizationId && conversation.organizationId === principal.organizationId;
+    case 'company_admin':
+      return !!conversation.companyId && conversation.companyId === principal.companyId;
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { BatchGetCommand, DynamoDBDocumentClient, GetCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import type { AuthPrincipal } from '../types/index.js';
+import { ForbiddenError } from './permissions.js';
+import { checkQuota, QuotaExceededError } from './quotas.js';
+
+type Item = Record<string, unknown>;
+
+const SONNET = 'us.anthropic.claude-sonnet-4-5-20250929-v1:0';
+const OPUS = 'us.anthropic.claude-opus-4-5-20251101-v1:0';
+const MONTH = new Date().toISOString().substring(0, 7);
+
+const member: AuthPrincipal = {
+  userId: 'user-1',
+  email: 'user@example.com',
+  name: 'User',
+  role: 'user',
+  organizationId: 'org-1',
+  companyId: 'company-1',
+};
+
+// Items the stubbed table holds; reads from every service's client go here
+let items: Item[] = [];
+
+function findItem(key: Record<string, unknown>): Item | undefined {
+  return items.find(item => item.PK === key.PK && item.SK === key.SK);
+}
+
+function usage(SK: string, tokens: number): Item {
+  return { PK: `QUOTA#${MONTH}`, SK, tokens };
+}
+
+function seedTenant(options: { plan?: Item; orgLimit?: number; companyLimit?: number } = {}) {
+  items.push(
+    { PK: 'ORG#org-1', SK: 'META', plan: 'business', monthlyTokenLimit: options.orgLimit },
+    { PK: 'COMPANY#company-1', SK: 'META', GSI1SK: 'COMPANY#company-1', monthlyTokenLimit: options.companyLimit },
+  );
+  if (options.plan) {
+    items.push({ PK: 'PLAN#business', SK: 'META', plan: 'business', ...options.plan });
+  }
+}
+
+describe('checkQuota', () => {
+  let send: ReturnType<typeof jest.spyOn>;
+
+  beforeEach(() => {
+    items = [];
+    send = jest.spyOn(DynamoDBDocumentClient.prototype, 'send').mockImplementation((async (command: unknown) => {
+      if (command instanceof GetCommand) {
+        return { Item: findItem(command.input.Key!) };
+      }
+      if (command instanceof QueryCommand) {
+        const sk = command.input.ExpressionAttributeValues![':sk'];
+        return { Items: items.filter(item => item.GSI1SK === sk) };
+      }
+      if (command instanceof BatchGetCommand) {
+        const [[table, { Keys }]] = Object.entries(command.input.RequestItems!);
+        return { Responses: { [table]: Keys!.map(findItem).filter(Boolean) } };
+      }
+      throw new Error('Unexpected command');
+    }) as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('does not limit system admins', async () => {
+    await expect(checkQuota({ ...member, role: 'system_admin' }, OPUS)).resolves.toEqual({ warnings: [] });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('passes without warnings when no limits are configured', async () => {
+    seedTenant();
+    items.push(usage('USER#user-1', 1_000_000));
+
+    await expect(checkQuota(member, OPUS)).resolves.toEqual({ warnings: [] });
+  });
+
+  it('rejects a model the plan does not include', async () => {
+    seedTenant({ plan: { allowedModels: [SONNET] } });
+
+    await expect(checkQuota(member, SONNET)).resolves.toEqual({ warnings: [] });
+    await expect(checkQuota(member, OPUS)).rejects.toThrow(ForbiddenError);
+    await expect(checkQuota(member, OPUS)).rejects.toThrow(`Model ${OPUS} is not available on the business plan`);
+  });
+
+  it('warns for quotas at 80% or more', async () => {
+    seedTenant({ orgLimit: 1000, companyLimit: 500, plan: { userMonthlyTokenLimit: 100 } });
+    items.push(usage('ORG#org-1', 800), usage('COMPANY#company-1', 399), usage('USER#user-1', 90));
+
+    await expect(checkQuota(member, SONNET)).resolves.toEqual({
+      warnings: [
+        { scope: 'organization', used: 800, limit: 1000 },
+        { scope: 'user', used: 90, limit: 100 },
+      ],
+    });
+  });
+
+  it.each([
+    ['organization', 'ORG#org-1'],
+    ['company', 'COMPANY#company-1'],
+    ['user', 'USER#user-1'],
+  ])('rejects a used-up %s quota', async (scope, SK) => {
+    seedTenant({ orgLimit: 1000, companyLimit: 1000, plan: { userMonthlyTokenLimit: 1000 } });
+    items.push(usage(SK, 1000));
+
+    const error = await checkQuota(member, SONNET).catch((thrown: unknown) => thrown);
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error).toMatchObject({ scope, used: 1000, limit: 1000 });
+    expect((error as Error).message).toContain(`Monthly token quota for your ${scope} is used up (1,000 of 1,000 tokens)`);
+  });
+
+  it('applies the free plan to users outside an organization', async () => {
+    const individual: AuthPrincipal = { ...member, organizationId: undefined, companyId: undefined };
+    items.push({ PK: 'PLAN#free', SK: 'META', plan: 'free', userMonthlyTokenLimit: 50 }, usage('USER#user-1', 50));
+
+    await expect(checkQuota(individual, SONNET)).rejects.toMatchObject({ scope: 'user', limit: 50 });
+  });
+});
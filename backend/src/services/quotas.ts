@@ -0,0 +1,250 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  BatchGetCommand,
+  GetCommand,
+  PutCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import type {
+  AIModel,
+  AuthPrincipal,
+  MonthlyUsage,
+  OrganizationPlan,
+  PlanSettings,
+  QuotaScope,
+  QuotaWarning,
+  UpdatePlanSettingsRequest,
+} from '../types/index.js';
+import { getModelInfo } from '../config/models.js';
+import { ForbiddenError } from './permissions.js';
+import { getCompany, getOrganization, TenantValidationError } from './tenants.js';
+
+const ddbClient = new DynamoDBClient({});
+const ddb = DynamoDBDocumentClient.from(ddbClient);
+
+const TABLE_NAME = process.env.MAIN_TABLE || '';
+
+// Share of a quota at which responses start carrying a warning
+const WARNING_RATIO = 0.8;
+
+const PLANS: OrganizationPlan[] = ['free', 'starter', 'business', 'enterprise'];
+
+// Plan that applies to users who do not belong to an organization
+const NO_ORGANIZATION_PLAN: OrganizationPlan = 'free';
+
+// A monthly quota is used up (returned as 429)
+export class QuotaExceededError extends Error {
+  constructor(
+    public readonly scope: QuotaScope,
+    public readonly used: number,
+    public readonly limit: number
+  ) {
+    super(
+      `Monthly token quota for your ${scope} is used up (${used.toLocaleString('en-US')} of `
+      + `${limit.toLocaleString('en-US')} tokens). It resets on ${nextMonthStart()}.`
+    );
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export interface QuotaStatus {
+  warnings: QuotaWarning[];
+}
+
+// Month key (yyyy-mm, UTC) usage is counted under
+function currentMonth(): string {
+  return new Date().toISOString().substring(0, 7);
+}
+
+function nextMonthStart(): string {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString().substring(0, 10);
+}
+
+// Usage counters a principal's tokens are added to
+function usageKeys(principal: AuthPrincipal): { scope: QuotaScope; SK: string }[] {
+  return [
+    ...(principal.organizationId ? [{ scope: 'organization' as const, SK: `ORG#${principal.organizationId}` }] : []),
+    ...(principal.companyId ? [{ scope: 'company' as const, SK: `COMPANY#${principal.companyId}` }] : []),
+    { scope: 'user' as const, SK: `USER#${principal.userId}` },
+  ];
+}
+
+// ============================================
+// Plan settings
+// ============================================
+
+export async function getPlanSettings(plan: OrganizationPlan): Promise<PlanSettings | null> {
+  const result = await ddb.send(new GetCommand({
+    TableName: TABLE_NAME,
+    Key: {
+      PK: `PLAN#${plan}`,
+      SK: 'META',
+    },
+  }));
+
+  return (result.Item as PlanSettings) || null;
+}
+
+// Settings of every plan; plans never configured get an empty entry
+export async function listPlanSettings(): Promise<PlanSettings[]> {
+  return Promise.all(PLANS.map(async (plan) => (await getPlanSettings(plan)) || {
+    PK: `PLAN#${plan}`,
+    SK: 'META',
+    plan,
+    updatedBy: '',
+    updatedAt: '',
+  }));
+}
+
+export async function updatePlanSettings(
+  principal: AuthPrincipal,
+  plan: OrganizationPlan,
+  request: UpdatePlanSettingsRequest
+): Promise<PlanSettings> {
+  if (principal.role !== 'system_admin') {
+    throw new ForbiddenError('Only system admins can configure plans');
+  }
+  if (!PLANS.includes(plan)) {
+    throw new TenantValidationError(`Unknown plan: ${plan}`);
+  }
+
+  const current = await getPlanSettings(plan);
+  const settings: PlanSettings = {
+    PK: `PLAN#${plan}`,
+    SK: 'META',
+    plan,
+    updatedBy: principal.userId,
+    updatedAt: new Date().toISOString(),
+  };
+
+  const allowedModels = request.allowedModels === undefined ? current?.allowedModels : request.allowedModels;
+  if (allowedModels) {
+    if (!Array.isArray(allowedModels) || allowedModels.length === 0) {
+      throw new TenantValidationError('allowedModels must list at least one model (or be null for all models)');
+    }
+    const unknown = allowedModels.find(model => !getModelInfo(model));
+    if (unknown) {
+      throw new TenantValidationError(`Unknown model: ${unknown}`);
+    }
+    settings.allowedModels = [...new Set(allowedModels)];
+  }
+
+  const userLimit = request.userMonthlyTokenLimit === undefined
+    ? current?.userMonthlyTokenLimit
+    : request.userMonthlyTokenLimit;
+  if (userLimit !== undefined && userLimit !== null) {
+    if (!Number.isInteger(userLimit) || userLimit < 1) {
+      throw new TenantValidationError('userMonthlyTokenLimit must be a positive integer');
+    }
+    settings.userMonthlyTokenLimit = userLimit;
+  }
+
+  await ddb.send(new PutCommand({
+    TableName: TABLE_NAME,
+    Item: settings,
+  }));
+
+  return settings;
+}
+
+// ============================================
+// Usage
+// ============================================
+
+// This month's token usage of the principal's organization, company and self
+export async function getMonthlyUsage(principal: AuthPrincipal): Promise<Partial<Record<QuotaScope, number>>> {
+  const month = currentMonth();
+  const keys = usageKeys(principal);
+
+  const result = await ddb.send(new BatchGetCommand({
+    RequestItems: {
+      [TABLE_NAME]: {
+        Keys: keys.map(key => ({ PK: `QUOTA#${month}`, SK: key.SK })),
+      },
+    },
+  }));
+
+  const items = (result.Responses?.[TABLE_NAME] || []) as MonthlyUsage[];
+  const usage: Partial<Record<QuotaScope, number>> = {};
+  for (const key of keys) {
+    usage[key.scope] = items.find(item => item.SK === key.SK)?.tokens || 0;
+  }
+  return usage;
+}
+
+// Add a chat call's tokens to the month's counters. Failures are logged, not
+// thrown: the answer has already been generated.
+export async function recordTokenUsage(principal: AuthPrincipal, tokens: number): Promise<void> {
+  if (!tokens) return;
+
+  const month = currentMonth();
+  const now = new Date().toISOString();
+  try {
+    await Promise.all(usageKeys(principal).map(key => ddb.send(new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `QUOTA#${month}`,
+        SK: key.SK,
+      },
+      UpdateExpression: 'ADD tokens :tokens SET #month = :month, updatedAt = :now',
+      ExpressionAttributeNames: {
+        '#month': 'month',
+      },
+      ExpressionAttributeValues: {
+        ':tokens': tokens,
+        ':month': month,
+        ':now': now,
+      },
+    }))));
+  } catch (error) {
+    console.error('Failed to record token usage:', error);
+  }
+}
+
+// ============================================
+// Enforcement
+// ============================================
+
+// Check a chat call against the caller's plan and monthly quotas before the
+// model is invoked. Throws ForbiddenError when the plan does not include the
+// model and QuotaExceededError when a quota is used up; returns warnings for
+// quotas at 80% or more. System admins are not limited.
+export async function checkQuota(principal: AuthPrincipal, model: AIModel): Promise<QuotaStatus> {
+  if (principal.role === 'system_admin') {
+    return { warnings: [] };
+  }
+
+  const [organization, company, usage] = await Promise.all([
+    principal.organizationId ? getOrganization(principal.organizationId) : null,
+    principal.companyId ? getCompany(principal.companyId) : null,
+    getMonthlyUsage(principal),
+  ]);
+  const plan = organization?.plan || NO_ORGANIZATION_PLAN;
+  const settings = await getPlanSettings(plan);
+
+  if (settings?.allowedModels && !settings.allowedModels.includes(model)) {
+    throw new ForbiddenError(`Model ${model} is not available on the ${plan} plan`);
+  }
+
+  const limits: { scope: QuotaScope; limit?: number }[] = [
+    { scope: 'organization', limit: organization?.monthlyTokenLimit },
+    { scope: 'company', limit: company?.monthlyTokenLimit },
+    { scope: 'user', limit: settings?.userMonthlyTokenLimit },
+  ];
+
+  const warnings: QuotaWarning[] = [];
+  for (const { scope, limit } of limits) {
+    if (!limit) continue;
+    const used = usage[scope] || 0;
+    if (used >= limit) {
+      throw new QuotaExceededError(scope, used, limit);
+    }
+    if (used >= limit * WARNING_RATIO) {
+      warnings.push({ scope, used, limit });
+    }
+  }
+
+  return { warnings };
+}
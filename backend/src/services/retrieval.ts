@@ -0,0 +1,225 @@
+import { S3Client, PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import type { FileRecord } from '../types/index.js';
+import { chunkText, type TextChunk } from './chunking.js';
+import { buildBm25Index, searchBm25, type Bm25Index } from './bm25.js';
+import { embedTexts, cosineSimilarity } from './embeddings.js';
+import { loadFileText, readObject } from './fileText.js';
+import { estimateTokens } from './tokens.js';
+
+const s3 = new S3Client({});
+const ddbClient = new DynamoDBClient({});
+const ddb = DynamoDBDocumentClient.from(ddbClient);
+
+const BUCKET_NAME = process.env.FILES_BUCKET || '';
+const TABLE_NAME = process.env.MAIN_TABLE || '';
+
+// 'bm25' (default, no external calls) or 'embedding' (Bedrock Titan vectors)
+export type RetrievalBackendName = 'bm25' | 'embedding';
+const RETRIEVAL_BACKEND: RetrievalBackendName =
+  process.env.RETRIEVAL_BACKEND === 'embedding' ? 'embedding' : 'bm25';
+
+const INDEX_VERSION = 1;
+
+// Indexes kept in memory by a warm Lambda instance, capped by their total
+// chunk count (vectors make chunks the bulk of an index)
+const INDEX_CACHE_MAX_CHUNKS = 5000;
+
+// Per-file retrieval index, stored as JSON at indexes/{fileId}.json
+export interface FileIndex {
+  version: number;
+  fileId: string;
+  chunks: TextChunk[];
+  bm25: Bm25Index;
+  vectors?: number[][];   // one per chunk, embedding backend only
+}
+
+export interface RetrievedChunk {
+  file: FileRecord;
+  chunk: TextChunk;
+  score: number;
+}
+
+interface SearchHit {
+  indexNo: number;
+  chunkNo: number;
+  score: number;
+}
+
+// A retrieval backend adds its data to a freshly chunked index and ranks
+// chunks of several indexes against a query
+interface RetrievalBackend {
+  prepare(index: FileIndex): Promise<void>;
+  search(indexes: FileIndex[], query: string): Promise<SearchHit[]>;
+}
+
+const bm25Backend: RetrievalBackend = {
+  async prepare() {
+    // The BM25 index is always built; nothing extra to add
+  },
+  async search(indexes, query) {
+    return searchBm25(indexes.map(index => index.bm25), query)
+      .map(hit => ({ indexNo: hit.indexNo, chunkNo: hit.docNo, score: hit.score }));
+  },
+};
+
+const embeddingBackend: RetrievalBackend = {
+  async prepare(index) {
+    index.vectors = await embedTexts(index.chunks.map(chunk => chunk.text));
+  },
+  async search(indexes, query) {
+    // Indexes built before the backend was switched have no vectors
+    if (indexes.some(index => !index.vectors)) {
+      return bm25Backend.search(indexes, query);
+    }
+
+    const [queryVector] = await embedTexts([query]);
+    const hits: SearchHit[] = [];
+    indexes.forEach((index, indexNo) => {
+      index.vectors!.forEach((vector, chunkNo) => {
+        hits.push({ indexNo, chunkNo, score: cosineSimilarity(queryVector, vector) });
+      });
+    });
+    return hits.sort((a, b) => b.score - a.score);
+  },
+};
+
+function getBackend(): RetrievalBackend {
+  return RETRIEVAL_BACKEND === 'embedding' ? embeddingBackend : bm25Backend;
+}
+
+function getIndexS3Key(fileId: string): string {
+  return `indexes/${fileId}.json`;
+}
+
+// Least recently used first; keyed by the stored index so a re-indexed file
+// is loaded again
+const indexCache = new Map<string, FileIndex>();
+let cachedChunks = 0;
+
+function indexCacheKey(file: FileRecord): string {
+  return `${file.indexS3Key}#${file.chunkCount}`;
+}
+
+function cacheIndex(key: string, index: FileIndex): void {
+  if (index.chunks.length > INDEX_CACHE_MAX_CHUNKS) return;
+  indexCache.set(key, index);
+  cachedChunks += index.chunks.length;
+  for (const [oldestKey, oldest] of indexCache) {
+    if (cachedChunks <= INDEX_CACHE_MAX_CHUNKS) break;
+    indexCache.delete(oldestKey);
+    cachedChunks -= oldest.chunks.length;
+  }
+}
+
+async function buildFileIndex(fileId: string, text: string): Promise<FileIndex> {
+  const chunks = chunkText(text);
+  const index: FileIndex = {
+    version: INDEX_VERSION,
+    fileId,
+    chunks,
+    bm25: buildBm25Index(chunks.map(chunk => chunk.text)),
+  };
+  await getBackend().prepare(index);
+  return index;
+}
+
+// Chunk and index a file's extracted text, store the index in S3 and record
+// it on the file item
+export async function indexFile(file: FileRecord, text: string): Promise<FileIndex> {
+  const index = await buildFileIndex(file.fileId, text);
+  const indexS3Key = getIndexS3Key(file.fileId);
+
+  await s3.send(new PutObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: indexS3Key,
+    Body: JSON.stringify(index),
+    ContentType: 'application/json',
+  }));
+
+  await ddb.send(new UpdateCommand({
+    TableName: TABLE_NAME,
+    Key: {
+      PK: `FILE#${file.fileId}`,
+      SK: 'META',
+    },
+    UpdateExpression: 'SET indexS3Key = :indexS3Key, chunkCount = :chunkCount',
+    ExpressionAttributeValues: {
+      ':indexS3Key': indexS3Key,
+      ':chunkCount': index.chunks.length,
+    },
+  }));
+
+  return index;
+}
+
+// Load a file's index, from memory when this instance loaded it recently.
+// Files ingested before indexing existed are indexed in memory from their
+// extracted text.
+export async function loadFileIndex(file: FileRecord): Promise<FileIndex | null> {
+  if (file.indexS3Key) {
+    const key = indexCacheKey(file);
+    const cached = indexCache.get(key);
+    if (cached) {
+      indexCache.delete(key);
+      indexCache.set(key, cached);
+      return cached;
+    }
+
+    try {
+      const body = await readObject(file.indexS3Key);
+      if (body) {
+        const index = JSON.parse(body.toString('utf-8')) as FileIndex;
+        if (index.version === INDEX_VERSION) {
+          cacheIndex(key, index);
+          return index;
+        }
+      }
+    } catch (error) {
+      console.warn(`Failed to load index for ${file.fileId}:`, error);
+    }
+  }
+
+  const text = await loadFileText(file);
+  return text ? buildFileIndex(file.fileId, text) : null;
+}
+
+export async function deleteFileIndex(file: FileRecord): Promise<void> {
+  if (!file.indexS3Key) return;
+
+  await s3.send(new DeleteObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: file.indexS3Key,
+  }));
+}
+
+// Retrieve the most relevant chunks of the given files for a query: at most
+// topK chunks whose combined size stays within tokenBudget
+export async function retrieveChunks(
+  files: FileRecord[],
+  query: string,
+  options: { topK: number; tokenBudget: number }
+): Promise<RetrievedChunk[]> {
+  const loaded = await Promise.all(files.map(async (file) => ({ file, index: await loadFileIndex(file) })));
+  const available = loaded.filter((entry): entry is { file: FileRecord; index: FileIndex } => entry.index !== null);
+  if (available.length === 0) return [];
+
+  const hits = await getBackend().search(available.map(entry => entry.index), query);
+
+  const results: RetrievedChunk[] = [];
+  let usedTokens = 0;
+  for (const hit of hits) {
+    if (results.length >= options.topK) break;
+
+    const { file, index } = available[hit.indexNo];
+    const chunk = index.chunks[hit.chunkNo];
+    const tokens = estimateTokens(chunk.text);
+    if (usedTokens + tokens > options.tokenBudget) continue;
+
+    usedTokens += tokens;
+    results.push({ file, chunk, score: hit.score });
+  }
+
+  return results;
+}
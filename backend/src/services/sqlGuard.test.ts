@@ -0,0 +1,185 @@
+import { describe, expect, it } from '@jest/globals';
+import { applyRowLimit, SqlValidationError, validateReadOnlySql } from './sqlGuard.js';
+
+const tables = new Set(['orders', 'customers', 'public.orders', 'public.customers']);
+
+function pg(sql: string): string {
+  return validateReadOnlySql(sql, 'postgresql', tables);
+}
+
+function mysql(sql: string): string {
+  return validateReadOnlySql(sql, 'mysql', tables);
+}
+
+describe('validateReadOnlySql', () => {
+  it('accepts a SELECT over allowed tables', () => {
+    expect(pg('SELECT id, total FROM orders WHERE total > 100')).toBe('SELECT id, total FROM orders WHERE total > 100');
+    expect(pg('SELECT o.id FROM public.orders o JOIN customers c ON c.id = o.customer_id')).toBeTruthy();
+    expect(pg('SELECT * FROM orders, customers')).toBeTruthy();
+  });
+
+  it('accepts a read-only CTE and drops a trailing semicolon', () => {
+    const sql = 'WITH big AS (SELECT * FROM orders WHERE total > 100) SELECT count(*) FROM big;';
+    expect(pg(sql)).toBe('WITH big AS (SELECT * FROM orders WHERE total > 100) SELECT count(*) FROM big');
+  });
+
+  it('ignores keywords inside string literals', () => {
+    expect(pg('SELECT * FROM orders WHERE note = \'please delete; drop table\'')).toBeTruthy();
+  });
+
+  describe('stacked statements', () => {
+    it.each([
+      'SELECT * FROM orders; DELETE FROM orders',
+      'SELECT * FROM orders; SELECT * FROM customers',
+      'SELECT 1;;',
+    ])('rejects %s', (sql) => {
+      expect(() => pg(sql)).toThrow(SqlValidationError);
+    });
+
+    it('rejects a statement hidden after a MySQL backslash-escaped quote', () => {
+      expect(() => mysql('SELECT * FROM orders WHERE note = \'\\\'; DROP TABLE orders; -- \'')).toThrow(SqlValidationError);
+    });
+  });
+
+  describe('comments', () => {
+    it('strips ordinary comments', () => {
+      expect(pg('SELECT * FROM orders -- newest first')).toBe('SELECT * FROM orders');
+      expect(pg('SELECT /* all */ * FROM orders')).toBe('SELECT   * FROM orders');
+    });
+
+    it('does not let a comment hide a second statement', () => {
+      expect(() => pg('SELECT * FROM orders /* ; */; DELETE FROM orders')).toThrow(SqlValidationError);
+    });
+
+    it('rejects MySQL executable comments', () => {
+      expect(() => mysql('SELECT * FROM orders /*! ; DROP TABLE orders */')).toThrow('Executable comments are not allowed');
+      expect(() => mysql('SELECT /*+ MAX_EXECUTION_TIME(1) */ * FROM orders')).toThrow('Executable comments are not allowed');
+    });
+
+    it('treats # as a comment only in MySQL', () => {
+      expect(mysql('SELECT * FROM orders # note')).toBe('SELECT * FROM orders');
+      // In PostgreSQL the rest of the line is still executed, so it is checked
+      expect(() => pg('SELECT * FROM orders # 1; DELETE FROM orders')).toThrow('Only a single statement is allowed');
+    });
+  });
+
+  describe('functions', () => {
+    it.each([
+      'SELECT pg_sleep(10)',
+      'SELECT pg_read_file(\'/etc/passwd\')',
+      'SELECT * FROM orders WHERE pg_terminate_backend(1234)',
+      'SELECT PG_LS_DIR(\'.\')',
+      'SELECT set_config(\'default_transaction_read_only\', \'off\', false)',
+      'SELECT dblink_exec(\'host=evil\', \'DELETE FROM orders\')',
+    ])('rejects %s', (sql) => {
+      expect(() => pg(sql)).toThrow('Function not allowed');
+    });
+
+    it.each([
+      'SELECT sleep(10)',
+      'SELECT benchmark(1000000, md5(\'x\'))',
+      'SELECT load_file(\'/etc/passwd\')',
+    ])('rejects %s in MySQL', (sql) => {
+      expect(() => mysql(sql)).toThrow('Function not allowed');
+    });
+
+    it('rejects table functions in FROM', () => {
+      expect(() => pg('SELECT * FROM generate_series(1, 1000000000)')).toThrow('Table functions are not allowed');
+    });
+
+    it('rejects dollar quoting and escape strings', () => {
+      expect(() => pg('SELECT $$x$$ FROM orders')).toThrow('"$" is not allowed');
+      expect(() => pg('SELECT E\'\\\'\' FROM orders')).toThrow('Escape string literals are not allowed');
+    });
+  });
+
+  describe('tables', () => {
+    it.each([
+      'SELECT * FROM users',
+      'SELECT * FROM pg_catalog.pg_authid',
+      'SELECT * FROM information_schema.tables',
+      'SELECT * FROM orders JOIN secrets ON true',
+      'SELECT * FROM orders, secrets',
+      'SELECT * FROM other_schema.orders',
+      'SELECT * FROM orders WHERE id IN (SELECT order_id FROM secrets)',
+    ])('rejects %s', (sql) => {
+      expect(() => pg(sql)).toThrow('Table not allowed');
+    });
+
+    it('matches quoted identifiers against the allow-list', () => {
+      expect(pg('SELECT * FROM "public"."orders"')).toBeTruthy();
+      expect(() => pg('SELECT * FROM "Secrets"')).toThrow('Table not allowed: secrets');
+      expect(() => mysql('SELECT * FROM `secrets`')).toThrow('Table not allowed: secrets');
+    });
+  });
+
+  describe('writes', () => {
+    it.each([
+      'DELETE FROM orders',
+      'UPDATE orders SET total = 0',
+      'INSERT INTO orders VALUES (1)',
+      'DROP TABLE orders',
+      'SET ROLE admin',
+      'COPY orders TO \'/tmp/x\'',
+      'EXPLAIN ANALYZE DELETE FROM orders',
+    ])('rejects %s', (sql) => {
+      expect(() => pg(sql)).toThrow(SqlValidationError);
+    });
+
+    it.each([
+      'WITH gone AS (DELETE FROM orders RETURNING *) SELECT * FROM gone',
+      'WITH changed AS (UPDATE orders SET total = 0 RETURNING id) SELECT count(*) FROM changed',
+      'WITH added AS (INSERT INTO orders (id) VALUES (1) RETURNING id) SELECT * FROM added',
+    ])('rejects the data-modifying CTE %s', (sql) => {
+      expect(() => pg(sql)).toThrow('Keyword not allowed');
+    });
+
+    it('rejects SELECT ... INTO and locking clauses', () => {
+      expect(() => pg('SELECT * INTO backup FROM orders')).toThrow('Keyword not allowed: INTO');
+      expect(() => mysql('SELECT * FROM orders INTO OUTFILE \'/tmp/x\'')).toThrow('Keyword not allowed: INTO');
+      expect(() => pg('SELECT * FROM orders FOR UPDATE')).toThrow('Keyword not allowed: UPDATE');
+      expect(() => pg('SELECT * FROM orders FOR SHARE')).toThrow('Locking clauses are not allowed');
+    });
+  });
+
+  it('rejects empty and unterminated input', () => {
+    expect(() => pg('  -- nothing')).toThrow('Empty query');
+    expect(() => pg('SELECT \'open FROM orders')).toThrow('Unterminated quoted text');
+  });
+});
+
+describe('applyRowLimit', () => {
+  it('adds a limit one above the maximum', () => {
+    expect(applyRowLimit('SELECT * FROM orders', 100)).toEqual({ sql: 'SELECT * FROM orders LIMIT 101', limit: 100 });
+  });
+
+  it('lowers a larger limit and keeps a smaller one', () => {
+    expect(applyRowLimit('SELECT * FROM orders LIMIT 5000', 100)).toEqual({ sql: 'SELECT * FROM orders LIMIT 101', limit: 100 });
+    expect(applyRowLimit('SELECT * FROM orders LIMIT 10', 100)).toEqual({ sql: 'SELECT * FROM orders LIMIT 11', limit: 10 });
+  });
+
+  it('keeps an OFFSET and handles MySQL LIMIT offset, count', () => {
+    expect(applyRowLimit('SELECT * FROM orders LIMIT 500 OFFSET 20', 100))
+      .toEqual({ sql: 'SELECT * FROM orders LIMIT 101 OFFSET 20', limit: 100 });
+    expect(applyRowLimit('SELECT * FROM orders LIMIT 20, 500', 100))
+      .toEqual({ sql: 'SELECT * FROM orders LIMIT 20, 101', limit: 100 });
+  });
+
+  it('only treats a top-level LIMIT as the query limit', () => {
+    const sql = 'SELECT * FROM orders WHERE id IN (SELECT id FROM orders LIMIT 5000)';
+    expect(applyRowLimit(sql, 100)).toEqual({ sql: `${sql} LIMIT 101`, limit: 100 });
+  });
+
+  it('ignores the word limit inside string literals', () => {
+    const sql = 'SELECT * FROM orders WHERE note = \'no limit 9999\'';
+    expect(applyRowLimit(sql, 100)).toEqual({ sql: `${sql} LIMIT 101`, limit: 100 });
+  });
+
+  it.each([
+    'SELECT * FROM orders LIMIT ALL',
+    'SELECT * FROM orders LIMIT 10 + 100000',
+    'SELECT * FROM orders LIMIT (SELECT 100000)',
+  ])('rejects a non-numeric limit: %s', (sql) => {
+    expect(() => applyRowLimit(sql, 100)).toThrow('LIMIT must be a number');
+  });
+});
@@ -0,0 +1,243 @@
+import type { DatabaseType } from '../types/index.js';
+
+// Validation of model-written SQL before it runs against a customer database.
+// Only a single SELECT (optionally with CTEs) over the introspected tables is
+// accepted; queries additionally run in a read-only transaction.
+
+export class SqlValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SqlValidationError';
+  }
+}
+
+// Keywords that write, lock or change state. Only a single statement that
+// starts with SELECT / WITH gets this far, so these matter inside it
+// (data-modifying CTEs, SELECT ... INTO, locking clauses).
+const DENIED_KEYWORDS = [
+  'insert', 'update', 'delete', 'merge', 'upsert', 'drop', 'alter', 'create', 'truncate',
+  'grant', 'revoke', 'copy', 'call', 'exec', 'execute', 'lock', 'unlock', 'into', 'outfile',
+  'dumpfile', 'prepare', 'deallocate', 'vacuum', 'commit', 'rollback', 'savepoint', 'listen', 'notify',
+];
+
+// Functions with side effects or file / network / timing access
+const DENIED_FUNCTIONS = [
+  'sleep', 'benchmark', 'load_file', 'get_lock', 'release_lock', 'sys_exec', 'sys_eval',
+  'dblink', 'dblink_exec', 'lo_import', 'lo_export', 'set_config', 'query_to_xml', 'txid_current',
+];
+
+interface Token {
+  type: 'word' | 'quoted' | 'number' | 'symbol';
+  value: string;        // lower-cased for words, unquoted for identifiers
+}
+
+// Remove comments. MySQL executable comments (/*! ... */) run their content,
+// so they are rejected instead. The stripped text is what gets executed.
+function stripComments(sql: string, dialect: DatabaseType): string {
+  if (/\/\*[!+]/.test(sql)) {
+    throw new SqlValidationError('Executable comments are not allowed');
+  }
+  const withoutBlocks = sql.replace(/\/\*[\s\S]*?\*\//g, ' ');
+  // "#" starts a comment in MySQL but is an operator in PostgreSQL
+  return withoutBlocks.replace(dialect === 'mysql' ? /(--|#)[^\n]*/g : /--[^\n]*/g, ' ');
+}
+
+// End offset (index of the closing quote) of a quoted section starting at
+// `start`. A doubled quote is an escaped quote; with backslashEscapes, a
+// backslash escapes the next character.
+function findClosingQuote(sql: string, start: number, backslashEscapes: boolean): number {
+  const quote = sql[start];
+  let i = start + 1;
+  while (i < sql.length) {
+    if (backslashEscapes && sql[i] === '\\') {
+      i += 2;
+    } else if (sql[i] === quote && sql[i + 1] === quote) {
+      i += 2;
+    } else if (sql[i] === quote) {
+      return i;
+    } else {
+      i++;
+    }
+  }
+  throw new SqlValidationError('Unterminated quoted text');
+}
+
+// Split into tokens. Quoting must match the database's own parsing exactly,
+// or text it executes could be mistaken for a string literal here.
+function tokenize(sql: string, dialect: DatabaseType): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '\'' || (char === '"' && dialect === 'mysql')) {
+      // String literal; MySQL strings (either quote) also take backslash escapes
+      if (dialect === 'postgresql' && /[eE]/.test(sql[i - 1] || '')) {
+        throw new SqlValidationError('Escape string literals are not allowed');
+      }
+      const end = findClosingQuote(sql, i, dialect === 'mysql');
+      tokens.push({ type: 'symbol', value: '\'\'' });
+      i = end + 1;
+    } else if (char === '"' || char === '`') {
+      // Quoted identifier: "name" (PostgreSQL) or `name` (MySQL)
+      const end = findClosingQuote(sql, i, false);
+      tokens.push({ type: 'quoted', value: sql.slice(i + 1, end).replaceAll(char + char, char).toLowerCase() });
+      i = end + 1;
+    } else if (char === '$') {
+      // Dollar-quoted strings and positional parameters
+      throw new SqlValidationError('"$" is not allowed');
+    } else if (/[A-Za-z_\u0080-\uffff]/.test(char)) {
+      const match = sql.slice(i).match(/^[A-Za-z0-9_\u0080-\uffff]+/)!;
+      tokens.push({ type: 'word', value: match[0].toLowerCase() });
+      i += match[0].length;
+    } else if (/[0-9]/.test(char)) {
+      const match = sql.slice(i).match(/^[0-9]+(\.[0-9]+)?([eE][+-]?[0-9]+)?/)!;
+      tokens.push({ type: 'number', value: match[0] });
+      i += match[0].length;
+    } else {
+      tokens.push({ type: 'symbol', value: char });
+      i++;
+    }
+  }
+
+  return tokens;
+}
+
+function isName(token: Token | undefined): token is Token {
+  return !!token && (token.type === 'word' || token.type === 'quoted');
+}
+
+// Words that end a table reference list in FROM / JOIN
+const CLAUSE_WORDS = new Set([
+  'where', 'group', 'having', 'order', 'limit', 'offset', 'union', 'intersect', 'except',
+  'join', 'inner', 'left', 'right', 'full', 'cross', 'natural', 'on', 'using', 'window', 'fetch',
+]);
+
+// Table names referenced after FROM / JOIN (schema-qualified where given),
+// and names defined by WITH
+function collectTableReferences(tokens: Token[]): { tables: string[]; cteNames: Set<string> } {
+  const tables: string[] = [];
+  const cteNames = new Set<string>();
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    // "name AS (" in a WITH clause defines a CTE
+    if (isName(token) && tokens[i + 1]?.value === 'as' && tokens[i + 2]?.value === '(') {
+      cteNames.add(token.value);
+    }
+
+    if (token.type !== 'word' || (token.value !== 'from' && token.value !== 'join')) continue;
+
+    let j = i + 1;
+    while (j < tokens.length) {
+      if (tokens[j].value === '(') break;   // subquery, checked on its own
+      if (!isName(tokens[j])) break;
+
+      let name = tokens[j].value;
+      j++;
+      while (tokens[j]?.value === '.' && isName(tokens[j + 1])) {
+        name += `.${tokens[j + 1].value}`;
+        j += 2;
+      }
+      if (tokens[j]?.value === '(') {
+        throw new SqlValidationError(`Table functions are not allowed: ${name}`);
+      }
+      tables.push(name);
+
+      // Optional alias
+      if (tokens[j]?.value === 'as') j++;
+      if (isName(tokens[j]) && !CLAUSE_WORDS.has(tokens[j].value)) j++;
+
+      // Comma-separated FROM list (JOINs are handled by their own keyword)
+      if (token.value === 'from' && tokens[j]?.value === ',') {
+        j++;
+        continue;
+      }
+      break;
+    }
+  }
+
+  return { tables, cteNames };
+}
+
+// Validate a query. allowedTables holds lower-cased "table" and
+// "schema.table" names. Returns the SQL without comments or trailing ';'.
+export function validateReadOnlySql(sql: string, dialect: DatabaseType, allowedTables: Set<string>): string {
+  const cleaned = stripComments(sql, dialect).trim().replace(/;\s*$/, '').trim();
+  if (!cleaned) {
+    throw new SqlValidationError('Empty query');
+  }
+
+  const tokens = tokenize(cleaned, dialect);
+  if (tokens.some(token => token.value === ';')) {
+    throw new SqlValidationError('Only a single statement is allowed');
+  }
+
+  const first = tokens[0];
+  if (first.type !== 'word' || (first.value !== 'select' && first.value !== 'with')) {
+    throw new SqlValidationError('Only SELECT queries are allowed');
+  }
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== 'word') continue;
+
+    if (DENIED_KEYWORDS.includes(token.value)) {
+      throw new SqlValidationError(`Keyword not allowed: ${token.value.toUpperCase()}`);
+    }
+    // FOR SHARE / FOR KEY SHARE / FOR NO KEY UPDATE row locks
+    if (token.value === 'for' && ['share', 'key', 'no'].includes(tokens[i + 1]?.value)) {
+      throw new SqlValidationError('Locking clauses are not allowed');
+    }
+    const isCall = tokens[i + 1]?.value === '(';
+    if (isCall && (DENIED_FUNCTIONS.includes(token.value) || token.value.startsWith('pg_'))) {
+      throw new SqlValidationError(`Function not allowed: ${token.value}`);
+    }
+  }
+
+  const { tables, cteNames } = collectTableReferences(tokens);
+  for (const table of tables) {
+    if (!allowedTables.has(table) && !cteNames.has(table)) {
+      throw new SqlValidationError(`Table not allowed: ${table}`);
+    }
+  }
+
+  return cleaned;
+}
+
+// Cap the number of returned rows: a top-level LIMIT larger than maxRows is
+// lowered, and one is added when missing. One extra row is fetched so callers
+// can tell whether the result was cut off.
+export function applyRowLimit(sql: string, maxRows: number): { sql: string; limit: number } {
+  // Offset of the last LIMIT outside parentheses and string literals
+  let depth = 0;
+  let limitOffset = -1;
+  for (const match of sql.matchAll(/'(?:[^']|'')*'|"[^"]*"|`[^`]*`|[()]|\blimit\b/gi)) {
+    if (match[0] === '(') depth++;
+    else if (match[0] === ')') depth--;
+    else if (depth === 0 && match[0].toLowerCase() === 'limit') limitOffset = match.index!;
+  }
+
+  if (limitOffset < 0) {
+    return { sql: `${sql} LIMIT ${maxRows + 1}`, limit: maxRows };
+  }
+
+  // LIMIT n [OFFSET m], or MySQL's LIMIT m, n
+  const head = sql.slice(0, limitOffset).trimEnd();
+  const match = sql.slice(limitOffset + 'limit'.length).trim()
+    .match(/^(\d+)\s*(?:,\s*(\d+))?(\s+offset\s+\d+)?$/i);
+  if (!match) {
+    throw new SqlValidationError('LIMIT must be a number');
+  }
+
+  if (match[2] !== undefined) {
+    const limit = Math.min(Number(match[2]), maxRows);
+    return { sql: `${head} LIMIT ${match[1]}, ${limit + 1}`, limit };
+  }
+  const limit = Math.min(Number(match[1]), maxRows);
+  return { sql: `${head} LIMIT ${limit + 1}${match[3] || ''}`, limit };
+}
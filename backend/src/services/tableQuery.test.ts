@@ -0,0 +1,169 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  DEFAULT_QUERY_LIMIT,
+  MAX_QUERY_LIMIT,
+  runTableQuery,
+  TableQueryError,
+  validateTableQuery,
+} from './tableQuery.js';
+import type { Table } from './tabular.js';
+
+const table: Table = {
+  name: 'sales',
+  columns: ['region', 'product', 'amount', 'date'],
+  rows: [
+    ['East', 'Pen', 120, '2024-01-05'],
+    ['West', 'Pen', 80, '2024-01-07'],
+    ['East', 'Notebook', 300, '2024-02-01'],
+    ['West', 'Notebook', null, '2024-02-03'],
+    [' east ', 'Eraser', 40, '2024-02-10'],
+  ],
+};
+
+function run(raw: unknown) {
+  return runTableQuery(table, validateTableQuery(raw, table.columns));
+}
+
+describe('validateTableQuery', () => {
+  it('normalizes an empty query', () => {
+    expect(validateTableQuery({}, table.columns)).toEqual({
+      filters: [],
+      groupBy: [],
+      aggregates: [],
+      select: [],
+      sort: [],
+      limit: DEFAULT_QUERY_LIMIT,
+    });
+  });
+
+  it('caps the limit and defaults the sort direction to ascending', () => {
+    const query = validateTableQuery({
+      sort: [{ column: 'amount', direction: 'up' }],
+      limit: 10_000,
+    }, table.columns);
+
+    expect(query.limit).toBe(MAX_QUERY_LIMIT);
+    expect(query.sort).toEqual([{ column: 'amount', direction: 'asc' }]);
+  });
+
+  it('allows sorting by group-by columns and aggregate aliases', () => {
+    const query = validateTableQuery({
+      groupBy: ['region'],
+      aggregates: [{ fn: 'sum', column: 'amount', as: 'total' }, { fn: 'count' }],
+      sort: [{ column: 'total', direction: 'desc' }, { column: 'count' }],
+    }, table.columns);
+
+    expect(query.sort).toEqual([
+      { column: 'total', direction: 'desc' },
+      { column: 'count', direction: 'asc' },
+    ]);
+  });
+
+  it.each([
+    [[], 'Query must be a JSON object'],
+    ['SELECT *', 'Query must be a JSON object'],
+    [{ filters: {} }, '"filters" must be an array'],
+    [{ filters: [{ column: 'price', op: 'eq', value: 1 }] }, 'Unknown column in filters: price'],
+    [{ filters: [{ column: 'amount', op: 'like', value: 1 }] }, 'Unknown filter operator: like'],
+    [{ filters: [{ column: 'amount', op: 'in', value: 1 }] }, '"in" filter requires an array of values'],
+    [{ filters: [{ column: 'amount', op: 'eq', value: { $gt: 1 } }] }, 'Invalid value for filter on amount'],
+    [{ groupBy: ['price'] }, 'Unknown column in groupBy: price'],
+    [{ aggregates: [{ fn: 'median', column: 'amount' }] }, 'Unknown aggregate function: median'],
+    [{ aggregates: [{ fn: 'sum' }] }, 'sum requires a column'],
+    [{ select: ['region', 'secret'] }, 'Unknown column in select: secret'],
+    [{ groupBy: ['region'], sort: [{ column: 'amount' }] }, 'Unknown column in sort: amount'],
+    [{ limit: 0 }, '"limit" must be a positive integer'],
+    [{ limit: 2.5 }, '"limit" must be a positive integer'],
+    [{ limit: '10' }, '"limit" must be a positive integer'],
+  ])('rejects %j', (raw, message) => {
+    expect(() => validateTableQuery(raw, table.columns)).toThrow(TableQueryError);
+    expect(() => validateTableQuery(raw, table.columns)).toThrow(message);
+  });
+});
+
+describe('runTableQuery', () => {
+  it('returns every column when nothing is selected', () => {
+    const result = run({});
+
+    expect(result.columns).toEqual(table.columns);
+    expect(result.rows).toEqual(table.rows);
+    expect(result.totalMatched).toBe(5);
+  });
+
+  it('compares text case- and whitespace-insensitively for eq', () => {
+    const result = run({ filters: [{ column: 'region', op: 'eq', value: 'EAST' }], select: ['product'] });
+
+    expect(result.rows).toEqual([['Pen'], ['Notebook'], ['Eraser']]);
+  });
+
+  it('applies range, contains and in filters together', () => {
+    const result = run({
+      filters: [
+        { column: 'amount', op: 'gte', value: 80 },
+        { column: 'date', op: 'lt', value: '2024-02-01' },
+        { column: 'product', op: 'contains', value: 'pe' },
+        { column: 'region', op: 'in', value: ['West', 'North'] },
+      ],
+      select: ['region', 'amount'],
+    });
+
+    expect(result.rows).toEqual([['West', 80]]);
+  });
+
+  it('never matches empty cells with range filters', () => {
+    const result = run({ filters: [{ column: 'amount', op: 'lt', value: 1000 }] });
+
+    expect(result.totalMatched).toBe(4);
+  });
+
+  it('groups and aggregates, ignoring empty cells', () => {
+    const result = run({
+      filters: [{ column: 'product', op: 'ne', value: 'Eraser' }],
+      groupBy: ['region'],
+      aggregates: [
+        { fn: 'count' },
+        { fn: 'count', column: 'amount' },
+        { fn: 'sum', column: 'amount', as: 'total' },
+        { fn: 'avg', column: 'amount' },
+        { fn: 'max', column: 'date' },
+      ],
+    });
+
+    expect(result.columns).toEqual(['region', 'count', 'count(amount)', 'total', 'avg(amount)', 'max(date)']);
+    expect(result.rows).toEqual([
+      ['East', 2, 2, 420, 210, null],
+      ['West', 2, 1, 80, 80, null],
+    ]);
+    expect(result.totalMatched).toBe(4);
+  });
+
+  it('returns one row when aggregating no rows without groupBy', () => {
+    const result = run({
+      filters: [{ column: 'region', op: 'eq', value: 'North' }],
+      aggregates: [{ fn: 'count' }, { fn: 'sum', column: 'amount' }, { fn: 'min', column: 'amount' }],
+    });
+
+    expect(result.rows).toEqual([[0, 0, null]]);
+    expect(result.totalMatched).toBe(0);
+  });
+
+  it('sorts by a column that is not selected, keeping empty cells last', () => {
+    const ascending = run({ select: ['product'], sort: [{ column: 'amount' }] });
+    const descending = run({ select: ['product'], sort: [{ column: 'amount', direction: 'desc' }] });
+
+    expect(ascending.rows.map(row => row[0])).toEqual(['Eraser', 'Pen', 'Pen', 'Notebook', 'Notebook']);
+    expect(descending.rows.map(row => row[0])).toEqual(['Notebook', 'Pen', 'Pen', 'Eraser', 'Notebook']);
+  });
+
+  it('sorts groups by an aggregate and applies the limit after counting matches', () => {
+    const result = run({
+      groupBy: ['product'],
+      aggregates: [{ fn: 'sum', column: 'amount', as: 'total' }],
+      sort: [{ column: 'total', direction: 'desc' }],
+      limit: 2,
+    });
+
+    expect(result.rows).toEqual([['Notebook', 300], ['Pen', 200]]);
+    expect(result.totalMatched).toBe(5);
+  });
+});
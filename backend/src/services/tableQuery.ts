@@ -0,0 +1,269 @@
+import type { Table, TableCell } from './tabular.js';
+
+// Structured query over a single table. Only these operations exist, so a
+// model-written query can be validated and run without evaluating any code.
+export type FilterOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'in';
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+export interface TableFilter {
+  column: string;
+  op: FilterOperator;
+  value: TableCell | TableCell[];
+}
+
+export interface TableAggregate {
+  fn: AggregateFunction;
+  column?: string;      // omitted for count(*)
+  as?: string;
+}
+
+export interface TableSort {
+  column: string;       // a source column, group-by column or aggregate alias
+  direction: 'asc' | 'desc';
+}
+
+export interface TableQuery {
+  filters: TableFilter[];
+  groupBy: string[];
+  aggregates: TableAggregate[];
+  select: string[];     // output columns when not aggregating; empty = all
+  sort: TableSort[];
+  limit: number;
+}
+
+export interface TableQueryResult {
+  columns: string[];
+  rows: TableCell[][];
+  totalMatched: number;  // rows left after filtering, before grouping / limit
+}
+
+export const DEFAULT_QUERY_LIMIT = 50;
+export const MAX_QUERY_LIMIT = 500;
+
+const FILTER_OPERATORS: FilterOperator[] = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'contains', 'in'];
+const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['count', 'sum', 'avg', 'min', 'max'];
+
+export class TableQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TableQueryError';
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isCell(value: unknown): value is TableCell {
+  return value === null || typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value));
+}
+
+function readArray(raw: Record<string, unknown>, key: string): unknown[] {
+  const value = raw[key];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    throw new TableQueryError(`"${key}" must be an array`);
+  }
+  return value;
+}
+
+export function getAggregateName(aggregate: TableAggregate): string {
+  return aggregate.as || (aggregate.column ? `${aggregate.fn}(${aggregate.column})` : 'count');
+}
+
+// Check an untrusted (model-written) query against the table's columns and
+// return it in normalized form. Throws TableQueryError on anything unexpected.
+export function validateTableQuery(raw: unknown, columns: string[]): TableQuery {
+  if (!isObject(raw)) {
+    throw new TableQueryError('Query must be a JSON object');
+  }
+
+  const checkColumn = (column: unknown, where: string): string => {
+    if (typeof column !== 'string' || !columns.includes(column)) {
+      throw new TableQueryError(`Unknown column in ${where}: ${String(column)}`);
+    }
+    return column;
+  };
+
+  const filters = readArray(raw, 'filters').map((filter): TableFilter => {
+    if (!isObject(filter)) throw new TableQueryError('Invalid filter');
+    const column = checkColumn(filter.column, 'filters');
+    const op = filter.op as FilterOperator;
+    if (!FILTER_OPERATORS.includes(op)) {
+      throw new TableQueryError(`Unknown filter operator: ${String(filter.op)}`);
+    }
+    const value = filter.value;
+    if (op === 'in') {
+      if (!Array.isArray(value) || !value.every(isCell)) {
+        throw new TableQueryError('"in" filter requires an array of values');
+      }
+    } else if (!isCell(value)) {
+      throw new TableQueryError(`Invalid value for filter on ${column}`);
+    }
+    return { column, op, value: value as TableCell | TableCell[] };
+  });
+
+  const groupBy = readArray(raw, 'groupBy').map(column => checkColumn(column, 'groupBy'));
+
+  const aggregates = readArray(raw, 'aggregates').map((aggregate): TableAggregate => {
+    if (!isObject(aggregate)) throw new TableQueryError('Invalid aggregate');
+    const fn = aggregate.fn as AggregateFunction;
+    if (!AGGREGATE_FUNCTIONS.includes(fn)) {
+      throw new TableQueryError(`Unknown aggregate function: ${String(aggregate.fn)}`);
+    }
+    const column = aggregate.column === undefined || aggregate.column === null
+      ? undefined
+      : checkColumn(aggregate.column, 'aggregates');
+    if (!column && fn !== 'count') {
+      throw new TableQueryError(`${fn} requires a column`);
+    }
+    if (aggregate.as !== undefined && typeof aggregate.as !== 'string') {
+      throw new TableQueryError('Aggregate alias must be a string');
+    }
+    return { fn, column, as: (aggregate.as as string | undefined) || undefined };
+  });
+
+  const select = readArray(raw, 'select').map(column => checkColumn(column, 'select'));
+
+  const outputColumns = groupBy.length > 0 || aggregates.length > 0
+    ? [...groupBy, ...aggregates.map(getAggregateName)]
+    : columns;
+
+  const sort = readArray(raw, 'sort').map((entry): TableSort => {
+    if (!isObject(entry)) throw new TableQueryError('Invalid sort');
+    if (typeof entry.column !== 'string' || !outputColumns.includes(entry.column)) {
+      throw new TableQueryError(`Unknown column in sort: ${String(entry.column)}`);
+    }
+    return { column: entry.column, direction: entry.direction === 'desc' ? 'desc' : 'asc' };
+  });
+
+  let limit = DEFAULT_QUERY_LIMIT;
+  if (raw.limit !== undefined && raw.limit !== null) {
+    if (typeof raw.limit !== 'number' || !Number.isInteger(raw.limit) || raw.limit < 1) {
+      throw new TableQueryError('"limit" must be a positive integer');
+    }
+    limit = Math.min(raw.limit, MAX_QUERY_LIMIT);
+  }
+
+  return { filters, groupBy, aggregates, select, sort, limit };
+}
+
+function compareCells(a: TableCell, b: TableCell): number {
+  // Empty cells sort last
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  if (typeof a === 'number' || typeof b === 'number') {
+    const [x, y] = [Number(a), Number(b)];
+    if (!Number.isNaN(x) && !Number.isNaN(y)) return x - y;
+  }
+  return String(a).localeCompare(String(b), 'ja');
+}
+
+function cellsEqual(a: TableCell, b: TableCell): boolean {
+  if (a === null || b === null) return a === b;
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) === Number(b);
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function matchesFilter(cell: TableCell, filter: TableFilter): boolean {
+  const value = filter.value;
+  switch (filter.op) {
+    case 'eq':
+      return cellsEqual(cell, value as TableCell);
+    case 'ne':
+      return !cellsEqual(cell, value as TableCell);
+    case 'in':
+      return (value as TableCell[]).some(candidate => cellsEqual(cell, candidate));
+    case 'contains':
+      return cell !== null && value !== null
+        && String(cell).toLowerCase().includes(String(value).toLowerCase());
+    default: {
+      if (cell === null || value === null) return false;
+      const order = compareCells(cell, value as TableCell);
+      if (filter.op === 'gt') return order > 0;
+      if (filter.op === 'gte') return order >= 0;
+      if (filter.op === 'lt') return order < 0;
+      return order <= 0;
+    }
+  }
+}
+
+function aggregate(fn: AggregateFunction, values: TableCell[]): TableCell {
+  if (fn === 'count') return values.filter(value => value !== null).length;
+
+  const numbers = values.filter((value): value is number => typeof value === 'number');
+  if (fn === 'sum') return numbers.reduce((total, value) => total + value, 0);
+  if (numbers.length === 0) return null;
+  if (fn === 'avg') return numbers.reduce((total, value) => total + value, 0) / numbers.length;
+  return numbers.reduce((best, value) => (fn === 'min' ? Math.min(best, value) : Math.max(best, value)));
+}
+
+function sortRows(rows: TableCell[][], columns: string[], sort: TableSort[]): void {
+  if (sort.length === 0) return;
+
+  const sortKeys = sort.map(entry => ({
+    index: columns.indexOf(entry.column),
+    sign: entry.direction === 'desc' ? -1 : 1,
+  }));
+  rows.sort((a, b) => {
+    for (const { index, sign } of sortKeys) {
+      const order = compareCells(a[index], b[index]);
+      if (order !== 0) {
+        // Keep empty cells last in both directions
+        return a[index] === null || b[index] === null ? order : order * sign;
+      }
+    }
+    return 0;
+  });
+}
+
+// Run a validated query: filter -> group / aggregate (or project) -> sort -> limit
+export function runTableQuery(table: Table, query: TableQuery): TableQueryResult {
+  const columnIndex = new Map(table.columns.map((column, i) => [column, i]));
+  const cellOf = (row: TableCell[], column: string) => row[columnIndex.get(column)!] ?? null;
+
+  const matched = table.rows.filter(row =>
+    query.filters.every(filter => matchesFilter(cellOf(row, filter.column), filter))
+  );
+
+  let columns: string[];
+  let rows: TableCell[][];
+
+  if (query.groupBy.length > 0 || query.aggregates.length > 0) {
+    const groups = new Map<string, TableCell[][]>();
+    for (const row of matched) {
+      const key = JSON.stringify(query.groupBy.map(column => cellOf(row, column)));
+      const group = groups.get(key);
+      if (group) {
+        group.push(row);
+      } else {
+        groups.set(key, [row]);
+      }
+    }
+    // Aggregating without groupBy over zero rows still yields one row
+    if (groups.size === 0 && query.groupBy.length === 0) {
+      groups.set('[]', []);
+    }
+
+    columns = [...query.groupBy, ...query.aggregates.map(getAggregateName)];
+    rows = [...groups.entries()].map(([key, groupRows]) => [
+      ...(JSON.parse(key) as TableCell[]),
+      ...query.aggregates.map(({ fn, column }) =>
+        column
+          ? aggregate(fn, groupRows.map(row => cellOf(row, column)))
+          : groupRows.length
+      ),
+    ]);
+    sortRows(rows, columns, query.sort);
+  } else {
+    // Sort before projecting so any source column can be a sort key
+    sortRows(matched, table.columns, query.sort);
+    columns = query.select.length > 0 ? query.select : table.columns;
+    rows = matched.map(row => columns.map(column => cellOf(row, column)));
+  }
+
+  return {
+    columns,
+    rows: rows.slice(0, query.limit),
+    totalMatched: matched.length,
+  };
+}
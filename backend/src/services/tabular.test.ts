@@ -0,0 +1,158 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  decodeText,
+  detectDelimiter,
+  inferSheetSchema,
+  parseDelimited,
+  parseTables,
+  toMarkdownTable,
+} from './tabular.js';
+
+// "売上,1" in Shift_JIS
+const SHIFT_JIS_SAMPLE = Buffer.from([0x94, 0x84, 0x8f, 0xe3, 0x2c, 0x31]);
+
+describe('decodeText', () => {
+  it('decodes UTF-8 with and without a BOM', () => {
+    expect(decodeText(Buffer.from('売上,1', 'utf-8'))).toEqual({ text: '売上,1', encoding: 'utf-8' });
+    expect(decodeText(Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('a,b')])))
+      .toEqual({ text: 'a,b', encoding: 'utf-8' });
+  });
+
+  it('decodes BOM-marked UTF-16', () => {
+    const text = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('売上', 'utf16le')]);
+    expect(decodeText(text)).toEqual({ text: '売上', encoding: 'utf-16le' });
+  });
+
+  it('falls back to Shift_JIS for bytes that are not valid UTF-8', () => {
+    expect(decodeText(SHIFT_JIS_SAMPLE)).toEqual({ text: '売上,1', encoding: 'shift_jis' });
+  });
+});
+
+describe('detectDelimiter', () => {
+  it.each([
+    ['a,b,c\n1,2,3', ','],
+    ['a\tb\tc\n1\t2\t3', '\t'],
+    ['a;b;c\n1,5;2;3', ';'],
+    ['a|b\n1|2', '|'],
+  ])('detects the delimiter of %j', (text, delimiter) => {
+    expect(detectDelimiter(text)).toBe(delimiter);
+  });
+
+  it('ignores delimiters inside quotes', () => {
+    expect(detectDelimiter('name;note\n"Sato";"a, b, c"\n"Ito";"d, e"')).toBe(';');
+  });
+
+  it('defaults to a comma', () => {
+    expect(detectDelimiter('')).toBe(',');
+    expect(detectDelimiter('single column\nvalue')).toBe(',');
+  });
+});
+
+describe('parseDelimited', () => {
+  it('handles quoted delimiters, escaped quotes and newlines', () => {
+    const text = 'name,note\r\n"Sato, Taro","said ""hi""\nthen left"\r\nIto,\n';
+
+    expect(parseDelimited(text)).toEqual([
+      ['name', 'note'],
+      ['Sato, Taro', 'said "hi"\nthen left'],
+      ['Ito', ''],
+    ]);
+  });
+
+  it('drops blank lines and keeps a last line without a newline', () => {
+    expect(parseDelimited('a\tb\n\n \t \n1\t2', '\t')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('parseTables', () => {
+  it('types CSV cells and names empty header cells', async () => {
+    const csv = [
+      '商品,金額,日付,,郵便番号',
+      'ペン,"1,200",2024/1/5,,0123',
+      'ノート,300.5,2024年2月1日 9:30,,4567',
+      ',,,,',
+      '消しゴム,,2024-02-30,x,',
+    ].join('\n');
+    const parsed = await parseTables(Buffer.from(csv), 'csv', 'sales.csv');
+
+    expect(parsed.encoding).toBe('utf-8');
+    expect(parsed.delimiter).toBe(',');
+    expect(parsed.tables).toEqual([{
+      name: 'sales.csv',
+      columns: ['商品', '金額', '日付', '列4', '郵便番号'],
+      rows: [
+        ['ペン', 1200, '2024-01-05', null, '0123'],
+        ['ノート', 300.5, '2024-02-01T09:30:00', null, 4567],
+        ['消しゴム', null, '2024-02-30', 'x', null],
+      ],
+    }]);
+  });
+
+  it('reads a decimal comma with a semicolon delimiter', async () => {
+    const parsed = await parseTables(Buffer.from('item;price\npen;1,5\nbook;12'), 'csv', 'prices.csv');
+
+    expect(parsed.delimiter).toBe(';');
+    expect(parsed.tables[0].rows).toEqual([['pen', 1.5], ['book', 12]]);
+  });
+
+  it('drops trailing columns that are empty in every row', async () => {
+    const parsed = await parseTables(Buffer.from('a,b,,\n1,2,,\n'), 'csv', 'wide.csv');
+
+    expect(parsed.tables[0].columns).toEqual(['a', 'b']);
+    expect(parsed.tables[0].rows).toEqual([[1, 2]]);
+  });
+
+  it('rejects files that are not tabular', async () => {
+    await expect(parseTables(Buffer.from(''), 'pdf', 'doc.pdf')).rejects.toThrow('Not a tabular file: pdf');
+  });
+});
+
+describe('inferSheetSchema', () => {
+  it('infers number, date, enum and text columns', () => {
+    const schema = inferSheetSchema({
+      name: 'orders',
+      columns: ['amount', 'date', 'status', 'memo'],
+      rows: [
+        [100, '2024-01-05', 'open', 'first'],
+        [null, '2024-03-01', 'closed', 'second'],
+        [40, '2024-02-10', 'open', null],
+        [250, null, 'open', 'fourth'],
+      ],
+    });
+
+    expect(schema).toEqual({
+      name: 'orders',
+      rowCount: 4,
+      columns: [
+        { name: 'amount', type: 'number', nullCount: 1, min: 40, max: 250 },
+        { name: 'date', type: 'date', nullCount: 1, min: '2024-01-05', max: '2024-03-01' },
+        { name: 'status', type: 'enum', nullCount: 0, values: ['closed', 'open'] },
+        { name: 'memo', type: 'text', nullCount: 1 },
+      ],
+    });
+  });
+
+  it('treats mixed and empty columns as text', () => {
+    const schema = inferSheetSchema({
+      name: 'mixed',
+      columns: ['code', 'blank'],
+      rows: [[1, null], ['A-2', null]],
+    });
+
+    expect(schema.columns).toEqual([
+      { name: 'code', type: 'text', nullCount: 0 },
+      { name: 'blank', type: 'text', nullCount: 2 },
+    ]);
+  });
+});
+
+describe('toMarkdownTable', () => {
+  it('escapes pipes, flattens newlines and leaves empty cells blank', () => {
+    expect(toMarkdownTable(['name', 'note'], [['a|b', 'line1\n  line2'], [1, null]])).toBe([
+      '| name | note |',
+      '| --- | --- |',
+      '| a\\|b | line1 line2 |',
+      '| 1 |  |',
+    ].join('\n'));
+  });
+});
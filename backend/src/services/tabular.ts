@@ -0,0 +1,330 @@
+import ExcelJS from 'exceljs';
+import type { ColumnSchema, FileRecord, FileType, SheetSchema, TableSchema } from '../types/index.js';
+
+export type TableCell = string | number | null;
+
+// A parsed CSV file or worksheet; the first row becomes the column names.
+// Numbers are parsed and dates normalized to ISO strings.
+export interface Table {
+  name: string;
+  columns: string[];
+  rows: TableCell[][];
+}
+
+export interface ParsedTables {
+  tables: Table[];
+  encoding?: string;      // CSV / TSV only
+  delimiter?: string;
+}
+
+// Text columns with at most this many distinct values (and mostly repeated
+// values) are reported as enums along with their values
+const ENUM_MAX_VALUES = 20;
+const ENUM_MAX_DISTINCT_RATIO = 0.5;
+// Lines sampled when guessing the delimiter
+const DELIMITER_SAMPLE_LINES = 20;
+const DELIMITER_CANDIDATES = [',', '\t', ';', '|'];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2})?)?$/;
+
+export function isTabularFile(file: FileRecord): boolean {
+  return file.fileType === 'csv' || file.fileType === 'xlsx';
+}
+
+// Decode a delimited text file: BOM-marked UTF-8 / UTF-16, otherwise UTF-8
+// when the bytes are valid UTF-8 and Shift_JIS (Japanese Excel exports) if not
+export function decodeText(buffer: Buffer): { text: string; encoding: string } {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return { text: buffer.subarray(3).toString('utf-8'), encoding: 'utf-8' };
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(buffer.subarray(2)), encoding: 'utf-16le' };
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(buffer.subarray(2)), encoding: 'utf-16be' };
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(buffer), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder('shift_jis').decode(buffer), encoding: 'shift_jis' };
+  }
+}
+
+// Count delimiter occurrences per line, ignoring quoted sections
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+}
+
+// Pick the candidate that splits the first lines into the same, largest
+// number of fields
+export function detectDelimiter(text: string): string {
+  const lines = text.split(/\r?\n/).filter(line => line.trim()).slice(0, DELIMITER_SAMPLE_LINES);
+  if (lines.length === 0) return ',';
+
+  let best = ',';
+  let bestScore = 0;
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const counts = lines.map(line => countOutsideQuotes(line, delimiter));
+    const fields = counts[0];
+    if (fields === 0) continue;
+
+    const consistent = counts.filter(count => count === fields).length / counts.length;
+    const score = consistent * fields;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// RFC 4180 parsing: quoted fields may contain delimiters, quotes ("") and newlines
+export function parseDelimited(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// 2024-01-05, 2024/1/5, 2024.1.5, 2024年1月5日, optionally followed by a time
+function parseDate(text: string): string | null {
+  const match = text.match(
+    /^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})日?(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/
+  );
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (date.getUTCMonth() !== Number(month) - 1 || date.getUTCDate() !== Number(day)) {
+    return null;
+  }
+
+  const datePart = `${year}-${pad(Number(month))}-${pad(Number(day))}`;
+  return hour === undefined ? datePart : `${datePart}T${pad(Number(hour))}:${minute}:${second || '00'}`;
+}
+
+// Type a text cell. With ';' as delimiter a single comma is a decimal
+// separator ("1,5"); otherwise commas are thousands separators ("1,200").
+function toCell(value: string, decimalComma = false): TableCell {
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+
+  const numberText = decimalComma && /^-?\d+,\d+$/.test(trimmed)
+    ? trimmed.replace(',', '.')
+    : trimmed.replace(/,(?=\d{3}(\D|$))/g, '');
+  // Leading zeros mark codes (postal codes, IDs) that must stay text
+  if (/^-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(numberText) && !/^-?0\d/.test(numberText)) {
+    const numeric = Number(numberText);
+    if (Number.isFinite(numeric)) return numeric;
+  }
+
+  return parseDate(trimmed) ?? trimmed;
+}
+
+function excelCellToTableCell(value: ExcelJS.CellValue): TableCell {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return toCell(value);
+  if (typeof value === 'boolean') return String(value);
+  if (value instanceof Date) {
+    // Excel dates without a time of day become plain dates
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.slice(0, 19);
+  }
+  if ('richText' in value) return toCell(value.richText.map(part => part.text).join(''));
+  if ('formula' in value || 'sharedFormula' in value) {
+    return excelCellToTableCell((value as ExcelJS.CellFormulaValue).result as ExcelJS.CellValue);
+  }
+  if ('hyperlink' in value) return toCell(String(value.text));
+  return null;
+}
+
+function toTable(name: string, grid: TableCell[][]): Table {
+  const [header = [], ...body] = grid;
+
+  // Drop trailing columns that are empty in every row
+  let width = 0;
+  for (const row of grid) {
+    for (let i = row.length - 1; i >= width; i--) {
+      if (row[i] !== null && row[i] !== undefined) {
+        width = i + 1;
+        break;
+      }
+    }
+  }
+
+  const columns = Array.from({ length: width }, (_, i) => {
+    const label = header[i] === null || header[i] === undefined ? '' : String(header[i]).trim();
+    return label || `列${i + 1}`;
+  });
+  const rows = body.map(row => Array.from({ length: width }, (_, i) => row[i] ?? null));
+  return { name, columns, rows };
+}
+
+// Parse a CSV / TSV / XLSX file into tables (one per non-empty worksheet)
+export async function parseTables(buffer: Buffer, fileType: FileType, name: string): Promise<ParsedTables> {
+  if (fileType === 'csv') {
+    const { text, encoding } = decodeText(buffer);
+    const delimiter = detectDelimiter(text);
+    const grid = parseDelimited(text, delimiter).map(row => row.map(cell => toCell(cell, delimiter === ';')));
+    return { tables: [toTable(name, grid)], encoding, delimiter };
+  }
+
+  if (fileType === 'xlsx') {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer);
+
+    const tables: Table[] = [];
+    workbook.eachSheet((worksheet) => {
+      const grid: TableCell[][] = [];
+      worksheet.eachRow({ includeEmpty: false }, (row) => {
+        const cells: TableCell[] = [];
+        for (let col = 1; col <= worksheet.columnCount; col++) {
+          cells.push(excelCellToTableCell(row.getCell(col).value));
+        }
+        grid.push(cells);
+      });
+      if (grid.length > 0) {
+        tables.push(toTable(worksheet.name, grid));
+      }
+    });
+    return { tables };
+  }
+
+  throw new Error(`Not a tabular file: ${fileType}`);
+}
+
+function inferColumn(name: string, values: TableCell[]): ColumnSchema {
+  const present = values.filter((value): value is string | number => value !== null);
+  const nullCount = values.length - present.length;
+
+  if (present.length > 0 && present.every(value => typeof value === 'number')) {
+    const numbers = present as number[];
+    return {
+      name,
+      type: 'number',
+      nullCount,
+      min: numbers.reduce((a, b) => Math.min(a, b)),
+      max: numbers.reduce((a, b) => Math.max(a, b)),
+    };
+  }
+
+  const texts = present.map(String);
+  if (texts.length > 0 && present.every(value => typeof value === 'string' && ISO_DATE.test(value))) {
+    const sorted = [...texts].sort();
+    return { name, type: 'date', nullCount, min: sorted[0], max: sorted[sorted.length - 1] };
+  }
+
+  const distinct = [...new Set(texts)];
+  if (
+    distinct.length > 0 &&
+    distinct.length <= ENUM_MAX_VALUES &&
+    distinct.length <= texts.length * ENUM_MAX_DISTINCT_RATIO
+  ) {
+    return { name, type: 'enum', nullCount, values: distinct.sort() };
+  }
+
+  return { name, type: 'text', nullCount };
+}
+
+export function inferSheetSchema(table: Table): SheetSchema {
+  return {
+    name: table.name,
+    rowCount: table.rows.length,
+    columns: table.columns.map((column, i) => inferColumn(column, table.rows.map(row => row[i]))),
+  };
+}
+
+export function inferTableSchema(parsed: ParsedTables): TableSchema {
+  return {
+    ...(parsed.encoding ? { encoding: parsed.encoding } : {}),
+    ...(parsed.delimiter ? { delimiter: parsed.delimiter } : {}),
+    sheets: parsed.tables.map(inferSheetSchema),
+  };
+}
+
+// One line per column, e.g. "- 売上 (number, 120〜98000)"; used in prompts
+export function describeSheetSchema(sheet: SheetSchema): string {
+  const lines = sheet.columns.map((column) => {
+    let detail: string = column.type;
+    if (column.type === 'enum' && column.values) {
+      detail += `: ${column.values.join(' / ')}`;
+    } else if (column.min !== undefined && column.max !== undefined) {
+      detail += `, ${column.min}〜${column.max}`;
+    }
+    if (column.nullCount > 0) {
+      detail += `, 空欄${column.nullCount}件`;
+    }
+    return `- ${column.name} (${detail})`;
+  });
+  return [`シート: ${sheet.name} (${sheet.rowCount}行)`, ...lines].join('\n');
+}
+
+export function describeTableSchema(schema: TableSchema): string {
+  return schema.sheets.map(describeSheetSchema).join('\n\n');
+}
+
+function formatCell(cell: TableCell): string {
+  if (cell === null) return '';
+  return String(cell).replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ').trim();
+}
+
+// Render a table as Markdown (header row, separator, body rows)
+export function toMarkdownTable(columns: string[], rows: TableCell[][]): string {
+  return [
+    `| ${columns.map(formatCell).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(formatCell).join(' | ')} |`),
+  ].join('\n');
+}
@@ -0,0 +1,668 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  DeleteCommand,
+  QueryCommand,
+  UpdateCommand,
+  type QueryCommandInput,
+} from '@aws-sdk/lib-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  AuthPrincipal,
+  Company,
+  CreateCompanyRequest,
+  CreateDepartmentRequest,
+  CreateOrganizationRequest,
+  Department,
+  FileVisibility,
+  Organization,
+  OrganizationPlan,
+  UpdateCompanyRequest,
+  UpdateDepartmentRequest,
+  UpdateOrganizationRequest,
+  UserRole,
+} from '../types/index.js';
+import { getModelInfo } from '../config/models.js';
+import { ForbiddenError } from './permissions.js';
+import { collectPages, decodeCursor, encodeCursor, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, type Page } from './pagination.js';
+
+const ddbClient = new DynamoDBClient({});
+const ddb = DynamoDBDocumentClient.from(ddbClient);
+
+const TABLE_NAME = process.env.MAIN_TABLE || '';
+
+const PLANS: OrganizationPlan[] = ['free', 'starter', 'business', 'enterprise'];
+
+// Limits a new organization gets from its plan unless given explicitly
+export const PLAN_DEFAULTS: Record<OrganizationPlan, {
+  maxCompanies: number;
+  maxUsersPerCompany: number;
+  monthlyTokenLimit: number;
+}> = {
+  free: { maxCompanies: 1, maxUsersPerCompany: 5, monthlyTokenLimit: 1_000_000 },
+  starter: { maxCompanies: 3, maxUsersPerCompany: 50, monthlyTokenLimit: 20_000_000 },
+  business: { maxCompanies: 20, maxUsersPerCompany: 500, monthlyTokenLimit: 200_000_000 },
+  enterprise: { maxCompanies: 200, maxUsersPerCompany: 10_000, monthlyTokenLimit: 2_000_000_000 },
+};
+
+const DEFAULT_MAX_DEPARTMENTS = 50;
+const MAX_NAME_LENGTH = 100;
+
+// Invalid tenant input, a broken reference or an exceeded limit (returned as 400)
+export class TenantValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TenantValidationError';
+  }
+}
+
+// ============================================
+// Access control
+// ============================================
+
+// Members of an organization can see it; only system admins manage
+// organizations, although org admins may rename their own
+export function canViewOrganization(organizationId: string, principal: AuthPrincipal): boolean {
+  return principal.role === 'system_admin' || principal.organizationId === organizationId;
+}
+
+// Org admins see every company in their organization; everyone else only
+// their own company
+export function canViewCompany(company: Company, principal: AuthPrincipal): boolean {
+  if (principal.role === 'system_admin') return true;
+  if (principal.role === 'org_admin') return company.organizationId === principal.organizationId;
+  return company.companyId === principal.companyId;
+}
+
+// Creating, changing and deleting companies
+export function canManageCompanies(organizationId: string, principal: AuthPrincipal): boolean {
+  return principal.role === 'system_admin'
+    || (principal.role === 'org_admin' && principal.organizationId === organizationId);
+}
+
+// Creating, changing and deleting departments
+export function canManageDepartments(company: Company, principal: AuthPrincipal): boolean {
+  return canManageCompanies(company.organizationId, principal)
+    || (principal.role === 'company_admin' && principal.companyId === company.companyId);
+}
+
+// ============================================
+// Validation helpers
+// ============================================
+
+function validateName(name: unknown): string {
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new TenantValidationError('name is required');
+  }
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    throw new TenantValidationError(`name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  return name.trim();
+}
+
+function validateLimit(field: string, value: unknown): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new TenantValidationError(`${field} must be a positive integer`);
+  }
+  return value;
+}
+
+// Build "SET a = :a, ..." for the given fields plus updatedAt
+async function updateRecord<T>(key: { PK: string; SK: string }, fields: Record<string, unknown>): Promise<T> {
+  const names: Record<string, string> = { '#updatedAt': 'updatedAt' };
+  const values: Record<string, unknown> = { ':updatedAt': new Date().toISOString() };
+  const assignments = ['#updatedAt = :updatedAt'];
+
+  for (const [field, value] of Object.entries(fields)) {
+    names[`#${field}`] = field;
+    values[`:${field}`] = value;
+    assignments.push(`#${field} = :${field}`);
+  }
+
+  const result = await ddb.send(new UpdateCommand({
+    TableName: TABLE_NAME,
+    Key: key,
+    UpdateExpression: `SET ${assignments.join(', ')}`,
+    ConditionExpression: 'attribute_exists(PK)',
+    ExpressionAttributeNames: names,
+    ExpressionAttributeValues: values,
+    ReturnValues: 'ALL_NEW',
+  }));
+
+  return result.Attributes as T;
+}
+
+// Number of users assigned to a tenant. Users live in one GSI1 partition, so
+// this filters the whole partition (as listUsers does).
+export async function countUsers(scope: {
+  organizationId?: string;
+  companyId?: string;
+  departmentId?: string;
+}): Promise<number> {
+  const conditions: string[] = [];
+  const values: Record<string, string> = { ':pk': 'USERS' };
+  if (scope.organizationId) {
+    conditions.push('organizationId = :orgId');
+    values[':orgId'] = scope.organizationId;
+  }
+  if (scope.companyId) {
+    conditions.push('companyId = :companyId');
+    values[':companyId'] = scope.companyId;
+  }
+  if (scope.departmentId) {
+    conditions.push('departmentId = :deptId');
+    values[':deptId'] = scope.departmentId;
+  }
+
+  let count = 0;
+  let lastKey: Record<string, unknown> | undefined;
+  do {
+    const result = await ddb.send(new QueryCommand({
+      TableName: TABLE_NAME,
+      IndexName: 'GSI1',
+      KeyConditionExpression: 'GSI1PK = :pk',
+      FilterExpression: conditions.length > 0 ? conditions.join(' AND ') : undefined,
+      ExpressionAttributeValues: values,
+      Select: 'COUNT',
+      ExclusiveStartKey: lastKey,
+    }));
+    count += result.Count || 0;
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  return count;
+}
+
+export interface PageOptions {
+  limit?: number;
+  nextToken?: string;
+}
+
+// One page of an unfiltered query, so each read returns a full page
+async function queryPage<T>(
+  input: Omit<QueryCommandInput, 'TableName' | 'Limit' | 'ExclusiveStartKey'>,
+  options: PageOptions
+): Promise<Page<T>> {
+  const result = await ddb.send(new QueryCommand({
+    TableName: TABLE_NAME,
+    ...input,
+    Limit: options.limit || DEFAULT_PAGE_SIZE,
+    ExclusiveStartKey: decodeCursor(options.nextToken),
+  }));
+
+  return {
+    items: (result.Items || []) as T[],
+    ...(result.LastEvaluatedKey ? { nextToken: encodeCursor(result.LastEvaluatedKey) } : {}),
+  };
+}
+
+// ============================================
+// Organizations
+// ============================================
+
+export async function getOrganization(organizationId: string): Promise<Organization | null> {
+  const result = await ddb.send(new GetCommand({
+    TableName: TABLE_NAME,
+    Key: {
+      PK: `ORG#${organizationId}`,
+      SK: 'META',
+    },
+  }));
+
+  return (result.Item as Organization) || null;
+}
+
+export async function listOrganizations(
+  principal: AuthPrincipal,
+  options: PageOptions = {}
+): Promise<Page<Organization>> {
+  if (principal.role !== 'system_admin') {
+    const organization = principal.organizationId ? await getOrganization(principal.organizationId) : null;
+    return { items: organization ? [organization] : [] };
+  }
+
+  return queryPage<Organization>({
+    IndexName: 'GSI1',
+    KeyConditionExpression: 'GSI1PK = :pk',
+    ExpressionAttributeValues: {
+      ':pk': 'ORGANIZATIONS',
+    },
+    ScanIndexForward: false,
+  }, options);
+}
+
+export async function createOrganization(
+  principal: AuthPrincipal,
+  request: CreateOrganizationRequest
+): Promise<Organization> {
+  if (principal.role !== 'system_admin') {
+    throw new ForbiddenError('Only system admins can create organizations');
+  }
+
+  const plan = request.plan || 'free';
+  if (!PLANS.includes(plan)) {
+    throw new TenantValidationError(`Unknown plan: ${plan}`);
+  }
+  const defaults = PLAN_DEFAULTS[plan];
+
+  const organizationId = uuidv4();
+  const now = new Date().toISOString();
+  const organization: Organization = {
+    PK: `ORG#${organizationId}`,
+    SK: 'META',
+    organizationId,
+    name: validateName(request.name),
+    plan,
+    maxCompanies: validateLimit('maxCompanies', request.maxCompanies ?? defaults.maxCompanies),
+    maxUsersPerCompany: validateLimit('maxUsersPerCompany', request.maxUsersPerCompany ?? defaults.maxUsersPerCompany),
+    monthlyTokenLimit: validateLimit('monthlyTokenLimit', request.monthlyTokenLimit ?? defaults.monthlyTokenLimit),
+    createdAt: now,
+    updatedAt: now,
+    GSI1PK: 'ORGANIZATIONS',
+    GSI1SK: `ORG#${now}`,
+  };
+
+  await ddb.send(new PutCommand({
+    TableName: TABLE_NAME,
+    Item: organization,
+  }));
+
+  return organization;
+}
+
+export async function updateOrganization(
+  principal: AuthPrincipal,
+  organization: Organization,
+  request: UpdateOrganizationRequest
+): Promise<Organization> {
+  const changesLimits = request.plan !== undefined || request.maxCompanies !== undefined
+    || request.maxUsersPerCompany !== undefined || request.monthlyTokenLimit !== undefined;
+
+  if (principal.role !== 'system_admin') {
+    const ownAdmin = principal.role === 'org_admin' && principal.organizationId === organization.organizationId;
+    if (!ownAdmin || changesLimits) {
+      throw new ForbiddenError('Only system admins can change organization plans and limits');
+    }
+  }
+
+  const fields: Record<string, unknown> = {};
+  if (request.name !== undefined) fields.name = validateName(request.name);
+  if (request.plan !== undefined) {
+    if (!PLANS.includes(request.plan)) {
+      throw new TenantValidationError(`Unknown plan: ${request.plan}`);
+    }
+    fields.plan = request.plan;
+  }
+  if (request.maxCompanies !== undefined) {
+    fields.maxCompanies = validateLimit('maxCompanies', request.maxCompanies);
+  }
+  if (request.maxUsersPerCompany !== undefined) {
+    fields.maxUsersPerCompany = validateLimit('maxUsersPerCompany', request.maxUsersPerCompany);
+  }
+  if (request.monthlyTokenLimit !== undefined) {
+    fields.monthlyTokenLimit = validateLimit('monthlyTokenLimit', request.monthlyTokenLimit);
+  }
+  if (request.titleModel !== undefined) {
+    if (!getModelInfo(request.titleModel)) {
+      throw new TenantValidationError(`Unknown model: ${request.titleModel}`);
+    }
+    fields.titleModel = request.titleModel;
+  }
+
+  return updateRecord<Organization>({ PK: organization.PK, SK: organization.SK }, fields);
+}
+
+// Organizations are deleted only once they have no companies or users left
+export async function deleteOrganization(principal: AuthPrincipal, organization: Organization): Promise<void> {
+  if (principal.role !== 'system_admin') {
+    throw new ForbiddenError('Only system admins can delete organizations');
+  }
+  if ((await listCompaniesInOrganization(organization.organizationId, { limit: 1 })).items.length > 0) {
+    throw new TenantValidationError('Delete the organization\'s companies first');
+  }
+  if (await countUsers({ organizationId: organization.organizationId }) > 0) {
+    throw new TenantValidationError('The organization still has users');
+  }
+
+  await ddb.send(new DeleteCommand({
+    TableName: TABLE_NAME,
+    Key: { PK: organization.PK, SK: organization.SK },
+  }));
+}
+
+// ============================================
+// Companies
+// ============================================
+
+export async function getCompany(companyId: string): Promise<Company | null> {
+  const result = await ddb.send(new QueryCommand({
+    TableName: TABLE_NAME,
+    IndexName: 'GSI1',
+    KeyConditionExpression: 'GSI1PK = :pk AND GSI1SK = :sk',
+    ExpressionAttributeValues: {
+      ':pk': 'COMPANIES',
+      ':sk': `COMPANY#${companyId}`,
+    },
+  }));
+
+  return (result.Items?.[0] as Company) || null;
+}
+
+function listCompaniesInOrganization(organizationId: string, options: PageOptions): Promise<Page<Company>> {
+  return queryPage<Company>({
+    KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+    ExpressionAttributeValues: {
+      ':pk': `ORG#${organizationId}`,
+      ':sk': 'COMPANY#',
+    },
+  }, options);
+}
+
+// Companies visible to the caller, optionally limited to one organization
+export async function listCompanies(
+  principal: AuthPrincipal,
+  organizationId?: string,
+  options: PageOptions = {}
+): Promise<Page<Company>> {
+  if (principal.role === 'system_admin') {
+    if (organizationId) {
+      return listCompaniesInOrganization(organizationId, options);
+    }
+    return queryPage<Company>({
+      IndexName: 'GSI1',
+      KeyConditionExpression: 'GSI1PK = :pk',
+      ExpressionAttributeValues: {
+        ':pk': 'COMPANIES',
+      },
+    }, options);
+  }
+
+  if (principal.role === 'org_admin') {
+    if (!principal.organizationId || (organizationId && organizationId !== principal.organizationId)) {
+      return { items: [] };
+    }
+    return listCompaniesInOrganization(principal.organizationId, options);
+  }
+
+  const company = principal.companyId ? await getCompany(principal.companyId) : null;
+  return { items: company && (!organizationId || company.organizationId === organizationId) ? [company] : [] };
+}
+
+export async function createCompany(principal: AuthPrincipal, request: CreateCompanyRequest): Promise<Company> {
+  if (!request.organizationId) {
+    throw new TenantValidationError('organizationId is required');
+  }
+  if (!canManageCompanies(request.organizationId, principal)) {
+    throw new ForbiddenError('Cannot create companies in this organization');
+  }
+
+  const organization = await getOrganization(request.organizationId);
+  if (!organization) {
+    throw new TenantValidationError(`Organization not found: ${request.organizationId}`);
+  }
+
+  const name = validateName(request.name);
+  const maxUsers = validateLimit('maxUsers', request.maxUsers ?? organization.maxUsersPerCompany);
+  if (maxUsers > organization.maxUsersPerCompany) {
+    throw new TenantValidationError(`maxUsers cannot exceed the organization limit of ${organization.maxUsersPerCompany}`);
+  }
+  const maxDepartments = validateLimit('maxDepartments', request.maxDepartments ?? DEFAULT_MAX_DEPARTMENTS);
+
+  const existing = await collectPages(nextToken =>
+    listCompaniesInOrganization(organization.organizationId, { limit: MAX_PAGE_SIZE, nextToken }));
+  if (existing.length >= organization.maxCompanies) {
+    throw new TenantValidationError(`The organization's plan allows at most ${organization.maxCompanies} companies`);
+  }
+
+  const companyId = uuidv4();
+  const now = new Date().toISOString();
+  const company: Company = {
+    PK: `ORG#${organization.organizationId}`,
+    SK: `COMPANY#${companyId}`,
+    companyId,
+    organizationId: organization.organizationId,
+    name,
+    maxDepartments,
+    maxUsers,
+    ...(request.monthlyTokenLimit !== undefined
+      ? { monthlyTokenLimit: validateLimit('monthlyTokenLimit', request.monthlyTokenLimit) }
+      : {}),
+    createdAt: now,
+    updatedAt: now,
+    GSI1PK: 'COMPANIES',
+    GSI1SK: `COMPANY#${companyId}`,
+  };
+
+  await ddb.send(new PutCommand({
+    TableName: TABLE_NAME,
+    Item: company,
+  }));
+
+  return company;
+}
+
+export async function updateCompany(
+  principal: AuthPrincipal,
+  company: Company,
+  request: UpdateCompanyRequest
+): Promise<Company> {
+  if (!canManageCompanies(company.organizationId, principal)) {
+    throw new ForbiddenError('Cannot change companies in this organization');
+  }
+
+  const fields: Record<string, unknown> = {};
+  if (request.name !== undefined) fields.name = validateName(request.name);
+  if (request.maxDepartments !== undefined) {
+    fields.maxDepartments = validateLimit('maxDepartments', request.maxDepartments);
+  }
+  if (request.maxUsers !== undefined) {
+    const maxUsers = validateLimit('maxUsers', request.maxUsers);
+    const organization = await getOrganization(company.organizationId);
+    if (organization && maxUsers > organization.maxUsersPerCompany) {
+      throw new TenantValidationError(`maxUsers cannot exceed the organization limit of ${organization.maxUsersPerCompany}`);
+    }
+    fields.maxUsers = maxUsers;
+  }
+  if (request.monthlyTokenLimit !== undefined) {
+    fields.monthlyTokenLimit = validateLimit('monthlyTokenLimit', request.monthlyTokenLimit);
+  }
+
+  return updateRecord<Company>({ PK: company.PK, SK: company.SK }, fields);
+}
+
+// Companies are deleted only once they have no departments or users left
+export async function deleteCompany(principal: AuthPrincipal, company: Company): Promise<void> {
+  if (!canManageCompanies(company.organizationId, principal)) {
+    throw new ForbiddenError('Cannot delete companies in this organization');
+  }
+  if ((await listDepartments(company.companyId, { limit: 1 })).items.length > 0) {
+    throw new TenantValidationError('Delete the company\'s departments first');
+  }
+  if (await countUsers({ companyId: company.companyId }) > 0) {
+    throw new TenantValidationError('The company still has users');
+  }
+
+  await ddb.send(new DeleteCommand({
+    TableName: TABLE_NAME,
+    Key: { PK: company.PK, SK: company.SK },
+  }));
+}
+
+// ============================================
+// Departments
+// ============================================
+
+export async function getDepartment(companyId: string, departmentId: string): Promise<Department | null> {
+  const result = await ddb.send(new GetCommand({
+    TableName: TABLE_NAME,
+    Key: {
+      PK: `COMPANY#${companyId}`,
+      SK: `DEPT#${departmentId}`,
+    },
+  }));
+
+  return (result.Item as Department) || null;
+}
+
+export function listDepartments(companyId: string, options: PageOptions = {}): Promise<Page<Department>> {
+  return queryPage<Department>({
+    KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+    ExpressionAttributeValues: {
+      ':pk': `COMPANY#${companyId}`,
+      ':sk': 'DEPT#',
+    },
+  }, options);
+}
+
+export async function createDepartment(
+  principal: AuthPrincipal,
+  company: Company,
+  request: CreateDepartmentRequest
+): Promise<Department> {
+  if (!canManageDepartments(company, principal)) {
+    throw new ForbiddenError('Cannot create departments in this company');
+  }
+
+  const name = validateName(request.name);
+  const existing = await collectPages(nextToken =>
+    listDepartments(company.companyId, { limit: MAX_PAGE_SIZE, nextToken }));
+  if (existing.length >= company.maxDepartments) {
+    throw new TenantValidationError(`The company allows at most ${company.maxDepartments} departments`);
+  }
+
+  const departmentId = uuidv4();
+  const now = new Date().toISOString();
+  const department: Department = {
+    PK: `COMPANY#${company.companyId}`,
+    SK: `DEPT#${departmentId}`,
+    departmentId,
+    companyId: company.companyId,
+    organizationId: company.organizationId,
+    name,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await ddb.send(new PutCommand({
+    TableName: TABLE_NAME,
+    Item: department,
+  }));
+
+  return department;
+}
+
+export async function updateDepartment(
+  principal: AuthPrincipal,
+  company: Company,
+  department: Department,
+  request: UpdateDepartmentRequest
+): Promise<Department> {
+  if (!canManageDepartments(company, principal)) {
+    throw new ForbiddenError('Cannot change departments in this company');
+  }
+
+  const fields: Record<string, unknown> = {};
+  if (request.name !== undefined) fields.name = validateName(request.name);
+
+  return updateRecord<Department>({ PK: department.PK, SK: department.SK }, fields);
+}
+
+// Departments are deleted only once no users are assigned to them
+export async function deleteDepartment(
+  principal: AuthPrincipal,
+  company: Company,
+  department: Department
+): Promise<void> {
+  if (!canManageDepartments(company, principal)) {
+    throw new ForbiddenError('Cannot delete departments in this company');
+  }
+  if (await countUsers({ companyId: company.companyId, departmentId: department.departmentId }) > 0) {
+    throw new TenantValidationError('The department still has users');
+  }
+
+  await ddb.send(new DeleteCommand({
+    TableName: TABLE_NAME,
+    Key: { PK: department.PK, SK: department.SK },
+  }));
+}
+
+// ============================================
+// References from users and files
+// ============================================
+
+export interface TenantAssignment {
+  organizationId?: string;
+  companyId?: string;
+  departmentId?: string;
+}
+
+// Check that a user's tenant fields reference existing records that belong
+// together, and that the role has the fields it needs (org admins an
+// organization, company admins and users a company). The organization is
+// taken from the company when omitted.
+export async function resolveUserTenant(
+  role: UserRole,
+  assignment: TenantAssignment,
+  options: { countNewUser?: boolean } = {}
+): Promise<TenantAssignment> {
+  const { companyId, departmentId } = assignment;
+  let organizationId = assignment.organizationId;
+
+  if (role === 'org_admin' && !organizationId) {
+    throw new TenantValidationError('organizationId is required for organization admins');
+  }
+  if ((role === 'company_admin' || role === 'user') && !companyId) {
+    throw new TenantValidationError(`companyId is required for role ${role}`);
+  }
+  if (departmentId && !companyId) {
+    throw new TenantValidationError('departmentId requires companyId');
+  }
+
+  let company: Company | null = null;
+  if (companyId) {
+    company = await getCompany(companyId);
+    if (!company) {
+      throw new TenantValidationError(`Company not found: ${companyId}`);
+    }
+    if (organizationId && organizationId !== company.organizationId) {
+      throw new TenantValidationError('The company does not belong to the organization');
+    }
+    organizationId = company.organizationId;
+  } else if (organizationId && !await getOrganization(organizationId)) {
+    throw new TenantValidationError(`Organization not found: ${organizationId}`);
+  }
+
+  if (company && departmentId && !await getDepartment(company.companyId, departmentId)) {
+    throw new TenantValidationError(`Department not found in the company: ${departmentId}`);
+  }
+
+  if (company && options.countNewUser && await countUsers({ companyId: company.companyId }) >= company.maxUsers) {
+    throw new TenantValidationError(`The company allows at most ${company.maxUsers} users`);
+  }
+
+  return {
+    ...(organizationId ? { organizationId } : {}),
+    ...(companyId ? { companyId } : {}),
+    ...(departmentId ? { departmentId } : {}),
+  };
+}
+
+// Check that the tenant a shared file is scoped to exists, so files are not
+// shared into a deleted (or never created) department, company or organization
+export async function validateSharingScope(visibility: FileVisibility, scope: TenantAssignment): Promise<void> {
+  if (visibility === 'department') {
+    if (!scope.companyId || !scope.departmentId || !await getDepartment(scope.companyId, scope.departmentId)) {
+      throw new TenantValidationError('No existing department to share with');
+    }
+  } else if (visibility === 'company') {
+    if (!scope.companyId || !await getCompany(scope.companyId)) {
+      throw new TenantValidationError('No existing company to share with');
+    }
+  } else if (visibility === 'organization') {
+    if (!scope.organizationId || !await getOrganization(scope.organizationId)) {
+      throw new TenantValidationError('No existing organization to share with');
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from '@jest/globals';
+import { cleanTitle } from './titles.js';
+
+describe('cleanTitle', () => {
+  it.each([
+    ['double quotes', '"Quarterly budget review"', 'Quarterly budget review'],
+    ['single quotes', "'Quarterly budget review'", 'Quarterly budget review'],
+    ['Japanese brackets', '「来期の予算計画」', '来期の予算計画'],
+    ['nested brackets', '『【経費精算の手順】』', '経費精算の手順'],
+    ['a trailing full stop', '来期の予算計画。', '来期の予算計画'],
+    ['a trailing period', 'Budget review.', 'Budget review'],
+  ])('strips %s', (_label, output, title) => {
+    expect(cleanTitle(output)).toBe(title);
+  });
+
+  it.each([
+    ['Title: Budget review', 'Budget review'],
+    ['title : "Budget review"', 'Budget review'],
+    ['タイトル：来期の予算計画', '来期の予算計画'],
+    ['タイトル: 「来期の予算計画」', '来期の予算計画'],
+  ])('strips the label from %s', (output, title) => {
+    expect(cleanTitle(output)).toBe(title);
+  });
+
+  it('keeps only the first line', () => {
+    expect(cleanTitle('\n  Budget review  \nThis conversation is about the budget.')).toBe('Budget review');
+  });
+
+  it('keeps quotes inside the title', () => {
+    expect(cleanTitle('Using "strict" mode')).toBe('Using "strict" mode');
+    expect(cleanTitle('予算「案」の見直し')).toBe('予算「案」の見直し');
+  });
+
+  it('truncates to 50 characters', () => {
+    expect(cleanTitle('あ'.repeat(60))).toBe('あ'.repeat(50));
+    expect(cleanTitle(`「${'x'.repeat(49)}」`)).toBe('x'.repeat(49));
+  });
+
+  it('returns an empty title for output without one', () => {
+    expect(cleanTitle('   ')).toBe('');
+    expect(cleanTitle('「」')).toBe('');
+  });
+});
@@ -0,0 +1,108 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import type { AIModel, AuthPrincipal } from '../types/index.js';
+import { invokeModel } from './llm.js';
+import { replaceIndexedTitle } from './conversationIndex.js';
+import { recordTokenUsage } from './quotas.js';
+import { getOrganization } from './tenants.js';
+import { recordChatUsage } from './usage.js';
+
+const ddbClient = new DynamoDBClient({});
+const ddb = DynamoDBDocumentClient.from(ddbClient);
+
+const TABLE_NAME = process.env.MAIN_TABLE || '';
+
+// Cheap model used unless the organization chose another one
+export const DEFAULT_TITLE_MODEL: AIModel = 'us.amazon.nova-lite-v1:0';
+
+const MAX_TITLE_LENGTH = 50;
+// Characters of each message the title is generated from
+export const TITLE_EXCERPT_LENGTH = 1000;
+
+const TITLE_PROMPT = [
+  'You name chat conversations for a sidebar.',
+  'Reply with a concise title (at most 20 Japanese characters or 8 English words) describing the topic of the conversation.',
+  'Write the title in the language the user wrote in.',
+  'Reply with the title only: no quotes, no trailing punctuation, no explanation.',
+].join('\n');
+
+async function titleModelFor(principal: AuthPrincipal): Promise<AIModel> {
+  if (!principal.organizationId) return DEFAULT_TITLE_MODEL;
+  const organization = await getOrganization(principal.organizationId);
+  return organization?.titleModel || DEFAULT_TITLE_MODEL;
+}
+
+// First line of the model output without surrounding quotes or brackets
+export function cleanTitle(text: string): string {
+  const line = text.trim().split('\n')[0] || '';
+  return line
+    .replace(/^(title|タイトル)\s*[:：]\s*/i, '')
+    .replace(/^["'「『【]+|["'」』】。.]+$/g, '')
+    .trim()
+    .substring(0, MAX_TITLE_LENGTH);
+}
+
+// Name a new conversation from its first exchange. The generated title
+// replaces the provisional one (the start of the first message) unless the
+// user renamed the conversation in the meantime. Returns the title, or null
+// when none was stored. Failures are logged, not thrown: the answer has
+// already been delivered.
+export async function generateConversationTitle(
+  principal: AuthPrincipal,
+  conversationId: string,
+  provisionalTitle: string,
+  exchange: { question: string; answer: string }
+): Promise<string | null> {
+  try {
+    const model = await titleModelFor(principal);
+    const response = await invokeModel({
+      model,
+      systemPrompt: TITLE_PROMPT,
+      maxTokens: 64,
+      temperature: 0,
+      messages: [{
+        role: 'user',
+        content: [
+          `User: ${exchange.question.substring(0, TITLE_EXCERPT_LENGTH)}`,
+          '',
+          `Assistant: ${exchange.answer.substring(0, TITLE_EXCERPT_LENGTH)}`,
+        ].join('\n'),
+      }],
+    });
+
+    const inputTokens = response.usage?.inputTokens || 0;
+    const outputTokens = response.usage?.outputTokens || 0;
+    await Promise.all([
+      recordTokenUsage(principal, inputTokens + outputTokens),
+      recordChatUsage(principal, model, inputTokens, outputTokens),
+    ]);
+
+    const title = cleanTitle(response.content);
+    if (!title) return null;
+
+    await ddb.send(new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `CONV#${conversationId}`,
+        SK: 'META',
+      },
+      UpdateExpression: 'SET #title = :title',
+      ConditionExpression: '#title = :provisional',
+      ExpressionAttributeNames: {
+        '#title': 'title',
+      },
+      ExpressionAttributeValues: {
+        ':title': title,
+        ':provisional': provisionalTitle,
+      },
+    }));
+    await replaceIndexedTitle(principal.userId, conversationId, provisionalTitle, title)
+      .catch(error => console.error(`Failed to index the title of conversation ${conversationId}:`, error));
+    return title;
+  } catch (error) {
+    if ((error as Error).name !== 'ConditionalCheckFailedException') {
+      console.error(`Failed to generate a title for conversation ${conversationId}:`, error);
+    }
+    return null;
+  }
+}
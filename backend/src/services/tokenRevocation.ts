@@ -0,0 +1,47 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import type { CognitoTokenClaims } from './jwt.js';
+
+const ddbClient = new DynamoDBClient({});
+const ddb = DynamoDBDocumentClient.from(ddbClient);
+
+const TABLE_NAME = process.env.MAIN_TABLE || '';
+
+// Longest lifetime Cognito allows for ID and access tokens. A revoked session
+// can issue no new tokens, so its entry is only needed until the last ones
+// expire.
+const MAX_TOKEN_LIFETIME_SECONDS = 24 * 60 * 60;
+
+// Cognito gives every token of one sign-in (including those issued by
+// refreshing) the same origin_jti. Revoking a refresh token only takes effect
+// at Cognito, so this API keeps its own list of signed-out sessions.
+function sessionKey(originJti: string) {
+  return {
+    PK: `REVOKED_SESSION#${originJti}`,
+    SK: 'META',
+  };
+}
+
+// Reject the tokens of the sign-in the given token belongs to
+export async function revokeTokenSession(claims: CognitoTokenClaims): Promise<void> {
+  if (!claims.origin_jti) return;
+  const now = Math.floor(Date.now() / 1000);
+  await ddb.send(new PutCommand({
+    TableName: TABLE_NAME,
+    Item: {
+      ...sessionKey(claims.origin_jti),
+      userId: claims.sub,
+      revokedAt: new Date(now * 1000).toISOString(),
+      ttl: now + MAX_TOKEN_LIFETIME_SECONDS,
+    },
+  }));
+}
+
+export async function isTokenSessionRevoked(claims: CognitoTokenClaims): Promise<boolean> {
+  if (!claims.origin_jti) return false;
+  const result = await ddb.send(new GetCommand({
+    TableName: TABLE_NAME,
+    Key: sessionKey(claims.origin_jti),
+  }));
+  return !!result.Item;
+}
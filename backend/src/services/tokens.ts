@@ -0,0 +1,12 @@
+// Characters that are roughly one token each (kana, CJK ideographs, hangul)
+const WIDE_CHAR_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff\uac00-\ud7af\uff00-\uffef]/g;
+
+// Rough token count for budgeting prompts without a model-specific tokenizer.
+// Wide (CJK) characters count as one token each; other text averages about
+// four characters per token.
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  const wideChars = text.match(WIDE_CHAR_PATTERN)?.length || 0;
+  const otherChars = text.length - wideChars;
+  return wideChars + Math.ceil(otherChars / 4);
+}
@@ -0,0 +1,357 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, BatchGetCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import type {
+  AuthPrincipal,
+  DailyUsage,
+  ModelUsage,
+  UsageGroupBy,
+  UsageQuery,
+  UsageReport,
+  UsageRow,
+  UserRecord,
+} from '../types/index.js';
+import { calculateCost } from '../config/models.js';
+import { ForbiddenError } from './permissions.js';
+import { getCompany, getDepartment, listOrganizations } from './tenants.js';
+import { collectPages, MAX_PAGE_SIZE } from './pagination.js';
+
+const ddbClient = new DynamoDBClient({});
+const ddb = DynamoDBDocumentClient.from(ddbClient);
+
+const TABLE_NAME = process.env.MAIN_TABLE || '';
+
+// Partition / sort key segment for usage outside any organization or company
+const NONE = 'none';
+const GROUP_BY: UsageGroupBy[] = ['user', 'company', 'department', 'model', 'day'];
+const MAX_RANGE_DAYS = 366;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// BatchGetItem accepts at most 100 keys per call
+const BATCH_GET_LIMIT = 100;
+
+// Invalid usage query parameters (returned as 400)
+export class UsageQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageQueryError';
+  }
+}
+
+function today(): string {
+  return new Date().toISOString().substring(0, 10);
+}
+
+function usageKey(principal: AuthPrincipal, date: string): { PK: string; SK: string } {
+  return {
+    PK: `USAGE#${principal.organizationId || NONE}`,
+    SK: `${date}#${principal.companyId || NONE}#${principal.userId}`,
+  };
+}
+
+// SET clause that fills in the item's identity fields on first write
+function identityFields(principal: AuthPrincipal, date: string): {
+  expression: string;
+  names: Record<string, string>;
+  values: Record<string, unknown>;
+} {
+  const fields: Record<string, unknown> = {
+    date,
+    userId: principal.userId,
+    ...(principal.organizationId ? { organizationId: principal.organizationId } : {}),
+    ...(principal.companyId ? { companyId: principal.companyId } : {}),
+    ...(principal.departmentId ? { departmentId: principal.departmentId } : {}),
+  };
+
+  // Attribute names go through placeholders: "date" is a reserved word
+  return {
+    expression: Object.keys(fields).map(field => `#${field} = if_not_exists(#${field}, :${field})`).join(', '),
+    names: Object.fromEntries(Object.keys(fields).map(field => [`#${field}`, field])),
+    values: Object.fromEntries(Object.entries(fields).map(([field, value]) => [`:${field}`, value])),
+  };
+}
+
+// ============================================
+// Recording
+// ============================================
+
+// Add one model call to the caller's usage for today. The per-model entry is
+// updated in place; the first call of a model on a day creates the entry
+// (nested attributes cannot be added to before their parent map exists).
+// Failures are logged, never thrown.
+export async function recordChatUsage(
+  principal: AuthPrincipal,
+  model: string,
+  inputTokens: number,
+  outputTokens: number
+): Promise<void> {
+  const date = today();
+  const key = usageKey(principal, date);
+  const cost = calculateCost(model, inputTokens, outputTokens);
+
+  const addModelUsage = (condition?: string) => ddb.send(new UpdateCommand({
+    TableName: TABLE_NAME,
+    Key: key,
+    UpdateExpression: 'ADD modelUsage.#model.requestCount :one, modelUsage.#model.inputTokens :input, '
+      + 'modelUsage.#model.outputTokens :output, modelUsage.#model.cost :cost',
+    ConditionExpression: condition,
+    ExpressionAttributeNames: { '#model': model },
+    ExpressionAttributeValues: {
+      ':one': 1,
+      ':input': inputTokens,
+      ':output': outputTokens,
+      ':cost': cost,
+    },
+  }));
+
+  try {
+    try {
+      await addModelUsage('attribute_exists(modelUsage.#model)');
+      return;
+    } catch (error) {
+      if ((error as Error).name !== 'ConditionalCheckFailedException') throw error;
+    }
+
+    const identity = identityFields(principal, date);
+    await ddb.send(new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: key,
+      UpdateExpression: `SET ${identity.expression}, modelUsage = if_not_exists(modelUsage, :empty), `
+        + 'fileUploads = if_not_exists(fileUploads, :zero), fileStorageBytes = if_not_exists(fileStorageBytes, :zero)',
+      ExpressionAttributeNames: identity.names,
+      ExpressionAttributeValues: { ...identity.values, ':empty': {}, ':zero': 0 },
+    }));
+    await ddb.send(new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: key,
+      UpdateExpression: 'SET modelUsage.#model = if_not_exists(modelUsage.#model, :entry)',
+      ExpressionAttributeNames: { '#model': model },
+      ExpressionAttributeValues: {
+        ':entry': { requestCount: 0, inputTokens: 0, outputTokens: 0, cost: 0 },
+      },
+    }));
+    await addModelUsage();
+  } catch (error) {
+    console.error('Failed to record chat usage:', error);
+  }
+}
+
+// Count a completed upload towards the caller's usage for today
+export async function recordFileUpload(principal: AuthPrincipal, bytes: number): Promise<void> {
+  const date = today();
+  const identity = identityFields(principal, date);
+
+  try {
+    await ddb.send(new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: usageKey(principal, date),
+      UpdateExpression: `SET ${identity.expression}, modelUsage = if_not_exists(modelUsage, :empty) `
+        + 'ADD fileUploads :one, fileStorageBytes :bytes',
+      ExpressionAttributeNames: identity.names,
+      ExpressionAttributeValues: { ...identity.values, ':empty': {}, ':one': 1, ':bytes': bytes },
+    }));
+  } catch (error) {
+    console.error('Failed to record file upload usage:', error);
+  }
+}
+
+// ============================================
+// Reporting
+// ============================================
+
+interface UsageScope {
+  organizationIds: string[];   // USAGE# partitions to read
+  companyId?: string;
+  userId?: string;
+}
+
+async function listAllOrganizationIds(principal: AuthPrincipal): Promise<string[]> {
+  const organizations = await collectPages(nextToken =>
+    listOrganizations(principal, { limit: MAX_PAGE_SIZE, nextToken }));
+  return organizations.map(org => org.organizationId);
+}
+
+// Narrow the query to what the caller may see: system admins everything, org
+// admins their organization, company admins their company and users
+// themselves. Asking for anything outside that scope is rejected.
+async function resolveScope(principal: AuthPrincipal, query: UsageQuery): Promise<UsageScope> {
+  const ownOrganization = principal.organizationId || NONE;
+
+  switch (principal.role) {
+    case 'system_admin': {
+      const organizationIds = query.organizationId
+        ? [query.organizationId]
+        : [...(await listAllOrganizationIds(principal)), NONE];
+      return { organizationIds, companyId: query.companyId, userId: query.userId };
+    }
+    case 'org_admin':
+      if (query.organizationId && query.organizationId !== principal.organizationId) {
+        throw new ForbiddenError('Cannot view usage of another organization');
+      }
+      return { organizationIds: [ownOrganization], companyId: query.companyId, userId: query.userId };
+    case 'company_admin':
+      if (query.companyId && query.companyId !== principal.companyId) {
+        throw new ForbiddenError('Cannot view usage of another company');
+      }
+      return { organizationIds: [ownOrganization], companyId: principal.companyId || NONE, userId: query.userId };
+    default:
+      if (query.userId && query.userId !== principal.userId) {
+        throw new ForbiddenError('Cannot view usage of other users');
+      }
+      return { organizationIds: [ownOrganization], userId: principal.userId };
+  }
+}
+
+function validateRange(query: UsageQuery): { from: string; to: string } {
+  const to = query.to || today();
+  const from = query.from || `${to.substring(0, 7)}-01`;
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || Number.isNaN(Date.parse(from)) || Number.isNaN(Date.parse(to))) {
+    throw new UsageQueryError('from and to must be dates (YYYY-MM-DD)');
+  }
+  if (from > to) {
+    throw new UsageQueryError('from must not be after to');
+  }
+  if ((Date.parse(to) - Date.parse(from)) / 86_400_000 >= MAX_RANGE_DAYS) {
+    throw new UsageQueryError(`The date range may span at most ${MAX_RANGE_DAYS} days`);
+  }
+  return { from, to };
+}
+
+async function loadUsageItems(scope: UsageScope, from: string, to: string): Promise<DailyUsage[]> {
+  const conditions: string[] = [];
+  const values: Record<string, string> = {
+    ':from': `${from}#`,
+    ':to': `${to}#\uffff`,
+  };
+  if (scope.companyId) {
+    // Usage outside any company is stored without companyId
+    conditions.push(scope.companyId === NONE ? 'attribute_not_exists(companyId)' : 'companyId = :companyId');
+    if (scope.companyId !== NONE) values[':companyId'] = scope.companyId;
+  }
+  if (scope.userId) {
+    conditions.push('userId = :userId');
+    values[':userId'] = scope.userId;
+  }
+
+  const items: DailyUsage[] = [];
+  for (const organizationId of scope.organizationIds) {
+    let lastKey: Record<string, unknown> | undefined;
+    do {
+      const result = await ddb.send(new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND SK BETWEEN :from AND :to',
+        FilterExpression: conditions.length > 0 ? conditions.join(' AND ') : undefined,
+        ExpressionAttributeValues: { ...values, ':pk': `USAGE#${organizationId}` },
+        ExclusiveStartKey: lastKey,
+      }));
+      items.push(...(result.Items || []) as DailyUsage[]);
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+  }
+  return items;
+}
+
+function emptyRow(key: string): UsageRow {
+  return { key, requestCount: 0, inputTokens: 0, outputTokens: 0, cost: 0, fileUploads: 0, fileStorageBytes: 0 };
+}
+
+function addModelUsage(row: UsageRow, usage: ModelUsage): void {
+  row.requestCount += usage.requestCount;
+  row.inputTokens += usage.inputTokens;
+  row.outputTokens += usage.outputTokens;
+  row.cost += usage.cost;
+}
+
+function groupKey(item: DailyUsage, groupBy: UsageGroupBy): string {
+  switch (groupBy) {
+    case 'user': return item.userId;
+    case 'company': return item.companyId || NONE;
+    case 'department': return item.departmentId ? `${item.companyId || NONE}#${item.departmentId}` : NONE;
+    case 'day': return item.date;
+    default: return '';
+  }
+}
+
+async function loadUserNames(userIds: string[]): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  for (let i = 0; i < userIds.length; i += BATCH_GET_LIMIT) {
+    const result = await ddb.send(new BatchGetCommand({
+      RequestItems: {
+        [TABLE_NAME]: {
+          Keys: userIds.slice(i, i + BATCH_GET_LIMIT).map(userId => ({ PK: `USER#${userId}`, SK: 'META' })),
+          ProjectionExpression: 'userId, #name, email',
+          ExpressionAttributeNames: { '#name': 'name' },
+        },
+      },
+    }));
+    for (const user of (result.Responses?.[TABLE_NAME] || []) as Pick<UserRecord, 'userId' | 'name' | 'email'>[]) {
+      names.set(user.userId, user.name || user.email);
+    }
+  }
+  return names;
+}
+
+// Names for user, company and department rows
+async function addLabels(rows: UsageRow[], groupBy: UsageGroupBy): Promise<void> {
+  const keys = rows.map(row => row.key).filter(key => key !== NONE);
+
+  if (groupBy === 'user') {
+    const names = await loadUserNames(keys);
+    rows.forEach((row) => { row.label = names.get(row.key); });
+  } else if (groupBy === 'company') {
+    const companies = await Promise.all(keys.map(getCompany));
+    rows.forEach((row) => { row.label = companies.find(c => c?.companyId === row.key)?.name; });
+  } else if (groupBy === 'department') {
+    await Promise.all(rows.map(async (row) => {
+      if (row.key === NONE) return;
+      const [companyId, departmentId] = row.key.split('#');
+      row.label = (await getDepartment(companyId, departmentId))?.name;
+      row.key = departmentId;
+    }));
+  }
+}
+
+// Usage over a date range, grouped by user, company, department, model or
+// day and limited to what the caller may see
+export async function queryUsage(principal: AuthPrincipal, query: UsageQuery): Promise<UsageReport> {
+  const groupBy = query.groupBy || 'day';
+  if (!GROUP_BY.includes(groupBy)) {
+    throw new UsageQueryError(`groupBy must be one of: ${GROUP_BY.join(', ')}`);
+  }
+  const { from, to } = validateRange(query);
+  const scope = await resolveScope(principal, query);
+  const items = await loadUsageItems(scope, from, to);
+
+  const groups = new Map<string, UsageRow>();
+  const rowFor = (key: string) => {
+    if (!groups.has(key)) groups.set(key, emptyRow(key));
+    return groups.get(key)!;
+  };
+  const totals = emptyRow('');
+
+  for (const item of items) {
+    totals.fileUploads += item.fileUploads || 0;
+    totals.fileStorageBytes += item.fileStorageBytes || 0;
+
+    for (const [model, usage] of Object.entries(item.modelUsage || {})) {
+      addModelUsage(totals, usage);
+      addModelUsage(rowFor(groupBy === 'model' ? model : groupKey(item, groupBy)), usage);
+    }
+    // Uploads are not tied to a model, so they only count towards the totals
+    // when grouping by model
+    if (groupBy !== 'model' && (item.fileUploads || item.fileStorageBytes)) {
+      const row = rowFor(groupKey(item, groupBy));
+      row.fileUploads += item.fileUploads || 0;
+      row.fileStorageBytes += item.fileStorageBytes || 0;
+    }
+  }
+
+  const rows = [...groups.values()];
+  if (groupBy === 'day') {
+    rows.sort((a, b) => a.key.localeCompare(b.key));
+  } else {
+    rows.sort((a, b) => b.cost - a.cost);
+  }
+  await addLabels(rows, groupBy);
+
+  const { key: _key, ...totalValues } = totals;
+  return { from, to, groupBy, rows, totals: totalValues };
+}
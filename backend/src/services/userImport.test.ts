@@ -0,0 +1,212 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { CognitoIdentityProviderClient } from '@aws-sdk/client-cognito-identity-provider';
+import { DynamoDBDocumentClient, PutCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import type { AuthPrincipal, Company, Department, UserImportJob, UserImportRow } from '../types/index.js';
+import { parseImportRows, resumeUserImport, UserImportError } from './userImport.js';
+
+const companyAdmin: AuthPrincipal = {
+  userId: 'admin-1',
+  email: 'admin@example.com',
+  name: 'Admin',
+  role: 'company_admin',
+  organizationId: 'org-1',
+  companyId: 'company-1',
+};
+
+const departments: Department[] = [
+  {
+    PK: 'COMPANY#company-1',
+    SK: 'DEPT#dept-sales',
+    departmentId: 'dept-sales',
+    companyId: 'company-1',
+    organizationId: 'org-1',
+    name: '営業部',
+    createdAt: '2024-01-05T00:00:00.000Z',
+    updatedAt: '2024-01-05T00:00:00.000Z',
+  },
+  {
+    PK: 'COMPANY#company-1',
+    SK: 'DEPT#dept-dev',
+    departmentId: 'dept-dev',
+    companyId: 'company-1',
+    organizationId: 'org-1',
+    name: 'Development',
+    createdAt: '2024-01-05T00:00:00.000Z',
+    updatedAt: '2024-01-05T00:00:00.000Z',
+  },
+];
+
+function base64(text: string | Buffer): string {
+  return Buffer.from(text).toString('base64');
+}
+
+function parse(csv: string, principal = companyAdmin) {
+  return parseImportRows(principal, base64(csv), departments);
+}
+
+describe('parseImportRows', () => {
+  it('reads English headers in any order and defaults the role', () => {
+    expect(parse('Name,Email\nSato,sato@example.com\n')).toEqual([
+      { line: 2, email: 'sato@example.com', name: 'Sato', role: 'user', status: 'pending' },
+    ]);
+  });
+
+  it('reads Japanese headers, role labels and departments by name or ID', () => {
+    const csv = [
+      'メールアドレス\t氏名\t権限\t部署',
+      'sato@example.com\t佐藤\t一般ユーザー\t営業部',
+      'ito@example.com\t伊藤\tuser\tdept-dev',
+      'kato@example.com\t加藤\t\t development ',
+    ].join('\n');
+
+    expect(parse(csv)).toEqual([
+      { line: 2, email: 'sato@example.com', name: '佐藤', role: 'user', department: '営業部', departmentId: 'dept-sales', status: 'pending' },
+      { line: 3, email: 'ito@example.com', name: '伊藤', role: 'user', department: 'dept-dev', departmentId: 'dept-dev', status: 'pending' },
+      { line: 4, email: 'kato@example.com', name: '加藤', role: 'user', department: 'development', departmentId: 'dept-dev', status: 'pending' },
+    ]);
+  });
+
+  it('decodes a Shift_JIS file', () => {
+    // "email,名前\na@example.com,佐藤" with the Japanese text in Shift_JIS
+    const content = Buffer.concat([
+      Buffer.from('email,'),
+      Buffer.from([0x96, 0xbc, 0x91, 0x4f]),
+      Buffer.from('\na@example.com,'),
+      Buffer.from([0x8d, 0xb2, 0x93, 0xa1]),
+    ]);
+
+    expect(parseImportRows(companyAdmin, base64(content), departments)).toEqual([
+      { line: 2, email: 'a@example.com', name: '佐藤', role: 'user', status: 'pending' },
+    ]);
+  });
+
+  it('marks rows that can never be created as errors', () => {
+    const csv = [
+      'email,name,role,department',
+      'not-an-email,No Email,,',
+      'a@example.com,First,,',
+      'A@example.com,Duplicate,,',
+      'b@example.com,,,',
+      'c@example.com,Unknown Role,manager,',
+      'd@example.com,Too High,org_admin,',
+      'e@example.com,No Department,,Finance',
+    ].join('\n');
+
+    expect(parse(csv).map(row => [row.line, row.status, row.error])).toEqual([
+      [2, 'error', 'Invalid email address'],
+      [3, 'pending', undefined],
+      [4, 'error', 'Duplicate email in the file'],
+      [5, 'error', 'name is required'],
+      [6, 'error', 'Unknown role: manager'],
+      [7, 'error', 'Cannot create user with this role'],
+      [8, 'error', 'Department not found in the company: Finance'],
+    ]);
+  });
+
+  it('lets org admins grant company admin', () => {
+    const [row] = parse('email,name,role\na@example.com,A,会社管理者', { ...companyAdmin, role: 'org_admin' });
+
+    expect(row).toMatchObject({ role: 'company_admin', status: 'pending' });
+  });
+
+  it('numbers rows by CSV record, skipping blank lines', () => {
+    const rows = parse('email,name\n\na@example.com,A\n,\nb@example.com,B');
+
+    expect(rows.map(row => row.line)).toEqual([2, 3]);
+  });
+
+  it.each([
+    ['an empty file', '', 'The CSV file is empty'],
+    ['a missing name column', 'email,role\na@example.com,user', 'The CSV header must include email and name columns'],
+    ['a header without rows', 'email,name\n , \n', 'The CSV file has no user rows'],
+    [
+      'too many rows',
+      ['email,name', ...Array.from({ length: 1001 }, (_, i) => `u${i}@example.com,U${i}`)].join('\n'),
+      'At most 1000 users can be imported at once',
+    ],
+  ])('rejects %s', (_label, csv, message) => {
+    expect(() => parse(csv)).toThrow(UserImportError);
+    expect(() => parse(csv)).toThrow(message);
+  });
+});
+
+describe('resumeUserImport', () => {
+  const company = {
+    PK: 'ORG#org-1',
+    SK: 'COMPANY#company-1',
+    companyId: 'company-1',
+    organizationId: 'org-1',
+    name: 'Company',
+    maxUsers: 1,
+  } as Company;
+
+  function job(rows: UserImportRow[]): UserImportJob {
+    return {
+      PK: 'USER_IMPORT#job-1',
+      SK: 'META',
+      jobId: 'job-1',
+      organizationId: 'org-1',
+      companyId: 'company-1',
+      createdBy: 'admin-1',
+      status: 'in_progress',
+      total: rows.length,
+      created: 0,
+      failed: 0,
+      rows,
+      createdAt: '2024-01-05T00:00:00.000Z',
+      updatedAt: '2024-01-05T00:00:00.000Z',
+      ttl: 0,
+    };
+  }
+
+  const pending: UserImportRow[] = [
+    { line: 2, email: 'a@example.com', name: 'A', role: 'user', status: 'pending' },
+    { line: 3, email: 'b@example.com', name: 'B', role: 'user', status: 'pending' },
+  ];
+
+  // The table holds the job as another batch left it: the first row created
+  function stubTable(stored: UserImportJob | null) {
+    return jest.spyOn(DynamoDBDocumentClient.prototype, 'send').mockImplementation((async (command: unknown) => {
+      if (command instanceof UpdateCommand) {
+        if (!stored) throw Object.assign(new Error('locked'), { name: 'ConditionalCheckFailedException' });
+        return { Attributes: { ...stored, lockedUntil: command.input.ExpressionAttributeValues![':until'] } };
+      }
+      if (command instanceof QueryCommand) {
+        // The company, then the count of its users
+        return command.input.Select === 'COUNT' ? { Count: 1 } : { Items: [company] };
+      }
+      if (command instanceof PutCommand) return {};
+      throw new Error('Unexpected command');
+    }) as never);
+  }
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('processes the job as stored when the lock was taken, not as the caller read it', async () => {
+    const stored = job([{ ...pending[0], status: 'created', userId: 'user-a' }, pending[1]]);
+    const send = stubTable(stored);
+    const cognito = jest.spyOn(CognitoIdentityProviderClient.prototype, 'send');
+
+    const result = await resumeUserImport(companyAdmin, job(pending));
+
+    expect(cognito).not.toHaveBeenCalled();
+    expect(result.rows.map(row => [row.status, row.userId ?? row.error])).toEqual([
+      ['created', 'user-a'],
+      ['error', 'The company allows at most 1 users'],
+    ]);
+    expect(result).toMatchObject({ status: 'completed', created: 1, failed: 1 });
+    expect(result.lockedUntil).toBeUndefined();
+    const saved = send.mock.calls.map(([command]) => command).filter(command => command instanceof PutCommand);
+    expect((saved[saved.length - 1] as PutCommand).input.Item).toMatchObject({ rows: result.rows });
+  });
+
+  it('rejects a batch while another one holds the lock', async () => {
+    const send = stubTable(null);
+
+    await expect(resumeUserImport(companyAdmin, job(pending)))
+      .rejects.toThrow(new UserImportError('This import is already being processed'));
+    expect(send.mock.calls.some(([command]) => command instanceof PutCommand)).toBe(false);
+  });
+});
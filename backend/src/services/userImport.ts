@@ -0,0 +1,332 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  AuthPrincipal,
+  Company,
+  CreateUserImportRequest,
+  Department,
+  UserImportJob,
+  UserImportRow,
+  UserRole,
+} from '../types/index.js';
+import { ForbiddenError } from './permissions.js';
+import { countUsers, getCompany, listDepartments, TenantValidationError } from './tenants.js';
+import { createUserAccount, MANAGEABLE_ROLES, USER_ROLES } from './users.js';
+import { decodeText, detectDelimiter, parseDelimited } from './tabular.js';
+import { collectPages, MAX_PAGE_SIZE } from './pagination.js';
+
+const ddbClient = new DynamoDBClient({});
+const ddb = DynamoDBDocumentClient.from(ddbClient);
+
+const TABLE_NAME = process.env.MAIN_TABLE || '';
+
+const MAX_IMPORT_ROWS = 1000;
+// Time one request spends creating users, well inside the API Gateway timeout
+const BATCH_TIME_BUDGET_MS = 20_000;
+// Progress is saved after this many rows, so a crash loses little of the report
+const SAVE_EVERY_ROWS = 25;
+const JOB_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Accepted header names per column (lower-cased)
+const COLUMN_ALIASES = {
+  email: ['email', 'e-mail', 'メールアドレス', 'メール'],
+  name: ['name', '名前', '氏名'],
+  role: ['role', '権限', '権限レベル', 'ロール'],
+  department: ['department', 'departmentid', '部門', '部署'],
+};
+
+// Role labels as shown in the admin UI
+const ROLE_LABELS: Record<string, UserRole> = {
+  'システム管理者': 'system_admin',
+  '組織管理者': 'org_admin',
+  '会社管理者': 'company_admin',
+  '一般ユーザー': 'user',
+};
+
+// Invalid import requests (returned as 400)
+export class UserImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UserImportError';
+  }
+}
+
+function jobKey(jobId: string) {
+  return {
+    PK: `USER_IMPORT#${jobId}`,
+    SK: 'META',
+  };
+}
+
+function parseRole(value: string): UserRole | null {
+  if (!value) return 'user';
+  if (USER_ROLES.includes(value as UserRole)) return value as UserRole;
+  return ROLE_LABELS[value] || null;
+}
+
+function findDepartment(departments: Department[], value: string): Department | undefined {
+  const wanted = value.toLowerCase();
+  return departments.find(d => d.departmentId === value)
+    || departments.find(d => d.name.trim().toLowerCase() === wanted);
+}
+
+// Read the CSV into rows, marking rows that can never be created (bad email,
+// unknown role or department, role the caller may not grant, duplicates) as
+// errors up front
+export function parseImportRows(
+  principal: AuthPrincipal,
+  content: string,
+  departments: Department[]
+): UserImportRow[] {
+  const { text } = decodeText(Buffer.from(content, 'base64'));
+  const records = parseDelimited(text, detectDelimiter(text));
+  if (records.length === 0) {
+    throw new UserImportError('The CSV file is empty');
+  }
+
+  const header = records[0].map(cell => cell.trim().toLowerCase());
+  const columns = Object.fromEntries(Object.entries(COLUMN_ALIASES).map(([column, aliases]) => [
+    column,
+    header.findIndex(cell => aliases.includes(cell)),
+  ])) as Record<keyof typeof COLUMN_ALIASES, number>;
+  if (columns.email < 0 || columns.name < 0) {
+    throw new UserImportError('The CSV header must include email and name columns (role and department are optional)');
+  }
+
+  const dataRows = records
+    .map((cells, index) => ({ cells, line: index + 1 }))
+    .slice(1)
+    .filter(({ cells }) => cells.some(cell => cell.trim()));
+  if (dataRows.length === 0) {
+    throw new UserImportError('The CSV file has no user rows');
+  }
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    throw new UserImportError(`At most ${MAX_IMPORT_ROWS} users can be imported at once`);
+  }
+
+  const cell = (cells: string[], index: number) => (index >= 0 ? (cells[index] || '').trim() : '');
+  const seenEmails = new Set<string>();
+
+  return dataRows.map(({ cells, line }) => {
+    const row: UserImportRow = {
+      line,
+      email: cell(cells, columns.email),
+      name: cell(cells, columns.name),
+      role: cell(cells, columns.role) || 'user',
+      status: 'pending',
+    };
+    const department = cell(cells, columns.department);
+    if (department) row.department = department;
+
+    const fail = (error: string): UserImportRow => ({ ...row, status: 'error', error });
+
+    if (!EMAIL_PATTERN.test(row.email)) return fail('Invalid email address');
+    const emailKey = row.email.toLowerCase();
+    if (seenEmails.has(emailKey)) return fail('Duplicate email in the file');
+    seenEmails.add(emailKey);
+
+    if (!row.name) return fail('name is required');
+
+    const role = parseRole(row.role);
+    if (!role) return fail(`Unknown role: ${row.role}`);
+    if (!MANAGEABLE_ROLES[principal.role].includes(role)) return fail('Cannot create user with this role');
+    row.role = role;
+
+    if (department) {
+      const match = findDepartment(departments, department);
+      if (!match) return fail(`Department not found in the company: ${department}`);
+      row.departmentId = match.departmentId;
+    }
+
+    return row;
+  });
+}
+
+function summarize(job: UserImportJob): void {
+  job.created = job.rows.filter(row => row.status === 'created').length;
+  job.failed = job.rows.filter(row => row.status === 'error').length;
+  job.status = job.rows.some(row => row.status === 'pending') ? 'in_progress' : 'completed';
+  job.updatedAt = new Date().toISOString();
+}
+
+// Temporary passwords are never stored: they are returned once, in the
+// response of the batch that created the user
+async function saveJob(job: UserImportJob): Promise<void> {
+  await ddb.send(new PutCommand({
+    TableName: TABLE_NAME,
+    Item: {
+      ...job,
+      rows: job.rows.map(({ temporaryPassword: _password, ...row }) => row),
+    },
+  }));
+}
+
+// Take the job for one batch. Returns the job as stored when the lock was
+// taken, since a batch that held the lock before may have processed rows
+// after the caller read it, or null when another request is already
+// processing it.
+async function lockJob(jobId: string): Promise<UserImportJob | null> {
+  const now = Date.now();
+  try {
+    const result = await ddb.send(new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: jobKey(jobId),
+      UpdateExpression: 'SET lockedUntil = :until',
+      ConditionExpression: 'attribute_not_exists(lockedUntil) OR lockedUntil < :now',
+      ExpressionAttributeValues: { ':until': now + BATCH_TIME_BUDGET_MS * 2, ':now': now },
+      ReturnValues: 'ALL_NEW',
+    }));
+    return result.Attributes as UserImportJob;
+  } catch (error) {
+    if ((error as Error).name === 'ConditionalCheckFailedException') return null;
+    throw error;
+  }
+}
+
+// Create pending users until the time budget is spent. The company's user
+// limit is checked once for the batch rather than per row. Returns the
+// processed job.
+async function processBatch(principal: AuthPrincipal, jobId: string, company: Company): Promise<UserImportJob> {
+  const job = await lockJob(jobId);
+  if (!job) {
+    throw new UserImportError('This import is already being processed');
+  }
+
+  const deadline = Date.now() + BATCH_TIME_BUDGET_MS;
+  let available = company.maxUsers - await countUsers({ companyId: company.companyId });
+  let processed = 0;
+
+  try {
+    for (const row of job.rows) {
+      if (row.status !== 'pending') continue;
+      if (Date.now() > deadline) break;
+
+      if (available <= 0) {
+        row.status = 'error';
+        row.error = `The company allows at most ${company.maxUsers} users`;
+      } else {
+        try {
+          const result = await createUserAccount(principal, {
+            email: row.email,
+            name: row.name,
+            role: row.role as UserRole,
+            organizationId: company.organizationId,
+            companyId: company.companyId,
+            ...(row.departmentId ? { departmentId: row.departmentId } : {}),
+          }, { countNewUser: false });
+          row.status = 'created';
+          row.userId = result.userId;
+          row.temporaryPassword = result.temporaryPassword;
+          available--;
+        } catch (error) {
+          row.status = 'error';
+          row.error = (error as Error).name === 'UsernameExistsException'
+            ? 'A user with this email already exists'
+            : error instanceof Error ? error.message : 'Failed to create user';
+          if (!(error instanceof ForbiddenError || error instanceof TenantValidationError)) {
+            console.warn(`Import ${job.jobId} line ${row.line} failed:`, error);
+          }
+        }
+      }
+
+      processed++;
+      if (processed % SAVE_EVERY_ROWS === 0) {
+        summarize(job);
+        await saveJob(job);
+      }
+    }
+  } finally {
+    delete job.lockedUntil;
+    summarize(job);
+    await saveJob(job);
+  }
+  return job;
+}
+
+async function loadCompanyInScope(principal: AuthPrincipal, companyId: string): Promise<Company> {
+  const company = await getCompany(companyId);
+  if (!company) {
+    throw new UserImportError(`Company not found: ${companyId}`);
+  }
+  if (principal.role === 'org_admin' && company.organizationId !== principal.organizationId) {
+    throw new ForbiddenError('Cannot import users into a company of another organization');
+  }
+  if (principal.role === 'company_admin' && company.companyId !== principal.companyId) {
+    throw new ForbiddenError('Cannot import users into another company');
+  }
+  return company;
+}
+
+// Start an import: validate the CSV, store the job and process the first
+// batch. Callers continue with resumeUserImport while the job is in progress;
+// each returned job carries the temporary passwords of the users its batch
+// created.
+export async function createUserImport(
+  principal: AuthPrincipal,
+  request: CreateUserImportRequest
+): Promise<UserImportJob> {
+  if (principal.role === 'user') {
+    throw new ForbiddenError('Only admins can import users');
+  }
+
+  const companyId = request.companyId || principal.companyId;
+  if (!companyId) {
+    throw new UserImportError('companyId is required');
+  }
+  if (!request.content) {
+    throw new UserImportError('content (the CSV file, base64) is required');
+  }
+
+  const company = await loadCompanyInScope(principal, companyId);
+  const departments = await collectPages(nextToken =>
+    listDepartments(company.companyId, { limit: MAX_PAGE_SIZE, nextToken }));
+  const rows = parseImportRows(principal, request.content, departments);
+
+  const now = new Date();
+  const jobId = uuidv4();
+  const job: UserImportJob = {
+    ...jobKey(jobId),
+    jobId,
+    organizationId: company.organizationId,
+    companyId: company.companyId,
+    createdBy: principal.userId,
+    status: 'in_progress',
+    total: rows.length,
+    created: 0,
+    failed: 0,
+    rows,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    ttl: Math.floor(now.getTime() / 1000) + JOB_RETENTION_SECONDS,
+  };
+  summarize(job);
+  await saveJob(job);
+
+  return job.status === 'in_progress' ? processBatch(principal, jobId, company) : job;
+}
+
+// The job's report (without temporary passwords). Only the admin who started
+// the import (or a system admin) may see it.
+export async function getUserImport(principal: AuthPrincipal, jobId: string): Promise<UserImportJob | null> {
+  const result = await ddb.send(new GetCommand({
+    TableName: TABLE_NAME,
+    Key: jobKey(jobId),
+  }));
+
+  const job = result.Item as UserImportJob | undefined;
+  if (!job) return null;
+  if (job.createdBy !== principal.userId && principal.role !== 'system_admin') {
+    throw new ForbiddenError('Cannot access another admin\'s import');
+  }
+  return job;
+}
+
+// Process the next batch of a job that is still in progress
+export async function resumeUserImport(principal: AuthPrincipal, job: UserImportJob): Promise<UserImportJob> {
+  if (job.status === 'completed') return job;
+
+  const company = await loadCompanyInScope(principal, job.companyId);
+  return processBatch(principal, job.jobId, company);
+}
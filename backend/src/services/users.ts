@@ -0,0 +1,104 @@
+import { CognitoIdentityProviderClient, AdminCreateUserCommand } from '@aws-sdk/client-cognito-identity-provider';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import type { AuthPrincipal, CreateUserRequest, UserRecord, UserRole } from '../types/index.js';
+import { ForbiddenError } from './permissions.js';
+import { resolveUserTenant } from './tenants.js';
+
+const cognitoClient = new CognitoIdentityProviderClient({});
+const ddbClient = new DynamoDBClient({});
+const ddb = DynamoDBDocumentClient.from(ddbClient);
+
+const USER_POOL_ID = process.env.USER_POOL_ID || '';
+const TABLE_NAME = process.env.MAIN_TABLE || '';
+
+export const USER_ROLES: UserRole[] = ['system_admin', 'org_admin', 'company_admin', 'user'];
+
+// Roles each role may create, and manage afterwards
+export const MANAGEABLE_ROLES: Record<UserRole, UserRole[]> = {
+  system_admin: ['system_admin', 'org_admin', 'company_admin', 'user'],
+  org_admin: ['company_admin', 'user'],
+  company_admin: ['user'],
+  user: [],
+};
+
+export function generateTemporaryPassword(): string {
+  return `Temp${uuidv4().substring(0, 8)}!`;
+}
+
+// Create a user in Cognito and DynamoDB on behalf of an admin. Throws
+// ForbiddenError when the role hierarchy or the admin's tenant scope does not
+// allow it and TenantValidationError for an invalid tenant assignment.
+// countNewUser: false skips the company's user limit check (bulk imports
+// check the limit once for the whole batch).
+export async function createUserAccount(
+  requestingUser: AuthPrincipal,
+  request: CreateUserRequest,
+  options: { countNewUser?: boolean } = { countNewUser: true }
+): Promise<{ userId: string; temporaryPassword: string }> {
+  const { email, name, role, temporaryPassword } = request;
+
+  if (!MANAGEABLE_ROLES[requestingUser.role].includes(role)) {
+    throw new ForbiddenError('Cannot create user with this role');
+  }
+
+  // The tenant fields must reference existing records; the organization is
+  // filled in from the company when omitted
+  const tenant = await resolveUserTenant(role, request, options);
+  const { organizationId, companyId, departmentId } = tenant;
+
+  // Org admin can only create users in their organization
+  if (requestingUser.role === 'org_admin' && organizationId !== requestingUser.organizationId) {
+    throw new ForbiddenError('Cannot create user in different organization');
+  }
+
+  // Company admin can only create users in their company
+  if (requestingUser.role === 'company_admin' && companyId !== requestingUser.companyId) {
+    throw new ForbiddenError('Cannot create user in different company');
+  }
+
+  // Create user in Cognito
+  const password = temporaryPassword || generateTemporaryPassword();
+
+  const cognitoResult = await cognitoClient.send(new AdminCreateUserCommand({
+    UserPoolId: USER_POOL_ID,
+    Username: email,
+    TemporaryPassword: password,
+    UserAttributes: [
+      { Name: 'email', Value: email },
+      { Name: 'email_verified', Value: 'true' },
+      { Name: 'name', Value: name },
+      { Name: 'custom:role', Value: role },
+      { Name: 'custom:orgId', Value: organizationId || '' },
+      { Name: 'custom:compId', Value: companyId || '' },
+      { Name: 'custom:deptId', Value: departmentId || '' },
+    ],
+    MessageAction: 'SUPPRESS', // Don't send welcome email
+  }));
+
+  const userId = cognitoResult.User?.Username || uuidv4();
+  const now = new Date().toISOString();
+
+  // Create user record in DynamoDB
+  const userRecord: UserRecord = {
+    PK: `USER#${userId}`,
+    SK: 'META',
+    userId,
+    email,
+    name,
+    role,
+    ...tenant,
+    createdAt: now,
+    updatedAt: now,
+    GSI1PK: 'USERS',
+    GSI1SK: `USER#${now}`,
+  };
+
+  await ddb.send(new PutCommand({
+    TableName: TABLE_NAME,
+    Item: userRecord,
+  }));
+
+  return { userId, temporaryPassword: password };
+}
@@ -15,9 +15,37 @@ export type FileVisibility =
   | 'organization'  // Organization members
   | 'system';       // All users (system-wide)
 
-// File category for organization
+// File category: how a file is used in chat
+//   chat_attachment - included whole when selected (retrieved if too large)
+//   rag_source      - only the most relevant chunks are used when selected
+//   knowledge_base  - searched on every chat turn, selected or not
 export type FileCategory = 'chat_attachment' | 'rag_source' | 'knowledge_base';
 
+// Inferred types of tabular file columns. Dates are stored as ISO strings
+// (YYYY-MM-DD or YYYY-MM-DDTHH:mm:ss); enum is text with few distinct values.
+export type ColumnType = 'number' | 'date' | 'enum' | 'text';
+
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+  nullCount: number;
+  values?: string[];            // enum only
+  min?: number | string;        // number / date only
+  max?: number | string;
+}
+
+export interface SheetSchema {
+  name: string;                 // worksheet name, or the file name for CSV
+  rowCount: number;
+  columns: ColumnSchema[];
+}
+
+export interface TableSchema {
+  encoding?: string;            // CSV / TSV only
+  delimiter?: string;
+  sheets: SheetSchema[];
+}
+
 export interface FileRecord {
   PK: string;           // FILE#{file_id}
   SK: string;           // META
@@ -42,6 +70,11 @@ export interface FileRecord {
   extractedText?: string;
   textS3Key?: string;
   errorMessage?: string;
+  // Retrieval index (chunks + BM25 / vectors), see services/retrieval.ts
+  indexS3Key?: string;
+  chunkCount?: number;
+  // Column schema of CSV / XLSX files, see services/tabular.ts
+  tableSchema?: TableSchema;
   // GSI keys
   GSI1PK?: string;      // USER#{user_id} or VISIBILITY#{visibility}
   GSI1SK?: string;      // FILE#{uploaded_at}
@@ -49,21 +82,23 @@ export interface FileRecord {
   GSI2SK?: string;      // FILE#{uploaded_at}
 }
 
-export interface FileUploadRequest {
+// POST /files/upload-url: the file itself is PUT to the returned URL
+export interface FileUploadUrlRequest {
   fileName: string;
   fileType: FileType;
   mimeType: string;
-  fileData: string;     // base64 encoded
-  userId?: string;
-  // Access control
+  fileSize: number;     // bytes; checked against the uploaded object
+  // Access control (owner and tenant come from the authenticated principal)
   visibility?: FileVisibility;
   category?: FileCategory;
   description?: string;
-  // User context (for role-based visibility)
-  organizationId?: string;
-  companyId?: string;
-  departmentId?: string;
-  userRole?: UserRole;
+}
+
+export interface FileUploadUrlResponse {
+  fileId: string;
+  uploadUrl: string;    // presigned S3 PUT URL (send Content-Type: mimeType)
+  expiresIn: number;    // seconds
+  file: FileRecord;     // pending record (status: uploading)
 }
 
 export interface FileUploadResponse {
@@ -71,11 +106,13 @@ export interface FileUploadResponse {
   fileName: string;
   status: FileStatus;
   uploadedAt: string;
+  errorMessage?: string;
 }
 
 export interface FileQueryRequest {
   query: string;
   model?: string;
+  sheet?: string;       // XLSX worksheet to query; defaults to the first
 }
 
 export interface FileQueryResponse {
@@ -83,6 +120,80 @@ export interface FileQueryResponse {
   sourceData?: string;
 }
 
+// ============================================
+// Database Connection Types
+// ============================================
+export type DatabaseType = 'postgresql' | 'mysql';
+
+// External database registered for natural-language querying. The password
+// lives in Secrets Manager; only the secret's ARN is stored here.
+export interface DatabaseConnection {
+  PK: string;           // DBCONN#{connection_id}
+  SK: string;           // META
+  connectionId: string;
+  name: string;
+  type: DatabaseType;
+  host: string;
+  port: number;
+  database: string;
+  username: string;
+  ssl: boolean;
+  sslVerify?: boolean;      // false skips certificate verification (explicit opt-out)
+  sslCa?: string;           // PEM bundle the server certificate is verified against
+  passwordSecretArn: string;
+  secretManaged: boolean;   // secret created by us (deleted with the connection)
+  organizationId?: string;
+  companyId?: string;
+  createdBy: string;
+  createdAt: string;
+  // GSI keys
+  GSI2PK?: string;      // COMPANY#{company_id} or ORG#{org_id}
+  GSI2SK?: string;      // DBCONN#{created_at}
+}
+
+export interface CreateDatabaseConnectionRequest {
+  name: string;
+  type: DatabaseType;
+  host: string;
+  port?: number;
+  database: string;
+  username: string;
+  password?: string;            // stored as a new secret
+  passwordSecretArn?: string;   // or an existing secret (plain string or {"password": ...})
+  ssl?: boolean;
+  sslVerify?: boolean;          // default true
+  sslCa?: string;               // PEM; the system trust store is used when omitted
+}
+
+// Connection as returned by the API (no secret reference)
+export interface DatabaseConnectionResponse {
+  connectionId: string;
+  name: string;
+  type: DatabaseType;
+  host: string;
+  port: number;
+  database: string;
+  username: string;
+  ssl: boolean;
+  sslVerify: boolean;
+  sslCa?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface DatabaseQueryRequest {
+  question: string;
+  model?: string;
+}
+
+export interface DatabaseQueryResponse {
+  answer: string;
+  sql: string;
+  columns: string[];
+  rows: (string | number | boolean | null)[][];
+  truncated: boolean;     // more rows than the row limit matched
+}
+
 // ============================================
 // Conversation Types
 // ============================================
@@ -102,9 +213,34 @@ export interface Conversation {
   totalInputTokens: number;
   totalOutputTokens: number;
   totalCost: number;
+  pinned?: boolean;
+  archived?: boolean;
+  folder?: string;
+  tags?: string[];
+  summary?: string;             // Condensed earlier turns, sent in place of them
+  summarizedMessages?: number;  // Leading messages the summary covers
+  searchIndexed?: boolean;      // Title and messages are in the search index
   // GSI keys
-  GSI1PK?: string;      // USER#{user_id}
-  GSI1SK?: string;      // CONV#{updated_at}
+  GSI1PK?: string;      // USER#{user_id}, or USER#{user_id}#ARCHIVED when archived
+  GSI1SK?: string;      // CONV#{updated_at}, or CONV#PINNED#{updated_at} when pinned
+  GSI2PK?: string;      // USER#{user_id}#FOLDER#{folder} (in a folder and not archived)
+  GSI2SK?: string;      // CONV#{updated_at}
+}
+
+// PATCH /conversations/{conversationId}; omitted fields are left unchanged
+export interface UpdateConversationRequest {
+  title?: string;
+  pinned?: boolean;
+  archived?: boolean;
+  folder?: string | null;     // null: take out of its folder
+  tags?: string[];
+}
+
+// Folders a user has filed conversations in
+export interface ConversationFolders {
+  PK: string;           // USER#{user_id}
+  SK: string;           // CONV_FOLDERS
+  folders: Set<string>;
 }
 
 export interface ConversationMessage {
@@ -115,6 +251,7 @@ export interface ConversationMessage {
   content: string;
   attachments?: FileAttachment[];
   fileReferences?: string[];  // fileIds
+  citations?: Citation[];
   modelId?: string;
   inputTokens?: number;
   outputTokens?: number;
@@ -122,11 +259,255 @@ export interface ConversationMessage {
   createdAt: string;
 }
 
+// Conversation search (GET /conversations/search)
+// Inverted index for conversation search: one item per distinct term of a
+// title or message
+export interface ConversationSearchPosting {
+  PK: string;           // SEARCH#{user_id}#{term}
+  SK: string;           // {conversation_id}#{doc}
+  conversationId: string;
+  doc: string;          // The message's sort key (MSG#...) or TITLE
+  termFreq: number;
+  docLength: number;    // Tokens in the title or message
+}
+
+// Collection statistics of a user's search index
+export interface ConversationSearchStats {
+  PK: string;           // SEARCH#{user_id}
+  SK: string;           // STATS
+  docCount: number;
+  totalLength: number;
+  backfilled?: boolean; // Conversations saved before indexing existed are indexed
+}
+
+export interface ConversationSearchQuery {
+  q: string;
+  from?: string;        // yyyy-mm-dd, last activity on or after
+  to?: string;          // yyyy-mm-dd, last activity on or before
+  model?: string;       // the model the conversation was started with
+  limit: number;
+}
+
+// Matched span of a text, as UTF-16 offsets [start, end)
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface ConversationSearchSnippet {
+  messageId: string;
+  role: 'user' | 'assistant';
+  createdAt: string;
+  text: string;             // excerpt around the first match
+  highlights: TextRange[];  // offsets into text
+}
+
+export interface ConversationSearchHit {
+  conversationId: string;
+  title: string;
+  titleHighlights: TextRange[];
+  modelId: string;
+  updatedAt: string;
+  score: number;
+  snippet?: ConversationSearchSnippet;  // Omitted when only the title matched
+}
+
 // ============================================
 // User & Organization Types (for future auth)
 // ============================================
 export type UserRole = 'system_admin' | 'org_admin' | 'company_admin' | 'user';
 
+// Stored user record (also the resolved identity of an authenticated caller)
+export interface UserRecord {
+  PK: string;           // USER#{user_id}
+  SK: string;           // META
+  userId: string;       // Cognito sub
+  email: string;
+  name: string;
+  role: UserRole;
+  organizationId?: string;
+  companyId?: string;
+  departmentId?: string;
+  tokensRevokedAt?: string; // Tokens issued before this time are rejected
+  disabled?: boolean;   // Set while an admin has disabled the account
+  disabledAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  GSI1PK?: string;      // USERS
+  GSI1SK?: string;      // USER#{created_at}
+}
+
+// Verified identity of the caller, resolved from the Authorization header
+export type AuthPrincipal = Pick<
+  UserRecord,
+  'userId' | 'email' | 'name' | 'role' | 'organizationId' | 'companyId' | 'departmentId'
+>;
+
+export interface CreateUserRequest {
+  email: string;
+  name: string;
+  role: UserRole;
+  organizationId?: string;
+  companyId?: string;
+  departmentId?: string;
+  temporaryPassword?: string;
+}
+
+// Bulk user import from CSV. The job is processed in batches; each call
+// continues with the rows still pending.
+export type UserImportStatus = 'in_progress' | 'completed';
+
+export interface UserImportRow {
+  line: number;         // 1-based CSV record number (the header is 1)
+  email: string;
+  name: string;
+  role: string;
+  department?: string;  // As given: department name or ID
+  departmentId?: string;
+  status: 'pending' | 'created' | 'error';
+  userId?: string;
+  temporaryPassword?: string;  // Only in the response of the batch that created the user
+  error?: string;
+}
+
+export interface UserImportJob {
+  PK: string;           // USER_IMPORT#{job_id}
+  SK: string;           // META
+  jobId: string;
+  organizationId: string;
+  companyId: string;
+  createdBy: string;
+  status: UserImportStatus;
+  total: number;
+  created: number;
+  failed: number;
+  rows: UserImportRow[];
+  lockedUntil?: number; // Epoch ms; set while a batch is being processed
+  createdAt: string;
+  updatedAt: string;
+  ttl: number;          // Removed after a week
+}
+
+export interface CreateUserImportRequest {
+  companyId?: string;   // Defaults to the caller's company
+  content: string;      // CSV file, base64
+}
+
+// ============================================
+// Tenant Types
+// ============================================
+export type OrganizationPlan = 'free' | 'starter' | 'business' | 'enterprise';
+
+export interface Organization {
+  PK: string;           // ORG#{organization_id}
+  SK: string;           // META
+  organizationId: string;
+  name: string;
+  plan: OrganizationPlan;
+  maxCompanies: number;
+  maxUsersPerCompany: number;
+  monthlyTokenLimit: number;
+  titleModel?: AIModel;       // Model that names new conversations (default: Nova Lite)
+  createdAt: string;
+  updatedAt: string;
+  // GSI keys
+  GSI1PK?: string;      // ORGANIZATIONS
+  GSI1SK?: string;      // ORG#{created_at}
+}
+
+export interface Company {
+  PK: string;           // ORG#{organization_id}
+  SK: string;           // COMPANY#{company_id}
+  companyId: string;
+  organizationId: string;
+  name: string;
+  maxDepartments: number;
+  maxUsers: number;
+  monthlyTokenLimit?: number; // Optional cap below the organization's
+  createdAt: string;
+  updatedAt: string;
+  // GSI keys (lookup by company ID alone)
+  GSI1PK?: string;      // COMPANIES
+  GSI1SK?: string;      // COMPANY#{company_id}
+}
+
+export interface Department {
+  PK: string;           // COMPANY#{company_id}
+  SK: string;           // DEPT#{department_id}
+  departmentId: string;
+  companyId: string;
+  organizationId: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateOrganizationRequest {
+  name: string;
+  plan?: OrganizationPlan;
+  maxCompanies?: number;
+  maxUsersPerCompany?: number;
+  monthlyTokenLimit?: number;
+}
+
+export type UpdateOrganizationRequest = Partial<CreateOrganizationRequest> & {
+  titleModel?: AIModel;
+};
+
+export interface CreateCompanyRequest {
+  organizationId: string;
+  name: string;
+  maxDepartments?: number;
+  maxUsers?: number;
+  monthlyTokenLimit?: number;
+}
+
+export type UpdateCompanyRequest = Partial<Omit<CreateCompanyRequest, 'organizationId'>>;
+
+export interface CreateDepartmentRequest {
+  name: string;
+}
+
+export type UpdateDepartmentRequest = Partial<CreateDepartmentRequest>;
+
+// ============================================
+// Quota Types
+// ============================================
+
+// Models and per-user token limit of a plan, configured by system admins.
+// Without a stored record a plan allows every model and has no user limit.
+export interface PlanSettings {
+  PK: string;           // PLAN#{plan}
+  SK: string;           // META
+  plan: OrganizationPlan;
+  allowedModels?: AIModel[];      // Omitted: all models
+  userMonthlyTokenLimit?: number;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+export interface UpdatePlanSettingsRequest {
+  allowedModels?: AIModel[] | null;       // null: allow all models
+  userMonthlyTokenLimit?: number | null;  // null: no per-user limit
+}
+
+export type QuotaScope = 'organization' | 'company' | 'user';
+
+// Tokens (input + output) used by one tenant or user in a calendar month (UTC)
+export interface MonthlyUsage {
+  PK: string;           // QUOTA#{yyyy-mm}
+  SK: string;           // ORG#{id} | COMPANY#{id} | USER#{id}
+  month: string;
+  tokens: number;
+  updatedAt: string;
+}
+
+export interface QuotaWarning {
+  scope: QuotaScope;
+  used: number;
+  limit: number;
+}
+
 export interface User {
   PK: string;           // USER#{user_id}
   SK: string;           // META
@@ -141,26 +522,80 @@ export interface User {
   lastLoginAt: string;
 }
 
+// ============================================
+// Audit Types
+// ============================================
+export interface AuditEvent {
+  PK: string;           // AUDIT#{date}
+  SK: string;           // {timestamp}#{event_id}
+  eventId: string;
+  eventType: 'access_denied';
+  action: string;       // e.g. conversation:get
+  resourceType: 'conversation' | 'file' | 'user' | 'database_connection' | 'organization' | 'company' | 'department';
+  resourceId: string;
+  reason: string;
+  userId: string;
+  userRole: UserRole;
+  organizationId?: string;
+  companyId?: string;
+  createdAt: string;
+  ttl: number;
+  // GSI keys
+  GSI1PK?: string;      // USER#{user_id}
+  GSI1SK?: string;      // AUDIT#{timestamp}
+}
+
 // ============================================
 // Usage Types
 // ============================================
+export interface ModelUsage {
+  requestCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;         // USD
+}
+
+// One user's usage on one day (UTC). Users without an organization are
+// counted under USAGE#none.
 export interface DailyUsage {
-  PK: string;           // USAGE#{date}
-  SK: string;           // {organization_id}#{company_id}#{user_id}
-  date: string;
+  PK: string;           // USAGE#{organization_id}
+  SK: string;           // {date}#{company_id}#{user_id}
+  date: string;         // YYYY-MM-DD
   organizationId?: string;
   companyId?: string;
+  departmentId?: string;
   userId: string;
-  modelUsage: Record<string, {
-    requestCount: number;
-    inputTokens: number;
-    outputTokens: number;
-    cost: number;
-  }>;
+  modelUsage: Record<string, ModelUsage>;
   fileUploads: number;
   fileStorageBytes: number;
 }
 
+export type UsageGroupBy = 'user' | 'company' | 'department' | 'model' | 'day';
+
+export interface UsageQuery {
+  from?: string;        // YYYY-MM-DD, default: first day of this month
+  to?: string;          // YYYY-MM-DD, default: today
+  groupBy?: UsageGroupBy;
+  organizationId?: string;
+  companyId?: string;
+  userId?: string;
+}
+
+export interface UsageRow extends ModelUsage {
+  key: string;          // userId, companyId, departmentId, model or date
+  label?: string;       // user, company or department name
+  fileUploads: number;
+  fileStorageBytes: number;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  groupBy: UsageGroupBy;
+  rows: UsageRow[];
+  totals: Omit<UsageRow, 'key' | 'label'>;
+}
+
 // Bedrock Models (using us. prefix for cross-region inference)
 export type BedrockModel =
   // Anthropic Claude
@@ -196,6 +631,7 @@ export interface ModelInfo {
   category: 'reasoning' | 'balanced' | 'fast' | 'code' | 'multimodal';
   supportsImages: boolean;
   maxTokens: number;
+  contextWindow: number;    // Input and output tokens the model accepts per request
   pricing: ModelPricing;
 }
 
@@ -225,12 +661,35 @@ export interface ChatResponse {
   content: string;
   model: AIModel;
   provider: AIProvider;
+  conversationId?: string;
   usage?: {
     inputTokens: number;
     outputTokens: number;
   };
+  citations?: Citation[];
+  quotaWarnings?: QuotaWarning[];   // Monthly quotas at 80% or more
+  title?: string;                   // Title of a new conversation (non-streaming only)
+  titlePending?: boolean;           // A generated title replaces it shortly (non-streaming only)
+  summarizedMessages?: number;      // Leading messages sent as a summary rather than verbatim
 }
 
+// A file passage the answer cites with a [n] marker
+export interface Citation {
+  marker: number;       // n in the [n] marker
+  fileId: string;
+  fileName: string;
+  chunkIndex?: number;  // absent when the whole file was in context
+  page?: number;
+  snippet: string;
+}
+
+// Streaming events (sent to the client as SSE `data:` lines)
+export type ChatStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; response: ChatResponse }
+  | { type: 'title'; conversationId: string; title: string }   // after done, for a new conversation
+  | { type: 'error'; error: string };
+
 // Lambda event types
 export interface APIGatewayEvent {
   body: string | null;
@@ -240,6 +699,39 @@ export interface APIGatewayEvent {
   queryStringParameters: Record<string, string | undefined> | null;
 }
 
+// Lambda Function URL event (payload format 2.0), used by streaming handlers
+export interface FunctionUrlEvent {
+  body?: string;
+  isBase64Encoded: boolean;
+  headers: Record<string, string | undefined>;
+  rawPath: string;
+  queryStringParameters?: Record<string, string | undefined>;
+  requestContext: {
+    http: {
+      method: string;
+      path: string;
+    };
+  };
+}
+
+// EventBridge "Object Created" event from S3, used by the ingestion worker
+export interface S3ObjectCreatedEvent {
+  id: string;
+  'detail-type': 'Object Created';
+  source: 'aws.s3';
+  time: string;
+  detail: {
+    bucket: {
+      name: string;
+    };
+    object: {
+      key: string;
+      size: number;
+      etag?: string;
+    };
+  };
+}
+
 export interface APIGatewayResponse {
   statusCode: number;
   headers: Record<string, string>;
@@ -4,21 +4,44 @@ import {
   FileInfo,
   ChatRequest,
   ChatResponse,
+  ChatStreamEvent,
   ExtendedChatRequest,
-  FileUploadRequest,
+  FileUploadUrlRequest,
+  FileUploadUrlResponse,
   FileUploadResponse,
   UploadedFile,
   FileType,
   FileVisibility,
+  FileCategory,
   SavedConversation,
   SavedMessage,
+  ConversationListQuery,
+  UpdateConversationRequest,
+  ConversationSearchQuery,
+  ConversationSearchHit,
   getModelInfo,
   UserRole,
   AdminUser,
+  UserImportJob,
+  Organization,
+  OrganizationPlan,
+  Company,
+  Department,
+  PlanSettings,
+  UsageQuery,
+  UsageReport,
+  DatabaseConnection,
+  CreateDatabaseConnectionRequest,
+  DatabaseQueryResponse,
 } from '../types';
 
 // API endpoint from environment variable
 const API_ENDPOINT = import.meta.env.VITE_API_ENDPOINT || '';
+// Streaming chat endpoint (Lambda Function URL); falls back to /chat when unset
+const CHAT_STREAM_ENDPOINT = import.meta.env.VITE_CHAT_STREAM_ENDPOINT || '';
+// How often and how long to wait for a non-streamed conversation's title
+const TITLE_POLL_INTERVAL_MS = 2000;
+const TITLE_POLL_ATTEMPTS = 5;
 
 // Helper to get file type from mime type
 function getFileTypeFromMime(mimeType: string): FileType | null {
@@ -27,29 +50,144 @@ function getFileTypeFromMime(mimeType: string): FileType | null {
     'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
     'text/plain': 'txt',
     'text/csv': 'csv',
+    'text/tab-separated-values': 'csv',
+    'application/vnd.ms-excel': 'csv',    // CSV on Windows with Excel installed
     'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
   };
   return typeMap[mimeType] || null;
 }
 
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string | null;
+}
+
+// PUT a file to a presigned URL. XMLHttpRequest is used because fetch does
+// not report upload progress.
+function putWithProgress(
+  url: string,
+  file: File,
+  onProgress?: (fraction: number) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', url);
+    xhr.setRequestHeader('Content-Type', file.type);
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.(event.loaded / event.total);
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(1);
+        resolve();
+      } else {
+        reject(new Error(`Upload failed: HTTP ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Upload failed: network error'));
+    xhr.send(file);
+  });
+}
+
 export class ApiService {
   private endpoint: string;
-  private userId: string;
+  private authToken: string | null;
+  private refreshToken: string | null = null;
+  // In-flight refresh shared by concurrent requests that hit 401
+  private refreshPromise: Promise<boolean> | null = null;
+  private sessionListener: ((tokens: SessionTokens | null) => void) | null = null;
 
-  constructor(endpoint?: string, userId?: string) {
+  constructor(endpoint?: string, authToken?: string) {
     this.endpoint = endpoint || API_ENDPOINT;
-    this.userId = userId || 'anonymous';
+    this.authToken = authToken || null;
   }
 
-  setUserId(userId: string) {
-    this.userId = userId;
+  setSessionTokens(tokens: SessionTokens | null) {
+    this.authToken = tokens?.accessToken || null;
+    this.refreshToken = tokens?.refreshToken || null;
+  }
+
+  // Called with new tokens after an automatic refresh, or null when the
+  // session could not be refreshed and the user has to sign in again
+  onSessionChange(listener: ((tokens: SessionTokens | null) => void) | null) {
+    this.sessionListener = listener;
+  }
+
+  // Request headers carrying the caller's identity (the backend ignores any
+  // userId / role fields in bodies or query strings)
+  private authHeaders(headers: Record<string, string> = {}): Record<string, string> {
+    return this.authToken
+      ? { ...headers, 'Authorization': `Bearer ${this.authToken}` }
+      : headers;
+  }
+
+  // fetch with the Authorization header. On 401 the access token is refreshed
+  // once with the refresh token and the request is retried.
+  private async authorizedFetch(
+    url: string,
+    init: Omit<RequestInit, 'headers'> & { headers?: Record<string, string> } = {}
+  ): Promise<Response> {
+    const response = await fetch(url, { ...init, headers: this.authHeaders(init.headers) });
+    if (response.status !== 401 || !this.refreshToken) {
+      return response;
+    }
+
+    const refreshed = await this.refreshSession();
+    if (!refreshed) {
+      return response;
+    }
+    return fetch(url, { ...init, headers: this.authHeaders(init.headers) });
+  }
+
+  private refreshSession(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.requestTokenRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async requestTokenRefresh(): Promise<boolean> {
+    const refreshToken = this.refreshToken;
+    if (!refreshToken) return false;
+
+    try {
+      const response = await fetch(`${this.endpoint}/auth/refresh`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error: ${response.status}`);
+      }
+
+      const data: { accessToken: string; refreshToken: string } = await response.json();
+      const tokens: SessionTokens = {
+        accessToken: data.accessToken,
+        refreshToken: data.refreshToken || refreshToken,
+      };
+      this.setSessionTokens(tokens);
+      this.sessionListener?.(tokens);
+      return true;
+    } catch (error) {
+      console.error('Token refresh failed:', error);
+      this.setSessionTokens(null);
+      this.sessionListener?.(null);
+      return false;
+    }
   }
 
   // ============================================
   // Chat Methods
   // ============================================
 
-  async generateChatResponse(
+  private buildChatRequest(
     model: AIModel,
     messages: Message[],
     systemFiles: FileInfo[],
@@ -57,9 +195,10 @@ export class ApiService {
     options?: {
       conversationId?: string;
       fileIds?: string[];
+      connectionIds?: string[];
       saveHistory?: boolean;
     }
-  ): Promise<ChatResponse> {
+  ): ExtendedChatRequest {
     // Build system prompt with file context
     const allFiles = [...systemFiles, ...userFiles];
     const fileContext =
@@ -87,19 +226,34 @@ ${fileContext}
       })),
     }));
 
-    const request: ExtendedChatRequest = {
+    return {
       model,
       messages: apiMessages,
       systemPrompt,
       temperature: 0.7,
-      userId: this.userId,
       conversationId: options?.conversationId,
       fileIds: options?.fileIds,
+      connectionIds: options?.connectionIds,
       saveHistory: options?.saveHistory ?? true,
     };
+  }
+
+  async generateChatResponse(
+    model: AIModel,
+    messages: Message[],
+    systemFiles: FileInfo[],
+    userFiles: FileInfo[],
+    options?: {
+      conversationId?: string;
+      fileIds?: string[];
+      connectionIds?: string[];
+      saveHistory?: boolean;
+    }
+  ): Promise<ChatResponse> {
+    const request = this.buildChatRequest(model, messages, systemFiles, userFiles, options);
 
     try {
-      const response = await fetch(`${this.endpoint}/chat`, {
+      const response = await this.authorizedFetch(`${this.endpoint}/chat`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -120,18 +274,148 @@ ${fileContext}
     }
   }
 
+  // The non-streaming endpoint names a new conversation after answering;
+  // check the conversation a few times until the generated title is stored
+  private async waitForTitle(
+    conversationId: string,
+    provisionalTitle: string,
+    onTitle: (conversationId: string, title: string) => void
+  ): Promise<void> {
+    for (let attempt = 0; attempt < TITLE_POLL_ATTEMPTS; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, TITLE_POLL_INTERVAL_MS));
+      try {
+        const { conversation } = await this.getConversation(conversationId);
+        if (conversation.title !== provisionalTitle) {
+          onTitle(conversationId, conversation.title);
+          return;
+        }
+      } catch (error) {
+        console.warn('Failed to check the conversation title:', error);
+        return;
+      }
+    }
+  }
+
+  // Stream a chat response, calling onDelta with each chunk of text as it
+  // arrives. Resolves with the complete response (usage, conversationId).
+  // A new conversation's generated title arrives later through onTitle.
+  async streamChatResponse(
+    model: AIModel,
+    messages: Message[],
+    systemFiles: FileInfo[],
+    userFiles: FileInfo[],
+    options: {
+      conversationId?: string;
+      fileIds?: string[];
+      connectionIds?: string[];
+      saveHistory?: boolean;
+    } | undefined,
+    onDelta: (text: string) => void,
+    onTitle?: (conversationId: string, title: string) => void
+  ): Promise<ChatResponse> {
+    if (!CHAT_STREAM_ENDPOINT) {
+      const response = await this.generateChatResponse(model, messages, systemFiles, userFiles, options);
+      onDelta(response.content);
+      if (response.titlePending && response.conversationId && onTitle) {
+        this.waitForTitle(response.conversationId, response.title || '', onTitle);
+      }
+      return response;
+    }
+
+    const request = this.buildChatRequest(model, messages, systemFiles, userFiles, options);
+
+    const response = await this.authorizedFetch(CHAT_STREAM_ENDPOINT, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok || !response.body) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP error: ${response.status}`);
+    }
+
+    const events = this.readStreamEvents(response.body);
+    let finalResponse: ChatResponse | null = null;
+
+    while (!finalResponse) {
+      const { done, value: event } = await events.next();
+      if (done) break;
+
+      if (event.type === 'delta') {
+        onDelta(event.text);
+      } else if (event.type === 'done') {
+        finalResponse = event.response;
+      } else if (event.type === 'error') {
+        throw new Error(event.error);
+      }
+    }
+
+    if (!finalResponse) {
+      throw new Error('Stream ended unexpectedly');
+    }
+
+    // Resolve with the answer now and keep reading for the title
+    (async () => {
+      try {
+        for await (const event of events) {
+          if (event.type === 'title') {
+            onTitle?.(event.conversationId, event.title);
+          }
+        }
+      } catch (error) {
+        console.warn('Chat stream closed before the title arrived:', error);
+      }
+    })();
+
+    return finalResponse;
+  }
+
+  // Parse a server-sent event stream into chat stream events
+  private async *readStreamEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // SSE events are separated by a blank line
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        const data = rawEvent
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trim())
+          .join('');
+        if (data) {
+          yield JSON.parse(data) as ChatStreamEvent;
+        }
+      }
+    }
+  }
+
   // ============================================
   // File Methods
   // ============================================
 
+  // Upload in two steps: get a presigned URL, PUT the file straight to S3
+  // (reporting progress), then ask the backend to validate and ingest it
   async uploadFile(
     file: File,
     options?: {
       visibility?: FileVisibility;
-      userRole?: UserRole;
-      organizationId?: string;
-      companyId?: string;
-      departmentId?: string;
+      category?: FileCategory;
+      onProgress?: (fraction: number) => void;
     }
   ): Promise<FileUploadResponse> {
     const fileType = getFileTypeFromMime(file.type);
@@ -139,33 +423,16 @@ ${fileContext}
       throw new Error(`Unsupported file type: ${file.type}`);
     }
 
-    // Read file as base64
-    const base64Data = await new Promise<string>((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        const result = reader.result as string;
-        // Remove data URL prefix (e.g., "data:text/csv;base64,")
-        const base64 = result.split(',')[1] || result;
-        resolve(base64);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
-
-    const request: FileUploadRequest = {
+    const request: FileUploadUrlRequest = {
       fileName: file.name,
       fileType,
       mimeType: file.type,
-      fileData: base64Data,
-      userId: this.userId,
-      userRole: options?.userRole,
+      fileSize: file.size,
       visibility: options?.visibility || 'private',
-      organizationId: options?.organizationId,
-      companyId: options?.companyId,
-      departmentId: options?.departmentId,
+      category: options?.category || 'chat_attachment',
     };
 
-    const response = await fetch(`${this.endpoint}/files/upload`, {
+    const urlResponse = await this.authorizedFetch(`${this.endpoint}/files/upload-url`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -173,29 +440,43 @@ ${fileContext}
       body: JSON.stringify(request),
     });
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || `HTTP error: ${response.status}`);
+    if (!urlResponse.ok) {
+      const errorData = await urlResponse.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP error: ${urlResponse.status}`);
     }
 
-    return response.json();
+    const { fileId, uploadUrl }: FileUploadUrlResponse = await urlResponse.json();
+
+    try {
+      await putWithProgress(uploadUrl, file, options?.onProgress);
+    } catch (error) {
+      // Drop the pending record so it does not linger as "uploading"
+      await this.deleteFile(fileId).catch(() => undefined);
+      throw error;
+    }
+
+    const completeResponse = await this.authorizedFetch(`${this.endpoint}/files/${fileId}/complete`, {
+      method: 'POST',
+    });
+
+    if (!completeResponse.ok) {
+      const errorData = await completeResponse.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP error: ${completeResponse.status}`);
+    }
+
+    return completeResponse.json();
   }
 
   async updateFileVisibility(
     fileId: string,
-    visibility: FileVisibility,
-    userRole: UserRole
+    visibility: FileVisibility
   ): Promise<void> {
-    const response = await fetch(`${this.endpoint}/files/${fileId}`, {
+    const response = await this.authorizedFetch(`${this.endpoint}/files/${fileId}`, {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({
-        userId: this.userId,
-        userRole,
-        visibility,
-      }),
+      body: JSON.stringify({ visibility }),
     });
 
     if (!response.ok) {
@@ -204,20 +485,18 @@ ${fileContext}
     }
   }
 
+  // One page of files, newest first; pass nextToken to continue
   async listFiles(options?: {
-    userRole?: UserRole;
-    organizationId?: string;
-    companyId?: string;
-    departmentId?: string;
-  }): Promise<UploadedFile[]> {
+    category?: string;
+    limit?: number;
+    nextToken?: string;
+  }): Promise<{ files: UploadedFile[]; nextToken?: string }> {
     const params = new URLSearchParams();
-    params.append('userId', this.userId);
-    if (options?.userRole) params.append('userRole', options.userRole);
-    if (options?.organizationId) params.append('organizationId', options.organizationId);
-    if (options?.companyId) params.append('companyId', options.companyId);
-    if (options?.departmentId) params.append('departmentId', options.departmentId);
+    if (options?.category) params.append('category', options.category);
+    if (options?.limit) params.append('limit', options.limit.toString());
+    if (options?.nextToken) params.append('nextToken', options.nextToken);
 
-    const response = await fetch(
+    const response = await this.authorizedFetch(
       `${this.endpoint}/files?${params}`,
       {
         method: 'GET',
@@ -229,15 +508,11 @@ ${fileContext}
     }
 
     const data = await response.json();
-    return data.files || [];
+    return { files: data.files || [], nextToken: data.nextToken };
   }
 
-  async deleteFile(fileId: string, userRole?: UserRole): Promise<void> {
-    const params = new URLSearchParams();
-    params.append('userId', this.userId);
-    if (userRole) params.append('userRole', userRole);
-
-    const response = await fetch(`${this.endpoint}/files/${fileId}?${params}`, {
+  async deleteFile(fileId: string): Promise<void> {
+    const response = await this.authorizedFetch(`${this.endpoint}/files/${fileId}`, {
       method: 'DELETE',
     });
 
@@ -248,7 +523,7 @@ ${fileContext}
   }
 
   async queryFile(fileId: string, query: string): Promise<{ answer: string; sourceData?: string }> {
-    const response = await fetch(`${this.endpoint}/files/${fileId}/query`, {
+    const response = await this.authorizedFetch(`${this.endpoint}/files/${fileId}/query`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -265,18 +540,85 @@ ${fileContext}
   }
 
   // ============================================
-  // Conversation History Methods
+  // Database Connection Methods
   // ============================================
 
-  async listConversations(limit?: number): Promise<SavedConversation[]> {
-    const params = new URLSearchParams({
-      userId: this.userId,
+  async listDatabaseConnections(): Promise<DatabaseConnection[]> {
+    const response = await this.authorizedFetch(`${this.endpoint}/db/connections`, {
+      method: 'GET',
     });
-    if (limit) {
-      params.append('limit', limit.toString());
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch database connections');
     }
 
-    const response = await fetch(`${this.endpoint}/conversations?${params}`, {
+    const data = await response.json();
+    return data.connections || [];
+  }
+
+  async createDatabaseConnection(request: CreateDatabaseConnectionRequest): Promise<DatabaseConnection> {
+    const response = await this.authorizedFetch(`${this.endpoint}/db/connections`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to create database connection');
+    }
+
+    return response.json();
+  }
+
+  async deleteDatabaseConnection(connectionId: string): Promise<void> {
+    const response = await this.authorizedFetch(`${this.endpoint}/db/connections/${connectionId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to delete database connection');
+    }
+  }
+
+  async queryDatabase(connectionId: string, question: string, model?: AIModel): Promise<DatabaseQueryResponse> {
+    const response = await this.authorizedFetch(`${this.endpoint}/db/connections/${connectionId}/query`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ question, model }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to query database');
+    }
+
+    return response.json();
+  }
+
+  // ============================================
+  // Conversation History Methods
+  // ============================================
+
+  // One page of conversations, most recent first (pinned ones first unless
+  // filtered); pass nextToken to continue
+  async listConversations(query?: ConversationListQuery): Promise<{
+    conversations: SavedConversation[];
+    nextToken?: string;
+  }> {
+    const params = new URLSearchParams();
+    if (query?.limit) params.append('limit', query.limit.toString());
+    if (query?.nextToken) params.append('nextToken', query.nextToken);
+    if (query?.folder) params.append('folder', query.folder);
+    if (query?.archived) params.append('archived', 'true');
+    if (query?.tag) params.append('tag', query.tag);
+
+    const response = await this.authorizedFetch(`${this.endpoint}/conversations?${params}`, {
       method: 'GET',
     });
 
@@ -285,14 +627,35 @@ ${fileContext}
     }
 
     const data = await response.json();
-    return data.conversations || [];
+    return { conversations: data.conversations || [], nextToken: data.nextToken };
+  }
+
+  // Full-text search over the caller's conversation titles and messages
+  async searchConversations(query: ConversationSearchQuery): Promise<ConversationSearchHit[]> {
+    const params = new URLSearchParams({ q: query.q });
+    if (query.from) params.append('from', query.from);
+    if (query.to) params.append('to', query.to);
+    if (query.model) params.append('model', query.model);
+    if (query.limit) params.append('limit', query.limit.toString());
+
+    const response = await this.authorizedFetch(`${this.endpoint}/conversations/search?${params}`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to search conversations');
+    }
+
+    const data = await response.json();
+    return data.results || [];
   }
 
   async getConversation(conversationId: string): Promise<{
     conversation: SavedConversation;
     messages: SavedMessage[];
   }> {
-    const response = await fetch(`${this.endpoint}/conversations/${conversationId}`, {
+    const response = await this.authorizedFetch(`${this.endpoint}/conversations/${conversationId}`, {
       method: 'GET',
     });
 
@@ -304,8 +667,44 @@ ${fileContext}
     return response.json();
   }
 
+  async updateConversation(
+    conversationId: string,
+    request: UpdateConversationRequest
+  ): Promise<SavedConversation> {
+    const response = await this.authorizedFetch(`${this.endpoint}/conversations/${conversationId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to update conversation');
+    }
+
+    const data = await response.json();
+    return data.conversation;
+  }
+
+  // Folders the caller has filed conversations in
+  async listConversationFolders(): Promise<string[]> {
+    const response = await this.authorizedFetch(`${this.endpoint}/conversations/folders`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to fetch folders');
+    }
+
+    const data = await response.json();
+    return data.folders || [];
+  }
+
   async deleteConversation(conversationId: string): Promise<void> {
-    const response = await fetch(`${this.endpoint}/conversations/${conversationId}`, {
+    const response = await this.authorizedFetch(`${this.endpoint}/conversations/${conversationId}`, {
       method: 'DELETE',
     });
 
@@ -425,7 +824,30 @@ ${fileContext}
     return response.json();
   }
 
-  async getProfile(userId: string): Promise<{
+  // Revoke the session's refresh token (and, with global, every session of
+  // the user). Local tokens are cleared even if the request fails.
+  async signOut(options?: { global?: boolean }): Promise<void> {
+    const refreshToken = this.refreshToken;
+    try {
+      // Not retried through a refresh: revoking needs only the refresh token
+      const response = await fetch(`${this.endpoint}/auth/signout`, {
+        method: 'POST',
+        headers: this.authHeaders({
+          'Content-Type': 'application/json',
+        }),
+        body: JSON.stringify({ refreshToken, global: options?.global ?? false }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Sign out failed');
+      }
+    } finally {
+      this.setSessionTokens(null);
+    }
+  }
+
+  async getProfile(): Promise<{
     userId: string;
     email: string;
     name: string;
@@ -435,7 +857,7 @@ ${fileContext}
     departmentId?: string;
     createdAt: string;
   }> {
-    const response = await fetch(`${this.endpoint}/auth/profile?userId=${encodeURIComponent(userId)}`, {
+    const response = await this.authorizedFetch(`${this.endpoint}/auth/profile`, {
       method: 'GET',
     });
 
@@ -447,8 +869,8 @@ ${fileContext}
     return response.json();
   }
 
-  async updateProfile(userId: string, updates: { name?: string }): Promise<void> {
-    const response = await fetch(`${this.endpoint}/auth/profile?userId=${encodeURIComponent(userId)}`, {
+  async updateProfile(updates: { name?: string }): Promise<void> {
+    const response = await this.authorizedFetch(`${this.endpoint}/auth/profile`, {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
@@ -466,10 +888,11 @@ ${fileContext}
   // Admin Methods
   // ============================================
 
-  async listUsers(authToken: string, query?: {
+  async listUsers(query?: {
     organizationId?: string;
     companyId?: string;
-  }): Promise<AdminUser[]> {
+    nextToken?: string;
+  }): Promise<{ users: AdminUser[]; nextToken?: string }> {
     const params = new URLSearchParams();
     if (query?.organizationId) {
       params.append('organizationId', query.organizationId);
@@ -477,12 +900,12 @@ ${fileContext}
     if (query?.companyId) {
       params.append('companyId', query.companyId);
     }
+    if (query?.nextToken) {
+      params.append('nextToken', query.nextToken);
+    }
 
-    const response = await fetch(`${this.endpoint}/admin/users?${params}`, {
+    const response = await this.authorizedFetch(`${this.endpoint}/admin/users?${params}`, {
       method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${authToken}`,
-      },
     });
 
     if (!response.ok) {
@@ -491,10 +914,10 @@ ${fileContext}
     }
 
     const data = await response.json();
-    return data.users || [];
+    return { users: data.users || [], nextToken: data.nextToken };
   }
 
-  async createUser(authToken: string, userData: {
+  async createUser(userData: {
     email: string;
     name: string;
     role: UserRole;
@@ -506,11 +929,10 @@ ${fileContext}
     userId: string;
     temporaryPassword: string;
   }> {
-    const response = await fetch(`${this.endpoint}/admin/users`, {
+    const response = await this.authorizedFetch(`${this.endpoint}/admin/users`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${authToken}`,
       },
       body: JSON.stringify(userData),
     });
@@ -522,6 +944,364 @@ ${fileContext}
 
     return response.json();
   }
+
+  // Omitted fields are kept; null clears a tenant field
+  async updateUser(userId: string, updates: {
+    name?: string;
+    role?: UserRole;
+    organizationId?: string | null;
+    companyId?: string | null;
+    departmentId?: string | null;
+  }): Promise<AdminUser> {
+    const response = await this.authorizedFetch(`${this.endpoint}/admin/users/${userId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(updates),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to update user');
+    }
+
+    return response.json();
+  }
+
+  // Start a bulk import. The first batch is processed right away; call
+  // resumeUserImport while the job is in progress.
+  async startUserImport(file: File, companyId?: string): Promise<UserImportJob> {
+    // The server detects the encoding (Excel exports are often Shift_JIS), so
+    // the raw bytes are sent
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+
+    const response = await this.authorizedFetch(`${this.endpoint}/admin/users/import`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ companyId, content: btoa(binary) }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to start user import');
+    }
+
+    return response.json();
+  }
+
+  async resumeUserImport(jobId: string): Promise<UserImportJob> {
+    const response = await this.authorizedFetch(`${this.endpoint}/admin/users/import/${jobId}/resume`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to resume user import');
+    }
+
+    return response.json();
+  }
+
+  async deleteUser(userId: string): Promise<void> {
+    const response = await this.authorizedFetch(`${this.endpoint}/admin/users/${userId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to delete user');
+    }
+  }
+
+  async setUserDisabled(userId: string, disabled: boolean): Promise<void> {
+    const action = disabled ? 'disable' : 'enable';
+    const response = await this.authorizedFetch(`${this.endpoint}/admin/users/${userId}/${action}`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to ${action} user`);
+    }
+  }
+
+  async resendInvite(userId: string): Promise<{ temporaryPassword: string }> {
+    const response = await this.authorizedFetch(`${this.endpoint}/admin/users/${userId}/resend-invite`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to resend invitation');
+    }
+
+    return response.json();
+  }
+
+  // ============================================
+  // Tenant Methods (organizations, companies, departments)
+  // ============================================
+
+  // Fetch every page of a tenant list; the admin screens pick from the whole set
+  private async listAllPages<T>(url: string, key: string, errorMessage: string, filters?: URLSearchParams): Promise<T[]> {
+    const items: T[] = [];
+    let nextToken: string | undefined;
+    do {
+      const params = new URLSearchParams(filters);
+      params.set('limit', '100');
+      if (nextToken) params.set('nextToken', nextToken);
+      const response = await this.authorizedFetch(`${url}?${params}`, {
+        method: 'GET',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || errorMessage);
+      }
+
+      const data = await response.json();
+      items.push(...(data[key] || []));
+      nextToken = data.nextToken;
+    } while (nextToken);
+    return items;
+  }
+
+  async listOrganizations(): Promise<Organization[]> {
+    return this.listAllPages(`${this.endpoint}/admin/organizations`, 'organizations', 'Failed to list organizations');
+  }
+
+  async createOrganization(request: {
+    name: string;
+    plan?: OrganizationPlan;
+    maxCompanies?: number;
+    maxUsersPerCompany?: number;
+    monthlyTokenLimit?: number;
+  }): Promise<Organization> {
+    const response = await this.authorizedFetch(`${this.endpoint}/admin/organizations`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to create organization');
+    }
+
+    return response.json();
+  }
+
+  async updateOrganization(organizationId: string, updates: Partial<Pick<
+    Organization, 'name' | 'plan' | 'maxCompanies' | 'maxUsersPerCompany' | 'monthlyTokenLimit' | 'titleModel'
+  >>): Promise<Organization> {
+    const response = await this.authorizedFetch(`${this.endpoint}/admin/organizations/${organizationId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(updates),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to update organization');
+    }
+
+    return response.json();
+  }
+
+  async deleteOrganization(organizationId: string): Promise<void> {
+    const response = await this.authorizedFetch(`${this.endpoint}/admin/organizations/${organizationId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to delete organization');
+    }
+  }
+
+  async listCompanies(organizationId?: string): Promise<Company[]> {
+    const params = new URLSearchParams();
+    if (organizationId) {
+      params.append('organizationId', organizationId);
+    }
+
+    return this.listAllPages(`${this.endpoint}/admin/companies`, 'companies', 'Failed to list companies', params);
+  }
+
+  async createCompany(request: {
+    organizationId: string;
+    name: string;
+    maxDepartments?: number;
+    maxUsers?: number;
+  }): Promise<Company> {
+    const response = await this.authorizedFetch(`${this.endpoint}/admin/companies`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to create company');
+    }
+
+    return response.json();
+  }
+
+  async updateCompany(companyId: string, updates: Partial<Pick<
+    Company, 'name' | 'maxDepartments' | 'maxUsers'
+  >>): Promise<Company> {
+    const response = await this.authorizedFetch(`${this.endpoint}/admin/companies/${companyId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(updates),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to update company');
+    }
+
+    return response.json();
+  }
+
+  async deleteCompany(companyId: string): Promise<void> {
+    const response = await this.authorizedFetch(`${this.endpoint}/admin/companies/${companyId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to delete company');
+    }
+  }
+
+  async listDepartments(companyId: string): Promise<Department[]> {
+    return this.listAllPages(
+      `${this.endpoint}/admin/companies/${companyId}/departments`,
+      'departments',
+      'Failed to list departments'
+    );
+  }
+
+  async createDepartment(companyId: string, name: string): Promise<Department> {
+    const response = await this.authorizedFetch(`${this.endpoint}/admin/companies/${companyId}/departments`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ name }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to create department');
+    }
+
+    return response.json();
+  }
+
+  async updateDepartment(companyId: string, departmentId: string, name: string): Promise<Department> {
+    const response = await this.authorizedFetch(
+      `${this.endpoint}/admin/companies/${companyId}/departments/${departmentId}`,
+      {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to update department');
+    }
+
+    return response.json();
+  }
+
+  async deleteDepartment(companyId: string, departmentId: string): Promise<void> {
+    const response = await this.authorizedFetch(
+      `${this.endpoint}/admin/companies/${companyId}/departments/${departmentId}`,
+      { method: 'DELETE' }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to delete department');
+    }
+  }
+
+  async listPlans(): Promise<PlanSettings[]> {
+    const response = await this.authorizedFetch(`${this.endpoint}/admin/plans`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to list plans');
+    }
+
+    const data = await response.json();
+    return data.plans || [];
+  }
+
+  // null clears a setting (all models / no per-user limit)
+  async updatePlan(plan: OrganizationPlan, updates: {
+    allowedModels?: AIModel[] | null;
+    userMonthlyTokenLimit?: number | null;
+  }): Promise<PlanSettings> {
+    const response = await this.authorizedFetch(`${this.endpoint}/admin/plans/${plan}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(updates),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to update plan');
+    }
+
+    return response.json();
+  }
+
+  async getUsage(query: UsageQuery = {}): Promise<UsageReport> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value) {
+        params.append(key, value);
+      }
+    }
+
+    const response = await this.authorizedFetch(`${this.endpoint}/admin/usage?${params}`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to load usage');
+    }
+
+    return response.json();
+  }
 }
 
 export const apiService = new ApiService();
@@ -36,6 +36,7 @@ export interface ModelInfo {
   category: 'reasoning' | 'balanced' | 'fast' | 'code' | 'multimodal';
   supportsImages: boolean;
   maxTokens: number;
+  contextWindow: number;    // Input and output tokens the model accepts per request
   pricing: ModelPricing;
 }
 
@@ -50,6 +51,7 @@ export const MODEL_CONFIGS: Record<AIModel, ModelInfo> = {
     category: 'reasoning',
     supportsImages: true,
     maxTokens: 4096,
+    contextWindow: 200_000,
     pricing: { input: 15, output: 75 },
   },
   'us.anthropic.claude-sonnet-4-5-20250929-v1:0': {
@@ -60,6 +62,7 @@ export const MODEL_CONFIGS: Record<AIModel, ModelInfo> = {
     category: 'balanced',
     supportsImages: true,
     maxTokens: 4096,
+    contextWindow: 200_000,
     pricing: { input: 3, output: 15 },
   },
   'us.anthropic.claude-haiku-4-5-20251001-v1:0': {
@@ -70,6 +73,7 @@ export const MODEL_CONFIGS: Record<AIModel, ModelInfo> = {
     category: 'fast',
     supportsImages: true,
     maxTokens: 4096,
+    contextWindow: 200_000,
     pricing: { input: 0.8, output: 4 },
   },
 
@@ -82,6 +86,7 @@ export const MODEL_CONFIGS: Record<AIModel, ModelInfo> = {
     category: 'reasoning',
     supportsImages: true,
     maxTokens: 5000,
+    contextWindow: 300_000,
     pricing: { input: 0.8, output: 3.2 },
   },
   'us.amazon.nova-lite-v1:0': {
@@ -92,6 +97,7 @@ export const MODEL_CONFIGS: Record<AIModel, ModelInfo> = {
     category: 'fast',
     supportsImages: true,
     maxTokens: 5000,
+    contextWindow: 300_000,
     pricing: { input: 0.06, output: 0.24 },
   },
 
@@ -104,6 +110,7 @@ export const MODEL_CONFIGS: Record<AIModel, ModelInfo> = {
     category: 'balanced',
     supportsImages: false,
     maxTokens: 4096,
+    contextWindow: 128_000,
     pricing: { input: 0.17, output: 0.17 },
   },
   'us.meta.llama3-3-70b-instruct-v1:0': {
@@ -114,6 +121,7 @@ export const MODEL_CONFIGS: Record<AIModel, ModelInfo> = {
     category: 'reasoning',
     supportsImages: false,
     maxTokens: 4096,
+    contextWindow: 128_000,
     pricing: { input: 0.72, output: 0.72 },
   },
 
@@ -126,6 +134,7 @@ export const MODEL_CONFIGS: Record<AIModel, ModelInfo> = {
     category: 'fast',
     supportsImages: true,
     maxTokens: 8192,
+    contextWindow: 1_048_576,
     pricing: { input: 0.5, output: 3 },
   },
   'gemini-3-pro-preview': {
@@ -136,6 +145,7 @@ export const MODEL_CONFIGS: Record<AIModel, ModelInfo> = {
     category: 'reasoning',
     supportsImages: true,
     maxTokens: 8192,
+    contextWindow: 1_048_576,
     pricing: { input: 2.5, output: 10 },
   },
 };
@@ -159,6 +169,8 @@ export function getModelsByCategory(category: ModelInfo['category']): ModelInfo[
 
 // Default model
 export const DEFAULT_MODEL: AIModel = 'us.anthropic.claude-sonnet-4-5-20250929-v1:0';
+// Names new conversations unless the organization chose another model
+export const DEFAULT_TITLE_MODEL: AIModel = 'us.amazon.nova-lite-v1:0';
 
 // Usage information for tracking costs
 export interface UsageInfo {
@@ -176,6 +188,7 @@ export interface Message {
   model?: AIModel;
   attachments?: FileInfo[];
   usage?: UsageInfo;
+  citations?: Citation[];
 }
 
 export interface FileInfo {
@@ -191,6 +204,11 @@ export interface ChatHistory {
   title: string;
   messages: Message[];
   updatedAt: number;
+  pinned?: boolean;
+  archived?: boolean;
+  folder?: string;
+  tags?: string[];
+  summarizedMessages?: number;  // Leading messages the AI now sees only as a summary
 }
 
 // User roles for multi-tenant hierarchy
@@ -216,9 +234,116 @@ export interface AdminUser {
   organizationId?: string;
   companyId?: string;
   departmentId?: string;
+  disabled: boolean;
   createdAt: string;
 }
 
+// Bulk user import from CSV
+export interface UserImportRow {
+  line: number;         // CSV record number (the header is 1)
+  email: string;
+  name: string;
+  role: string;
+  department?: string;
+  status: 'pending' | 'created' | 'error';
+  userId?: string;
+  temporaryPassword?: string;  // Only returned by the batch that created the user
+  error?: string;
+}
+
+export interface UserImportJob {
+  jobId: string;
+  companyId: string;
+  status: 'in_progress' | 'completed';
+  total: number;
+  created: number;
+  failed: number;
+  rows: UserImportRow[];
+  createdAt: string;
+}
+
+// Tenant hierarchy (organization > company > department)
+export type OrganizationPlan = 'free' | 'starter' | 'business' | 'enterprise';
+
+export interface Organization {
+  organizationId: string;
+  name: string;
+  plan: OrganizationPlan;
+  maxCompanies: number;
+  maxUsersPerCompany: number;
+  monthlyTokenLimit: number;
+  titleModel?: AIModel;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Company {
+  companyId: string;
+  organizationId: string;
+  name: string;
+  maxDepartments: number;
+  maxUsers: number;
+  monthlyTokenLimit?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Department {
+  departmentId: string;
+  companyId: string;
+  organizationId: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Plan settings and monthly token quotas
+export interface PlanSettings {
+  plan: OrganizationPlan;
+  allowedModels?: AIModel[];      // Omitted: all models
+  userMonthlyTokenLimit?: number;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+export type QuotaScope = 'organization' | 'company' | 'user';
+
+export interface QuotaWarning {
+  scope: QuotaScope;
+  used: number;
+  limit: number;
+}
+
+export type UsageGroupBy = 'user' | 'company' | 'department' | 'model' | 'day';
+
+export interface UsageQuery {
+  from?: string;        // YYYY-MM-DD, default: first day of this month
+  to?: string;          // YYYY-MM-DD, default: today
+  groupBy?: UsageGroupBy;
+  organizationId?: string;
+  companyId?: string;
+  userId?: string;
+}
+
+export interface UsageRow {
+  key: string;          // userId, companyId, departmentId, model or date
+  label?: string;       // user, company or department name
+  requestCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;         // USD
+  fileUploads: number;
+  fileStorageBytes: number;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  groupBy: UsageGroupBy;
+  rows: UsageRow[];
+  totals: Omit<UsageRow, 'key' | 'label'>;
+}
+
 // API types
 export interface ChatRequest {
   model: AIModel;
@@ -245,13 +370,35 @@ export interface ChatResponse {
     inputTokens: number;
     outputTokens: number;
   };
+  citations?: Citation[];
+  quotaWarnings?: QuotaWarning[];
+  title?: string;     // Title of a new conversation
+  titlePending?: boolean;  // A generated title replaces it shortly (non-streaming only)
+  summarizedMessages?: number;  // Leading messages sent as a summary rather than verbatim
 }
 
+// A file passage cited in an answer with a [n] marker
+export interface Citation {
+  marker: number;
+  fileId: string;
+  fileName: string;
+  chunkIndex?: number;
+  page?: number;
+  snippet: string;
+}
+
+// Streaming events sent by the chat stream endpoint (SSE)
+export type ChatStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; response: ChatResponse }
+  | { type: 'title'; conversationId: string; title: string }
+  | { type: 'error'; error: string };
+
 // Extended chat request with conversation support
 export interface ExtendedChatRequest extends ChatRequest {
   conversationId?: string;
-  userId?: string;
   fileIds?: string[];
+  connectionIds?: string[];
   saveHistory?: boolean;
 }
 
@@ -260,6 +407,9 @@ export type FileType = 'pdf' | 'docx' | 'txt' | 'csv' | 'xlsx';
 export type FileStatus = 'uploading' | 'processing' | 'ready' | 'error';
 export type FileVisibility = 'private' | 'department' | 'company' | 'organization' | 'system';
 
+// How a file is used in chat (see backend FileCategory)
+export type FileCategory = 'chat_attachment' | 'rag_source' | 'knowledge_base';
+
 export interface UploadedFile {
   fileId: string;
   fileName: string;
@@ -268,22 +418,27 @@ export interface UploadedFile {
   uploadedAt: string;
   fileSize?: number;
   visibility?: FileVisibility;
+  category?: FileCategory;
   userId?: string;
   organizationId?: string;
   companyId?: string;
+  errorMessage?: string;
+  chunkCount?: number;
 }
 
-export interface FileUploadRequest {
+export interface FileUploadUrlRequest {
   fileName: string;
   fileType: FileType;
   mimeType: string;
-  fileData: string;  // base64 encoded
-  userId?: string;
-  userRole?: UserRole;
+  fileSize: number;
   visibility?: FileVisibility;
-  organizationId?: string;
-  companyId?: string;
-  departmentId?: string;
+  category?: FileCategory;
+}
+
+export interface FileUploadUrlResponse {
+  fileId: string;
+  uploadUrl: string;  // presigned S3 PUT URL
+  expiresIn: number;
 }
 
 export interface FileUploadResponse {
@@ -293,6 +448,45 @@ export interface FileUploadResponse {
   uploadedAt: string;
 }
 
+// External database connections (see backend DatabaseConnection)
+export type DatabaseType = 'postgresql' | 'mysql';
+
+export interface DatabaseConnection {
+  connectionId: string;
+  name: string;
+  type: DatabaseType;
+  host: string;
+  port: number;
+  database: string;
+  username: string;
+  ssl: boolean;
+  sslVerify: boolean;
+  sslCa?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface CreateDatabaseConnectionRequest {
+  name: string;
+  type: DatabaseType;
+  host: string;
+  port?: number;
+  database: string;
+  username: string;
+  password: string;
+  ssl?: boolean;
+  sslVerify?: boolean;  // false skips certificate verification
+  sslCa?: string;       // PEM CA bundle, e.g. for Amazon RDS
+}
+
+export interface DatabaseQueryResponse {
+  answer: string;
+  sql: string;
+  columns: string[];
+  rows: (string | number | boolean | null)[][];
+  truncated: boolean;
+}
+
 // Conversation types for backend persistence
 export interface SavedConversation {
   conversationId: string;
@@ -305,6 +499,29 @@ export interface SavedConversation {
   totalInputTokens: number;
   totalOutputTokens: number;
   totalCost: number;
+  pinned?: boolean;
+  archived?: boolean;
+  folder?: string;
+  tags?: string[];
+  summarizedMessages?: number;
+}
+
+// Filters for the conversation list; folder and archived cannot be combined
+export interface ConversationListQuery {
+  limit?: number;
+  nextToken?: string;
+  folder?: string;
+  archived?: boolean;
+  tag?: string;
+}
+
+// PATCH /conversations/{conversationId}; omitted fields are left unchanged
+export interface UpdateConversationRequest {
+  title?: string;
+  pinned?: boolean;
+  archived?: boolean;
+  folder?: string | null;     // null: take out of its folder
+  tags?: string[];
 }
 
 export interface SavedMessage {
@@ -315,5 +532,37 @@ export interface SavedMessage {
   inputTokens?: number;
   outputTokens?: number;
   cost?: number;
+  citations?: Citation[];
   createdAt: string;
 }
+
+// Conversation search (GET /conversations/search)
+export interface ConversationSearchQuery {
+  q: string;
+  from?: string;        // yyyy-mm-dd
+  to?: string;          // yyyy-mm-dd
+  model?: AIModel;
+  limit?: number;
+}
+
+// Matched span of a text, as offsets [start, end)
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface ConversationSearchHit {
+  conversationId: string;
+  title: string;
+  titleHighlights: TextRange[];
+  modelId: AIModel;
+  updatedAt: string;
+  score: number;
+  snippet?: {
+    messageId: string;
+    role: 'user' | 'assistant';
+    createdAt: string;
+    text: string;
+    highlights: TextRange[];
+  };
+}